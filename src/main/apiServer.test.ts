@@ -0,0 +1,162 @@
+// @vitest-environment node
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { request } from 'http';
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+const paths = vi.hoisted(() => ({ userData: '' }));
+
+vi.mock('electron', () => ({
+  app: {
+    getPath: vi.fn(() => paths.userData),
+  },
+}));
+
+import {
+  getApiDiscoveryPath,
+  getApiSocketPath,
+  isAuthorized,
+  publishSessionEvent,
+  startApiServer,
+  stopApiServer,
+  type ApiServerHandlers,
+} from './apiServer';
+
+const TOKEN = 'test-token';
+
+const handlers: ApiServerHandlers = {
+  listSessions: () => [{ sessionId: 's1', model: 'gpt-5', cwd: '/repo', isProcessing: false }],
+  createSession: vi.fn(async ({ cwd }) => ({ sessionId: 's2', model: 'gpt-5', cwd: cwd || '/' })),
+  send: vi.fn(async () => 'message-1'),
+  sendAndWait: vi.fn(async () => 'done'),
+  abort: vi.fn(async () => undefined),
+  getMessages: vi.fn(async () => [{ role: 'user' as const, content: 'hi' }]),
+};
+
+function call(
+  socketPath: string,
+  method: string,
+  path: string,
+  body?: unknown,
+  token: string | null = TOKEN
+): Promise<{ status: number; body: Record<string, unknown> }> {
+  return new Promise((resolve, reject) => {
+    const req = request(
+      {
+        socketPath,
+        method,
+        path,
+        headers: token ? { Authorization: `Bearer ${token}` } : {},
+      },
+      (res) => {
+        let data = '';
+        res.on('data', (chunk) => (data += chunk));
+        res.on('end', () => resolve({ status: res.statusCode || 0, body: JSON.parse(data) }));
+      }
+    );
+    req.on('error', reject);
+    if (body !== undefined) req.write(JSON.stringify(body));
+    req.end();
+  });
+}
+
+describe('getApiSocketPath', () => {
+  it('gives each Windows pipe a per-user, unguessable name', () => {
+    const pipe = getApiSocketPath('win32');
+    expect(pipe).toMatch(/^\\\\\.\\pipe\\cooper-api-[A-Za-z0-9_-]+-[0-9a-f]{16}$/);
+    expect(getApiSocketPath('win32')).not.toBe(pipe);
+  });
+});
+
+describe.skipIf(process.platform === 'win32')('apiServer', () => {
+  let socketPath: string;
+
+  beforeEach(async () => {
+    paths.userData = mkdtempSync(join(tmpdir(), 'api-server-'));
+    const status = await startApiServer(
+      { enabled: true, transport: 'socket', port: 0 },
+      TOKEN,
+      handlers
+    );
+    socketPath = status.address!;
+  });
+
+  afterEach(async () => {
+    await stopApiServer();
+    rmSync(paths.userData, { recursive: true, force: true });
+  });
+
+  it('checks the bearer token', () => {
+    expect(isAuthorized(`Bearer ${TOKEN}`, TOKEN)).toBe(true);
+    expect(isAuthorized('Bearer nope', TOKEN)).toBe(false);
+    expect(isAuthorized(undefined, TOKEN)).toBe(false);
+  });
+
+  it('rejects requests without the token', async () => {
+    const res = await call(socketPath, 'GET', '/v1/sessions', undefined, null);
+    expect(res.status).toBe(401);
+  });
+
+  it('writes a discovery file with the address and token', () => {
+    const discovery = JSON.parse(readFileSync(getApiDiscoveryPath(), 'utf-8'));
+    expect(discovery).toMatchObject({ transport: 'socket', address: socketPath, token: TOKEN });
+  });
+
+  it('routes session operations to the handlers', async () => {
+    expect((await call(socketPath, 'GET', '/v1/sessions')).body.sessions).toHaveLength(1);
+    expect((await call(socketPath, 'POST', '/v1/sessions', { cwd: '/work' })).body).toEqual({
+      sessionId: 's2',
+      model: 'gpt-5',
+      cwd: '/work',
+    });
+
+    const sent = await call(socketPath, 'POST', '/v1/sessions/s1/send', { prompt: 'run tests' });
+    expect(sent).toEqual({ status: 202, body: { messageId: 'message-1' } });
+    expect(handlers.send).toHaveBeenCalledWith(
+      expect.objectContaining({ sessionId: 's1', prompt: 'run tests' })
+    );
+
+    expect((await call(socketPath, 'GET', '/v1/sessions/s1/messages')).body.messages).toEqual([
+      { role: 'user', content: 'hi' },
+    ]);
+  });
+
+  it('returns errors for bad requests and unknown sessions', async () => {
+    expect((await call(socketPath, 'POST', '/v1/sessions/s1/send', {})).status).toBe(400);
+    expect((await call(socketPath, 'POST', '/v1/sessions/missing/abort')).status).toBe(404);
+  });
+
+  it('streams session events to subscribers', async () => {
+    const received = await new Promise<string>((resolve, reject) => {
+      const req = request(
+        {
+          socketPath,
+          path: '/v1/events?sessionId=s1',
+          headers: { Authorization: `Bearer ${TOKEN}` },
+        },
+        (res) => {
+          let data = '';
+          res.on('data', (chunk) => {
+            data += chunk;
+            if (data.includes('event: delta')) {
+              req.destroy();
+              resolve(data);
+            }
+          });
+          // Publish once the stream is open
+          publishSessionEvent('other', { type: 'session.idle' });
+          publishSessionEvent('s1', {
+            type: 'assistant.message_delta',
+            data: { deltaContent: 'Hel' },
+          });
+        }
+      );
+      req.on('error', reject);
+      req.end();
+    });
+
+    expect(received).toContain('event: delta\ndata: {"sessionId":"s1","content":"Hel"}');
+    expect(received).not.toContain('event: idle');
+  });
+});
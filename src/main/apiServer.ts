@@ -0,0 +1,407 @@
+/**
+ * Local API Server
+ *
+ * Opt-in HTTP server that lets scripts and editor tasks drive sessions without the renderer.
+ * It listens on a Unix socket (a named pipe on Windows) or on 127.0.0.1, and every request
+ * must carry the bearer token. Session events are streamed as server-sent events; permission
+ * prompts are still answered in the GUI.
+ *
+ * Endpoints (all JSON):
+ *   GET  /v1/sessions                      list open sessions
+ *   POST /v1/sessions                      { cwd?, model? } -> create a session
+ *   GET  /v1/sessions/:id/messages         message history
+ *   POST /v1/sessions/:id/send             { prompt, attachments?, mode? } -> { messageId }
+ *   POST /v1/sessions/:id/send-and-wait    { prompt, attachments? } -> { content }
+ *   POST /v1/sessions/:id/abort
+ *   GET  /v1/events[?sessionId=]           server-sent event stream
+ */
+
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'http';
+import { randomBytes, timingSafeEqual } from 'crypto';
+import { existsSync, unlinkSync } from 'fs';
+import { rm, writeFile } from 'fs/promises';
+import { userInfo } from 'os';
+import { join } from 'path';
+import { app } from 'electron';
+
+export type ApiServerTransport = 'socket' | 'tcp';
+
+export interface ApiServerConfig {
+  enabled: boolean;
+  transport: ApiServerTransport;
+  port: number; // Only used for the tcp transport
+}
+
+export const DEFAULT_API_SERVER_CONFIG: ApiServerConfig = {
+  enabled: false,
+  transport: 'socket',
+  port: 4319,
+};
+
+export interface ApiServerStatus {
+  running: boolean;
+  transport?: ApiServerTransport;
+  address?: string; // http://127.0.0.1:<port> or the socket path
+  discoveryFile?: string;
+  error?: string;
+}
+
+type Attachment = { type: 'file'; path: string; displayName?: string };
+
+// Session operations, implemented by the main process on top of the same code the IPC
+// handlers use
+export interface ApiServerHandlers {
+  listSessions(): { sessionId: string; model: string; cwd: string; isProcessing: boolean }[];
+  createSession(options: {
+    cwd?: string;
+    model?: string;
+  }): Promise<{ sessionId: string; model: string; cwd: string }>;
+  send(data: {
+    sessionId: string;
+    prompt: string;
+    attachments?: Attachment[];
+    mode?: 'enqueue' | 'immediate';
+  }): Promise<string>;
+  sendAndWait(data: {
+    sessionId: string;
+    prompt: string;
+    attachments?: Attachment[];
+  }): Promise<string>;
+  abort(sessionId: string): Promise<void>;
+  getMessages(sessionId: string): Promise<{ role: 'user' | 'assistant'; content: string }[]>;
+}
+
+export class ApiError extends Error {
+  constructor(
+    public status: number,
+    message: string
+  ) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+const MAX_BODY_BYTES = 1024 * 1024;
+const SSE_KEEPALIVE_MS = 15_000;
+
+interface EventClient {
+  res: ServerResponse;
+  sessionId?: string;
+}
+
+let server: Server | null = null;
+let status: ApiServerStatus = { running: false };
+const eventClients = new Set<EventClient>();
+let keepAliveTimer: NodeJS.Timeout | null = null;
+
+export function generateApiToken(): string {
+  return randomBytes(32).toString('hex');
+}
+
+// Named pipes share one machine-wide namespace, so the pipe name carries the user name and a
+// random part: other users, other instances and other local processes can't take it first. The
+// chosen name is recorded in the discovery file.
+export function getApiSocketPath(platform: NodeJS.Platform = process.platform): string {
+  if (platform === 'win32') {
+    return `\\\\.\\pipe\\cooper-api-${getPipeUserName()}-${randomBytes(8).toString('hex')}`;
+  }
+  return join(app.getPath('userData'), 'cooper-api.sock');
+}
+
+function getPipeUserName(): string {
+  let name = process.env.USERNAME || 'user';
+  try {
+    name = userInfo().username || name;
+  } catch {
+    // No user entry for this process
+  }
+  return name.replace(/[^A-Za-z0-9_-]/g, '_');
+}
+
+// Written on start so scripts can find the address and token; readable by the user only
+export function getApiDiscoveryPath(): string {
+  return join(app.getPath('userData'), 'api-server.json');
+}
+
+export function isAuthorized(header: string | undefined, token: string): boolean {
+  const match = /^Bearer\s+(.+)$/i.exec(header || '');
+  if (!match) return false;
+  const given = Buffer.from(match[1].trim());
+  const expected = Buffer.from(token);
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
+
+function sendJson(res: ServerResponse, statusCode: number, body: unknown): void {
+  res.writeHead(statusCode, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+function readJsonBody(req: IncomingMessage): Promise<Record<string, unknown>> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new ApiError(413, 'Request body too large'));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => {
+      const raw = Buffer.concat(chunks).toString('utf-8').trim();
+      if (!raw) return resolve({});
+      try {
+        const parsed = JSON.parse(raw);
+        if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+          reject(new ApiError(400, 'Request body must be a JSON object'));
+        } else {
+          resolve(parsed as Record<string, unknown>);
+        }
+      } catch {
+        reject(new ApiError(400, 'Invalid JSON body'));
+      }
+    });
+    req.on('error', reject);
+  });
+}
+
+const requirePrompt = (body: Record<string, unknown>): string => {
+  if (typeof body.prompt !== 'string' || !body.prompt.trim()) {
+    throw new ApiError(400, '"prompt" is required');
+  }
+  return body.prompt;
+};
+
+function openEventStream(req: IncomingMessage, res: ServerResponse, sessionId?: string): void {
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+  });
+  res.write(': connected\n\n');
+  const client: EventClient = { res, sessionId };
+  eventClients.add(client);
+  req.on('close', () => eventClients.delete(client));
+}
+
+/**
+ * Route a request to the session handlers. Exported for tests; the server calls it after the
+ * token check.
+ */
+export async function handleApiRequest(
+  req: IncomingMessage,
+  res: ServerResponse,
+  handlers: ApiServerHandlers
+): Promise<void> {
+  const url = new URL(req.url || '/', 'http://localhost');
+  const parts = url.pathname.split('/').filter(Boolean);
+  const method = req.method || 'GET';
+
+  if (parts[0] !== 'v1') throw new ApiError(404, 'Not found');
+
+  if (parts[1] === 'events' && parts.length === 2) {
+    if (method !== 'GET') throw new ApiError(405, 'Method not allowed');
+    openEventStream(req, res, url.searchParams.get('sessionId') || undefined);
+    return;
+  }
+
+  if (parts[1] !== 'sessions') throw new ApiError(404, 'Not found');
+
+  if (parts.length === 2) {
+    if (method === 'GET') {
+      return sendJson(res, 200, { sessions: handlers.listSessions() });
+    }
+    if (method === 'POST') {
+      const body = await readJsonBody(req);
+      const session = await handlers.createSession({
+        cwd: typeof body.cwd === 'string' ? body.cwd : undefined,
+        model: typeof body.model === 'string' ? body.model : undefined,
+      });
+      return sendJson(res, 201, session);
+    }
+    throw new ApiError(405, 'Method not allowed');
+  }
+
+  const sessionId = decodeURIComponent(parts[2]);
+  if (!handlers.listSessions().some((session) => session.sessionId === sessionId)) {
+    throw new ApiError(404, `Session not found: ${sessionId}`);
+  }
+  const action = parts.slice(3).join('/');
+
+  if (action === 'messages' && method === 'GET') {
+    return sendJson(res, 200, { messages: await handlers.getMessages(sessionId) });
+  }
+  if (method !== 'POST') throw new ApiError(405, 'Method not allowed');
+
+  const body = await readJsonBody(req);
+  const attachments = Array.isArray(body.attachments)
+    ? (body.attachments as Attachment[])
+    : undefined;
+  switch (action) {
+    case 'send': {
+      const mode = body.mode === 'enqueue' || body.mode === 'immediate' ? body.mode : undefined;
+      const messageId = await handlers.send({
+        sessionId,
+        prompt: requirePrompt(body),
+        attachments,
+        mode,
+      });
+      return sendJson(res, 202, { messageId });
+    }
+    case 'send-and-wait': {
+      const content = await handlers.sendAndWait({
+        sessionId,
+        prompt: requirePrompt(body),
+        attachments,
+      });
+      return sendJson(res, 200, { content });
+    }
+    case 'abort':
+      await handlers.abort(sessionId);
+      return sendJson(res, 200, { success: true });
+    default:
+      throw new ApiError(404, 'Not found');
+  }
+}
+
+/**
+ * Broadcast an event to connected stream clients, using the same names and payloads as the
+ * renderer IPC channels (without the `copilot:` prefix).
+ */
+export function publishApiEvent(
+  event: string,
+  data: { sessionId: string; [key: string]: unknown }
+): void {
+  if (eventClients.size === 0) return;
+  const frame = `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+  for (const client of eventClients) {
+    if (!client.sessionId || client.sessionId === data.sessionId) {
+      client.res.write(frame);
+    }
+  }
+}
+
+// Map an SDK session event to the renderer event it is forwarded as
+export function publishSessionEvent(
+  sessionId: string,
+  event: { type: string; data?: unknown }
+): void {
+  if (eventClients.size === 0) return;
+  const data = (event.data || {}) as Record<string, unknown>;
+  switch (event.type) {
+    case 'assistant.message_delta':
+      return publishApiEvent('delta', { sessionId, content: data.deltaContent });
+    case 'assistant.message':
+      return publishApiEvent('message', { sessionId, content: data.content });
+    case 'session.idle':
+      return publishApiEvent('idle', { sessionId });
+    case 'tool.execution_start':
+      return publishApiEvent('tool-start', {
+        sessionId,
+        toolCallId: data.toolCallId,
+        toolName: data.toolName,
+        input: data.arguments || data,
+      });
+    case 'tool.execution_complete':
+      return publishApiEvent('tool-end', {
+        sessionId,
+        toolCallId: data.toolCallId,
+        toolName: data.toolName,
+        input: data.arguments || data,
+        output: (data.result as { content?: unknown } | undefined)?.content || data.output,
+      });
+    case 'session.error':
+      return publishApiEvent('error', {
+        sessionId,
+        message: (data.message as string) || JSON.stringify(data),
+      });
+    case 'subagent.started':
+    case 'subagent.completed':
+    case 'subagent.failed':
+      return publishApiEvent(event.type.replace('.', '-'), { sessionId, ...data });
+    default:
+      return;
+  }
+}
+
+export function getApiServerStatus(): ApiServerStatus {
+  return status;
+}
+
+export async function stopApiServer(): Promise<void> {
+  if (keepAliveTimer) {
+    clearInterval(keepAliveTimer);
+    keepAliveTimer = null;
+  }
+  for (const client of eventClients) client.res.end();
+  eventClients.clear();
+  if (server) {
+    const closing = server;
+    server = null;
+    await new Promise<void>((resolve) => closing.close(() => resolve()));
+  }
+  await rm(getApiDiscoveryPath(), { force: true });
+  status = { running: false };
+}
+
+export async function startApiServer(
+  config: ApiServerConfig,
+  token: string,
+  handlers: ApiServerHandlers
+): Promise<ApiServerStatus> {
+  await stopApiServer();
+
+  const httpServer = createServer((req, res) => {
+    if (!isAuthorized(req.headers.authorization, token)) {
+      sendJson(res, 401, { error: 'Missing or invalid token' });
+      return;
+    }
+    handleApiRequest(req, res, handlers).catch((error) => {
+      const statusCode = error instanceof ApiError ? error.status : 500;
+      const message = error instanceof Error ? error.message : String(error);
+      if (!res.headersSent) {
+        sendJson(res, statusCode, { error: message });
+      } else {
+        res.end();
+      }
+    });
+  });
+
+  const socketPath = getApiSocketPath();
+  if (config.transport === 'socket' && process.platform !== 'win32' && existsSync(socketPath)) {
+    // Stale socket from a previous run
+    unlinkSync(socketPath);
+  }
+
+  try {
+    await new Promise<void>((resolve, reject) => {
+      httpServer.once('error', reject);
+      if (config.transport === 'socket') {
+        httpServer.listen(socketPath, () => resolve());
+      } else {
+        httpServer.listen(config.port, '127.0.0.1', () => resolve());
+      }
+    });
+  } catch (error) {
+    status = { running: false, error: error instanceof Error ? error.message : String(error) };
+    return status;
+  }
+
+  server = httpServer;
+  keepAliveTimer = setInterval(() => {
+    for (const client of eventClients) client.res.write(': keep-alive\n\n');
+  }, SSE_KEEPALIVE_MS);
+
+  const address = config.transport === 'socket' ? socketPath : `http://127.0.0.1:${config.port}`;
+  const discoveryFile = getApiDiscoveryPath();
+  await writeFile(
+    discoveryFile,
+    JSON.stringify({ transport: config.transport, address, token, pid: process.pid }, null, 2),
+    { encoding: 'utf-8', mode: 0o600 }
+  );
+
+  status = { running: true, transport: config.transport, address, discoveryFile };
+  return status;
+}
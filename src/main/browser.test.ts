@@ -0,0 +1,65 @@
+// @vitest-environment node
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { existsSync, mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+const paths = vi.hoisted(() => ({ userData: '' }));
+
+vi.mock('electron', () => ({
+  app: { getPath: vi.fn(() => paths.userData) },
+}));
+
+vi.mock('electron-log/main', () => ({
+  default: { info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+}));
+
+import {
+  clearBrowserProfile,
+  createBrowserProfile,
+  deleteBrowserProfile,
+  getSessionBrowserProfile,
+  setSessionBrowserProfile,
+} from './browser';
+
+describe('browser profiles', () => {
+  let root: string;
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), 'browser-profiles-'));
+    paths.userData = join(root, 'userData');
+    mkdirSync(paths.userData);
+  });
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it('creates, selects and clears named profiles', async () => {
+    await createBrowserProfile('work');
+    const statePath = join(paths.userData, 'browser-data', 'profiles', 'work.json');
+    expect(existsSync(statePath)).toBe(true);
+
+    await setSessionBrowserProfile('session-1', 'work');
+    expect(getSessionBrowserProfile('session-1')).toBe('work');
+
+    writeFileSync(statePath, JSON.stringify({ cookies: [{ name: 'sid' }], origins: [] }));
+    await clearBrowserProfile('work');
+    expect(JSON.parse(readFileSync(statePath, 'utf-8'))).toEqual({ cookies: [], origins: [] });
+
+    await deleteBrowserProfile('work');
+    expect(getSessionBrowserProfile('session-1')).toBe('default');
+  });
+
+  it('rejects profile names that would resolve outside the profiles folder', async () => {
+    const configPath = join(paths.userData, 'config.json');
+    writeFileSync(configPath, '{"keep":true}');
+
+    await expect(clearBrowserProfile('../../config')).rejects.toThrow('does not exist');
+    await expect(setSessionBrowserProfile('session-1', '../../config')).rejects.toThrow(
+      'does not exist'
+    );
+    await expect(deleteBrowserProfile('../../config')).rejects.toThrow('does not exist');
+    expect(readFileSync(configPath, 'utf-8')).toBe('{"keep":true}');
+  });
+});
@@ -5,16 +5,29 @@
  * Sessions persist cookies, localStorage, and other browser state between runs
  * so users don't need to re-login each time.
  *
+ * Browser state is kept per profile. Every session uses the "default" profile unless it selects
+ * a named one (e.g. "admin" and "regular-user" side by side) or "incognito", which gives the
+ * session its own throwaway context that is never saved.
+ *
  * Playwright is lazy-loaded on first use to improve app startup time.
  */
 
 import { app } from 'electron';
 import { join } from 'path';
-import { existsSync, mkdirSync, readFileSync } from 'fs';
+import { existsSync, mkdirSync, readFileSync, readdirSync, unlinkSync, writeFileSync } from 'fs';
 import log from 'electron-log/main';
+import { attachPageCapture } from './browserCapture';
+import {
+  SNAPSHOT_REF_ATTRIBUTE,
+  type CollectedSnapshot,
+  type SnapshotRefTarget,
+  collectPageSnapshot,
+  isSnapshotRef,
+  snapshotRefSelector,
+} from './browserSnapshot';
 
 // Lazy-loaded Playwright types (import type is free - doesn't load the module)
-import type { Browser, BrowserContext, Page } from 'playwright';
+import type { Browser, BrowserContext, CDPSession, Page } from 'playwright';
 
 // Playwright module - lazy loaded on first use
 let playwrightModule: typeof import('playwright') | null = null;
@@ -31,11 +44,24 @@ async function getPlaywright(): Promise<typeof import('playwright')> {
 
 // Browser session manager - singleton
 let browserInstance: Browser | null = null;
-let browserContext: BrowserContext | null = null;
+
+export const DEFAULT_PROFILE = 'default';
+export const INCOGNITO_PROFILE = 'incognito';
+
+const PROFILE_NAME_PATTERN = /^[a-z0-9][a-z0-9_-]{0,39}$/i;
+
+// Contexts keyed by profile name; incognito contexts are keyed per session (see getContextKey)
+const browserContexts = new Map<string, BrowserContext>();
+
+// Map of sessionId -> selected profile, for sessions not using the default profile
+const sessionProfiles = new Map<string, string>();
 
 // Map of sessionId -> Page for each Copilot session
 const sessionPages = new Map<string, Page>();
 
+// Map of sessionId -> document id and refs of its last browser_snapshot
+const snapshots = new Map<string, Pick<CollectedSnapshot, 'documentId' | 'refs'>>();
+
 // Path to store persistent browser data (cookies, localStorage, etc.)
 const getBrowserDataPath = (): string => {
   const dataPath = join(app.getPath('userData'), 'browser-data');
@@ -45,6 +71,51 @@ const getBrowserDataPath = (): string => {
   return dataPath;
 };
 
+const getProfilesPath = (): string => {
+  const profilesPath = join(getBrowserDataPath(), 'profiles');
+  if (!existsSync(profilesPath)) {
+    mkdirSync(profilesPath, { recursive: true });
+  }
+  return profilesPath;
+};
+
+// The default profile keeps the original storage-state.json so existing logins carry over
+const getStorageStatePath = (profile: string): string =>
+  profile === DEFAULT_PROFILE
+    ? join(getBrowserDataPath(), 'storage-state.json')
+    : join(getProfilesPath(), `${profile}.json`);
+
+// Each incognito session gets its own context so incognito sessions don't share cookies either
+const getContextKey = (sessionId: string): string => {
+  const profile = getSessionBrowserProfile(sessionId);
+  return profile === INCOGNITO_PROFILE ? `${INCOGNITO_PROFILE}:${sessionId}` : profile;
+};
+
+const isIncognitoKey = (key: string): boolean => key.startsWith(`${INCOGNITO_PROFILE}:`);
+
+interface StorageStateStats {
+  cookieCount: number;
+  originCount: number;
+  domainCount: number;
+}
+
+function readStorageStateStats(storageStatePath: string): StorageStateStats {
+  const stats = { cookieCount: 0, originCount: 0, domainCount: 0 };
+  if (!existsSync(storageStatePath)) return stats;
+  try {
+    const stateContent = JSON.parse(readFileSync(storageStatePath, 'utf-8'));
+    const uniqueDomains = new Set(
+      stateContent.cookies?.map((c: { domain: string }) => c.domain) || []
+    );
+    stats.cookieCount = stateContent.cookies?.length || 0;
+    stats.originCount = stateContent.origins?.length || 0;
+    stats.domainCount = uniqueDomains.size;
+  } catch (e) {
+    log.info(`[Browser] Could not parse storageState ${storageStatePath}: ${e}`);
+  }
+  return stats;
+}
+
 /**
  * Get or create the shared browser instance
  */
@@ -67,88 +138,89 @@ async function getBrowser(): Promise<Browser> {
   browserInstance.on('disconnected', () => {
     log.info('[Browser] Browser disconnected event fired');
     browserInstance = null;
-    browserContext = null;
+    browserContexts.clear();
     sessionPages.clear();
+    screencasts.clear();
   });
 
   return browserInstance;
 }
 
 /**
- * Get or create the persistent browser context
- * This context stores cookies, localStorage, etc. and persists between sessions
+ * Get or create the browser context for a profile
+ * Persistent profiles load their saved cookies, localStorage, etc.; incognito contexts start empty
  */
-async function getBrowserContext(): Promise<BrowserContext> {
-  if (browserContext) {
-    log.info('[Browser] Reusing existing browser context');
-    return browserContext;
+async function getBrowserContext(key: string): Promise<BrowserContext> {
+  const existing = browserContexts.get(key);
+  if (existing) {
+    log.info(`[Browser] Reusing existing browser context: ${key}`);
+    return existing;
   }
 
   const browser = await getBrowser();
-  const userDataPath = getBrowserDataPath();
-  const storageStatePath = join(userDataPath, 'storage-state.json');
-  const hasStorageState = existsSync(storageStatePath);
+  const storageStatePath = isIncognitoKey(key) ? null : getStorageStatePath(key);
+  const hasStorageState = !!storageStatePath && existsSync(storageStatePath);
 
-  log.info(`[Browser] Creating new browser context, storageState exists: ${hasStorageState}`);
+  log.info(`[Browser] Creating browser context ${key}, storageState exists: ${hasStorageState}`);
 
-  // Debug: check storage state content
-  if (hasStorageState) {
-    try {
-      const stateContent = JSON.parse(readFileSync(storageStatePath, 'utf-8'));
-      const cookieCount = stateContent.cookies?.length || 0;
-      const originCount = stateContent.origins?.length || 0;
-      const uniqueDomains = new Set(
-        stateContent.cookies?.map((c: { domain: string }) => c.domain) || []
-      );
-      log.info(
-        `[Browser] StorageState has ${cookieCount} cookies from ${uniqueDomains.size} unique domains, ${originCount} origins`
-      );
-    } catch (e) {
-      log.info(`[Browser] Could not parse storageState: ${e}`);
-    }
+  if (storageStatePath && hasStorageState) {
+    const stats = readStorageStateStats(storageStatePath);
+    log.info(
+      `[Browser] StorageState has ${stats.cookieCount} cookies from ${stats.domainCount} unique domains, ${stats.originCount} origins`
+    );
   }
 
-  log.info('[Browser] About to call browser.newContext()...');
-  log.info(`[Browser] Using storageState: ${hasStorageState}`);
-
-  browserContext = await browser.newContext({
+  const context = await browser.newContext({
     // Keep UA platform-neutral to avoid Windows-specific detection issues.
     userAgent:
       'Mozilla/5.0 (X11; Linux x86_64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
     viewport: { width: 1280, height: 800 },
-    storageState: hasStorageState ? storageStatePath : undefined,
+    storageState: hasStorageState ? storageStatePath! : undefined,
   });
-  log.info('[Browser] browser.newContext() completed');
+  log.info(`[Browser] browser.newContext() completed for ${key}`);
+  browserContexts.set(key, context);
 
   // Log when pages are created in this context
-  browserContext.on('page', (page) => {
-    log.info(`[Browser] New page created in context, URL: ${page.url()}`);
+  context.on('page', (page) => {
+    log.info(`[Browser] New page created in context ${key}, URL: ${page.url()}`);
     page.on('close', () => {
       log.info(`[Browser] Page closed, URL was: ${page.url()}`);
     });
   });
 
-  // Save storage state periodically
-  browserContext.on('close', async () => {
-    log.info('[Browser] Browser context closed event fired');
-    browserContext = null;
+  context.on('close', () => {
+    log.info(`[Browser] Browser context closed event fired: ${key}`);
+    if (browserContexts.get(key) === context) browserContexts.delete(key);
   });
 
-  return browserContext;
+  return context;
+}
+
+// Close a context without saving it (its pages close with it)
+async function closeBrowserContext(key: string): Promise<void> {
+  const context = browserContexts.get(key);
+  if (!context) return;
+  browserContexts.delete(key);
+  try {
+    await context.close();
+  } catch (e) {
+    log.info(`[Browser] Error closing browser context ${key}: ${e}`);
+  }
 }
 
 /**
- * Save the current browser session state (cookies, localStorage, etc.)
+ * Save the current browser session state (cookies, localStorage, etc.) of every open
+ * persistent profile
  */
 export async function saveBrowserState(): Promise<void> {
-  if (!browserContext) return;
-
-  try {
-    const userDataPath = getBrowserDataPath();
-    await browserContext.storageState({ path: join(userDataPath, 'storage-state.json') });
-    log.info('Browser state saved');
-  } catch (error) {
-    log.error('Failed to save browser state:', error);
+  for (const [key, context] of browserContexts) {
+    if (isIncognitoKey(key)) continue;
+    try {
+      await context.storageState({ path: getStorageStatePath(key) });
+      log.info(`Browser state saved for profile: ${key}`);
+    } catch (error) {
+      log.error(`Failed to save browser state for profile ${key}:`, error);
+    }
   }
 }
 
@@ -173,17 +245,38 @@ export async function getSessionPage(sessionId: string): Promise<Page> {
   }
 
   log.info(`[Browser] Creating new page for session: ${sessionId}`);
-  const context = await getBrowserContext();
+  const contextKey = getContextKey(sessionId);
+  const context = await getBrowserContext(contextKey);
   const page = await context.newPage();
   log.info(`[Browser] New page created for session: ${sessionId}, URL: ${page.url()}`);
 
   page.on('close', () => {
     log.info(`[Browser] Page close event for session: ${sessionId}`);
     sessionPages.delete(sessionId);
+    screencasts.delete(sessionId);
+    snapshots.delete(sessionId);
+    updateViewportState(sessionId, { hasPage: false, url: '', title: '', userInControl: false });
+    // Nothing in an incognito context outlives its page
+    if (isIncognitoKey(contextKey)) closeBrowserContext(contextKey);
+  });
+  page.on('framenavigated', (frame) => {
+    if (frame === page.mainFrame()) updateViewportState(sessionId, { url: frame.url() });
+  });
+  page.on('load', () => {
+    page
+      .title()
+      .then((title) => updateViewportState(sessionId, { title }))
+      .catch(() => {});
   });
 
+  attachPageCapture(sessionId, page);
+
   sessionPages.set(sessionId, page);
   log.info(`[Browser] Page registered for session: ${sessionId}`);
+  updateViewportState(sessionId, { hasPage: true, url: page.url() });
+  if (viewportWatchers.has(sessionId)) {
+    await startScreencast(sessionId, page);
+  }
 
   return page;
 }
@@ -222,15 +315,9 @@ export async function closeBrowser(): Promise<void> {
     sessionPages.delete(sessionId);
   }
 
-  if (browserContext) {
-    try {
-      log.info('[Browser] Closing browser context');
-      await browserContext.close();
-      log.info('[Browser] Browser context closed');
-    } catch (e) {
-      log.info(`[Browser] Error closing browser context: ${e}`);
-    }
-    browserContext = null;
+  for (const key of Array.from(browserContexts.keys())) {
+    log.info(`[Browser] Closing browser context: ${key}`);
+    await closeBrowserContext(key);
   }
 
   if (browserInstance) {
@@ -261,6 +348,318 @@ export function getActiveBrowserSessions(): string[] {
   return Array.from(sessionPages.keys());
 }
 
+// --- Profiles ---
+
+export interface BrowserProfileInfo {
+  name: string;
+  ephemeral: boolean; // Incognito: state is never written to disk
+  cookieCount: number;
+  originCount: number;
+  domainCount: number;
+  sessionIds: string[]; // Sessions that selected this profile
+}
+
+export function getSessionBrowserProfile(sessionId: string): string {
+  return sessionProfiles.get(sessionId) || DEFAULT_PROFILE;
+}
+
+// Names are checked before a path is built from them, so "../x" can't reach other files
+function profileExists(profile: string): boolean {
+  if (profile === DEFAULT_PROFILE || profile === INCOGNITO_PROFILE) return true;
+  return PROFILE_NAME_PATTERN.test(profile) && existsSync(getStorageStatePath(profile));
+}
+
+/**
+ * Select the profile a session's browser uses. A page already open in another profile is closed,
+ * so the next browser tool call opens one in the new profile.
+ */
+export async function setSessionBrowserProfile(sessionId: string, profile: string): Promise<void> {
+  if (!profileExists(profile)) {
+    throw new Error(`Browser profile "${profile}" does not exist`);
+  }
+  const previousKey = getContextKey(sessionId);
+  if (profile === DEFAULT_PROFILE) {
+    sessionProfiles.delete(sessionId);
+  } else {
+    sessionProfiles.set(sessionId, profile);
+  }
+  if (getContextKey(sessionId) !== previousKey && sessionPages.has(sessionId)) {
+    log.info(`[Browser] Session ${sessionId} switched to profile ${profile}, closing its page`);
+    await closeSessionPage(sessionId);
+  }
+}
+
+/**
+ * List profiles with what they have stored. Open contexts are saved first so counts are current.
+ */
+export async function listBrowserProfiles(): Promise<BrowserProfileInfo[]> {
+  await saveBrowserState();
+
+  const named = readdirSync(getProfilesPath())
+    .filter((file) => file.endsWith('.json'))
+    .map((file) => file.slice(0, -'.json'.length))
+    .filter((name) => PROFILE_NAME_PATTERN.test(name))
+    .sort((a, b) => a.localeCompare(b));
+
+  const sessionsUsing = (profile: string) =>
+    Array.from(new Set([...sessionPages.keys(), ...sessionProfiles.keys()])).filter(
+      (sessionId) => getSessionBrowserProfile(sessionId) === profile
+    );
+
+  return [
+    ...[DEFAULT_PROFILE, ...named].map((name) => ({
+      name,
+      ephemeral: false,
+      ...readStorageStateStats(getStorageStatePath(name)),
+      sessionIds: sessionsUsing(name),
+    })),
+    {
+      name: INCOGNITO_PROFILE,
+      ephemeral: true,
+      cookieCount: 0,
+      originCount: 0,
+      domainCount: 0,
+      sessionIds: sessionsUsing(INCOGNITO_PROFILE),
+    },
+  ];
+}
+
+export async function createBrowserProfile(name: string): Promise<void> {
+  const profile = name.trim();
+  if (!PROFILE_NAME_PATTERN.test(profile)) {
+    throw new Error(
+      'Profile names may use letters, numbers, "-" and "_" (up to 40 characters) and must start with a letter or number'
+    );
+  }
+  if (profileExists(profile)) {
+    throw new Error(`Browser profile "${profile}" already exists`);
+  }
+  writeFileSync(getStorageStatePath(profile), JSON.stringify({ cookies: [], origins: [] }));
+  log.info(`[Browser] Created browser profile: ${profile}`);
+}
+
+/**
+ * Forget everything a profile has stored. Pages open in it are closed; sessions keep the profile
+ * and start signed out on their next browser tool call.
+ */
+export async function clearBrowserProfile(profile: string): Promise<void> {
+  if (!profileExists(profile)) {
+    throw new Error(`Browser profile "${profile}" does not exist`);
+  }
+  if (profile === INCOGNITO_PROFILE) {
+    for (const key of Array.from(browserContexts.keys()).filter(isIncognitoKey)) {
+      await closeBrowserContext(key);
+    }
+    return;
+  }
+  await closeBrowserContext(profile);
+  writeFileSync(getStorageStatePath(profile), JSON.stringify({ cookies: [], origins: [] }));
+  log.info(`[Browser] Cleared browser profile: ${profile}`);
+}
+
+/**
+ * Delete a named profile. Sessions that selected it go back to the default profile.
+ */
+export async function deleteBrowserProfile(profile: string): Promise<void> {
+  if (profile === DEFAULT_PROFILE || profile === INCOGNITO_PROFILE) {
+    throw new Error(`The ${profile} profile can't be deleted`);
+  }
+  if (!profileExists(profile)) {
+    throw new Error(`Browser profile "${profile}" does not exist`);
+  }
+  await closeBrowserContext(profile);
+  unlinkSync(getStorageStatePath(profile));
+  for (const [sessionId, selected] of sessionProfiles) {
+    if (selected === profile) sessionProfiles.delete(sessionId);
+  }
+  log.info(`[Browser] Deleted browser profile: ${profile}`);
+}
+
+// --- Live Viewport ---
+
+export interface BrowserViewportState {
+  sessionId: string;
+  hasPage: boolean;
+  url: string;
+  title: string;
+  lastAction?: { description: string; at: string }; // Last browser tool the agent ran
+  userInControl: boolean; // While true, browser tools refuse to act
+}
+
+export type BrowserViewportEvent =
+  | { type: 'frame'; sessionId: string; data: string; width: number; height: number }
+  | { type: 'state'; state: BrowserViewportState };
+
+export type BrowserViewportInput =
+  | { type: 'click'; x: number; y: number; button?: 'left' | 'right' | 'middle' }
+  | { type: 'scroll'; deltaX: number; deltaY: number }
+  | { type: 'key'; key: string } // Playwright key name, e.g. "Enter" or "Control+a"
+  | { type: 'text'; text: string };
+
+const viewportListeners = new Set<(event: BrowserViewportEvent) => void>();
+const viewportStates = new Map<string, BrowserViewportState>();
+// Sessions with an open viewport panel; only these get a screencast
+const viewportWatchers = new Set<string>();
+const screencasts = new Map<string, CDPSession>();
+
+/**
+ * Subscribe to viewport frames and page state changes for all sessions
+ */
+export function onViewportEvent(listener: (event: BrowserViewportEvent) => void): () => void {
+  viewportListeners.add(listener);
+  return () => viewportListeners.delete(listener);
+}
+
+function emitViewportEvent(event: BrowserViewportEvent): void {
+  for (const listener of viewportListeners) {
+    try {
+      listener(event);
+    } catch (error) {
+      log.error('[Browser] Viewport listener failed:', error);
+    }
+  }
+}
+
+export function getViewportState(sessionId: string): BrowserViewportState {
+  return (
+    viewportStates.get(sessionId) || {
+      sessionId,
+      hasPage: sessionPages.has(sessionId),
+      url: sessionPages.get(sessionId)?.url() || '',
+      title: '',
+      userInControl: false,
+    }
+  );
+}
+
+function updateViewportState(
+  sessionId: string,
+  patch: Partial<Omit<BrowserViewportState, 'sessionId'>>
+): BrowserViewportState {
+  const state = { ...getViewportState(sessionId), ...patch };
+  viewportStates.set(sessionId, state);
+  emitViewportEvent({ type: 'state', state });
+  return state;
+}
+
+/**
+ * Record what the agent just did, for display in the viewport panel
+ */
+export function recordBrowserAction(sessionId: string, description: string): void {
+  updateViewportState(sessionId, {
+    lastAction: { description, at: new Date().toISOString() },
+  });
+}
+
+async function startScreencast(sessionId: string, page: Page): Promise<void> {
+  if (screencasts.has(sessionId)) return;
+  try {
+    const cdp = await page.context().newCDPSession(page);
+    screencasts.set(sessionId, cdp);
+    cdp.on('Page.screencastFrame', (frame) => {
+      emitViewportEvent({
+        type: 'frame',
+        sessionId,
+        data: frame.data,
+        width: frame.metadata.deviceWidth,
+        height: frame.metadata.deviceHeight,
+      });
+      cdp.send('Page.screencastFrameAck', { sessionId: frame.sessionId }).catch(() => {});
+    });
+    await cdp.send('Page.startScreencast', {
+      format: 'jpeg',
+      quality: 70,
+      maxWidth: 1280,
+      maxHeight: 800,
+    });
+    log.info(`[Browser] Screencast started for session: ${sessionId}`);
+  } catch (error) {
+    screencasts.delete(sessionId);
+    log.error(`[Browser] Failed to start screencast for session ${sessionId}:`, error);
+  }
+}
+
+async function stopScreencast(sessionId: string): Promise<void> {
+  const cdp = screencasts.get(sessionId);
+  if (!cdp) return;
+  screencasts.delete(sessionId);
+  try {
+    await cdp.send('Page.stopScreencast');
+    await cdp.detach();
+  } catch {
+    // Page already closed
+  }
+}
+
+/**
+ * Start streaming a session's page to the viewport panel. If the agent hasn't opened a page
+ * yet, streaming starts when it does.
+ */
+export async function startViewport(sessionId: string): Promise<BrowserViewportState> {
+  viewportWatchers.add(sessionId);
+  const page = sessionPages.get(sessionId);
+  if (page) {
+    await startScreencast(sessionId, page);
+  }
+  return getViewportState(sessionId);
+}
+
+export async function stopViewport(sessionId: string): Promise<void> {
+  viewportWatchers.delete(sessionId);
+  await stopScreencast(sessionId);
+}
+
+/**
+ * Hand the page to the user (browser tools refuse to act) or back to the agent
+ */
+export function setUserControl(sessionId: string, inControl: boolean): BrowserViewportState {
+  log.info(`[Browser] User ${inControl ? 'took' : 'handed back'} control for: ${sessionId}`);
+  return updateViewportState(sessionId, { userInControl: inControl });
+}
+
+export function isUserInControl(sessionId: string): boolean {
+  return viewportStates.get(sessionId)?.userInControl === true;
+}
+
+/**
+ * Replay a click, scroll or keystroke from the viewport panel while the user has control.
+ * Coordinates are in page (CSS pixel) space.
+ */
+export async function sendViewportInput(
+  sessionId: string,
+  input: BrowserViewportInput
+): Promise<BrowserActionResult> {
+  if (!isUserInControl(sessionId)) {
+    return { success: false, message: 'Take control of the browser first' };
+  }
+  const page = sessionPages.get(sessionId);
+  if (!page) {
+    return { success: false, message: 'No browser page is open for this session' };
+  }
+  try {
+    switch (input.type) {
+      case 'click':
+        await page.mouse.click(input.x, input.y, { button: input.button || 'left' });
+        break;
+      case 'scroll':
+        await page.mouse.wheel(input.deltaX, input.deltaY);
+        break;
+      case 'key':
+        await page.keyboard.press(input.key);
+        break;
+      case 'text':
+        await page.keyboard.insertText(input.text);
+        break;
+    }
+    return { success: true };
+  } catch (error) {
+    return {
+      success: false,
+      message: `Input failed: ${error instanceof Error ? error.message : String(error)}`,
+    };
+  }
+}
+
 // --- Browser Automation Actions ---
 
 export interface BrowserActionResult {
@@ -393,6 +792,21 @@ export async function takeScreenshot(
   }
 }
 
+/**
+ * Capture a PNG of the page along with its URL and viewport size, for visual baselines
+ */
+export async function capturePageImage(
+  sessionId: string,
+  fullPage = false
+): Promise<{ png: Buffer; url: string; viewport: { width: number; height: number } }> {
+  const page = await getSessionPage(sessionId);
+  const viewport =
+    page.viewportSize() ||
+    (await page.evaluate(() => ({ width: window.innerWidth, height: window.innerHeight })));
+  const png = await page.screenshot({ fullPage, type: 'png', animations: 'disabled' });
+  return { png, url: page.url(), viewport };
+}
+
 /**
  * Get text content from an element or the whole page
  */
@@ -722,3 +1136,142 @@ export async function getFormInputs(sessionId: string): Promise<BrowserActionRes
     };
   }
 }
+
+// --- Accessibility Snapshot ---
+
+const SNAPSHOT_MAX_LINES = 600;
+const SNAPSHOT_MAX_TEXT_LENGTH = 100;
+
+/**
+ * Get a compact accessibility outline of the page with refs for interactive elements
+ */
+export async function snapshotPage(sessionId: string): Promise<BrowserActionResult> {
+  try {
+    const page = await getSessionPage(sessionId);
+    const snapshot = await page.evaluate(collectPageSnapshot, {
+      refAttribute: SNAPSHOT_REF_ATTRIBUTE,
+      maxLines: SNAPSHOT_MAX_LINES,
+      maxTextLength: SNAPSHOT_MAX_TEXT_LENGTH,
+    });
+    snapshots.set(sessionId, { documentId: snapshot.documentId, refs: snapshot.refs });
+
+    const title = await page.title();
+    const lines = [`Page: "${title}" (${page.url()})`, ...snapshot.lines];
+    if (snapshot.truncated) {
+      lines.push(
+        `... snapshot truncated at ${SNAPSHOT_MAX_LINES} lines; use browser_get_text or scroll for the rest`
+      );
+    }
+    return { success: true, message: lines.join('\n') };
+  } catch (error) {
+    return {
+      success: false,
+      message: `Snapshot failed: ${error instanceof Error ? error.message : String(error)}`,
+    };
+  }
+}
+
+// Find the element behind a snapshot ref, refusing refs from a document the page has left
+async function resolveSnapshotRef(sessionId: string, ref: string) {
+  if (!isSnapshotRef(ref)) {
+    throw new Error(`"${ref}" is not a snapshot ref (expected e.g. "e12")`);
+  }
+  const page = await getSessionPage(sessionId);
+  const documentId = await page.evaluate(
+    () => (window as unknown as { __cooperSnapshotDoc?: string }).__cooperSnapshotDoc
+  );
+  if (!documentId || documentId !== snapshots.get(sessionId)?.documentId) {
+    throw new Error('The page has changed since the last snapshot. Take a new browser_snapshot.');
+  }
+  const locator = page.locator(snapshotRefSelector(ref));
+  if ((await locator.count()) === 0) {
+    throw new Error(`Element ${ref} is no longer on the page. Take a new browser_snapshot.`);
+  }
+  return locator.first();
+}
+
+/**
+ * Role and accessible name of the element a ref pointed at in the last snapshot
+ */
+export function getSnapshotRefTarget(
+  sessionId: string,
+  ref: string
+): SnapshotRefTarget | undefined {
+  return snapshots.get(sessionId)?.refs[ref];
+}
+
+/**
+ * Whether a selector matches an <input type="password">, so the recorder can keep its value out
+ */
+export async function isPasswordField(sessionId: string, selector: string): Promise<boolean> {
+  try {
+    const page = await getSessionPage(sessionId);
+    return await page
+      .locator(selector)
+      .first()
+      .evaluate((el) => el instanceof HTMLInputElement && el.type === 'password', undefined, {
+        timeout: 2000,
+      });
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Click an element by its snapshot ref
+ */
+export async function clickRef(sessionId: string, ref: string): Promise<BrowserActionResult> {
+  try {
+    const element = await resolveSnapshotRef(sessionId, ref);
+    await element.click({ timeout: 10000 });
+    return { success: true, message: `Clicked element ${ref}` };
+  } catch (error) {
+    return {
+      success: false,
+      message: `Click failed: ${error instanceof Error ? error.message : String(error)}`,
+    };
+  }
+}
+
+/**
+ * Fill a text field by its snapshot ref
+ */
+export async function fillRef(
+  sessionId: string,
+  ref: string,
+  value: string
+): Promise<BrowserActionResult> {
+  try {
+    const element = await resolveSnapshotRef(sessionId, ref);
+    await element.fill(value, { timeout: 10000 });
+    return { success: true, message: `Filled ${ref} with value` };
+  } catch (error) {
+    return {
+      success: false,
+      message: `Fill failed: ${error instanceof Error ? error.message : String(error)}`,
+    };
+  }
+}
+
+/**
+ * Select options in a dropdown by its snapshot ref (matched by value or label)
+ */
+export async function selectRef(
+  sessionId: string,
+  ref: string,
+  values: string[]
+): Promise<BrowserActionResult> {
+  try {
+    const element = await resolveSnapshotRef(sessionId, ref);
+    const selected = await element.selectOption(values, { timeout: 10000 });
+    return {
+      success: true,
+      message: `Selected ${selected.map((v) => `"${v}"`).join(', ')} in ${ref}`,
+    };
+  } catch (error) {
+    return {
+      success: false,
+      message: `Select failed: ${error instanceof Error ? error.message : String(error)}`,
+    };
+  }
+}
@@ -0,0 +1,144 @@
+// @vitest-environment node
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  buildHar,
+  clearBrowserCapture,
+  formatConsoleEntries,
+  formatNetworkEntries,
+  getConsoleEntries,
+  getNetworkEntries,
+  recordConsoleEntry,
+  redactBody,
+  startNetworkEntry,
+} from './browserCapture';
+
+const SESSION = 'session-1';
+
+const request = (method: string, url: string, resourceType = 'fetch') => ({
+  startedAt: '2026-01-01T10:00:00.000Z',
+  method,
+  url,
+  resourceType,
+  requestHeaders: { accept: '*/*' },
+});
+
+describe('browserCapture', () => {
+  beforeEach(() => {
+    clearBrowserCapture(SESSION);
+    clearBrowserCapture('session-2');
+  });
+
+  it('filters console messages by type and text', () => {
+    recordConsoleEntry(SESSION, {
+      timestamp: '2026-01-01T10:00:01.000Z',
+      type: 'log',
+      text: 'ready',
+    });
+    recordConsoleEntry(SESSION, {
+      timestamp: '2026-01-01T10:00:02.000Z',
+      type: 'error',
+      text: 'Failed to load profile',
+      location: 'http://localhost:3000/app.js:12',
+    });
+    recordConsoleEntry(SESSION, {
+      timestamp: '2026-01-01T10:00:03.000Z',
+      type: 'pageerror',
+      text: 'TypeError: user is undefined',
+    });
+    recordConsoleEntry('session-2', {
+      timestamp: '2026-01-01T10:00:04.000Z',
+      type: 'error',
+      text: 'other',
+    });
+
+    const errors = getConsoleEntries(SESSION, { types: ['error', 'pageerror'] });
+    expect(errors.map((e) => e.text)).toEqual([
+      'Failed to load profile',
+      'TypeError: user is undefined',
+    ]);
+    expect(getConsoleEntries(SESSION, { contains: 'PROFILE' })).toHaveLength(1);
+    expect(getConsoleEntries(SESSION, { limit: 1 })[0].type).toBe('pageerror');
+    expect(formatConsoleEntries(errors)).toBe(
+      '[10:00:02.000] error: Failed to load profile (http://localhost:3000/app.js:12)\n' +
+        '[10:00:03.000] pageerror: TypeError: user is undefined'
+    );
+  });
+
+  it('filters requests and reports failures', () => {
+    const ok = startNetworkEntry(SESSION, request('GET', 'http://localhost:3000/', 'document'));
+    Object.assign(ok, { status: 200, statusText: 'OK', durationMs: 42 });
+    const notFound = startNetworkEntry(SESSION, request('post', 'http://localhost:3000/api/users'));
+    Object.assign(notFound, { method: 'POST', status: 404, durationMs: 7, requestBody: '{"a":1}' });
+    const refused = startNetworkEntry(SESSION, request('GET', 'http://localhost:4000/health'));
+    refused.failure = 'net::ERR_CONNECTION_REFUSED';
+
+    expect(getNetworkEntries(SESSION, { onlyFailed: true }).map((e) => e.id)).toEqual([2, 3]);
+    expect(getNetworkEntries(SESSION, { method: 'post' })).toEqual([notFound]);
+    expect(getNetworkEntries(SESSION, { resourceTypes: ['document'] })).toEqual([ok]);
+    expect(getNetworkEntries(SESSION, { urlContains: '/API/' })).toEqual([notFound]);
+
+    expect(formatNetworkEntries([ok, refused])).toBe(
+      '#1 GET 200 OK http://localhost:3000/ (document, 42 ms)\n' +
+        '#3 GET FAILED net::ERR_CONNECTION_REFUSED http://localhost:4000/health (fetch)'
+    );
+    expect(formatNetworkEntries([notFound], true)).toContain('  Request body: {"a":1}');
+  });
+
+  it('exports captured requests as HAR', () => {
+    const entry = startNetworkEntry(SESSION, request('GET', 'http://localhost:3000/api?q=1'));
+    Object.assign(entry, {
+      status: 200,
+      statusText: 'OK',
+      durationMs: 30,
+      responseHeaders: { 'content-type': 'application/json' },
+      mimeType: 'application/json',
+      responseBody: '{"ok":true}',
+      timing: { dns: -1, connect: -1, ssl: -1, wait: 25, receive: 5 },
+    });
+
+    const har = buildHar(SESSION, '1.2.3') as {
+      log: { creator: { version: string }; entries: Array<Record<string, any>> };
+    };
+    expect(har.log.creator.version).toBe('1.2.3');
+    const [harEntry] = har.log.entries;
+    expect(harEntry.request.queryString).toEqual([{ name: 'q', value: '1' }]);
+    expect(harEntry.response.status).toBe(200);
+    expect(harEntry.response.content).toEqual({
+      size: 11,
+      mimeType: 'application/json',
+      text: '{"ok":true}',
+    });
+    expect(harEntry.timings).toMatchObject({ wait: 25, receive: 5, send: 0 });
+  });
+
+  it('redacts credentials from bodies and HAR headers', () => {
+    expect(redactBody('{"user":"ada","password":"hunter2","otp":123456}', 'application/json')).toBe(
+      '{"user":"ada","password":"[REDACTED]","otp":"[REDACTED]"}'
+    );
+    // Truncated JSON is still redacted
+    expect(redactBody('{"access_token": "abc", "items": [{"na', 'application/json')).toBe(
+      '{"access_token": "[REDACTED]", "items": [{"na'
+    );
+    expect(redactBody('user=ada&pass=hunter2&pin=1234', 'application/x-www-form-urlencoded')).toBe(
+      'user=ada&pass=%5BREDACTED%5D&pin=%5BREDACTED%5D'
+    );
+
+    const entry = startNetworkEntry(SESSION, {
+      ...request('POST', 'http://localhost:3000/login'),
+      requestHeaders: {
+        'content-type': 'application/x-www-form-urlencoded',
+        authorization: 'Bearer abc',
+        cookie: 'sid=1',
+      },
+      requestBody: 'user=ada&password=hunter2',
+    });
+    Object.assign(entry, { status: 200, responseHeaders: { 'set-cookie': 'sid=2' } });
+
+    expect(formatNetworkEntries([entry], true)).toContain(
+      'Request body: user=ada&password=%5BREDACTED%5D'
+    );
+    const har = JSON.stringify(buildHar(SESSION, '1.2.3'));
+    expect(har).not.toMatch(/hunter2|Bearer abc|sid=/);
+    expect(har).toContain('{"name":"authorization","value":"[REDACTED]"}');
+  });
+});
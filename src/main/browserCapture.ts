@@ -0,0 +1,383 @@
+/**
+ * Browser Console and Network Capture
+ *
+ * Records console messages, uncaught page errors and network requests for each session's page so
+ * the agent can debug the web app it is driving (browser_get_console, browser_get_network) and
+ * the user can export the traffic as a HAR file. Buffers are bounded per session; the oldest
+ * entries are dropped first. Fields and headers that look like credentials are redacted
+ * whenever bodies are shown to the agent or exported.
+ */
+
+import type { Page, Request } from 'playwright';
+
+export interface ConsoleEntry {
+  timestamp: string; // ISO timestamp
+  type: string; // Playwright console type ('log', 'warning', 'error', ...) or 'pageerror'
+  text: string;
+  location?: string; // url:line where the message was logged
+}
+
+export interface NetworkTiming {
+  dns: number; // Milliseconds, -1 when not applicable
+  connect: number;
+  ssl: number;
+  wait: number; // Time to first byte
+  receive: number;
+}
+
+export interface NetworkEntry {
+  id: number;
+  startedAt: string; // ISO timestamp
+  method: string;
+  url: string;
+  resourceType: string; // document, xhr, fetch, script, stylesheet, image, ...
+  requestHeaders: Record<string, string>;
+  requestBody?: string;
+  status?: number; // Undefined while pending or when the request failed
+  statusText?: string;
+  responseHeaders?: Record<string, string>;
+  mimeType?: string;
+  responseBody?: string;
+  bodyTruncated?: boolean;
+  durationMs?: number;
+  timing?: NetworkTiming;
+  failure?: string; // e.g. net::ERR_CONNECTION_REFUSED
+}
+
+export interface ConsoleFilter {
+  types?: string[];
+  contains?: string;
+  limit?: number;
+}
+
+export interface NetworkFilter {
+  urlContains?: string;
+  method?: string;
+  resourceTypes?: string[];
+  onlyFailed?: boolean; // Failed requests and HTTP status >= 400
+  limit?: number;
+}
+
+const MAX_CONSOLE_ENTRIES = 500;
+const MAX_NETWORK_ENTRIES = 500;
+const MAX_BODY_CHARS = 10_000;
+// Bodies are only read for textual responses whose content-length is no bigger than this
+const MAX_BODY_BYTES = 256 * 1024;
+const TEXT_MIME_PATTERN =
+  /^(text\/|application\/(json|javascript|xml|x-www-form-urlencoded)|[^;]*\+(json|xml))/i;
+// Body fields and headers whose values are never shown to the agent or exported
+const SECRET_FIELD_PATTERN =
+  /pass(word|wd|code|phrase)?|pwd|secret|token|otp|api[-_]?key|credential|authorization|cookie|session[-_]?id|^pin$/i;
+const REDACTED = '[REDACTED]';
+// "key": "value" or "key": 123 in JSON, including bodies cut short by truncateBody
+const JSON_FIELD_PATTERN = /("((?:[^"\\]|\\.)*)"\s*:\s*)("(?:[^"\\]|\\.)*"|-?\d[\d.eE+-]*)/g;
+
+interface SessionCapture {
+  console: ConsoleEntry[];
+  network: NetworkEntry[];
+  nextRequestId: number;
+}
+
+const captures = new Map<string, SessionCapture>();
+
+function getCapture(sessionId: string): SessionCapture {
+  let capture = captures.get(sessionId);
+  if (!capture) {
+    capture = { console: [], network: [], nextRequestId: 1 };
+    captures.set(sessionId, capture);
+  }
+  return capture;
+}
+
+const pushBounded = <T>(list: T[], item: T, max: number): void => {
+  list.push(item);
+  if (list.length > max) list.splice(0, list.length - max);
+};
+
+const truncateBody = (body: string): { text: string; truncated: boolean } =>
+  body.length > MAX_BODY_CHARS
+    ? { text: body.slice(0, MAX_BODY_CHARS), truncated: true }
+    : { text: body, truncated: false };
+
+const isSecretField = (name: string): boolean => SECRET_FIELD_PATTERN.test(name);
+
+/**
+ * Replace the values of password, token and similar fields in a JSON or form-encoded body
+ */
+export function redactBody(body: string, mimeType = ''): string {
+  if (/x-www-form-urlencoded/i.test(mimeType)) {
+    return body.replace(/(^|&)([^=&]*)=([^&]*)/g, (match, separator: string, key: string) => {
+      let name = key;
+      try {
+        name = decodeURIComponent(key.replace(/\+/g, ' '));
+      } catch {
+        // Keep the raw key
+      }
+      return isSecretField(name) ? `${separator}${key}=${encodeURIComponent(REDACTED)}` : match;
+    });
+  }
+  return body.replace(JSON_FIELD_PATTERN, (match, prefix: string, key: string) =>
+    isSecretField(key) ? `${prefix}"${REDACTED}"` : match
+  );
+}
+
+export function recordConsoleEntry(sessionId: string, entry: ConsoleEntry): void {
+  pushBounded(getCapture(sessionId).console, entry, MAX_CONSOLE_ENTRIES);
+}
+
+export function startNetworkEntry(
+  sessionId: string,
+  request: Omit<NetworkEntry, 'id'>
+): NetworkEntry {
+  const capture = getCapture(sessionId);
+  const entry = { id: capture.nextRequestId++, ...request };
+  pushBounded(capture.network, entry, MAX_NETWORK_ENTRIES);
+  return entry;
+}
+
+export function clearBrowserCapture(sessionId: string): void {
+  captures.delete(sessionId);
+}
+
+export function getConsoleEntries(sessionId: string, filter: ConsoleFilter = {}): ConsoleEntry[] {
+  const types = filter.types?.map((type) => type.toLowerCase());
+  const contains = filter.contains?.toLowerCase();
+  const entries = (captures.get(sessionId)?.console || []).filter(
+    (entry) =>
+      (!types?.length || types.includes(entry.type)) &&
+      (!contains || entry.text.toLowerCase().includes(contains))
+  );
+  return filter.limit ? entries.slice(-filter.limit) : entries;
+}
+
+export const isFailedRequest = (entry: NetworkEntry): boolean =>
+  !!entry.failure || (entry.status !== undefined && entry.status >= 400);
+
+export function getNetworkEntries(sessionId: string, filter: NetworkFilter = {}): NetworkEntry[] {
+  const method = filter.method?.toUpperCase();
+  const resourceTypes = filter.resourceTypes?.map((type) => type.toLowerCase());
+  const urlContains = filter.urlContains?.toLowerCase();
+  const entries = (captures.get(sessionId)?.network || []).filter(
+    (entry) =>
+      (!method || entry.method === method) &&
+      (!resourceTypes?.length || resourceTypes.includes(entry.resourceType)) &&
+      (!urlContains || entry.url.toLowerCase().includes(urlContains)) &&
+      (!filter.onlyFailed || isFailedRequest(entry))
+  );
+  return filter.limit ? entries.slice(-filter.limit) : entries;
+}
+
+export function formatConsoleEntries(entries: ConsoleEntry[]): string {
+  return entries
+    .map(
+      (entry) =>
+        `[${entry.timestamp.slice(11, 23)}] ${entry.type}: ${entry.text}` +
+        (entry.location ? ` (${entry.location})` : '')
+    )
+    .join('\n');
+}
+
+const requestMimeType = (entry: NetworkEntry): string => entry.requestHeaders['content-type'] || '';
+
+export function formatNetworkEntries(entries: NetworkEntry[], includeBodies = false): string {
+  return entries
+    .map((entry) => {
+      const outcome = entry.failure
+        ? `FAILED ${entry.failure}`
+        : entry.status !== undefined
+          ? `${entry.status}${entry.statusText ? ` ${entry.statusText}` : ''}`
+          : 'pending';
+      const details = [
+        entry.resourceType,
+        entry.durationMs !== undefined && `${entry.durationMs} ms`,
+      ]
+        .filter(Boolean)
+        .join(', ');
+      const lines = [`#${entry.id} ${entry.method} ${outcome} ${entry.url} (${details})`];
+      if (includeBodies) {
+        if (entry.requestBody) {
+          lines.push(`  Request body: ${redactBody(entry.requestBody, requestMimeType(entry))}`);
+        }
+        if (entry.responseBody) {
+          lines.push(
+            `  Response body${entry.bodyTruncated ? ' (truncated)' : ''}: ${redactBody(entry.responseBody, entry.mimeType)}`
+          );
+        }
+      }
+      return lines.join('\n');
+    })
+    .join('\n');
+}
+
+const toHarHeaders = (headers: Record<string, string> = {}) =>
+  Object.entries(headers).map(([name, value]) => ({
+    name,
+    value: isSecretField(name) ? REDACTED : value,
+  }));
+
+const toHarQueryString = (url: string) => {
+  try {
+    return Array.from(new URL(url).searchParams.entries()).map(([name, value]) => ({
+      name,
+      value,
+    }));
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * Build a HAR 1.2 log from a session's captured requests
+ */
+export function buildHar(sessionId: string, creatorVersion: string): Record<string, unknown> {
+  const entries = captures.get(sessionId)?.network || [];
+  return {
+    log: {
+      version: '1.2',
+      creator: { name: 'Cooper', version: creatorVersion },
+      pages: [],
+      entries: entries.map((entry) => {
+        const timing = entry.timing;
+        return {
+          startedDateTime: entry.startedAt,
+          time: entry.durationMs ?? 0,
+          request: {
+            method: entry.method,
+            url: entry.url,
+            httpVersion: 'HTTP/1.1',
+            cookies: [],
+            headers: toHarHeaders(entry.requestHeaders),
+            queryString: toHarQueryString(entry.url),
+            headersSize: -1,
+            bodySize: entry.requestBody?.length ?? 0,
+            ...(entry.requestBody !== undefined && {
+              postData: {
+                mimeType: requestMimeType(entry),
+                text: redactBody(entry.requestBody, requestMimeType(entry)),
+              },
+            }),
+          },
+          response: {
+            status: entry.status ?? 0,
+            statusText: entry.failure || entry.statusText || '',
+            httpVersion: 'HTTP/1.1',
+            cookies: [],
+            headers: toHarHeaders(entry.responseHeaders),
+            content: {
+              size: entry.responseBody?.length ?? -1,
+              mimeType: entry.mimeType || '',
+              ...(entry.responseBody !== undefined && {
+                text: redactBody(entry.responseBody, entry.mimeType),
+              }),
+              ...(entry.bodyTruncated && { comment: 'Body truncated by Cooper' }),
+            },
+            redirectURL: entry.responseHeaders?.location || '',
+            headersSize: -1,
+            bodySize: -1,
+          },
+          cache: {},
+          timings: {
+            dns: timing?.dns ?? -1,
+            connect: timing?.connect ?? -1,
+            ssl: timing?.ssl ?? -1,
+            send: 0,
+            wait: Math.max(0, timing?.wait ?? entry.durationMs ?? 0),
+            receive: Math.max(0, timing?.receive ?? 0),
+          },
+          _resourceType: entry.resourceType,
+        };
+      }),
+    },
+  };
+}
+
+const span = (start: number, end: number): number =>
+  start >= 0 && end >= 0 ? Math.round(end - start) : -1;
+
+// Convert Playwright's request timing (ms relative to startTime, -1 when unavailable)
+function toNetworkTiming(t: ReturnType<Request['timing']>): NetworkTiming {
+  return {
+    dns: span(t.domainLookupStart, t.domainLookupEnd),
+    connect: span(t.connectStart, t.connectEnd),
+    ssl: span(t.secureConnectionStart, t.connectEnd),
+    wait: span(t.requestStart, t.responseStart),
+    receive: span(t.responseStart, t.responseEnd),
+  };
+}
+
+/**
+ * Start recording a page's console output, page errors and network traffic
+ */
+export function attachPageCapture(sessionId: string, page: Page): void {
+  const pending = new WeakMap<Request, { entry: NetworkEntry; started: number }>();
+
+  page.on('console', (message) => {
+    const location = message.location();
+    recordConsoleEntry(sessionId, {
+      timestamp: new Date().toISOString(),
+      type: message.type(),
+      text: message.text(),
+      location: location.url ? `${location.url}:${location.lineNumber + 1}` : undefined,
+    });
+  });
+
+  page.on('pageerror', (error) => {
+    recordConsoleEntry(sessionId, {
+      timestamp: new Date().toISOString(),
+      type: 'pageerror',
+      text: error.stack || error.message,
+    });
+  });
+
+  page.on('request', (request) => {
+    const requestBody = request.postData();
+    const entry = startNetworkEntry(sessionId, {
+      startedAt: new Date().toISOString(),
+      method: request.method(),
+      url: request.url(),
+      resourceType: request.resourceType(),
+      requestHeaders: request.headers(),
+      ...(requestBody !== null && { requestBody: truncateBody(requestBody).text }),
+    });
+    pending.set(request, { entry, started: Date.now() });
+  });
+
+  page.on('requestfinished', async (request) => {
+    const tracked = pending.get(request);
+    if (!tracked) return;
+    const { entry, started } = tracked;
+    try {
+      const response = await request.response();
+      const timing = request.timing();
+      entry.timing = toNetworkTiming(timing);
+      entry.durationMs =
+        timing.responseEnd >= 0 ? Math.round(timing.responseEnd) : Date.now() - started;
+      if (!response) return;
+      const headers = response.headers();
+      entry.status = response.status();
+      entry.statusText = response.statusText();
+      entry.responseHeaders = headers;
+      entry.mimeType = headers['content-type'] || '';
+      // Chunked responses have no content-length; reading one could pull in any amount of data
+      const length = headers['content-length'];
+      if (
+        TEXT_MIME_PATTERN.test(entry.mimeType) &&
+        length !== undefined &&
+        Number(length) <= MAX_BODY_BYTES
+      ) {
+        const body = truncateBody(await response.text());
+        entry.responseBody = body.text;
+        entry.bodyTruncated = body.truncated;
+      }
+    } catch {
+      // The page navigated or closed before the body could be read
+    }
+  });
+
+  page.on('requestfailed', (request) => {
+    const tracked = pending.get(request);
+    if (!tracked) return;
+    tracked.entry.failure = request.failure()?.errorText || 'failed';
+    tracked.entry.durationMs = Date.now() - tracked.started;
+  });
+}
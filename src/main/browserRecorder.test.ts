@@ -0,0 +1,148 @@
+// @vitest-environment node
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  buildRecordingTrace,
+  discardRecording,
+  generatePlaywrightSpec,
+  getRecordingStatus,
+  recordStep,
+  startRecording,
+  stopRecording,
+  type RecordedStep,
+} from './browserRecorder';
+
+const SESSION = 'session-1';
+const URL = 'http://localhost:3000/login';
+
+const step = (tool: string, args: Record<string, unknown>, extra = {}): RecordedStep => ({
+  tool,
+  args,
+  url: URL,
+  timestamp: '2026-01-01T10:00:00.000Z',
+  ...extra,
+});
+
+describe('browserRecorder', () => {
+  beforeEach(() => {
+    discardRecording(SESSION);
+  });
+
+  it('only records page-changing tools while recording', () => {
+    recordStep(SESSION, { tool: 'browser_click', args: { selector: '#a' }, url: URL });
+    expect(getRecordingStatus(SESSION)).toEqual({ recording: false, stepCount: 0 });
+
+    startRecording(SESSION, URL);
+    recordStep(SESSION, { tool: 'browser_click', args: { selector: '#a' }, url: URL });
+    recordStep(SESSION, { tool: 'browser_snapshot', args: {}, url: URL });
+    recordStep(SESSION, { tool: 'browser_get_text', args: { selector: 'h1' }, url: URL });
+    expect(getRecordingStatus(SESSION)).toMatchObject({ recording: true, stepCount: 2 });
+
+    stopRecording(SESSION);
+    recordStep(SESSION, { tool: 'browser_click', args: { selector: '#b' }, url: URL });
+    expect(getRecordingStatus(SESSION)).toMatchObject({ recording: false, stepCount: 2 });
+  });
+
+  it('seeds the recording with the current page', () => {
+    startRecording(SESSION, 'about:blank');
+    expect(getRecordingStatus(SESSION).stepCount).toBe(0);
+    startRecording(SESSION, URL);
+    const trace = buildRecordingTrace(SESSION, 'login') as { steps: RecordedStep[] };
+    expect(trace.steps[0]).toMatchObject({ tool: 'browser_navigate', args: { url: URL } });
+  });
+
+  it('generates a spec with the same selectors and waits', () => {
+    const spec = generatePlaywrightSpec(
+      [
+        step('browser_navigate', { url: URL }),
+        step('browser_fill', { selector: '#email', value: "ada's@example.com" }),
+        step('browser_wait_for_element', { selector: '.dashboard', timeout: 5000 }),
+        step('browser_click_ref', { ref: 'e4' }, { target: { role: 'button', name: 'Sign in' } }),
+        step(
+          'browser_click_ref',
+          { ref: 'e5' },
+          { target: { role: 'link', name: 'Read the full release notes for…' } }
+        ),
+        step(
+          'browser_select_ref',
+          { ref: 'e6', values: ['Admin'] },
+          {
+            target: { role: 'combobox', name: 'Role' },
+          }
+        ),
+        step('browser_fill_ref', { ref: 'e9', value: 'x' }),
+        step('browser_scroll', { direction: 'bottom' }),
+      ],
+      'login flow'
+    );
+
+    expect(spec).toBe(
+      [
+        "import { test } from '@playwright/test';",
+        '',
+        "test('login flow', async ({ page }) => {",
+        "  await page.goto('http://localhost:3000/login', { waitUntil: 'domcontentloaded' });",
+        "  await page.fill('#email', 'ada\\'s@example.com');",
+        "  await page.waitForSelector('.dashboard', { timeout: 5000 });",
+        "  await page.getByRole('button', { name: 'Sign in', exact: true }).click();",
+        "  await page.getByRole('link', { name: 'Read the full release notes for' }).click();",
+        "  await page.getByRole('combobox', { name: 'Role', exact: true }).selectOption(['Admin']);",
+        '  // Skipped browser_fill_ref: element e9 was not in the last snapshot',
+        "  await page.keyboard.press('End');",
+        '});',
+        '',
+      ].join('\n')
+    );
+  });
+
+  it('keeps secrets out of the spec and the trace', () => {
+    startRecording(SESSION);
+    recordStep(SESSION, {
+      tool: 'browser_fill',
+      args: { selector: 'input[name="password"]', value: 'hunter2' },
+      url: URL,
+    });
+    recordStep(SESSION, {
+      tool: 'browser_fill_ref',
+      args: { ref: 'e3', value: 'ada@example.com' },
+      target: { role: 'textbox', name: 'Email' },
+      url: URL,
+    });
+
+    const trace = buildRecordingTrace(SESSION, 'login') as { steps: RecordedStep[] };
+    const spec = generatePlaywrightSpec(trace.steps, 'login');
+    expect(JSON.stringify(trace)).not.toContain('hunter2');
+    expect(trace.steps[0].args).toMatchObject({ redacted: true });
+    expect(trace.steps[1].args.value).toBe('ada@example.com');
+
+    expect(spec).toContain('//   RECORDED_SECRET_1: input[name="password"]');
+    expect(spec).toContain(
+      "await page.fill('input[name=\"password\"]', process.env.RECORDED_SECRET_1 ?? '');"
+    );
+    expect(spec).toContain(
+      "await page.getByRole('textbox', { name: 'Email', exact: true }).fill('ada@example.com');"
+    );
+  });
+
+  it('treats password inputs as secrets whatever their selector or label', () => {
+    startRecording(SESSION);
+    recordStep(SESSION, {
+      tool: 'browser_fill',
+      args: { selector: '#pwd', value: 'hunter2' },
+      password: true,
+      url: URL,
+    });
+    recordStep(SESSION, {
+      tool: 'browser_fill_ref',
+      args: { ref: 'e4', value: '1234' },
+      target: { role: 'textbox', name: 'PIN', password: true },
+      url: URL,
+    });
+
+    const trace = buildRecordingTrace(SESSION, 'login') as { steps: RecordedStep[] };
+    const spec = generatePlaywrightSpec(trace.steps, 'login');
+    expect(JSON.stringify(trace)).not.toMatch(/hunter2|1234/);
+    expect(spec).not.toMatch(/hunter2|1234/);
+    expect(spec).toContain("await page.fill('#pwd', process.env.RECORDED_SECRET_1 ?? '');");
+    expect(spec).toContain('//   RECORDED_SECRET_2: PIN');
+  });
+});
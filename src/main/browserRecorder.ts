@@ -0,0 +1,268 @@
+/**
+ * Browser Session Recorder
+ *
+ * When the user starts recording for a session, every successful browser tool call that changes
+ * the page is logged. The recording can be saved into the project as a Playwright `.spec.ts` that
+ * replays the run with the same selectors and waits the agent used, plus a JSON trace of the raw
+ * steps. Ref-based steps (browser_click_ref, ...) are replayed through getByRole() with the role
+ * and name the ref had in the snapshot, since refs only exist while Cooper drives the page.
+ *
+ * Values typed into password inputs, or fields that look like passwords or tokens, are never
+ * written out; the spec reads them from environment variables instead.
+ */
+
+import { writeFile } from 'fs/promises';
+import type { SnapshotRefTarget } from './browserSnapshot';
+
+export interface RecordedStep {
+  tool: string;
+  args: Record<string, unknown>;
+  target?: SnapshotRefTarget; // For ref-based steps: what the ref pointed at
+  password?: boolean; // For selector-based fills: the field was an <input type="password">
+  url: string; // Page URL when the step ran
+  timestamp: string; // ISO timestamp
+}
+
+export interface RecordingStatus {
+  recording: boolean;
+  stepCount: number;
+  startedAt?: string;
+}
+
+interface Recording {
+  active: boolean;
+  startedAt: string;
+  stoppedAt?: string;
+  steps: RecordedStep[];
+}
+
+// Tools that change the page; read-only tools (snapshot, screenshot, get_*) are not replayed
+const RECORDED_TOOLS = new Set([
+  'browser_navigate',
+  'browser_click',
+  'browser_click_ref',
+  'browser_fill',
+  'browser_fill_ref',
+  'browser_type',
+  'browser_press_key',
+  'browser_select_option',
+  'browser_select_ref',
+  'browser_checkbox',
+  'browser_wait_for_element',
+  'browser_scroll',
+  'browser_go_back',
+  'browser_reload',
+]);
+
+// Tools that type a value into a field
+const FILL_TOOLS = new Set(['browser_fill', 'browser_fill_ref', 'browser_type']);
+
+const SECRET_FIELD_PATTERN = /pass(word|code|phrase)?|secret|token|otp|api[-_ ]?key/i;
+
+const SCROLL_KEYS: Record<string, string> = {
+  up: 'PageUp',
+  down: 'PageDown',
+  top: 'Home',
+  bottom: 'End',
+};
+
+const recordings = new Map<string, Recording>();
+
+export function startRecording(sessionId: string, currentUrl?: string): RecordingStatus {
+  const recording: Recording = { active: true, startedAt: new Date().toISOString(), steps: [] };
+  // Replays start from the page the run was already on
+  if (currentUrl && /^https?:|^file:/.test(currentUrl)) {
+    recording.steps.push({
+      tool: 'browser_navigate',
+      args: { url: currentUrl },
+      url: currentUrl,
+      timestamp: recording.startedAt,
+    });
+  }
+  recordings.set(sessionId, recording);
+  return getRecordingStatus(sessionId);
+}
+
+export function stopRecording(sessionId: string): RecordingStatus {
+  const recording = recordings.get(sessionId);
+  if (recording?.active) {
+    recording.active = false;
+    recording.stoppedAt = new Date().toISOString();
+  }
+  return getRecordingStatus(sessionId);
+}
+
+export function getRecordingStatus(sessionId: string): RecordingStatus {
+  const recording = recordings.get(sessionId);
+  return {
+    recording: !!recording?.active,
+    stepCount: recording?.steps.length ?? 0,
+    startedAt: recording?.startedAt,
+  };
+}
+
+export function discardRecording(sessionId: string): void {
+  recordings.delete(sessionId);
+}
+
+/**
+ * Log a successful browser tool call while the session is recording
+ */
+export function recordStep(sessionId: string, step: Omit<RecordedStep, 'timestamp'>): void {
+  const recording = recordings.get(sessionId);
+  if (!recording?.active || !RECORDED_TOOLS.has(step.tool)) return;
+  recording.steps.push({ ...step, timestamp: new Date().toISOString() });
+}
+
+const literal = (value: unknown): string =>
+  `'${String(value).replace(/\\/g, '\\\\').replace(/'/g, "\\'").replace(/\n/g, '\\n')}'`;
+
+// Field label used to decide whether a typed value is a secret
+const fieldOf = (step: RecordedStep): string =>
+  String(step.args.selector ?? step.target?.name ?? step.args.ref ?? '');
+
+const isSecretStep = (step: RecordedStep): boolean =>
+  FILL_TOOLS.has(step.tool) &&
+  (!!step.password || !!step.target?.password || SECRET_FIELD_PATTERN.test(fieldOf(step)));
+
+const locatorFor = (step: RecordedStep): string | null => {
+  if (typeof step.args.selector === 'string') return `page.locator(${literal(step.args.selector)})`;
+  if (step.target) {
+    const { role, name } = step.target;
+    // Long names are cut short in the snapshot; match those by prefix instead
+    const options = !name
+      ? ''
+      : name.endsWith('…')
+        ? `, { name: ${literal(name.slice(0, -1))} }`
+        : `, { name: ${literal(name)}, exact: true }`;
+    return `page.getByRole(${literal(role)}${options})`;
+  }
+  return null;
+};
+
+/**
+ * Playwright statements for one step, or a comment when it can't be replayed
+ */
+function stepToCode(step: RecordedStep, valueExpression: string): string[] {
+  const { args } = step;
+  const locator = locatorFor(step);
+  const missing = [`// Skipped ${step.tool}: element ${args.ref} was not in the last snapshot`];
+
+  switch (step.tool) {
+    case 'browser_navigate':
+      return [`await page.goto(${literal(args.url)}, { waitUntil: 'domcontentloaded' });`];
+    case 'browser_click':
+      return [`await page.click(${literal(args.selector)});`];
+    case 'browser_click_ref':
+      return locator ? [`await ${locator}.click();`] : missing;
+    case 'browser_fill':
+      return [`await page.fill(${literal(args.selector)}, ${valueExpression});`];
+    case 'browser_fill_ref':
+      return locator ? [`await ${locator}.fill(${valueExpression});`] : missing;
+    case 'browser_type':
+      return [
+        `await page.click(${literal(args.selector)});`,
+        `await page.keyboard.type(${valueExpression}, { delay: 50 });`,
+      ];
+    case 'browser_press_key':
+      return [`await page.keyboard.press(${literal(args.key)});`];
+    case 'browser_select_option':
+      return [`await page.selectOption(${literal(args.selector)}, ${literal(args.value)});`];
+    case 'browser_select_ref': {
+      const values = (Array.isArray(args.values) ? args.values : []).map(literal).join(', ');
+      return locator ? [`await ${locator}.selectOption([${values}]);`] : missing;
+    }
+    case 'browser_checkbox':
+      return [`await page.${args.checked ? 'check' : 'uncheck'}(${literal(args.selector)});`];
+    case 'browser_wait_for_element':
+      return [
+        `await page.waitForSelector(${literal(args.selector)}, { timeout: ${Number(args.timeout) || 10000} });`,
+      ];
+    case 'browser_scroll':
+      return typeof args.selector === 'string'
+        ? [`await page.locator(${literal(args.selector)}).scrollIntoViewIfNeeded();`]
+        : [
+            `await page.keyboard.press(${literal(SCROLL_KEYS[String(args.direction)] || 'PageDown')});`,
+          ];
+    case 'browser_go_back':
+      return ['await page.goBack();'];
+    case 'browser_reload':
+      return ['await page.reload();'];
+    default:
+      return [`// Skipped ${step.tool}`];
+  }
+}
+
+/**
+ * Generate a Playwright test that replays the recorded steps
+ */
+export function generatePlaywrightSpec(steps: RecordedStep[], testName: string): string {
+  const secretVariables: string[] = [];
+  const body = steps.flatMap((step) => {
+    const rawValue = step.tool === 'browser_type' ? step.args.text : step.args.value;
+    let valueExpression = literal(rawValue ?? '');
+    if (isSecretStep(step)) {
+      const variable = `RECORDED_SECRET_${secretVariables.length + 1}`;
+      secretVariables.push(`${variable}: ${fieldOf(step)}`);
+      valueExpression = `process.env.${variable} ?? ''`;
+    }
+    return stepToCode(step, valueExpression);
+  });
+
+  const header = ["import { test } from '@playwright/test';", ''];
+  if (secretVariables.length > 0) {
+    header.push(
+      '// Secrets were not recorded. Set these environment variables before running:',
+      ...secretVariables.map((variable) => `//   ${variable}`),
+      ''
+    );
+  }
+  return [
+    ...header,
+    `test(${literal(testName)}, async ({ page }) => {`,
+    ...body.map((line) => `  ${line}`),
+    '});',
+    '',
+  ].join('\n');
+}
+
+/**
+ * JSON trace of the raw steps, with secret values redacted
+ */
+export function buildRecordingTrace(sessionId: string, testName: string): Record<string, unknown> {
+  const recording = recordings.get(sessionId);
+  return {
+    version: 1,
+    name: testName,
+    sessionId,
+    startedAt: recording?.startedAt,
+    stoppedAt: recording?.stoppedAt,
+    steps: (recording?.steps || []).map((step) =>
+      isSecretStep(step)
+        ? { ...step, args: { ...step.args, value: undefined, text: undefined, redacted: true } }
+        : step
+    ),
+  };
+}
+
+/**
+ * Write the recording as `<name>.spec.ts` plus `<name>.trace.json` next to it
+ */
+export async function saveRecording(
+  sessionId: string,
+  specPath: string,
+  testName: string
+): Promise<{ specPath: string; tracePath: string; stepCount: number }> {
+  const recording = recordings.get(sessionId);
+  if (!recording || recording.steps.length === 0) {
+    throw new Error('Nothing has been recorded for this session');
+  }
+  const tracePath = specPath.replace(/(\.spec)?\.[jt]s$/, '') + '.trace.json';
+  await writeFile(specPath, generatePlaywrightSpec(recording.steps, testName), 'utf-8');
+  await writeFile(
+    tracePath,
+    JSON.stringify(buildRecordingTrace(sessionId, testName), null, 2),
+    'utf-8'
+  );
+  return { specPath, tracePath, stepCount: recording.steps.length };
+}
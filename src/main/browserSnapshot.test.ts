@@ -0,0 +1,84 @@
+// @vitest-environment jsdom
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  SNAPSHOT_REF_ATTRIBUTE,
+  collectPageSnapshot,
+  isSnapshotRef,
+  snapshotRefSelector,
+} from './browserSnapshot';
+
+const options = { refAttribute: SNAPSHOT_REF_ATTRIBUTE, maxLines: 100, maxTextLength: 40 };
+
+describe('browserSnapshot', () => {
+  beforeEach(() => {
+    delete (window as unknown as { __cooperSnapshotDoc?: string }).__cooperSnapshotDoc;
+    document.body.innerHTML = `
+      <nav aria-label="Primary"><a href="/docs">Docs</a></nav>
+      <main>
+        <h1>Sign in</h1>
+        <p>Use your   work account.</p>
+        <form>
+          <label for="email">Email</label>
+          <input id="email" type="email" value="ada@example.com" required />
+          <input type="password" placeholder="Password" value="hunter2" />
+          <label><input type="checkbox" checked /> Remember me</label>
+          <select aria-label="Role"><option value="u">User</option><option value="a" selected>Admin</option></select>
+          <button type="submit" disabled>Continue</button>
+          <input type="hidden" name="csrf" value="secret" />
+        </form>
+        <div style="display: none"><button>Hidden</button></div>
+        <script>console.log('skip me')</script>
+      </main>
+    `;
+  });
+
+  it('outlines landmarks, headings, text and interactive elements with refs', () => {
+    const snapshot = collectPageSnapshot(options);
+
+    expect(snapshot.truncated).toBe(false);
+    expect(snapshot.lines).toEqual([
+      '- navigation "Primary"',
+      '  - link "Docs" [ref=e1] -> /docs',
+      '- main',
+      '  - heading "Sign in" [level=1]',
+      '  - text "Use your work account."',
+      '  - form',
+      '    - text "Email"',
+      '    - textbox "Email" [ref=e2] [required]: ada@example.com',
+      '    - textbox "Password" [ref=e3]: ••••',
+      '    - checkbox "Remember me" [ref=e4] [checked]',
+      '    - text "Remember me"',
+      '    - combobox "Role" [ref=e5]: Admin',
+      '      - option "User"',
+      '      - option "Admin"',
+      '    - button "Continue" [ref=e6] [disabled]',
+    ]);
+    expect(document.querySelector(snapshotRefSelector('e2'))?.id).toBe('email');
+    expect(snapshot.refs.e3).toEqual({ role: 'textbox', name: 'Password', password: true });
+    expect(snapshot.refs.e2.password).toBeUndefined();
+  });
+
+  it('keeps refs stable across snapshots of the same document', () => {
+    const first = collectPageSnapshot(options);
+    const button = document.createElement('button');
+    button.textContent = 'New';
+    document.querySelector('nav')!.prepend(button);
+
+    const second = collectPageSnapshot(options);
+    expect(second.documentId).toBe(first.documentId);
+    expect(second.lines).toContain('  - button "New" [ref=e7]');
+    expect(second.lines).toContain('  - link "Docs" [ref=e1] -> /docs');
+  });
+
+  it('stops at the line limit', () => {
+    const snapshot = collectPageSnapshot({ ...options, maxLines: 3 });
+    expect(snapshot.lines).toHaveLength(3);
+    expect(snapshot.truncated).toBe(true);
+  });
+
+  it('only accepts refs it hands out', () => {
+    expect(isSnapshotRef('e12')).toBe(true);
+    expect(isSnapshotRef('e12"] , body')).toBe(false);
+    expect(isSnapshotRef('#login')).toBe(false);
+  });
+});
@@ -0,0 +1,295 @@
+/**
+ * Browser Accessibility Snapshot
+ *
+ * browser_snapshot gives the agent a compact outline of the page - landmarks, headings, text and
+ * every interactive element - instead of raw HTML. Interactive elements get a ref such as "e12"
+ * that the ref-based tools (browser_click_ref, browser_fill_ref, browser_select_ref) act on, so
+ * the agent never has to guess a CSS selector.
+ *
+ * Refs are stored on the elements as a data attribute, so an element keeps its ref across
+ * snapshots for as long as it stays in the document. Each document also gets a random id; the
+ * ref tools compare it with the one the last snapshot saw, so refs from a page the browser has
+ * since navigated away from are rejected rather than matched against the new page.
+ */
+
+export const SNAPSHOT_REF_ATTRIBUTE = 'data-cooper-ref';
+
+const REF_PATTERN = /^e\d+$/;
+
+export interface SnapshotOptions {
+  refAttribute: string;
+  maxLines: number;
+  maxTextLength: number;
+}
+
+export interface SnapshotRefTarget {
+  role: string;
+  name: string;
+  password?: boolean; // An <input type="password">
+}
+
+export interface CollectedSnapshot {
+  documentId: string;
+  lines: string[];
+  truncated: boolean;
+  refs: Record<string, SnapshotRefTarget>; // What each ref in this snapshot points at
+}
+
+export const isSnapshotRef = (ref: string): boolean => REF_PATTERN.test(ref);
+
+export const snapshotRefSelector = (ref: string): string => `[${SNAPSHOT_REF_ATTRIBUTE}="${ref}"]`;
+
+/**
+ * Build the snapshot of the current document. This runs inside the page through
+ * page.evaluate(), so it must not use anything from outside its own body.
+ */
+export function collectPageSnapshot(options: SnapshotOptions): CollectedSnapshot {
+  const { refAttribute, maxLines, maxTextLength } = options;
+  const state = window as unknown as { __cooperSnapshotDoc?: string; __cooperNextRef?: number };
+  if (!state.__cooperSnapshotDoc) {
+    state.__cooperSnapshotDoc = Math.random().toString(36).slice(2, 10);
+    state.__cooperNextRef = 0;
+  }
+
+  const INTERACTIVE = new Set([
+    'link',
+    'button',
+    'textbox',
+    'searchbox',
+    'checkbox',
+    'radio',
+    'switch',
+    'combobox',
+    'listbox',
+    'slider',
+    'spinbutton',
+    'tab',
+    'menuitem',
+    'menuitemcheckbox',
+    'menuitemradio',
+    'option',
+    'treeitem',
+  ]);
+  const STRUCTURAL = new Set([
+    'heading',
+    'navigation',
+    'main',
+    'banner',
+    'contentinfo',
+    'complementary',
+    'search',
+    'form',
+    'dialog',
+    'alertdialog',
+    'alert',
+    'tablist',
+    'tabpanel',
+    'menu',
+    'table',
+    'img',
+  ]);
+  const SKIPPED_TAGS = new Set([
+    'script',
+    'style',
+    'noscript',
+    'template',
+    'svg',
+    'head',
+    'iframe',
+  ]);
+  const INPUT_ROLES: Record<string, string> = {
+    checkbox: 'checkbox',
+    radio: 'radio',
+    button: 'button',
+    submit: 'button',
+    reset: 'button',
+    image: 'button',
+    range: 'slider',
+    number: 'spinbutton',
+    search: 'searchbox',
+  };
+  const TAG_ROLES: Record<string, string> = {
+    button: 'button',
+    summary: 'button',
+    textarea: 'textbox',
+    nav: 'navigation',
+    main: 'main',
+    header: 'banner',
+    footer: 'contentinfo',
+    aside: 'complementary',
+    form: 'form',
+    dialog: 'dialog',
+    table: 'table',
+    h1: 'heading',
+    h2: 'heading',
+    h3: 'heading',
+    h4: 'heading',
+    h5: 'heading',
+    h6: 'heading',
+  };
+
+  const lines: string[] = [];
+  const refs: Record<string, { role: string; name: string; password?: boolean }> = {};
+  let truncated = false;
+
+  const clean = (text: string | null | undefined): string => {
+    const collapsed = (text || '').replace(/\s+/g, ' ').trim();
+    return collapsed.length > maxTextLength ? `${collapsed.slice(0, maxTextLength)}…` : collapsed;
+  };
+
+  const quote = (text: string): string => JSON.stringify(text);
+
+  const push = (depth: number, line: string): boolean => {
+    if (lines.length >= maxLines) {
+      truncated = true;
+      return false;
+    }
+    lines.push(`${'  '.repeat(depth)}- ${line}`);
+    return true;
+  };
+
+  const isHidden = (el: Element): boolean => {
+    if ((el as HTMLElement).hidden || el.getAttribute('aria-hidden') === 'true') return true;
+    const style = window.getComputedStyle(el);
+    return style.display === 'none' || style.visibility === 'hidden';
+  };
+
+  const roleOf = (el: Element): string | null => {
+    const explicit = el.getAttribute('role')?.split(' ')[0];
+    if (explicit && explicit !== 'presentation' && explicit !== 'none') return explicit;
+    const tag = el.tagName.toLowerCase();
+    if (tag === 'a') return el.hasAttribute('href') ? 'link' : null;
+    if (tag === 'img') return el.getAttribute('alt') ? 'img' : null;
+    if (tag === 'select') return (el as HTMLSelectElement).multiple ? 'listbox' : 'combobox';
+    if (tag === 'input') {
+      const type = (el.getAttribute('type') || 'text').toLowerCase();
+      if (type === 'hidden') return null;
+      return INPUT_ROLES[type] || 'textbox';
+    }
+    if (tag === 'section' && (el.getAttribute('aria-label') || el.getAttribute('aria-labelledby')))
+      return 'region';
+    return TAG_ROLES[tag] || null;
+  };
+
+  const nameOf = (el: Element, role: string): string => {
+    const labelledBy = el.getAttribute('aria-labelledby');
+    if (labelledBy) {
+      const text = labelledBy
+        .split(/\s+/)
+        .map((id) => document.getElementById(id)?.textContent || '')
+        .join(' ');
+      if (clean(text)) return clean(text);
+    }
+    const ariaLabel = el.getAttribute('aria-label');
+    if (ariaLabel && clean(ariaLabel)) return clean(ariaLabel);
+
+    const tag = el.tagName.toLowerCase();
+    if (tag === 'input' || tag === 'textarea' || tag === 'select') {
+      const input = el as HTMLInputElement;
+      const type = (input.type || '').toLowerCase();
+      if (['button', 'submit', 'reset'].includes(type)) {
+        return (
+          clean(input.value) || (type === 'submit' ? 'Submit' : type === 'reset' ? 'Reset' : '')
+        );
+      }
+      const labels = Array.from(input.labels || [])
+        .map((label) => label.textContent)
+        .join(' ');
+      return clean(labels) || clean(input.getAttribute('placeholder')) || clean(input.title);
+    }
+    if (tag === 'img') return clean(el.getAttribute('alt'));
+    if (INTERACTIVE.has(role) || role === 'heading') {
+      return clean(el.textContent) || clean(el.getAttribute('title'));
+    }
+    return clean(el.getAttribute('title'));
+  };
+
+  const describe = (el: Element, role: string): string => {
+    const name = nameOf(el, role);
+    let line = name ? `${role} ${quote(name)}` : role;
+
+    if (INTERACTIVE.has(role)) {
+      let ref = el.getAttribute(refAttribute);
+      if (!ref) {
+        state.__cooperNextRef = (state.__cooperNextRef || 0) + 1;
+        ref = `e${state.__cooperNextRef}`;
+        el.setAttribute(refAttribute, ref);
+      }
+      line += ` [ref=${ref}]`;
+      refs[ref] = { role, name };
+      if (el.tagName === 'INPUT' && (el as HTMLInputElement).type === 'password') {
+        refs[ref].password = true;
+      }
+    }
+
+    if (role === 'heading') {
+      const level = el.getAttribute('aria-level') || el.tagName.match(/^H([1-6])$/)?.[1];
+      if (level) line += ` [level=${level}]`;
+    }
+    const input = el as HTMLInputElement;
+    if (role === 'checkbox' || role === 'radio' || role === 'switch') {
+      const checked =
+        typeof input.checked === 'boolean' && el.tagName === 'INPUT'
+          ? input.checked
+          : el.getAttribute('aria-checked') === 'true';
+      if (checked) line += ' [checked]';
+    }
+    if (input.disabled || el.getAttribute('aria-disabled') === 'true') line += ' [disabled]';
+    const expanded = el.getAttribute('aria-expanded');
+    if (expanded) line += expanded === 'true' ? ' [expanded]' : ' [collapsed]';
+    if (el.getAttribute('aria-selected') === 'true') line += ' [selected]';
+    if (input.required) line += ' [required]';
+
+    if (role === 'link') {
+      const href = el.getAttribute('href');
+      if (href && !href.startsWith('javascript:')) line += ` -> ${clean(href)}`;
+    }
+    if (['textbox', 'searchbox', 'spinbutton', 'slider'].includes(role) && input.value) {
+      line += `: ${input.type === 'password' ? '••••' : clean(input.value)}`;
+    }
+    if (role === 'combobox' && el.tagName === 'SELECT') {
+      const selected = (el as HTMLSelectElement).selectedOptions[0];
+      if (selected) line += `: ${clean(selected.textContent)}`;
+    }
+    return line;
+  };
+
+  const walk = (node: Node, depth: number): void => {
+    if (truncated) return;
+    if (node.nodeType === Node.TEXT_NODE) {
+      const text = clean(node.textContent);
+      if (text) push(depth, `text ${quote(text)}`);
+      return;
+    }
+    if (node.nodeType !== Node.ELEMENT_NODE) return;
+    const el = node as Element;
+    if (SKIPPED_TAGS.has(el.tagName.toLowerCase()) || isHidden(el)) return;
+
+    const role = roleOf(el);
+    let childDepth = depth;
+    if (role && (INTERACTIVE.has(role) || STRUCTURAL.has(role) || role === 'region')) {
+      if (!push(depth, describe(el, role))) return;
+      childDepth = depth + 1;
+      // Options are listed under their select; other controls are described by their name
+      if (el.tagName === 'SELECT') {
+        for (const option of Array.from((el as HTMLSelectElement).options).slice(0, 25)) {
+          push(childDepth, `option ${quote(clean(option.textContent))}`);
+        }
+        return;
+      }
+      if (INTERACTIVE.has(role) || role === 'heading' || role === 'img') return;
+    }
+
+    const children = el.shadowRoot ? [el.shadowRoot, ...Array.from(el.childNodes)] : el.childNodes;
+    for (const child of Array.from(children)) {
+      if (child.nodeType === Node.DOCUMENT_FRAGMENT_NODE) {
+        child.childNodes.forEach((shadowChild) => walk(shadowChild, childDepth));
+      } else {
+        walk(child, childDepth);
+      }
+    }
+  };
+
+  if (document.body) walk(document.body, 0);
+  return { documentId: state.__cooperSnapshotDoc, lines, truncated, refs };
+}
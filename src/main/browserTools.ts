@@ -6,18 +6,70 @@
  */
 
 import { z } from 'zod';
-import { defineTool, Tool } from '@github/copilot-sdk';
+import { defineTool, Tool, type ToolInvocation } from '@github/copilot-sdk';
 import * as browser from './browser';
+import * as capture from './browserCapture';
+import { getRecordingStatus, recordStep } from './browserRecorder';
+import * as visual from './visualBaselines';
+
+// Arguments worth showing in the viewport panel's "last action" (never typed values)
+const DESCRIBED_ARGS = ['url', 'ref', 'selector', 'key', 'direction'];
+
+/**
+ * Short description of a browser tool call, e.g. `click #login-btn`
+ */
+export function describeBrowserToolCall(toolName: string, args: unknown): string {
+  const record = (args && typeof args === 'object' ? args : {}) as Record<string, unknown>;
+  const detail = DESCRIBED_ARGS.map((key) => record[key]).find((v) => typeof v === 'string');
+  const action = toolName.replace(/^browser_/, '').replace(/_/g, ' ');
+  return detail ? `${action} ${detail}` : action;
+}
 
 /**
- * Create browser automation tools for a specific Copilot session
+ * Create browser automation tools for a specific Copilot session. getCwd resolves the session's
+ * project directory when a tool needs it (visual baselines are stored in the project).
  */
-export function createBrowserTools(sessionId: string): Tool<any>[] {
+export function createBrowserTools(sessionId: string, getCwd: () => string): Tool<any>[] {
+  return defineBrowserTools(sessionId, getCwd).map((tool) => ({
+    ...tool,
+    handler: async (args: unknown, invocation: ToolInvocation) => {
+      // The user took over the page from the viewport panel
+      if (browser.isUserInControl(sessionId)) {
+        return {
+          error:
+            'The user has taken control of the browser. Ask them to hand control back (or wait for them to finish) before using browser tools again.',
+        };
+      }
+      browser.recordBrowserAction(sessionId, describeBrowserToolCall(tool.name, args));
+      const toolArgs = (args && typeof args === 'object' ? args : {}) as Record<string, unknown>;
+      const url = browser.getViewportState(sessionId).url;
+      // Resolve refs before the call; a click can navigate away from the snapshot
+      const target =
+        typeof toolArgs.ref === 'string'
+          ? browser.getSnapshotRefTarget(sessionId, toolArgs.ref)
+          : undefined;
+      const result = await tool.handler(args, invocation);
+      const failed = !!result && typeof result === 'object' && 'error' in result;
+      if (!failed && getRecordingStatus(sessionId).recording) {
+        // Selector-based fills have no snapshot target to tell a password input apart
+        const password =
+          ['browser_fill', 'browser_type'].includes(tool.name) &&
+          typeof toolArgs.selector === 'string'
+            ? await browser.isPasswordField(sessionId, toolArgs.selector)
+            : undefined;
+        recordStep(sessionId, { tool: tool.name, args: toolArgs, target, password, url });
+      }
+      return result;
+    },
+  }));
+}
+
+function defineBrowserTools(sessionId: string, getCwd: () => string): Tool<any>[] {
   return [
     // Navigate to a URL
     defineTool('browser_navigate', {
       description:
-        "Open a web browser and navigate to a URL. The browser window will be visible to the user. Use this to access websites, web applications, or any URL. The browser persists login sessions so the user won't need to re-login each time.",
+        "Open a web browser and navigate to a URL. The user can watch the page live in the browser panel. Use this to access websites, web applications, or any URL. The browser persists login sessions so the user won't need to re-login each time.",
       parameters: z.object({
         url: z.string().describe('The URL to navigate to (must start with http:// or https://)'),
       }),
@@ -30,10 +82,76 @@ export function createBrowserTools(sessionId: string): Tool<any>[] {
       },
     }),
 
+    // Accessibility snapshot with element refs
+    defineTool('browser_snapshot', {
+      description:
+        'Get a compact accessibility outline of the current page: landmarks, headings, text, and every link, button, field and dropdown with its current state. Interactive elements have a ref like [ref=e12] for browser_click_ref, browser_fill_ref and browser_select_ref. Prefer this over browser_get_html and CSS selectors; take a new snapshot after the page changes.',
+      parameters: z.object({}),
+      handler: async () => {
+        const result = await browser.snapshotPage(sessionId);
+        if (!result.success) {
+          return { error: result.message };
+        }
+        return result.message;
+      },
+    }),
+
+    // Click an element by ref
+    defineTool('browser_click_ref', {
+      description: 'Click an element using its ref from the latest browser_snapshot.',
+      parameters: z.object({
+        ref: z.string().describe('Element ref from browser_snapshot (e.g., "e12")'),
+      }),
+      handler: async (args) => {
+        const result = await browser.clickRef(sessionId, args.ref);
+        if (!result.success) {
+          return { error: result.message };
+        }
+        return result.message;
+      },
+    }),
+
+    // Fill a field by ref
+    defineTool('browser_fill_ref', {
+      description:
+        'Fill a text field using its ref from the latest browser_snapshot. Clears existing content first.',
+      parameters: z.object({
+        ref: z.string().describe('Element ref from browser_snapshot (e.g., "e12")'),
+        value: z.string().describe('The value to fill in'),
+      }),
+      handler: async (args) => {
+        const result = await browser.fillRef(sessionId, args.ref, args.value);
+        if (!result.success) {
+          return { error: result.message };
+        }
+        return result.message;
+      },
+    }),
+
+    // Select dropdown options by ref
+    defineTool('browser_select_ref', {
+      description:
+        'Select one or more options in a dropdown using its ref from the latest browser_snapshot.',
+      parameters: z.object({
+        ref: z.string().describe('Element ref from browser_snapshot (e.g., "e12")'),
+        values: z
+          .array(z.string())
+          .min(1)
+          .describe('Values or visible labels of the options to select'),
+      }),
+      handler: async (args) => {
+        const result = await browser.selectRef(sessionId, args.ref, args.values);
+        if (!result.success) {
+          return { error: result.message };
+        }
+        return result.message;
+      },
+    }),
+
     // Click an element
     defineTool('browser_click', {
       description:
-        'Click on an element in the browser. Use CSS selectors to identify the element (e.g., "button.submit", "#login-btn", "[data-testid=\'submit\']").',
+        'Click on an element in the browser. Use CSS selectors to identify the element (e.g., "button.submit", "#login-btn", "[data-testid=\'submit\']"). Prefer browser_click_ref when you have a snapshot ref.',
       parameters: z.object({
         selector: z.string().describe('CSS selector for the element to click'),
       }),
@@ -149,6 +267,109 @@ export function createBrowserTools(sessionId: string): Tool<any>[] {
       },
     }),
 
+    // Save a visual baseline
+    defineTool('browser_save_baseline', {
+      description:
+        'Save a screenshot of the current page as a named visual baseline in the project (.copilot/visual-baselines/). Use browser_compare_screenshot later to check the page still looks the same. Saving again under the same name replaces the baseline.',
+      parameters: z.object({
+        name: z
+          .string()
+          .optional()
+          .describe(
+            'Baseline name, e.g. "settings-page". Defaults to the host and path of the URL.'
+          ),
+        fullPage: z
+          .boolean()
+          .optional()
+          .describe('If true, capture the full scrollable page. Default is false (viewport only).'),
+      }),
+      handler: async (args) => {
+        try {
+          const { png, url, viewport } = await browser.capturePageImage(sessionId, args.fullPage);
+          const baseline = await visual.saveBaseline(
+            getCwd(),
+            {
+              name: args.name || visual.defaultBaselineName(url),
+              url,
+              viewport,
+              fullPage: args.fullPage || false,
+            },
+            png
+          );
+          return `Saved visual baseline "${baseline.name}" (${viewport.width}x${viewport.height}) to ${visual.VISUAL_BASELINES_DIR}/${baseline.id}.png`;
+        } catch (error) {
+          return {
+            error: `Saving baseline failed: ${error instanceof Error ? error.message : String(error)}`,
+          };
+        }
+      },
+    }),
+
+    // Compare the page against a visual baseline
+    defineTool('browser_compare_screenshot', {
+      description:
+        'Compare a screenshot of the current page with a saved visual baseline and report the percentage of pixels that differ, with a diff image (changes in red). Use it to verify a page still looks right after a change. If no baseline exists yet, the current page is saved as the baseline.',
+      parameters: z.object({
+        name: z
+          .string()
+          .optional()
+          .describe('Baseline name. Defaults to the host and path of the URL.'),
+        fullPage: z
+          .boolean()
+          .optional()
+          .describe('Must match how the baseline was captured. Default is false (viewport only).'),
+        maxMismatchPercent: z
+          .number()
+          .min(0)
+          .max(100)
+          .optional()
+          .describe(
+            `Percentage of pixels allowed to differ for the comparison to pass. Default is ${visual.DEFAULT_MAX_MISMATCH_PERCENT}.`
+          ),
+      }),
+      handler: async (args) => {
+        try {
+          const cwd = getCwd();
+          const { png, url, viewport } = await browser.capturePageImage(sessionId, args.fullPage);
+          const name = args.name || visual.defaultBaselineName(url);
+          const id = visual.baselineId(name, viewport);
+          if (!(await visual.getBaseline(cwd, id))) {
+            await visual.saveBaseline(
+              cwd,
+              { name, url, viewport, fullPage: args.fullPage || false },
+              png
+            );
+            return `No baseline named "${name}" existed for a ${viewport.width}x${viewport.height} viewport. Saved the current page as the baseline.`;
+          }
+
+          const { comparison, diffPng } = await visual.compareWithBaseline(cwd, id, png, {
+            url,
+            maxMismatchPercent: args.maxMismatchPercent,
+          });
+          const size = comparison.sizeMismatch
+            ? ` The image size changed from ${comparison.sizeMismatch.baseline.width}x${comparison.sizeMismatch.baseline.height} to ${comparison.sizeMismatch.actual.width}x${comparison.sizeMismatch.actual.height}.`
+            : '';
+          const verdict = comparison.passed ? 'PASSED' : 'FAILED';
+          return {
+            textResultForLlm: `Visual comparison "${name}" ${verdict}: ${comparison.mismatchPercent}% of pixels differ (${comparison.diffPixels} of ${comparison.totalPixels}; allowed ${comparison.maxMismatchPercent}%).${size} The attached image shows the baseline faded with differences in red. If the change is intended, the user can accept it in the visual diff viewer or you can call browser_save_baseline.`,
+            binaryResultsForLlm: [
+              {
+                data: diffPng.toString('base64'),
+                mimeType: 'image/png',
+                type: 'image',
+                description: `Visual diff against baseline "${name}"`,
+              },
+            ],
+            resultType: 'success' as const,
+          };
+        } catch (error) {
+          return {
+            error: `Visual comparison failed: ${error instanceof Error ? error.message : String(error)}`,
+          };
+        }
+      },
+    }),
+
     // Get text content
     defineTool('browser_get_text', {
       description:
@@ -173,7 +394,7 @@ export function createBrowserTools(sessionId: string): Tool<any>[] {
     // Get page HTML
     defineTool('browser_get_html', {
       description:
-        'Get the HTML content from the page or a specific element. Useful for understanding page structure.',
+        'Get the HTML content from the page or a specific element. Prefer browser_snapshot for understanding page structure; use this when you need the markup itself.',
       parameters: z.object({
         selector: z
           .string()
@@ -327,6 +548,81 @@ export function createBrowserTools(sessionId: string): Tool<any>[] {
       },
     }),
 
+    // Console messages and page errors
+    defineTool('browser_get_console', {
+      description:
+        'Read the page\'s console messages and uncaught JavaScript errors (type "pageerror"), oldest first. Use this to debug a web app after an action doesn\'t behave as expected.',
+      parameters: z.object({
+        types: z
+          .array(z.string())
+          .optional()
+          .describe(
+            'Only these types, e.g. ["error", "warning", "pageerror"]. Other types: log, info, debug.'
+          ),
+        contains: z.string().optional().describe('Only messages containing this text'),
+        limit: z
+          .number()
+          .optional()
+          .describe('Return only the most recent N messages (default 50)'),
+        clear: z
+          .boolean()
+          .optional()
+          .describe('Forget the captured console and network logs after reading'),
+      }),
+      handler: async (args) => {
+        const entries = capture.getConsoleEntries(sessionId, {
+          types: args.types,
+          contains: args.contains,
+          limit: args.limit ?? 50,
+        });
+        if (args.clear) capture.clearBrowserCapture(sessionId);
+        if (entries.length === 0) return 'No matching console messages.';
+        return capture.formatConsoleEntries(entries);
+      },
+    }),
+
+    // Network requests
+    defineTool('browser_get_network', {
+      description:
+        'List network requests made by the page with method, status, resource type and duration, oldest first. Use onlyFailed to find failed requests and HTTP errors, and includeBodies to see request and (truncated) response bodies.',
+      parameters: z.object({
+        urlContains: z.string().optional().describe('Only requests whose URL contains this text'),
+        method: z.string().optional().describe('Only this HTTP method, e.g. "POST"'),
+        resourceTypes: z
+          .array(z.string())
+          .optional()
+          .describe('Only these resource types, e.g. ["fetch", "xhr", "document"]'),
+        onlyFailed: z
+          .boolean()
+          .optional()
+          .describe('Only requests that failed or returned HTTP status 400 or above'),
+        includeBodies: z
+          .boolean()
+          .optional()
+          .describe('Include request bodies and textual response bodies'),
+        limit: z
+          .number()
+          .optional()
+          .describe('Return only the most recent N requests (default 50)'),
+        clear: z
+          .boolean()
+          .optional()
+          .describe('Forget the captured console and network logs after reading'),
+      }),
+      handler: async (args) => {
+        const entries = capture.getNetworkEntries(sessionId, {
+          urlContains: args.urlContains,
+          method: args.method,
+          resourceTypes: args.resourceTypes,
+          onlyFailed: args.onlyFailed,
+          limit: args.limit ?? 50,
+        });
+        if (args.clear) capture.clearBrowserCapture(sessionId);
+        if (entries.length === 0) return 'No matching network requests.';
+        return capture.formatNetworkEntries(entries, args.includeBodies);
+      },
+    }),
+
     // Close browser
     defineTool('browser_close', {
       description:
@@ -0,0 +1,171 @@
+// @vitest-environment node
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const mocks = vi.hoisted(() => ({
+  responses: {} as Record<string, { status: number; body: unknown }>,
+  requests: [] as Array<{ url: string; headers: Record<string, string> }>,
+}));
+
+// Answer net.request from a URL -> response map, recording the headers sent
+vi.mock('electron', async () => {
+  const { EventEmitter } = await import('events');
+  return {
+    app: { getPath: vi.fn(() => '/tmp') },
+    net: {
+      request: vi.fn(({ url }: { url: string }) => {
+        const headers: Record<string, string> = {};
+        const request = Object.assign(new EventEmitter(), {
+          setHeader: (name: string, value: string) => {
+            headers[name] = value;
+          },
+          abort: vi.fn(),
+          end: () => {
+            mocks.requests.push({ url, headers });
+            const { status, body } = mocks.responses[url] || { status: 404, body: {} };
+            const response = Object.assign(new EventEmitter(), { statusCode: status });
+            setImmediate(() => {
+              request.emit('response', response);
+              response.emit('data', Buffer.from(JSON.stringify(body)));
+              response.emit('end');
+            });
+          },
+        });
+        return request;
+      }),
+    },
+  };
+});
+
+vi.mock('./worktree', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('./worktree')>()),
+  fetchGitHubIssue: vi.fn(async () => ({
+    success: true,
+    issue: { number: 7, title: 'Fix login', body: null, state: 'open', html_url: 'x' },
+  })),
+}));
+
+import { fetchIssueFromUrl, parseGitLabIssueUrl, parseJiraIssueUrl } from './issueProviders';
+
+describe('issueProviders', () => {
+  beforeEach(() => {
+    mocks.responses = {};
+    mocks.requests = [];
+  });
+
+  it('parses Jira and GitLab issue URLs', () => {
+    expect(parseJiraIssueUrl('https://jira.acme.com/jira/browse/OPS-7')).toEqual({
+      baseUrl: 'https://jira.acme.com/jira',
+      issueKey: 'OPS-7',
+    });
+    expect(
+      parseJiraIssueUrl(
+        'https://acme.atlassian.net/jira/software/projects/P/boards/1?selectedIssue=PR-9'
+      )
+    ).toEqual({ baseUrl: 'https://acme.atlassian.net', issueKey: 'PR-9' });
+    expect(parseJiraIssueUrl('https://acme.atlassian.net/browse/lowercase-1')).toBeNull();
+
+    expect(parseGitLabIssueUrl('https://gitlab.com/group/sub/project/-/issues/42')).toEqual({
+      baseUrl: 'https://gitlab.com',
+      projectPath: 'group/sub/project',
+      issueIid: 42,
+    });
+    expect(
+      parseGitLabIssueUrl('https://acme.com/gitlab/team/app/-/issues/3', 'https://acme.com/gitlab')
+    ).toEqual({ baseUrl: 'https://acme.com/gitlab', projectPath: 'team/app', issueIid: 3 });
+  });
+
+  it('fetches a Jira Cloud issue with email and token and suggests a branch', async () => {
+    mocks.responses[
+      'https://acme.atlassian.net/rest/api/2/issue/PROJ-12?fields=summary,description,status,comment'
+    ] = {
+      status: 200,
+      body: {
+        key: 'PROJ-12',
+        fields: {
+          summary: 'Crash on startup!',
+          description: 'Steps...',
+          status: { name: 'To Do' },
+          comment: {
+            comments: [{ body: 'Seen on 1.2', author: { displayName: 'Ana' }, created: 'now' }],
+          },
+        },
+      },
+    };
+
+    const result = await fetchIssueFromUrl('https://acme.atlassian.net/browse/PROJ-12', {
+      jira: { baseUrl: 'https://acme.atlassian.net', email: 'me@acme.com', token: 'secret' },
+    });
+
+    expect(result).toMatchObject({
+      success: true,
+      provider: 'jira',
+      suggestedBranch: 'feature/PROJ-12-crash-on-startup',
+      issue: {
+        key: 'PROJ-12',
+        title: 'Crash on startup!',
+        state: 'To Do',
+        comments: [{ body: 'Seen on 1.2', user: { login: 'Ana' } }],
+      },
+    });
+    expect(mocks.requests[0].headers.Authorization).toBe(
+      `Basic ${Buffer.from('me@acme.com:secret').toString('base64')}`
+    );
+  });
+
+  it('fetches GitLab issues and notes, and only sends tokens to the configured host', async () => {
+    const issueApi = 'https://gitlab.com/api/v4/projects/group%2Fproject/issues/5';
+    mocks.responses[issueApi] = {
+      status: 200,
+      body: {
+        iid: 5,
+        title: 'Add dark mode',
+        description: 'Please',
+        state: 'opened',
+        web_url: 'https://gitlab.com/group/project/-/issues/5',
+      },
+    };
+    mocks.responses[`${issueApi}/notes?sort=asc&per_page=100`] = {
+      status: 200,
+      body: [
+        { body: 'added ~feature label', system: true, created_at: '1' },
+        { body: '+1', system: false, author: { username: 'bo' }, created_at: '2' },
+      ],
+    };
+
+    const result = await fetchIssueFromUrl('https://gitlab.com/group/project/-/issues/5', {
+      gitlab: { token: 'glpat' },
+    });
+    expect(result.suggestedBranch).toBe('feature/5-add-dark-mode');
+    expect(result.issue?.comments).toEqual([
+      { body: '+1', user: { login: 'bo' }, created_at: '2' },
+    ]);
+    expect(mocks.requests[0].headers['PRIVATE-TOKEN']).toBe('glpat');
+
+    mocks.requests = [];
+    await fetchIssueFromUrl('http://gitlab.com/group/project/-/issues/5', {
+      gitlab: { token: 'glpat' },
+    });
+    expect(mocks.requests[0].headers['PRIVATE-TOKEN']).toBeUndefined();
+
+    mocks.requests = [];
+    const other = await fetchIssueFromUrl('https://git.other.com/team/app/-/issues/1', {
+      gitlab: { token: 'glpat' },
+    });
+    expect(mocks.requests[0].headers['PRIVATE-TOKEN']).toBeUndefined();
+    expect(other).toMatchObject({ success: false, provider: 'gitlab' });
+    expect(other.error).toContain('Settings → Issue Trackers');
+  });
+
+  it('delegates GitHub URLs to the existing fetcher and rejects unknown URLs', async () => {
+    const github = await fetchIssueFromUrl('https://github.com/owner/repo/issues/7');
+    expect(github).toMatchObject({
+      success: true,
+      provider: 'github',
+      suggestedBranch: 'feature/7-fix-login',
+    });
+
+    const unknown = await fetchIssueFromUrl('https://example.com/tickets/1');
+    expect(unknown.success).toBe(false);
+    expect(unknown.error).toMatch(/Unsupported URL format/);
+  });
+});
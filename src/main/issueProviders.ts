@@ -0,0 +1,442 @@
+/**
+ * Issue Providers
+ *
+ * Worktree sessions can start from an issue URL. Each tracker is an IssueProvider that
+ * recognizes its URLs, fetches the issue's title, description and comments, and suggests a
+ * branch name. GitHub and Azure DevOps reuse the CLI-first fetchers in worktree.ts; Jira
+ * (Cloud and Server/Data Center) and GitLab call their REST APIs with tokens from settings.
+ */
+
+import { net } from 'electron';
+import { fetchAzureDevOpsWorkItem, fetchGitHubIssue, generateBranchFromTitle } from './worktree';
+
+export type IssueProviderId = 'github' | 'azure-devops' | 'jira' | 'gitlab';
+
+export interface IssueComment {
+  body: string;
+  user: { login: string };
+  created_at: string;
+}
+
+export interface ProviderIssue {
+  key: string; // Tracker ID shown to users, e.g. "123" or "PROJ-123"
+  title: string;
+  body: string | null;
+  state: string;
+  html_url: string;
+  comments?: IssueComment[];
+}
+
+export interface FetchIssueResult {
+  success: boolean;
+  provider?: IssueProviderId;
+  issue?: ProviderIssue;
+  suggestedBranch?: string;
+  error?: string;
+}
+
+// Tokens are only sent to the tracker at baseUrl
+export interface IssueTrackerSettings {
+  jira?: {
+    baseUrl?: string; // e.g. https://acme.atlassian.net or https://jira.acme.com
+    email?: string; // Jira Cloud account email; without it the token is sent as a bearer PAT
+    token?: string;
+  };
+  gitlab?: {
+    baseUrl?: string; // Defaults to https://gitlab.com
+    token?: string;
+  };
+}
+
+export interface IssueProvider<Ref = unknown> {
+  id: IssueProviderId;
+  name: string;
+  parseUrl(url: string): Ref | null;
+  fetchIssue(
+    ref: Ref,
+    url: string,
+    settings: IssueTrackerSettings
+  ): Promise<{ success: boolean; issue?: ProviderIssue; error?: string }>;
+  branchName(issue: ProviderIssue): string;
+}
+
+const REQUEST_TIMEOUT_MS = 30000;
+
+/**
+ * GET a JSON document with Electron's net module (which honours system proxy settings)
+ */
+function requestJson(
+  url: string,
+  headers: Record<string, string>
+): Promise<{ status: number; data?: unknown; error?: string }> {
+  return new Promise((resolve) => {
+    const request = net.request({ method: 'GET', url });
+    request.setHeader('Accept', 'application/json');
+    request.setHeader('User-Agent', 'Copilot-UI');
+    for (const [name, value] of Object.entries(headers)) {
+      request.setHeader(name, value);
+    }
+    const timer = setTimeout(() => {
+      request.abort();
+      resolve({ status: 0, error: 'Request timed out' });
+    }, REQUEST_TIMEOUT_MS);
+
+    let responseBody = '';
+    request.on('response', (response) => {
+      response.on('data', (chunk) => {
+        responseBody += chunk.toString();
+      });
+      response.on('end', () => {
+        clearTimeout(timer);
+        if (response.statusCode !== 200) {
+          resolve({ status: response.statusCode });
+          return;
+        }
+        try {
+          resolve({ status: 200, data: JSON.parse(responseBody) });
+        } catch {
+          // Private instances may answer with a sign-in page instead of JSON
+          resolve({ status: 401 });
+        }
+      });
+    });
+    request.on('error', (error) => {
+      clearTimeout(timer);
+      resolve({ status: 0, error: `Network error: ${error.message}` });
+    });
+    request.end();
+  });
+}
+
+const hostOf = (url: string | undefined): string | null => {
+  if (!url) return null;
+  try {
+    return new URL(/^https?:\/\//.test(url) ? url : `https://${url}`).host.toLowerCase();
+  } catch {
+    return null;
+  }
+};
+
+const originOf = (url: string): string | null => {
+  try {
+    return new URL(/^https?:\/\//.test(url) ? url : `https://${url}`).origin.toLowerCase();
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Tokens are only attached when the issue URL has the same scheme and host as the URL they were
+ * saved for, so an http:// link to the same host cannot send them in cleartext
+ */
+const isCredentialedOrigin = (savedUrl: string, url: string): boolean => {
+  const origin = originOf(savedUrl);
+  return origin !== null && origin === originOf(url);
+};
+
+const trimSlashes = (value: string) => value.replace(/\/+$/, '');
+
+function statusError(tracker: string, status: number, host: string, error?: string): string {
+  if (status === 401 || status === 403) {
+    return `${tracker} denied access to this issue. Add an API token for ${host} in Settings → Issue Trackers.`;
+  }
+  if (status === 404) {
+    return `Issue not found on ${host}. Check the URL, or add an API token for ${host} in Settings → Issue Trackers if the project is private.`;
+  }
+  return error || `${tracker} API error: ${status}`;
+}
+
+// GitHub and Azure DevOps
+
+const GITHUB_ISSUE_URL = /(?:https?:\/\/)?github\.com\/([^/]+)\/([^/]+)\/issues\/(\d+)/;
+const AZURE_DEVOPS_WORK_ITEM_URLS = [
+  /(?:https?:\/\/)?dev\.azure\.com\/([^/]+)\/([^/]+)\/_workitems\/edit\/(\d+)/,
+  /(?:https?:\/\/)?([^.]+)\.visualstudio\.com\/([^/]+)\/_workitems\/edit\/(\d+)/,
+];
+
+const githubProvider: IssueProvider<true> = {
+  id: 'github',
+  name: 'GitHub',
+  parseUrl: (url) => (GITHUB_ISSUE_URL.test(url) ? true : null),
+  async fetchIssue(_ref, url) {
+    const result = await fetchGitHubIssue(url);
+    if (!result.success || !result.issue) return { success: false, error: result.error };
+    const { number, title, body, state, html_url, comments } = result.issue;
+    return {
+      success: true,
+      issue: { key: String(number), title, body, state, html_url, comments },
+    };
+  },
+  branchName: (issue) => generateBranchFromTitle(issue.key, issue.title),
+};
+
+const azureDevOpsProvider: IssueProvider<true> = {
+  id: 'azure-devops',
+  name: 'Azure DevOps',
+  parseUrl: (url) =>
+    AZURE_DEVOPS_WORK_ITEM_URLS.some((pattern) => pattern.test(url)) ? true : null,
+  async fetchIssue(_ref, url) {
+    const result = await fetchAzureDevOpsWorkItem(url);
+    if (!result.success || !result.workItem) return { success: false, error: result.error };
+    const { number, title, body, state, html_url, comments } = result.workItem;
+    return {
+      success: true,
+      issue: { key: String(number), title, body, state, html_url, comments },
+    };
+  },
+  branchName: (issue) => generateBranchFromTitle(issue.key, issue.title),
+};
+
+// Jira Cloud and Jira Server/Data Center
+
+export interface JiraIssueRef {
+  baseUrl: string; // Site URL including any context path, e.g. https://jira.acme.com/jira
+  issueKey: string;
+}
+
+const JIRA_ISSUE_KEY = /^[A-Z][A-Z0-9_]+-\d+$/;
+
+/**
+ * Parse https://<site>/browse/PROJ-123 (Cloud and Server) and Jira Cloud board or list links
+ * with ?selectedIssue=PROJ-123
+ */
+export function parseJiraIssueUrl(url: string): JiraIssueRef | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(/^https?:\/\//.test(url) ? url : `https://${url}`);
+  } catch {
+    return null;
+  }
+  const browse = parsed.pathname.match(/^(.*?)\/browse\/([^/]+)\/?$/);
+  if (browse && JIRA_ISSUE_KEY.test(browse[2])) {
+    return { baseUrl: `${parsed.origin}${browse[1]}`, issueKey: browse[2] };
+  }
+  const selected = parsed.searchParams.get('selectedIssue');
+  if (parsed.host.endsWith('.atlassian.net') && selected && JIRA_ISSUE_KEY.test(selected)) {
+    return { baseUrl: parsed.origin, issueKey: selected };
+  }
+  return null;
+}
+
+function jiraAuthHeaders(
+  ref: JiraIssueRef,
+  settings: IssueTrackerSettings
+): Record<string, string> {
+  const jira = settings.jira;
+  if (!jira?.token || !jira.baseUrl || !isCredentialedOrigin(jira.baseUrl, ref.baseUrl)) {
+    return {};
+  }
+  // Jira Cloud API tokens go with the account email; Server/Data Center takes a bearer PAT
+  return jira.email
+    ? {
+        Authorization: `Basic ${Buffer.from(`${jira.email}:${jira.token}`).toString('base64')}`,
+      }
+    : { Authorization: `Bearer ${jira.token}` };
+}
+
+interface JiraIssueResponse {
+  key: string;
+  fields: {
+    summary?: string;
+    description?: string | null;
+    status?: { name?: string };
+    comment?: {
+      comments?: Array<{ body?: string; author?: { displayName?: string }; created?: string }>;
+    };
+  };
+}
+
+const jiraProvider: IssueProvider<JiraIssueRef> = {
+  id: 'jira',
+  name: 'Jira',
+  parseUrl: parseJiraIssueUrl,
+  async fetchIssue(ref, url, settings) {
+    // API v2 returns descriptions and comments as plain text on both Cloud and Server
+    const { status, data, error } = await requestJson(
+      `${trimSlashes(ref.baseUrl)}/rest/api/2/issue/${ref.issueKey}?fields=summary,description,status,comment`,
+      jiraAuthHeaders(ref, settings)
+    );
+    if (status !== 200 || !data) {
+      return { success: false, error: statusError('Jira', status, hostOf(ref.baseUrl)!, error) };
+    }
+    const { key, fields } = data as JiraIssueResponse;
+    return {
+      success: true,
+      issue: {
+        key,
+        title: fields.summary || '',
+        body: fields.description || null,
+        state: fields.status?.name || 'Unknown',
+        html_url: url,
+        comments: (fields.comment?.comments || []).map((comment) => ({
+          body: comment.body || '',
+          user: { login: comment.author?.displayName || 'Unknown' },
+          created_at: comment.created || '',
+        })),
+      },
+    };
+  },
+  branchName: (issue) => generateBranchFromTitle(issue.key, issue.title),
+};
+
+// GitLab (gitlab.com and self-managed)
+
+export interface GitLabIssueRef {
+  baseUrl: string; // Instance URL, e.g. https://gitlab.com
+  projectPath: string; // group/subgroup/project
+  issueIid: number;
+}
+
+/**
+ * Parse https://<host>/<group>/<project>/-/issues/42. For self-managed instances under a path
+ * (https://acme.com/gitlab), the configured base URL tells where the project path starts.
+ */
+export function parseGitLabIssueUrl(
+  url: string,
+  configuredBaseUrl?: string
+): GitLabIssueRef | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(/^https?:\/\//.test(url) ? url : `https://${url}`);
+  } catch {
+    return null;
+  }
+  const match = parsed.pathname.match(/^\/(.+?)\/-\/issues\/(\d+)\/?$/);
+  if (!match) return null;
+
+  let baseUrl = parsed.origin;
+  let projectPath = match[1];
+  if (configuredBaseUrl && hostOf(configuredBaseUrl) === parsed.host.toLowerCase()) {
+    const basePath = trimSlashes(new URL(configuredBaseUrl).pathname).replace(/^\//, '');
+    if (basePath && projectPath.startsWith(`${basePath}/`)) {
+      baseUrl = `${parsed.origin}/${basePath}`;
+      projectPath = projectPath.slice(basePath.length + 1);
+    }
+  }
+  return { baseUrl, projectPath, issueIid: parseInt(match[2], 10) };
+}
+
+interface GitLabIssueResponse {
+  iid: number;
+  title: string;
+  description: string | null;
+  state: string;
+  web_url: string;
+}
+
+interface GitLabNote {
+  body: string;
+  system: boolean;
+  author?: { username?: string };
+  created_at: string;
+}
+
+const gitlabProvider: IssueProvider<GitLabIssueRef> = {
+  id: 'gitlab',
+  name: 'GitLab',
+  parseUrl: (url) => parseGitLabIssueUrl(url),
+  async fetchIssue(ref, url, settings) {
+    const gitlab = settings.gitlab;
+    const resolved = parseGitLabIssueUrl(url, gitlab?.baseUrl) || ref;
+    const headers: Record<string, string> =
+      gitlab?.token &&
+      isCredentialedOrigin(gitlab.baseUrl || 'https://gitlab.com', resolved.baseUrl)
+        ? { 'PRIVATE-TOKEN': gitlab.token }
+        : {};
+    const issueApi = `${resolved.baseUrl}/api/v4/projects/${encodeURIComponent(resolved.projectPath)}/issues/${resolved.issueIid}`;
+
+    const { status, data, error } = await requestJson(issueApi, headers);
+    if (status !== 200 || !data) {
+      return {
+        success: false,
+        error: statusError('GitLab', status, hostOf(resolved.baseUrl)!, error),
+      };
+    }
+    const issue = data as GitLabIssueResponse;
+
+    // Comments are optional; system notes (label changes etc.) are left out
+    const notes = await requestJson(`${issueApi}/notes?sort=asc&per_page=100`, headers);
+    const comments = Array.isArray(notes.data)
+      ? (notes.data as GitLabNote[])
+          .filter((note) => !note.system)
+          .map((note) => ({
+            body: note.body,
+            user: { login: note.author?.username || 'Unknown' },
+            created_at: note.created_at,
+          }))
+      : [];
+
+    return {
+      success: true,
+      issue: {
+        key: String(issue.iid),
+        title: issue.title,
+        body: issue.description || null,
+        state: issue.state,
+        html_url: issue.web_url || url,
+        comments,
+      },
+    };
+  },
+  branchName: (issue) => generateBranchFromTitle(issue.key, issue.title),
+};
+
+// Checked in order; GitHub and Azure DevOps first since their URLs are the most specific
+export const ISSUE_PROVIDERS: IssueProvider[] = [
+  githubProvider,
+  azureDevOpsProvider,
+  gitlabProvider,
+  jiraProvider,
+] as IssueProvider[];
+
+/**
+ * The provider that recognizes an issue URL, with its parsed reference
+ */
+export function findIssueProvider(url: string): { provider: IssueProvider; ref: unknown } | null {
+  for (const provider of ISSUE_PROVIDERS) {
+    const ref = provider.parseUrl(url);
+    if (ref) return { provider, ref };
+  }
+  return null;
+}
+
+/**
+ * Fetch an issue from whichever tracker its URL belongs to and suggest a branch name
+ */
+export async function fetchIssueFromUrl(
+  url: string,
+  settings: IssueTrackerSettings = {}
+): Promise<FetchIssueResult> {
+  const trimmed = url.trim();
+  const found = findIssueProvider(trimmed);
+  if (!found) {
+    return {
+      success: false,
+      error:
+        'Unsupported URL format. Use a GitHub, GitLab, Jira or Azure DevOps issue or work item URL.',
+    };
+  }
+  const { provider, ref } = found;
+  try {
+    const result = await provider.fetchIssue(ref, trimmed, settings);
+    if (!result.success || !result.issue) {
+      return {
+        success: false,
+        provider: provider.id,
+        error: result.error || `Failed to fetch ${provider.name} issue`,
+      };
+    }
+    return {
+      success: true,
+      provider: provider.id,
+      issue: result.issue,
+      suggestedBranch: provider.branchName(result.issue),
+    };
+  } catch (error) {
+    return {
+      success: false,
+      provider: provider.id,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
@@ -0,0 +1,154 @@
+// @vitest-environment node
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+const mocks = vi.hoisted(() => ({
+  calls: [] as Array<{ command: string; body?: string }>,
+  prList: '[]',
+}));
+
+// Record CLI calls, reading the comment file before it is cleaned up
+vi.mock('child_process', async () => {
+  const { readFileSync } = await import('fs');
+  const run = (command: string, bodyFile: string | undefined, callback: Function) => {
+    mocks.calls.push({ command, body: bodyFile ? readFileSync(bodyFile, 'utf-8') : undefined });
+    const stdout = command.startsWith('gh pr list') ? mocks.prList : '';
+    callback(null, { stdout, stderr: '' });
+  };
+  return {
+    exec: (command: string, _options: unknown, callback: Function) =>
+      run(command, undefined, callback),
+    execFile: (file: string, args: string[], _options: unknown, callback: Function) => {
+      // gh takes --body-file <path>, az takes --discussion @<path>
+      const bodyIndex = ['--body-file', '--discussion']
+        .map((flag) => args.indexOf(flag))
+        .find((index) => index >= 0);
+      const bodyFile = bodyIndex === undefined ? undefined : args[bodyIndex + 1].replace(/^@/, '');
+      run([file, ...args].join(' '), bodyFile, callback);
+    },
+  };
+});
+
+vi.mock('electron', () => ({
+  app: { getPath: vi.fn(() => '/tmp') },
+  net: { request: vi.fn() },
+}));
+
+import {
+  DEFAULT_ISSUE_WRITE_BACK_CONFIG,
+  buildWriteBackComment,
+  postIssueWriteBack,
+  resolveWriteBackTarget,
+  watchForPullRequest,
+} from './issueWriteBack';
+
+const config = { ...DEFAULT_ISSUE_WRITE_BACK_CONFIG, enabled: true };
+
+describe('issueWriteBack', () => {
+  beforeEach(() => {
+    mocks.calls = [];
+    mocks.prList = '[]';
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('resolves GitHub issues and Azure DevOps work items only', () => {
+    expect(resolveWriteBackTarget('https://github.com/o/r/issues/3')).toEqual({
+      provider: 'github',
+      url: 'https://github.com/o/r/issues/3',
+    });
+    expect(
+      resolveWriteBackTarget('https://dev.azure.com/org/proj/_workitems/edit/9')
+    ).toMatchObject({ provider: 'azure-devops', organization: 'org', workItemId: 9 });
+    expect(resolveWriteBackTarget('https://acme.atlassian.net/browse/PROJ-1')).toBeNull();
+  });
+
+  it('builds markdown and escaped HTML comments with a capped file list', () => {
+    const update = {
+      event: 'loop-complete' as const,
+      issueUrl: 'https://github.com/o/r/issues/3',
+      cwd: '/repo',
+      outcome: 'Ralph loop completed after 2 iterations',
+      summary: 'Fixed <the> bug',
+      filesChanged: Array.from({ length: 32 }, (_, i) => `src/file${i}.ts`),
+    };
+
+    const markdown = buildWriteBackComment(update, 'markdown');
+    expect(markdown).toContain('**Ralph loop completed after 2 iterations**');
+    expect(markdown).toContain('Fixed <the> bug');
+    expect(markdown).toContain('<summary>Files changed (32)</summary>');
+    expect(markdown).toContain('- `src/file29.ts`');
+    expect(markdown).not.toContain('src/file30.ts');
+    expect(markdown).toContain('- and 2 more');
+
+    const html = buildWriteBackComment(
+      { ...update, event: 'pull-request', prUrl: 'https://github.com/o/r/pull/4' },
+      'html'
+    );
+    expect(html).toContain('<b>A pull request is ready for review</b>');
+    expect(html).toContain('Fixed &lt;the&gt; bug');
+    expect(html).toContain('<a href="https://github.com/o/r/pull/4">');
+  });
+
+  it('comments on GitHub issues and adds the label when a PR is opened', async () => {
+    const result = await postIssueWriteBack(
+      {
+        event: 'pull-request',
+        issueUrl: 'https://github.com/o/r/issues/3',
+        cwd: '/repo',
+        prUrl: 'https://github.com/o/r/pull/4',
+        filesChanged: ['/repo/src/app.ts'],
+      },
+      { ...config, githubLabel: 'in review' }
+    );
+
+    expect(result).toEqual({ success: true });
+    expect(mocks.calls[0].command).toMatch(
+      /^gh issue comment https:\/\/github\.com\/o\/r\/issues\/3 --body-file /
+    );
+    expect(mocks.calls[0].body).toContain('Pull request: https://github.com/o/r/pull/4');
+    expect(mocks.calls[0].body).toContain('- `src/app.ts`');
+    expect(mocks.calls[1].command).toBe(
+      'gh issue edit https://github.com/o/r/issues/3 --add-label in review'
+    );
+  });
+
+  it('updates Azure DevOps work items with a discussion comment and state', async () => {
+    const result = await postIssueWriteBack(
+      {
+        event: 'pull-request',
+        issueUrl: 'https://dev.azure.com/org/proj/_workitems/edit/9',
+        cwd: '/repo',
+        filesChanged: [],
+      },
+      { ...config, workItemState: 'Resolved' }
+    );
+
+    expect(result).toEqual({ success: true });
+    expect(mocks.calls).toHaveLength(1);
+    expect(mocks.calls[0].command).toMatch(
+      /^az boards work-item update --id 9 --org https:\/\/dev\.azure\.com\/org --discussion @\S+ --state Resolved --output none$/
+    );
+    expect(mocks.calls[0].body).toContain('<b>A pull request is ready for review</b>');
+  });
+
+  it('polls gh until a pull request exists for the branch', async () => {
+    vi.useFakeTimers();
+    const onFound = vi.fn();
+    watchForPullRequest('/repo', 'feature/3-fix', onFound, {
+      intervalMs: 1000,
+      timeoutMs: 5000,
+    });
+    await vi.advanceTimersByTimeAsync(0);
+    expect(onFound).not.toHaveBeenCalled();
+
+    mocks.prList = JSON.stringify([{ url: 'https://github.com/o/r/pull/4' }]);
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(onFound).toHaveBeenCalledWith('https://github.com/o/r/pull/4');
+    expect(mocks.calls[0].command).toContain('gh pr list --head feature/3-fix');
+
+    await vi.advanceTimersByTimeAsync(5000);
+    expect(onFound).toHaveBeenCalledTimes(1);
+  });
+});
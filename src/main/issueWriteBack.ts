@@ -0,0 +1,290 @@
+/**
+ * Issue Write-Back
+ *
+ * Keeps the issue a worktree session was started from up to date. When a Ralph or Lisa loop
+ * finishes, or a pull request is opened for the session's branch, a comment with the agent's
+ * summary, the files changed and the PR link is posted to the GitHub issue (via gh) or Azure
+ * DevOps work item (via az). Opening a PR can also add a GitHub label or move the work item to
+ * another state.
+ */
+
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { isAbsolute, join, relative } from 'path';
+import { parseAzureDevOpsWorkItemUrl, parseGitHubIssueUrl } from './worktree';
+
+const execFileAsync = promisify(execFile);
+
+const CLI_TIMEOUT_MS = 30000;
+const MAX_SUMMARY_LENGTH = 2000;
+const MAX_LISTED_FILES = 30;
+const PR_POLL_INTERVAL_MS = 30 * 1000;
+const PR_WATCH_TIMEOUT_MS = 15 * 60 * 1000;
+
+export interface IssueWriteBackConfig {
+  enabled: boolean;
+  onLoopComplete: boolean; // Comment when a Ralph/Lisa loop finishes
+  onPullRequest: boolean; // Comment when a PR is opened for the session's branch
+  githubLabel: string; // Label added to GitHub issues when a PR is opened ('' = none)
+  workItemState: string; // State Azure DevOps work items move to when a PR is opened ('' = none)
+}
+
+export const DEFAULT_ISSUE_WRITE_BACK_CONFIG: IssueWriteBackConfig = {
+  enabled: false,
+  onLoopComplete: true,
+  onPullRequest: true,
+  githubLabel: '',
+  workItemState: '',
+};
+
+export type WriteBackTarget =
+  | { provider: 'github'; url: string }
+  | { provider: 'azure-devops'; url: string; organization: string; workItemId: number };
+
+export interface WriteBackUpdate {
+  event: 'loop-complete' | 'pull-request';
+  issueUrl: string;
+  cwd: string;
+  outcome?: string; // e.g. "Ralph loop completed after 3 iterations"
+  summary?: string; // The agent's final message
+  filesChanged?: string[];
+  branch?: string;
+  targetBranch?: string; // Files changed are diffed against this when not given
+  prUrl?: string;
+}
+
+/**
+ * The tracker an issue URL belongs to, or null for trackers without write-back
+ */
+export function resolveWriteBackTarget(issueUrl: string): WriteBackTarget | null {
+  if (parseGitHubIssueUrl(issueUrl)) {
+    return { provider: 'github', url: issueUrl };
+  }
+  const workItem = parseAzureDevOpsWorkItemUrl(issueUrl);
+  if (workItem) {
+    return {
+      provider: 'azure-devops',
+      url: issueUrl,
+      organization: workItem.organization,
+      workItemId: workItem.workItemId,
+    };
+  }
+  return null;
+}
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+/**
+ * Build the comment text. GitHub renders markdown; Azure DevOps discussions take HTML.
+ */
+export function buildWriteBackComment(
+  update: WriteBackUpdate,
+  format: 'markdown' | 'html'
+): string {
+  const heading =
+    update.event === 'pull-request'
+      ? 'A pull request is ready for review'
+      : update.outcome || 'The agent finished working on this issue';
+  let summary = (update.summary || '').trim();
+  if (summary.length > MAX_SUMMARY_LENGTH) {
+    summary = `${summary.slice(0, MAX_SUMMARY_LENGTH).trimEnd()}…`;
+  }
+  const files = update.filesChanged || [];
+  const listed = files.slice(0, MAX_LISTED_FILES);
+  const more = files.length - listed.length;
+
+  if (format === 'html') {
+    const parts = [`<p><b>${escapeHtml(heading)}</b></p>`];
+    if (update.prUrl) {
+      parts.push(
+        `<p>Pull request: <a href="${escapeHtml(update.prUrl)}">${escapeHtml(update.prUrl)}</a></p>`
+      );
+    }
+    if (update.branch) parts.push(`<p>Branch: <code>${escapeHtml(update.branch)}</code></p>`);
+    if (summary) parts.push(`<p>${escapeHtml(summary).replace(/\n/g, '<br>')}</p>`);
+    if (listed.length > 0) {
+      parts.push(
+        `<p>Files changed (${files.length}):</p><ul>${listed
+          .map((file) => `<li><code>${escapeHtml(file)}</code></li>`)
+          .join('')}${more > 0 ? `<li>and ${more} more</li>` : ''}</ul>`
+      );
+    }
+    parts.push('<p><i>Posted by Cooper</i></p>');
+    return parts.join('');
+  }
+
+  const lines = [`**${heading}**`, ''];
+  if (update.prUrl) lines.push(`Pull request: ${update.prUrl}`, '');
+  if (update.branch) lines.push(`Branch: \`${update.branch}\``, '');
+  if (summary) lines.push(summary, '');
+  if (listed.length > 0) {
+    lines.push(
+      '<details>',
+      `<summary>Files changed (${files.length})</summary>`,
+      '',
+      ...listed.map((file) => `- \`${file}\``),
+      ...(more > 0 ? [`- and ${more} more`] : []),
+      '',
+      '</details>',
+      ''
+    );
+  }
+  lines.push('<sub>Posted by Cooper</sub>');
+  return lines.join('\n');
+}
+
+/**
+ * Files touched on the session's branch: committed since `baseBranch` plus uncommitted changes,
+ * relative to the working tree
+ */
+export async function listChangedFiles(cwd: string, baseBranch?: string): Promise<string[]> {
+  const files = new Set<string>();
+  if (baseBranch) {
+    try {
+      const range = `${baseBranch}...HEAD`;
+      const { stdout } = await execFileAsync('git', ['diff', '--name-only', range], { cwd });
+      stdout
+        .split('\n')
+        .filter(Boolean)
+        .forEach((file) => files.add(file));
+    } catch {
+      // Base branch not available locally
+    }
+  }
+  try {
+    const { stdout } = await execFileAsync('git', ['status', '--porcelain'], { cwd });
+    stdout
+      .split('\n')
+      .filter(Boolean)
+      .forEach((line) => files.add(line.substring(3).trim()));
+  } catch {
+    // Not a git repository
+  }
+  return [...files];
+}
+
+/**
+ * URL of the pull request opened from a branch, if there is one
+ */
+export async function findPullRequestUrl(cwd: string, branch: string): Promise<string | undefined> {
+  try {
+    const { stdout } = await execFileAsync(
+      'gh',
+      ['pr', 'list', '--head', branch, '--state', 'all', '--json', 'url', '--limit', '1'],
+      { cwd, timeout: CLI_TIMEOUT_MS }
+    );
+    const [pr] = JSON.parse(stdout) as Array<{ url: string }>;
+    return pr?.url;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Post a comment on the issue and, for pull requests, apply the configured label or state
+ */
+export async function postIssueWriteBack(
+  update: WriteBackUpdate,
+  config: IssueWriteBackConfig
+): Promise<{ success: boolean; error?: string }> {
+  const target = resolveWriteBackTarget(update.issueUrl);
+  if (!target) {
+    return {
+      success: false,
+      error: 'Write-back supports GitHub issues and Azure DevOps work items',
+    };
+  }
+
+  const filesChanged = (
+    update.filesChanged || (await listChangedFiles(update.cwd, update.targetBranch))
+  ).map((file) => (isAbsolute(file) ? relative(update.cwd, file) : file));
+  const withFiles = { ...update, filesChanged };
+  const isPullRequest = update.event === 'pull-request';
+
+  // The comment goes through a file so that no shell quoting is involved
+  const dir = mkdtempSync(join(tmpdir(), 'cooper-write-back-'));
+  const bodyFile = join(dir, 'comment');
+  try {
+    if (target.provider === 'github') {
+      writeFileSync(bodyFile, buildWriteBackComment(withFiles, 'markdown'), 'utf-8');
+      await execFileAsync('gh', ['issue', 'comment', target.url, '--body-file', bodyFile], {
+        cwd: update.cwd,
+        timeout: CLI_TIMEOUT_MS,
+      });
+      if (isPullRequest && config.githubLabel.trim()) {
+        await execFileAsync(
+          'gh',
+          ['issue', 'edit', target.url, '--add-label', config.githubLabel.trim()],
+          { cwd: update.cwd, timeout: CLI_TIMEOUT_MS }
+        );
+      }
+    } else {
+      writeFileSync(bodyFile, buildWriteBackComment(withFiles, 'html'), 'utf-8');
+      const args = [
+        'boards',
+        'work-item',
+        'update',
+        '--id',
+        String(target.workItemId),
+        '--org',
+        `https://dev.azure.com/${target.organization}`,
+        // az reads an argument's value from a file when it starts with @
+        '--discussion',
+        `@${bodyFile}`,
+      ];
+      if (isPullRequest && config.workItemState.trim()) {
+        args.push('--state', config.workItemState.trim());
+      }
+      await execFileAsync('az', [...args, '--output', 'none'], { timeout: CLI_TIMEOUT_MS });
+    }
+    return { success: true };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return {
+      success: false,
+      error:
+        target.provider === 'github'
+          ? `Failed to comment on GitHub issue: ${message}`
+          : `Failed to update Azure DevOps work item: ${message}`,
+    };
+  } finally {
+    rmSync(dir, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Pull requests are opened in the browser, so poll gh until one exists for the branch. Calls
+ * onFound at most once. Returns a function that stops watching.
+ */
+export function watchForPullRequest(
+  cwd: string,
+  branch: string,
+  onFound: (prUrl: string) => void,
+  options: { intervalMs?: number; timeoutMs?: number } = {}
+): () => void {
+  const intervalMs = options.intervalMs ?? PR_POLL_INTERVAL_MS;
+  const deadline = Date.now() + (options.timeoutMs ?? PR_WATCH_TIMEOUT_MS);
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let stopped = false;
+
+  const check = async () => {
+    timer = null;
+    const prUrl = await findPullRequestUrl(cwd, branch);
+    if (stopped) return;
+    if (prUrl) {
+      stopped = true;
+      onFound(prUrl);
+    } else if (Date.now() + intervalMs <= deadline) {
+      timer = setTimeout(check, intervalMs);
+    }
+  };
+  check();
+
+  return () => {
+    stopped = true;
+    if (timer) clearTimeout(timer);
+  };
+}
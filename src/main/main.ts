@@ -10,7 +10,7 @@ import {
   protocol,
   net,
 } from 'electron';
-import path, { join, dirname } from 'path';
+import path, { join, dirname, basename } from 'path';
 import {
   existsSync,
   mkdirSync,
@@ -76,10 +76,104 @@ import {
   extractFilesToDelete,
 } from './utils/extractExecutables';
 import { mergeSessionCwds, resolveSessionName } from './utils/sessionRestore';
+import {
+  evaluatePermissionPolicy,
+  loadPermissionPolicy,
+  type PolicyMatch,
+  type TerminalAccess,
+} from './permissionPolicy';
+import {
+  clearPermissionAudit,
+  describePermissionTarget,
+  exportPermissionAudit,
+  readPermissionAudit,
+  recordPermissionDecision,
+  type PermissionAuditFilter,
+} from './permissionAudit';
+import { scanDeletion, type DeletionScan } from './utils/deletePreview';
+import {
+  beginTurnSnapshot,
+  captureTurnFiles,
+  deleteTurnSnapshots,
+  getTurnSnapshot,
+  revertTurnSnapshot,
+} from './turnSnapshots';
+import {
+  DEFAULT_API_SERVER_CONFIG,
+  generateApiToken,
+  getApiServerStatus,
+  publishApiEvent,
+  publishSessionEvent,
+  startApiServer,
+  stopApiServer,
+  type ApiServerConfig,
+  type ApiServerHandlers,
+} from './apiServer';
+import {
+  buildTranscript,
+  loadTranscript,
+  parseSessionEvents,
+  renderTranscript,
+  TRANSCRIPT_FILE_EXTENSIONS,
+  type TranscriptFormat,
+} from './transcriptExport';
+import {
+  buildImportContext,
+  getTranscriptMessages,
+  parseTranscriptFile,
+  remapSessionState,
+} from './transcriptImport';
+import { searchSessions, type SessionSearchFilters } from './sessionSearch';
+import {
+  buildForkContext,
+  findForkEventCount,
+  removeSessionParentLinks,
+  type ForkPoint,
+} from './sessionFork';
+import {
+  findMatchingWriteScope,
+  isPathWithin,
+  isSensitiveWritePath,
+  WRITE_SCOPE_PREFIX,
+} from './utils/writeScope';
 import * as worktree from './worktree';
+import { fetchIssueFromUrl, type IssueTrackerSettings } from './issueProviders';
+import {
+  DEFAULT_ISSUE_WRITE_BACK_CONFIG,
+  postIssueWriteBack,
+  resolveWriteBackTarget,
+  watchForPullRequest,
+  type IssueWriteBackConfig,
+  type WriteBackUpdate,
+} from './issueWriteBack';
+import {
+  WORKTREE_SETUP_TERMINAL_ID,
+  getWorktreeSetupCommands,
+  getWorktreeSetupConfigPath,
+  runWorktreeSetup,
+  type WorktreeSetupCommands,
+} from './worktreeSetup';
+import {
+  formatBytes,
+  forgetWorktreeUsage,
+  getGitWorkingStatus,
+  getWorktreeUsageReport,
+  scanWorktreeUsage,
+  startWorktreeUsageScanner,
+} from './worktreeUsage';
 import * as ptyManager from './pty';
 import * as browserManager from './browser';
 import { createBrowserTools } from './browserTools';
+import { createTerminalTools } from './terminalTools';
+import {
+  deleteTerminalHistory,
+  forgetTerminal,
+  getTerminalHistory,
+  updateSavedTerminal,
+} from './terminalHistory';
+import { buildHar, clearBrowserCapture } from './browserCapture';
+import * as browserRecorder from './browserRecorder';
+import * as visualBaselines from './visualBaselines';
 import { voiceService } from './voiceService';
 import { whisperModelManager } from './whisperModelManager';
 
@@ -260,7 +354,13 @@ interface StoredSession {
   fileViewMode?: 'flat' | 'tree';
   yoloMode?: boolean;
   activeAgentName?: string;
-  sourceIssue?: { url: string; number: number; owner: string; repo: string };
+  sourceIssue?: {
+    url: string;
+    number: number;
+    owner: string;
+    repo: string;
+    provider?: 'github' | 'azure-devops';
+  };
 }
 
 const DEFAULT_ZOOM_FACTOR = 1;
@@ -293,6 +393,8 @@ const store = new Store({
     zoomFactor: DEFAULT_ZOOM_FACTOR, // Window zoom factor (1 = 100%)
     sessionCwds: {} as Record<string, string>, // Persistent map of sessionId -> cwd (survives session close)
     sessionMarks: {} as Record<string, { markedForReview?: boolean; reviewNote?: string }>, // Persistent mark/note state
+    sessionParents: {} as Record<string, string>, // Forked sessionId -> the sessionId it was forked from
+    sessionBrowserProfiles: {} as Record<string, string>, // sessionId -> browser profile, when not "default"
     globalSafeCommands: [] as string[], // Globally safe commands that are auto-approved for all sessions
     favoriteModels: [] as string[], // Model IDs marked as favorites (shown at top of model selector)
     hasSeenWelcomeWizard: false as boolean, // Whether user has completed the welcome wizard
@@ -314,6 +416,10 @@ const store = new Store({
     ] as string[],
     // URL denylist - domains that are always blocked (similar to --deny-url in Copilot CLI)
     deniedUrls: [] as string[],
+    apiServer: DEFAULT_API_SERVER_CONFIG as ApiServerConfig, // Opt-in local API for scripts
+    apiServerToken: '' as string, // Bearer token for the local API (generated on first enable)
+    issueTrackers: {} as IssueTrackerSettings, // Jira and GitLab base URLs and API tokens
+    issueWriteBack: DEFAULT_ISSUE_WRITE_BACK_CONFIG as IssueWriteBackConfig, // Comment on source issues
   },
 });
 
@@ -675,6 +781,18 @@ interface SessionState {
   yoloMode: boolean; // Auto-approve all permission requests without prompting
 }
 const sessions = new Map<string, SessionState>();
+const getSessionCwd = (sessionId: string): string => sessions.get(sessionId)?.cwd || process.cwd();
+
+// Custom tools registered with every session: browser automation and the session's terminals
+function createSessionTools(sessionId: string) {
+  return [
+    ...createBrowserTools(sessionId, () => getSessionCwd(sessionId)),
+    ...createTerminalTools(sessionId, (request) =>
+      handlePermissionRequest(request as unknown as PermissionRequest, { sessionId }, sessionId)
+    ),
+  ];
+}
+
 let activeSessionId: string | null = null;
 let sessionCounter = 0;
 const SESSION_CONTEXT_CACHE_TTL_MS = 5 * 60 * 1000;
@@ -809,6 +927,7 @@ async function loadSessionContext(cwd?: string): Promise<{
 // Used after createSession and resumeSession to wire up the session.
 function registerSessionEventForwarding(sessionId: string, session: CopilotSession): void {
   session.on((event) => {
+    publishSessionEvent(sessionId, event);
     if (!mainWindow || mainWindow.isDestroyed()) return;
 
     log.debug(`[${sessionId}] Event: ${event.type}`);
@@ -983,16 +1102,16 @@ async function resumeDisconnectedSession(
   const client = await getClientForCwd(sessionState.cwd);
   const mcpConfig = await readMcpConfig();
 
-  // Create browser tools for resumed session
-  const browserTools = createBrowserTools(sessionId);
+  // Create browser and terminal tools for resumed session
+  const sessionTools = createSessionTools(sessionId);
   log.info(
-    `[${sessionId}] Resuming with ${browserTools.length} tools:`,
-    browserTools.map((t) => t.name).join(', ')
+    `[${sessionId}] Resuming with ${sessionTools.length} tools:`,
+    sessionTools.map((t) => t.name).join(', ')
   );
 
   const resumedSession = await client.resumeSession(sessionId, {
     mcpServers: mcpConfig.mcpServers,
-    tools: browserTools,
+    tools: sessionTools,
     onPermissionRequest: (request, invocation) =>
       handlePermissionRequest(request, invocation, sessionId),
   });
@@ -1016,6 +1135,7 @@ const pendingPermissions = new Map<
     executable: string;
     sessionId: string;
     outOfScopePath?: string; // Store path for out-of-scope reads to remember parent dir
+    writePath?: string; // Resolved target of write requests, for folder-scoped approvals
   }
 >();
 
@@ -1047,6 +1167,7 @@ interface EarlyResumedSession {
   yoloMode?: boolean;
   messages?: { role: 'user' | 'assistant'; content: string }[]; // Pre-loaded messages
   sourceIssue?: { url: string; number: number; owner: string; repo: string };
+  parentSessionId?: string; // Session this one was forked from
 }
 let earlyResumedSessions: EarlyResumedSession[] = [];
 let earlyResumptionComplete = false;
@@ -1064,6 +1185,7 @@ function startEarlyClientInit(): void {
 async function startEarlySessionResumption(): Promise<void> {
   const openSessions = (store.get('openSessions') as StoredSession[]) || [];
   const sessionNames = (store.get('sessionNames') as Record<string, string>) || {};
+  const sessionParents = (store.get('sessionParents') as Record<string, string>) || {};
   if (openSessions.length === 0) {
     earlyResumptionComplete = true;
     return;
@@ -1120,7 +1242,7 @@ async function startEarlySessionResumption(): Promise<void> {
         }
         const session = await sessionClient.resumeSession(sessionId, {
           mcpServers: mcpConfig.mcpServers,
-          tools: createBrowserTools(sessionId),
+          tools: createSessionTools(sessionId),
           customAgents,
           onPermissionRequest: (request, invocation) =>
             handlePermissionRequest(request, invocation, sessionId),
@@ -1128,6 +1250,7 @@ async function startEarlySessionResumption(): Promise<void> {
 
         // Set up event handler
         session.on((event) => {
+          publishSessionEvent(sessionId, event);
           if (!mainWindow || mainWindow.isDestroyed()) return;
 
           log.debug(`[${sessionId}] Event: ${event.type}`);
@@ -1207,7 +1330,7 @@ async function startEarlySessionResumption(): Promise<void> {
         });
 
         // Store in sessions map
-        const alwaysAllowedSet = new Set(storedAlwaysAllowed.map(normalizeAlwaysAllowed));
+        const alwaysAllowedSet = new Set(storedAlwaysAllowed);
         sessions.set(sessionId, {
           session,
           client: sessionClient,
@@ -1249,6 +1372,7 @@ async function startEarlySessionResumption(): Promise<void> {
           yoloMode: yoloMode || false,
           messages,
           sourceIssue,
+          parentSessionId: sessionParents[sessionId],
         };
         earlyResumedSessions.push(resumed);
 
@@ -1501,56 +1625,6 @@ async function getQuickTasksModel(client: CopilotClient): Promise<string> {
   }
 }
 
-// Global allowlist of low-risk, read-only shell commands.
-// These are auto-approved for all sessions and intentionally NOT persisted/shown in the per-session "Always Allowed" UI.
-const GLOBAL_AUTO_APPROVED_SHELL_EXECUTABLES = new Set([
-  // Basic shell inspection
-  'ls',
-  'cd',
-  'pwd',
-  'whoami',
-  'id',
-  'date',
-  'uname',
-  'which',
-  'echo',
-  'printf',
-
-  // Read-only file/content inspection
-  'cat',
-  'head',
-  'tail',
-  'wc',
-  'grep',
-  'sort',
-  'uniq',
-  'cut',
-  'tr',
-  'diff',
-
-  // File metadata / disk info
-  'stat',
-  'file',
-  'du',
-  'df',
-
-  // Path helpers
-  'basename',
-  'dirname',
-  'realpath',
-
-  // Hashing (read-only)
-  'shasum',
-  'md5',
-]);
-
-// Normalize stored identifiers so UI/behavior stays stable across versions
-function normalizeAlwaysAllowed(id: string): string {
-  // Older versions stored `write:<path>`; treat all writes as a single global permission.
-  if (id.startsWith('write:')) return 'write';
-  return id;
-}
-
 // Extract executable identifier from permission request (for "always allow" tracking)
 function getExecutableIdentifier(request: PermissionRequest): string {
   const req = request as Record<string, unknown>;
@@ -1568,7 +1642,8 @@ function getExecutableIdentifier(request: PermissionRequest): string {
     return `${request.kind}:${filename}`;
   }
 
-  // For write, treat as global (all file changes)
+  // For write, the bare identifier covers all file changes inside the session cwd;
+  // folder-scoped approvals are tracked separately as `write:<dir>` entries
   if (request.kind === 'write') {
     return 'write';
   }
@@ -1591,33 +1666,209 @@ function getExecutableIdentifier(request: PermissionRequest): string {
     return `mcp:${server}/${tool}`;
   }
 
+  // For terminal tools, use kind + access; typing into terminals is approved separately from reading
+  if (req.kind === 'terminal') {
+    return `terminal:${req.access}`;
+  }
+
   // Fallback to kind
   return request.kind;
 }
 
-// Permission handler that prompts the user
+// Typing into a user's terminal can run anything in its shell, so it is approved one input at a
+// time and never saved as "always allow"
+const isTerminalInputRequest = (request: PermissionRequest): boolean => {
+  const req = request as Record<string, unknown>;
+  return req.kind === 'terminal' && req.access === 'input';
+};
+
+// Persist a permission decision to the audit log
+function auditPermissionDecision(
+  sessionId: string,
+  request: PermissionRequest,
+  executable: string,
+  result: PermissionRequestResult,
+  rule: string,
+  detail?: string
+): void {
+  void recordPermissionDecision({
+    sessionId,
+    kind: request.kind,
+    executable,
+    commandText: describePermissionTarget(request as Record<string, unknown>),
+    decision: result.kind === 'approved' ? 'approved' : 'denied',
+    rule,
+    detail,
+  });
+}
+
+// Capture pre-turn file contents for "revert this turn" and tell the renderer the turn has
+// something to revert. Snapshot failures never block the permission flow.
+async function snapshotTurnFiles(
+  sessionId: string,
+  filePaths: string[],
+  options?: { partial?: boolean }
+): Promise<void> {
+  try {
+    const snapshot = await captureTurnFiles(sessionId, filePaths, options);
+    if (snapshot && mainWindow && !mainWindow.isDestroyed()) {
+      mainWindow.webContents.send('copilot:turnSnapshot', {
+        sessionId,
+        turnId: snapshot.turnId,
+        fileCount: snapshot.files.length,
+      });
+    }
+  } catch (error) {
+    console.warn(`[${sessionId}] Failed to snapshot files for turn:`, error);
+  }
+}
+
+// Show a permission prompt in the window and tell API stream clients the session is waiting
+function sendPermissionPrompt(payload: {
+  requestId: string;
+  sessionId: string;
+  [key: string]: unknown;
+}): void {
+  mainWindow?.webContents.send('copilot:permission', payload);
+  publishApiEvent('permission', payload);
+}
+
+// Permission handler that prompts the user. Files the request may change are snapshotted only
+// once it is approved, so denied requests copy nothing and prompts never wait on the store.
 async function handlePermissionRequest(
   request: PermissionRequest,
-  _invocation: { sessionId: string },
+  invocation: { sessionId: string },
   ourSessionId: string
+): Promise<PermissionRequestResult> {
+  const snapshot: PendingTurnSnapshot = { paths: [], partial: false };
+  const result = await decidePermissionRequest(request, invocation, ourSessionId, snapshot);
+  if (result.kind === 'approved' && (snapshot.paths.length > 0 || snapshot.partial)) {
+    await snapshotTurnFiles(ourSessionId, snapshot.paths, { partial: snapshot.partial });
+  }
+  return result;
+}
+
+// Files to capture for "revert this turn" if the request is approved
+interface PendingTurnSnapshot {
+  paths: string[];
+  partial: boolean;
+}
+
+async function decidePermissionRequest(
+  request: PermissionRequest,
+  _invocation: { sessionId: string },
+  ourSessionId: string,
+  snapshot: PendingTurnSnapshot
 ): Promise<PermissionRequestResult> {
   const requestId = request.toolCallId || `perm-${Date.now()}`;
   const req = request as Record<string, unknown>;
   const sessionState = sessions.get(ourSessionId);
   const globalSafeCommands = new Set((store.get('globalSafeCommands') as string[]) || []);
+  const policy = loadPermissionPolicy(getCopilotConfigPath(), sessionState?.cwd);
+  if (policy.errors.length > 0) {
+    console.warn(`[${ourSessionId}] Permission policy errors:`, policy.errors);
+  }
 
   console.log(`[${ourSessionId}] Permission request:`, request.kind);
 
+  // Record an automatic decision in the audit log and return it
+  const decide = (
+    result: PermissionRequestResult,
+    rule: string,
+    detail?: string
+  ): PermissionRequestResult => {
+    auditPermissionDecision(
+      ourSessionId,
+      request,
+      getExecutableIdentifier(request),
+      result,
+      rule,
+      detail
+    );
+    return result;
+  };
+
+  const policyTarget = {
+    kind: request.kind,
+    path: (req.path || req.fileName) as string | undefined,
+    url: req.url as string | undefined,
+    serverName: req.serverName as string | undefined,
+    toolName: req.toolName as string | undefined,
+    terminalName: req.terminalName as string | undefined,
+    access: req.access as TerminalAccess | undefined,
+  };
+  // A line submitted to a terminal runs in its shell, so it gets the same checks as a shell command
+  const isTerminalInput = isTerminalInputRequest(request);
+  const shellCommandText =
+    request.kind === 'shell' && req.fullCommandText
+      ? (req.fullCommandText as string)
+      : isTerminalInput && req.command
+        ? (req.command as string)
+        : null;
+  const shellExecutables = shellCommandText ? extractExecutables(shellCommandText) : [];
+  const shellPolicyMatches = new Map<string, PolicyMatch | null>(
+    shellExecutables.map((exec) => [
+      exec,
+      evaluatePermissionPolicy(policy, { ...policyTarget, kind: 'shell', command: exec }),
+    ])
+  );
+  const policyMatch =
+    shellCommandText && !isTerminalInput
+      ? null
+      : evaluatePermissionPolicy(policy, {
+          ...policyTarget,
+          command: request.kind === 'shell' ? getExecutableIdentifier(request) : undefined,
+        });
+
+  // Policy deny rules take precedence over everything, including yolo mode
+  const deniedMatch =
+    policyMatch?.action === 'deny'
+      ? policyMatch
+      : Array.from(shellPolicyMatches.values()).find((match) => match?.action === 'deny');
+  if (deniedMatch) {
+    console.log(`[${ourSessionId}] Denied by ${deniedMatch.source} policy:`, deniedMatch.reason);
+    return decide({ kind: 'denied-by-rules' }, `policy:${deniedMatch.source}`, deniedMatch.reason);
+  }
+
+  // Resolve destructive shell targets up front: the preview is shown in the prompt, and the
+  // targets are snapshotted together with writes once approved so the turn can be reverted
+  const isDestructiveShell = !!shellCommandText && containsDestructiveCommand(shellCommandText);
+  let deletionScan: DeletionScan | undefined;
+  if (isDestructiveShell && shellCommandText && sessionState) {
+    try {
+      deletionScan = await scanDeletion(shellCommandText, sessionState.cwd);
+      const deletePreview = deletionScan.preview;
+      console.log(
+        `[${ourSessionId}] Delete preview: ${deletePreview.totalFiles} files, ${deletePreview.totalBytes} bytes, ${deletePreview.dirtyTrackedFiles.length} with uncommitted changes`
+      );
+    } catch (error) {
+      console.warn(`[${ourSessionId}] Failed to preview deletion:`, error);
+    }
+  }
+
+  // Files this request may change, captured by handlePermissionRequest once it is approved
+  if (sessionState) {
+    snapshot.paths =
+      request.kind === 'write' && (req.fileName || req.path)
+        ? [path.resolve(sessionState.cwd, (req.fileName || req.path) as string)]
+        : (deletionScan?.paths ?? []);
+    snapshot.partial = !!deletionScan && !deletionScan.complete;
+  }
+
   // Yolo mode: auto-approve all requests without prompting
   if (sessionState?.yoloMode) {
     console.log(`[${ourSessionId}] Yolo mode: auto-approved ${request.kind}`);
-    return { kind: 'approved' };
+    return decide({ kind: 'approved' }, 'yolo-mode');
   }
 
   // For shell commands, check each executable individually
-  if (request.kind === 'shell' && req.fullCommandText) {
-    const commandText = req.fullCommandText as string;
-    const executables = extractExecutables(commandText);
+  if (shellCommandText) {
+    const commandText = shellCommandText;
+    const executables = shellExecutables;
+    const askMatches = executables
+      .map((exec) => shellPolicyMatches.get(exec))
+      .filter((match): match is PolicyMatch => match?.action === 'ask');
+    const policyReason = askMatches.map((match) => match.reason).join('; ') || undefined;
 
     // Check for destructive commands - these NEVER get auto-approved (Issue #65)
     const isDestructive = containsDestructiveCommand(commandText);
@@ -1633,7 +1884,10 @@ async function handlePermissionRequest(
       );
 
       if (!mainWindow || mainWindow.isDestroyed()) {
-        return { kind: 'denied-no-approval-rule-and-could-not-request-from-user' };
+        return decide(
+          { kind: 'denied-no-approval-rule-and-could-not-request-from-user' },
+          'no-window'
+        );
       }
 
       // Always require explicit permission for destructive commands
@@ -1644,7 +1898,7 @@ async function handlePermissionRequest(
           executable: destructiveExecutables.join(', '),
           sessionId: ourSessionId,
         });
-        mainWindow!.webContents.send('copilot:permission', {
+        sendPermissionPrompt({
           requestId,
           sessionId: ourSessionId,
           executable: destructiveExecutables.join(', '),
@@ -1653,29 +1907,51 @@ async function handlePermissionRequest(
           isOutOfScope: false,
           isDestructive: true, // Flag for UI to show warning
           filesToDelete, // Issue #101: Show which files will be deleted
+          deletePreview: deletionScan?.preview,
+          policyReason,
           ...request,
         });
         requestUserAttention();
       });
     }
 
-    // Filter to only unapproved executables (exclude globally-auto-approved commands and global safe commands)
-    const unapproved = executables.filter(
-      (exec) =>
-        !GLOBAL_AUTO_APPROVED_SHELL_EXECUTABLES.has(exec) &&
+    // Filter to only unapproved executables. Policy "ask" rules always prompt, even when the
+    // executable was previously allowed; policy "allow" rules and saved approvals skip the prompt.
+    // Terminal input only skips the prompt when a policy rule allows typing into the terminal.
+    const unapproved = executables.filter((exec) => {
+      const action = shellPolicyMatches.get(exec)?.action;
+      if (action === 'ask') return true;
+      if (isTerminalInput) return policyMatch?.action !== 'allow';
+      return (
+        action !== 'allow' &&
         !globalSafeCommands.has(exec) &&
         !sessionState?.alwaysAllowed.has(exec)
-    );
+      );
+    });
+
+    if (isTerminalInput && unapproved.length === 0 && policyMatch?.action === 'allow') {
+      console.log(`[${ourSessionId}] Auto-approved terminal input (${policyMatch.source} policy)`);
+      return decide({ kind: 'approved' }, `policy:${policyMatch.source}`, policyMatch.reason);
+    }
 
-    if (unapproved.length === 0) {
+    if (unapproved.length === 0 && !isTerminalInput) {
       console.log(`[${ourSessionId}] All executables already approved:`, executables);
-      return { kind: 'approved' };
+      const approvedBy = executables.map((exec) => {
+        const match = shellPolicyMatches.get(exec);
+        if (match?.action === 'allow') return `${exec}: policy:${match.source}`;
+        if (globalSafeCommands.has(exec)) return `${exec}: global-safe-commands`;
+        return `${exec}: always-allowed`;
+      });
+      return decide({ kind: 'approved' }, 'preapproved', approvedBy.join('; '));
     }
 
     console.log(`[${ourSessionId}] Need approval for:`, unapproved);
 
     if (!mainWindow || mainWindow.isDestroyed()) {
-      return { kind: 'denied-no-approval-rule-and-could-not-request-from-user' };
+      return decide(
+        { kind: 'denied-no-approval-rule-and-could-not-request-from-user' },
+        'no-window'
+      );
     }
 
     // Log all request fields for debugging
@@ -1689,7 +1965,7 @@ async function handlePermissionRequest(
         executable: unapproved.join(', '),
         sessionId: ourSessionId,
       });
-      mainWindow!.webContents.send('copilot:permission', {
+      sendPermissionPrompt({
         requestId,
         sessionId: ourSessionId,
         executable: unapproved.join(', '),
@@ -1697,6 +1973,7 @@ async function handlePermissionRequest(
         allExecutables: executables, // All executables in command
         isOutOfScope: false,
         isDestructive: false,
+        policyReason,
         ...request,
       });
       requestUserAttention();
@@ -1705,29 +1982,62 @@ async function handlePermissionRequest(
 
   // Non-shell permissions
   const executable = getExecutableIdentifier(request);
+  const policyAsks = policyMatch?.action === 'ask';
+  let policyReason = policyAsks ? policyMatch.reason : undefined;
+
+  // Writes are scoped by path: sensitive paths always prompt, writes outside the session cwd
+  // only skip the prompt when a folder-scoped approval covers them
+  let writePath: string | undefined;
+  let writeRequiresPrompt = false;
+  let isSensitiveWrite = false;
+  let isOutsideWorkspace = false;
+  if (request.kind === 'write' && sessionState && (req.fileName || req.path)) {
+    writePath = path.resolve(sessionState.cwd, (req.fileName || req.path) as string);
+    isSensitiveWrite = isSensitiveWritePath(writePath);
+    isOutsideWorkspace = !isPathWithin(writePath, sessionState.cwd);
+
+    if (isSensitiveWrite) {
+      writeRequiresPrompt = true;
+      policyReason = [policyReason, 'Sensitive path: writes here always need approval']
+        .filter(Boolean)
+        .join('; ');
+    } else if (!policyAsks) {
+      const scope = findMatchingWriteScope(sessionState.alwaysAllowed, writePath, sessionState.cwd);
+      if (scope) {
+        console.log(`[${ourSessionId}] Auto-approved write (allowed folder ${scope}):`, writePath);
+        return decide({ kind: 'approved' }, 'write-scope', scope);
+      }
+      writeRequiresPrompt = isOutsideWorkspace;
+    }
+  }
+  const forcePrompt = policyAsks || writeRequiresPrompt;
 
-  // Auto-approve global low-risk commands (do not persist/show in UI)
-  if (request.kind === 'shell' && GLOBAL_AUTO_APPROVED_SHELL_EXECUTABLES.has(executable)) {
-    console.log(`[${ourSessionId}] Auto-approved (global allowlist):`, executable);
-    return { kind: 'approved' };
+  // Auto-approve requests allowed by policy (includes built-in low-risk commands; not shown in UI)
+  if (policyMatch?.action === 'allow' && !writeRequiresPrompt) {
+    console.log(
+      `[${ourSessionId}] Auto-approved (${policyMatch.source} policy):`,
+      executable,
+      policyMatch.reason
+    );
+    return decide({ kind: 'approved' }, `policy:${policyMatch.source}`, policyMatch.reason);
   }
 
   // Check if in global safe commands
-  if (globalSafeCommands.has(executable)) {
+  if (!forcePrompt && !isTerminalInput && globalSafeCommands.has(executable)) {
     console.log(`[${ourSessionId}] Auto-approved (global safe commands):`, executable);
-    return { kind: 'approved' };
+    return decide({ kind: 'approved' }, 'global-safe-commands');
   }
 
   // Check if already allowed (per-session "always")
-  if (sessionState?.alwaysAllowed.has(executable)) {
+  if (!forcePrompt && !isTerminalInput && sessionState?.alwaysAllowed.has(executable)) {
     console.log(`[${ourSessionId}] Auto-approved (always allow):`, executable);
-    return { kind: 'approved' };
+    return decide({ kind: 'approved' }, 'always-allowed');
   }
 
   // For read requests, check if in-scope (auto-approve) or out-of-scope (need permission)
   let isOutOfScope = false;
   let outOfScopePath: string | undefined;
-  if (request.kind === 'read' && sessionState) {
+  if (request.kind === 'read' && sessionState && !policyAsks) {
     const requestPath = req.path as string | undefined;
     const sessionCwd = sessionState.cwd;
 
@@ -1756,7 +2066,7 @@ async function handlePermissionRequest(
             `[${ourSessionId}] Auto-approved out-of-scope read (allowed path):`,
             requestPath
           );
-          return { kind: 'approved' };
+          return decide({ kind: 'approved' }, 'allowed-path');
         }
 
         // Check if path is in safe Copilot directories (Issue #87)
@@ -1769,7 +2079,7 @@ async function handlePermissionRequest(
             requestPath === safePath
           ) {
             console.log(`[${ourSessionId}] Auto-approved read (safe Copilot path):`, requestPath);
-            return { kind: 'approved' };
+            return decide({ kind: 'approved' }, 'safe-copilot-path');
           }
         }
 
@@ -1784,12 +2094,12 @@ async function handlePermissionRequest(
       } else {
         // In-scope reads are auto-approved (like CLI behavior)
         console.log(`[${ourSessionId}] Auto-approved in-scope read:`, requestPath);
-        return { kind: 'approved' };
+        return decide({ kind: 'approved' }, 'in-scope-read');
       }
     } else {
       // No path specified - auto-approve reads within trusted workspace
       console.log(`[${ourSessionId}] Auto-approved read (no path, trusted workspace)`);
-      return { kind: 'approved' };
+      return decide({ kind: 'approved' }, 'in-scope-read');
     }
   }
 
@@ -1808,7 +2118,7 @@ async function handlePermissionRequest(
         // Check denylist first (takes precedence)
         if (deniedUrls.has(hostname)) {
           console.log(`[${ourSessionId}] URL denied (denylist):`, hostname);
-          return { kind: 'denied-by-rules' };
+          return decide({ kind: 'denied-by-rules' }, 'url-denylist', hostname);
         }
 
         // Check if hostname or parent domain is in allowlist
@@ -1822,9 +2132,9 @@ async function handlePermissionRequest(
           }
         }
 
-        if (isAllowed) {
+        if (isAllowed && !policyAsks) {
           console.log(`[${ourSessionId}] URL auto-approved (allowlist):`, hostname);
-          return { kind: 'approved' };
+          return decide({ kind: 'approved' }, 'url-allowlist', hostname);
         }
 
         console.log(`[${ourSessionId}] URL needs approval:`, hostname);
@@ -1835,14 +2145,15 @@ async function handlePermissionRequest(
   }
 
   if (!mainWindow || mainWindow.isDestroyed()) {
-    return { kind: 'denied-no-approval-rule-and-could-not-request-from-user' };
+    return decide({ kind: 'denied-no-approval-rule-and-could-not-request-from-user' }, 'no-window');
   }
 
   // Log all request fields for debugging
   console.log(`[${ourSessionId}] Full permission request:`, JSON.stringify(request, null, 2));
 
   // Deduplicate parallel permission requests for the same executable+session
-  const inFlightKey = `${ourSessionId}:${executable}`;
+  // (writes are deduplicated per file so one answer never covers a different path)
+  const inFlightKey = `${ourSessionId}:${executable}${writePath ? `:${writePath}` : ''}`;
   const existingRequest = inFlightPermissions.get(inFlightKey);
   if (existingRequest) {
     console.log(`[${ourSessionId}] Reusing in-flight permission request for:`, executable);
@@ -1857,12 +2168,18 @@ async function handlePermissionRequest(
       executable,
       sessionId: ourSessionId,
       outOfScopePath,
+      writePath,
     });
-    mainWindow!.webContents.send('copilot:permission', {
+    sendPermissionPrompt({
       requestId,
       sessionId: ourSessionId,
       executable,
       isOutOfScope,
+      policyReason,
+      writePath,
+      writeScope: writePath && !isSensitiveWrite ? dirname(writePath) : undefined,
+      isSensitiveWrite,
+      isOutsideWorkspace,
       ...request,
     });
     requestUserAttention();
@@ -1897,7 +2214,11 @@ You have access to specialized subagents via the \`task\` tool. **Prefer using s
 }
 
 // Create a new session and return its ID
-async function createNewSession(model?: string, cwd?: string): Promise<string> {
+async function createNewSession(
+  model?: string,
+  cwd?: string,
+  options: { systemContext?: string } = {}
+): Promise<string> {
   const sessionModel = model || (store.get('model') as string);
   // In packaged app, process.cwd() can be '/', so default to home directory
   const sessionCwd = cwd || (app.isPackaged ? app.getPath('home') : process.cwd());
@@ -1930,14 +2251,14 @@ async function createNewSession(model?: string, cwd?: string): Promise<string> {
     log.warn(`Skipped ${skippedAgentNames.length} custom agents due to read errors.`);
   }
 
-  // Generate session ID upfront so we can pass it to browser tools
+  // Generate session ID upfront so we can pass it to browser and terminal tools
   const generatedSessionId = `session-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
 
-  // Create browser tools for this session
-  const browserTools = createBrowserTools(generatedSessionId);
+  // Create browser and terminal tools for this session
+  const sessionTools = createSessionTools(generatedSessionId);
   console.log(
-    `[${generatedSessionId}] Registering ${browserTools.length} tools:`,
-    browserTools.map((t) => t.name)
+    `[${generatedSessionId}] Registering ${sessionTools.length} tools:`,
+    sessionTools.map((t) => t.name)
   );
 
   // Build subagent prompting section
@@ -1947,7 +2268,7 @@ async function createNewSession(model?: string, cwd?: string): Promise<string> {
     sessionId: generatedSessionId,
     model: sessionModel,
     mcpServers: mcpConfig.mcpServers,
-    tools: browserTools,
+    tools: sessionTools,
     customAgents,
     onPermissionRequest: (request, invocation) =>
       handlePermissionRequest(request, invocation, newSession.sessionId),
@@ -1975,8 +2296,11 @@ You have access to browser automation tools (browser_navigate, browser_click, br
 - User wants to log into a web service
 - User needs to extract information from a web page that requires interaction
 
-The browser window will be visible to the user. Login sessions persist between runs, so users won't need to re-login each time.
-Browser tools available: browser_navigate, browser_click, browser_fill, browser_type, browser_press_key, browser_screenshot, browser_get_text, browser_get_html, browser_wait_for_element, browser_get_page_info, browser_select_option, browser_checkbox, browser_scroll, browser_go_back, browser_reload, browser_get_links, browser_get_form_inputs, browser_close.
+The user can watch the page live in Cooper's browser panel and may take control of it (for example to complete a login). While they have control, browser tools return an error; wait for the user to hand control back. Login sessions persist between runs, so users won't need to re-login each time.
+When a web app misbehaves, check browser_get_console for JavaScript errors and browser_get_network (onlyFailed) for failed requests.
+To check a page still looks right after a change, use browser_compare_screenshot against a baseline saved with browser_save_baseline (stored in .copilot/visual-baselines/).
+To work with a page, call browser_snapshot and act on elements by their refs with browser_click_ref, browser_fill_ref and browser_select_ref; fall back to CSS selectors only when the snapshot doesn't show what you need.
+Browser tools available: browser_navigate, browser_snapshot, browser_click_ref, browser_fill_ref, browser_select_ref, browser_click, browser_fill, browser_type, browser_press_key, browser_screenshot, browser_get_text, browser_get_html, browser_wait_for_element, browser_get_page_info, browser_select_option, browser_checkbox, browser_scroll, browser_go_back, browser_reload, browser_get_links, browser_get_form_inputs, browser_get_console, browser_get_network, browser_save_baseline, browser_compare_screenshot, browser_close.
 
 ## Electron App Screenshots - CRITICAL
 
@@ -1986,7 +2310,11 @@ Browser tools available: browser_navigate, browser_click, browser_fill, browser_
 - Do NOT say "I cannot take screenshots of desktop apps" - you CAN via Playwright
 - Use browser_navigate to connect to the running Electron app, then browser_screenshot to capture it
 - This is the CORRECT way to capture visual evidence of Electron app features you've built or tested
-`,
+
+## User Terminals
+
+The user may have terminals open in Cooper's terminal panel (dev servers, watchers, REPLs). Use terminal_read_output to see what they show, terminal_send_input to type into them (the user approves input) and terminal_wait_for_pattern to wait for output such as a server's ready message. Terminals are addressed by the name on their tab. Prefer your own shell tool for one-off commands; use these tools for long-running processes the user started or asked you to drive.
+${options.systemContext ? `\n${options.systemContext}\n` : ''}`,
     },
   });
 
@@ -2161,6 +2489,7 @@ async function initCopilot(): Promise<void> {
         { markedForReview?: boolean; reviewNote?: string }
       >) || {};
     const sessionNames = (store.get('sessionNames') as Record<string, string>) || {};
+    const sessionParents = (store.get('sessionParents') as Record<string, string>) || {};
 
     // Build list of previous sessions (all sessions not in our open list)
     // Use stored session name first (preserves user renames), then SDK summary as fallback
@@ -2173,6 +2502,7 @@ async function initCopilot(): Promise<void> {
         cwd: sessionCwds[s.sessionId],
         markedForReview: sessionMarks[s.sessionId]?.markedForReview,
         reviewNote: sessionMarks[s.sessionId]?.reviewNote,
+        parentSessionId: sessionParents[s.sessionId],
       }));
 
     let resumedSessions: {
@@ -2226,7 +2556,7 @@ async function initCopilot(): Promise<void> {
         }
         const session = await client.resumeSession(sessionId, {
           mcpServers: mcpConfig.mcpServers,
-          tools: createBrowserTools(sessionId),
+          tools: createSessionTools(sessionId),
           customAgents,
           onPermissionRequest: (request, invocation) =>
             handlePermissionRequest(request, invocation, sessionId),
@@ -2234,6 +2564,7 @@ async function initCopilot(): Promise<void> {
 
         // Set up event handler for resumed session
         session.on((event) => {
+          publishSessionEvent(sessionId, event);
           if (!mainWindow || mainWindow.isDestroyed()) return;
 
           log.debug(`[${sessionId}] Event: ${event.type}`);
@@ -2312,8 +2643,8 @@ async function initCopilot(): Promise<void> {
           }
         });
 
-        // Restore alwaysAllowed set from stored data (normalize legacy ids)
-        const alwaysAllowedSet = new Set(storedAlwaysAllowed.map(normalizeAlwaysAllowed));
+        // Restore alwaysAllowed set from stored data
+        const alwaysAllowedSet = new Set(storedAlwaysAllowed);
         sessions.set(sessionId, {
           session,
           client,
@@ -2340,6 +2671,7 @@ async function initCopilot(): Promise<void> {
           fileViewMode: storedSession?.fileViewMode || 'flat',
           yoloMode: storedSession?.yoloMode || false,
           activeAgentName: storedSession?.activeAgentName,
+          parentSessionId: sessionParents[sessionId],
         };
         resumedSessions.push(resumed);
         console.log(
@@ -2387,6 +2719,7 @@ async function initCopilot(): Promise<void> {
         untrackedFiles: storedSession?.untrackedFiles || [],
         fileViewMode: storedSession?.fileViewMode || 'flat',
         activeAgentName: storedSession?.activeAgentName,
+        parentSessionId: sessionParents[sessionId],
       };
     });
 
@@ -2540,138 +2873,132 @@ function createWindow(): void {
   });
 }
 
-// IPC Handlers
-ipcMain.handle(
-  'copilot:send',
-  async (
-    _event,
-    data: {
-      sessionId: string;
-      prompt: string;
-      attachments?: { type: 'file'; path: string; displayName?: string }[];
-      mode?: 'enqueue' | 'immediate';
-    }
-  ) => {
-    const sessionState = sessions.get(data.sessionId);
-    if (!sessionState) {
-      throw new Error(`Session not found: ${data.sessionId}`);
-    }
+type SendMessageData = {
+  sessionId: string;
+  prompt: string;
+  attachments?: { type: 'file'; path: string; displayName?: string }[];
+  mode?: 'enqueue' | 'immediate';
+};
 
-    sessionState.isProcessing = true;
+// Session operations shared by the IPC handlers and the local API server
+async function sendMessage(data: SendMessageData): Promise<string> {
+  const sessionState = sessions.get(data.sessionId);
+  if (!sessionState) {
+    throw new Error(`Session not found: ${data.sessionId}`);
+  }
 
-    log.info(`[${data.sessionId}] Sending message with model=${sessionState.model}`);
+  sessionState.isProcessing = true;
 
-    const messageOptions: {
-      prompt: string;
-      attachments?: typeof data.attachments;
-      mode?: 'enqueue' | 'immediate';
-    } = {
-      prompt: data.prompt,
-      attachments: data.attachments,
-    };
+  // Injected messages join the running turn; anything else starts a new revertable turn
+  if (data.mode !== 'enqueue') {
+    beginTurnSnapshot(data.sessionId, sessionState.cwd);
+  }
 
-    // Add mode if specified (for injected messages during processing)
-    if (data.mode) {
-      messageOptions.mode = data.mode;
-    }
+  log.info(`[${data.sessionId}] Sending message with model=${sessionState.model}`);
 
-    try {
-      const messageId = await sessionState.session.send(messageOptions);
-      return messageId;
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : String(error);
+  const messageOptions: {
+    prompt: string;
+    attachments?: typeof data.attachments;
+    mode?: 'enqueue' | 'immediate';
+  } = {
+    prompt: data.prompt,
+    attachments: data.attachments,
+  };
 
-      // Check if session was disconnected/timed out
-      if (
-        errorMessage.includes('Session not found') ||
-        errorMessage.includes('session.send failed')
-      ) {
-        log.warn(`[${data.sessionId}] Session appears disconnected, attempting to resume...`);
+  // Add mode if specified (for injected messages during processing)
+  if (data.mode) {
+    messageOptions.mode = data.mode;
+  }
 
-        try {
-          // Try to resume the session
-          await resumeDisconnectedSession(data.sessionId, sessionState);
-
-          // Retry the send
-          const messageId = await sessionState.session.send(messageOptions);
-          log.info(`[${data.sessionId}] Successfully sent message after session resume`);
-          return messageId;
-        } catch (resumeError) {
-          log.error(`[${data.sessionId}] Failed to resume session:`, resumeError);
-          sessionState.isProcessing = false;
-          throw new Error(`Session disconnected and could not be resumed. Please try again.`);
-        }
-      }
+  try {
+    const messageId = await sessionState.session.send(messageOptions);
+    return messageId;
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+
+    // Check if session was disconnected/timed out
+    if (
+      errorMessage.includes('Session not found') ||
+      errorMessage.includes('session.send failed')
+    ) {
+      log.warn(`[${data.sessionId}] Session appears disconnected, attempting to resume...`);
+
+      try {
+        // Try to resume the session
+        await resumeDisconnectedSession(data.sessionId, sessionState);
 
-      sessionState.isProcessing = false;
-      throw error;
+        // Retry the send
+        const messageId = await sessionState.session.send(messageOptions);
+        log.info(`[${data.sessionId}] Successfully sent message after session resume`);
+        return messageId;
+      } catch (resumeError) {
+        log.error(`[${data.sessionId}] Failed to resume session:`, resumeError);
+        sessionState.isProcessing = false;
+        throw new Error(`Session disconnected and could not be resumed. Please try again.`);
+      }
     }
+
+    sessionState.isProcessing = false;
+    throw error;
   }
-);
+}
 
-ipcMain.handle(
-  'copilot:sendAndWait',
-  async (
-    _event,
-    data: {
-      sessionId: string;
-      prompt: string;
-      attachments?: { type: 'file'; path: string; displayName?: string }[];
-    }
-  ) => {
-    const sessionState = sessions.get(data.sessionId);
-    if (!sessionState) {
-      throw new Error(`Session not found: ${data.sessionId}`);
-    }
+async function sendMessageAndWait(data: Omit<SendMessageData, 'mode'>): Promise<string> {
+  const sessionState = sessions.get(data.sessionId);
+  if (!sessionState) {
+    throw new Error(`Session not found: ${data.sessionId}`);
+  }
 
-    sessionState.isProcessing = true;
+  sessionState.isProcessing = true;
+  beginTurnSnapshot(data.sessionId, sessionState.cwd);
 
-    const messageOptions = {
-      prompt: data.prompt,
-      attachments: data.attachments,
-    };
+  const messageOptions = {
+    prompt: data.prompt,
+    attachments: data.attachments,
+  };
 
-    try {
-      const response = await sessionState.session.sendAndWait(messageOptions);
-      sessionState.isProcessing = false;
-      return response?.data?.content || '';
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : String(error);
+  try {
+    const response = await sessionState.session.sendAndWait(messageOptions);
+    sessionState.isProcessing = false;
+    return response?.data?.content || '';
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
 
-      // Check if session was disconnected/timed out
-      if (
-        errorMessage.includes('Session not found') ||
-        errorMessage.includes('session.send failed')
-      ) {
-        log.warn(`[${data.sessionId}] Session appears disconnected, attempting to resume...`);
+    // Check if session was disconnected/timed out
+    if (
+      errorMessage.includes('Session not found') ||
+      errorMessage.includes('session.send failed')
+    ) {
+      log.warn(`[${data.sessionId}] Session appears disconnected, attempting to resume...`);
 
-        try {
-          await resumeDisconnectedSession(data.sessionId, sessionState);
-          const response = await sessionState.session.sendAndWait(messageOptions);
-          sessionState.isProcessing = false;
-          return response?.data?.content || '';
-        } catch (resumeError) {
-          log.error(`[${data.sessionId}] Failed to resume session:`, resumeError);
-          sessionState.isProcessing = false;
-          throw new Error(`Session disconnected and could not be resumed. Please try again.`);
-        }
+      try {
+        await resumeDisconnectedSession(data.sessionId, sessionState);
+        const response = await sessionState.session.sendAndWait(messageOptions);
+        sessionState.isProcessing = false;
+        return response?.data?.content || '';
+      } catch (resumeError) {
+        log.error(`[${data.sessionId}] Failed to resume session:`, resumeError);
+        sessionState.isProcessing = false;
+        throw new Error(`Session disconnected and could not be resumed. Please try again.`);
       }
-
-      sessionState.isProcessing = false;
-      throw error;
     }
+
+    sessionState.isProcessing = false;
+    throw error;
   }
-);
+}
 
-ipcMain.on('copilot:abort', async (_event, sessionId: string) => {
+async function abortSession(sessionId: string): Promise<void> {
   const sessionState = sessions.get(sessionId);
   if (sessionState) {
     await sessionState.session.abort();
   }
-});
+}
 
 // Get message history for a session
-ipcMain.handle('copilot:getMessages', async (_event, sessionId: string) => {
+async function getSessionMessages(
+  sessionId: string
+): Promise<{ role: 'user' | 'assistant'; content: string }[]> {
   const sessionState = sessions.get(sessionId);
   if (!sessionState) {
     throw new Error(`Session not found: ${sessionId}`);
@@ -2723,8 +3050,66 @@ ipcMain.handle('copilot:getMessages', async (_event, sessionId: string) => {
 
     throw error;
   }
+}
+
+// IPC Handlers
+ipcMain.handle('copilot:send', (_event, data: SendMessageData) => sendMessage(data));
+
+ipcMain.handle('copilot:sendAndWait', (_event, data: Omit<SendMessageData, 'mode'>) =>
+  sendMessageAndWait(data)
+);
+
+ipcMain.on('copilot:abort', (_event, sessionId: string) => {
+  abortSession(sessionId).catch((error) =>
+    log.error(`[${sessionId}] Failed to abort session:`, error)
+  );
 });
 
+ipcMain.handle('copilot:getMessages', (_event, sessionId: string) => getSessionMessages(sessionId));
+
+// Files captured for a turn, for the revert confirmation
+ipcMain.handle(
+  'copilot:getTurnSnapshot',
+  async (_event, data: { sessionId: string; turnId: string }) => {
+    const snapshot = await getTurnSnapshot(data.sessionId, data.turnId);
+    if (!snapshot) return null;
+    return {
+      turnId: snapshot.turnId,
+      files: snapshot.files.map((file) => ({
+        path: file.path,
+        created: !file.existed,
+        skipped: !!file.skipped,
+      })),
+      partial: !!snapshot.partial,
+      revertedAt: snapshot.revertedAt,
+    };
+  }
+);
+
+// Restore every file touched in a turn to its pre-turn contents
+ipcMain.handle(
+  'copilot:revertTurn',
+  async (_event, data: { sessionId: string; turnId: string }) => {
+    try {
+      const result = await revertTurnSnapshot(data.sessionId, data.turnId);
+      log.info(
+        `[${data.sessionId}] Reverted turn ${data.turnId}: ${result.restored.length} restored, ${result.removed.length} removed, ${result.failed.length} failed`
+      );
+      return { success: result.failed.length === 0 && !result.partial, ...result };
+    } catch (error) {
+      log.error(`[${data.sessionId}] Failed to revert turn ${data.turnId}:`, error);
+      return {
+        success: false,
+        restored: [],
+        removed: [],
+        failed: [],
+        partial: false,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+);
+
 // Generate a short title for a conversation using AI
 ipcMain.handle('copilot:generateTitle', async (_event, data: { conversation: string }) => {
   // Use the default cwd client for title generation
@@ -2879,7 +3264,7 @@ ipcMain.handle(
     _event,
     data: {
       requestId: string;
-      decision: 'approved' | 'always' | 'global' | 'denied';
+      decision: 'approved' | 'always' | 'global' | 'folder' | 'denied';
     }
   ) => {
     const pending = pendingPermissions.get(data.requestId);
@@ -2890,6 +3275,14 @@ ipcMain.handle(
 
     pendingPermissions.delete(data.requestId);
 
+    // Terminal input is approved once, whatever scope the renderer asked for
+    if (
+      isTerminalInputRequest(pending.request) &&
+      (data.decision === 'always' || data.decision === 'global')
+    ) {
+      data = { ...data, decision: 'approved' };
+    }
+
     // Track "global" for adding to persistent global safe commands
     if (data.decision === 'global') {
       // For URL requests, add to global allowed URLs
@@ -2905,7 +3298,7 @@ ipcMain.handle(
         // For other commands, add to global safe commands
         const executables = pending.executable.split(', ').filter((e) => e.trim());
         const globalSafeCommands = (store.get('globalSafeCommands') as string[]) || [];
-        const newCommands = executables.map((exec) => normalizeAlwaysAllowed(exec.trim()));
+        const newCommands = executables.map((exec) => exec.trim());
         const updatedCommands = [...new Set([...globalSafeCommands, ...newCommands])];
         store.set('globalSafeCommands', updatedCommands);
         console.log(`[${pending.sessionId}] Added to global safe commands:`, newCommands);
@@ -2930,16 +3323,23 @@ ipcMain.handle(
           // Add each executable individually (handle comma-separated list)
           const executables = pending.executable.split(', ').filter((e) => e.trim());
           for (const exec of executables) {
-            sessionState.alwaysAllowed.add(normalizeAlwaysAllowed(exec.trim()));
+            sessionState.alwaysAllowed.add(exec.trim());
           }
-          console.log(
-            `[${pending.sessionId}] Added to always allow:`,
-            executables.map(normalizeAlwaysAllowed)
-          );
+          console.log(`[${pending.sessionId}] Added to always allow:`, executables);
         }
       }
     }
 
+    // "Allow writes under this folder": remember a folder-scoped write approval
+    if (data.decision === 'folder' && pending.writePath) {
+      const sessionState = sessions.get(pending.sessionId);
+      if (sessionState) {
+        const scope = `${WRITE_SCOPE_PREFIX}${dirname(pending.writePath)}`;
+        sessionState.alwaysAllowed.add(scope);
+        console.log(`[${pending.sessionId}] Added write scope:`, scope);
+      }
+    }
+
     // For out-of-scope reads that are approved, remember the parent directory
     if (
       (data.decision === 'approved' || data.decision === 'always' || data.decision === 'global') &&
@@ -2958,6 +3358,13 @@ ipcMain.handle(
     };
 
     console.log('Permission resolved:', data.requestId, result.kind);
+    auditPermissionDecision(
+      pending.sessionId,
+      pending.request,
+      pending.executable,
+      result,
+      `user:${data.decision}`
+    );
     pending.resolve(result);
     return { success: true };
   }
@@ -2982,6 +3389,13 @@ ipcMain.handle(
           const pending = pendingPermissions.get(id);
           if (pending) {
             pendingPermissions.delete(id);
+            auditPermissionDecision(
+              pending.sessionId,
+              pending.request,
+              pending.executable,
+              { kind: 'approved' },
+              'yolo-mode-flush'
+            );
             pending.resolve({ kind: 'approved' });
             console.log(`[${data.sessionId}] Yolo mode: flushed pending permission ${id}`);
           }
@@ -3065,7 +3479,7 @@ ipcMain.handle(
       sessions.delete(data.sessionId);
 
       const mcpConfig = await readMcpConfig();
-      const browserTools = createBrowserTools(data.sessionId);
+      const sessionTools = createSessionTools(data.sessionId);
 
       // Resume the same session with the new model — preserves conversation context
       const agentResult = await getAllAgents(undefined, cwd);
@@ -3088,7 +3502,7 @@ ipcMain.handle(
       const resumedSession = await client.resumeSession(data.sessionId, {
         model: data.model,
         mcpServers: mcpConfig.mcpServers,
-        tools: browserTools,
+        tools: sessionTools,
         customAgents,
         onPermissionRequest: (request, invocation) =>
           handlePermissionRequest(request, invocation, resumedSession.sessionId),
@@ -3184,7 +3598,7 @@ ipcMain.handle(
     sessions.delete(data.sessionId);
 
     const mcpConfig = await readMcpConfig();
-    const browserTools = createBrowserTools(data.sessionId);
+    const sessionTools = createSessionTools(data.sessionId);
 
     // Build customAgents list for the session
     const agentResult = await getAllAgents(undefined, cwd);
@@ -3209,7 +3623,7 @@ ipcMain.handle(
     const resumedSession = await client.resumeSession(data.sessionId, {
       model,
       mcpServers: mcpConfig.mcpServers,
-      tools: browserTools,
+      tools: sessionTools,
       customAgents,
       onPermissionRequest: (request, invocation) =>
         handlePermissionRequest(request, invocation, resumedSession.sessionId),
@@ -3529,6 +3943,8 @@ ipcMain.handle('copilot:closeSession', async (_event, sessionId: string) => {
     sessions.delete(sessionId);
     console.log(`Closed session ${sessionId}`);
   }
+  clearBrowserCapture(sessionId);
+  browserRecorder.discardRecording(sessionId);
 
   // Update active session if needed
   if (activeSessionId === sessionId) {
@@ -3569,6 +3985,18 @@ ipcMain.handle('copilot:deleteSessionFromHistory', async (_event, sessionId: str
     delete sessionCwds[sessionId];
     store.set('sessionCwds', sessionCwds);
 
+    // Forks of a deleted session stay in history as top-level sessions
+    const sessionParents = (store.get('sessionParents') as Record<string, string>) || {};
+    store.set('sessionParents', removeSessionParentLinks(sessionParents, sessionId));
+
+    const sessionBrowserProfiles =
+      (store.get('sessionBrowserProfiles') as Record<string, string>) || {};
+    delete sessionBrowserProfiles[sessionId];
+    store.set('sessionBrowserProfiles', sessionBrowserProfiles);
+
+    await deleteTurnSnapshots(sessionId);
+    deleteTerminalHistory(sessionId);
+
     console.log(`Deleted session ${sessionId} from history`);
     return { success: true };
   } catch (error) {
@@ -3577,49 +4005,358 @@ ipcMain.handle('copilot:deleteSessionFromHistory', async (_event, sessionId: str
   }
 });
 
-// Switch active session
-ipcMain.handle('copilot:switchSession', async (_event, sessionId: string) => {
-  if (!sessions.has(sessionId)) {
-    throw new Error(`Session not found: ${sessionId}`);
-  }
-  activeSessionId = sessionId;
-  const sessionState = sessions.get(sessionId)!;
-  return { sessionId, model: sessionState.model };
-});
-
-// Get always-allowed executables for a session
-ipcMain.handle('copilot:getAlwaysAllowed', async (_event, sessionId: string) => {
-  const sessionState = sessions.get(sessionId);
-  if (!sessionState) {
-    return [];
-  }
-  return Array.from(sessionState.alwaysAllowed);
-});
-
-// Remove an executable from always-allowed for a session
+// Full-text search across all session transcripts (index is refreshed incrementally)
 ipcMain.handle(
-  'copilot:removeAlwaysAllowed',
-  async (_event, data: { sessionId: string; executable: string }) => {
-    const sessionState = sessions.get(data.sessionId);
-    if (sessionState) {
-      sessionState.alwaysAllowed.delete(data.executable);
-      console.log(`[${data.sessionId}] Removed from always allow:`, data.executable);
+  'copilot:searchSessions',
+  async (_event, data: { query: string; filters?: SessionSearchFilters }) => {
+    try {
+      const sessionStateDir = join(getCopilotStatePath(), 'session-state');
+      return {
+        success: true,
+        ...(await searchSessions(sessionStateDir, data.query, data.filters)),
+      };
+    } catch (error) {
+      console.error('Failed to search sessions:', error);
+      return {
+        success: false,
+        error: String(error),
+        results: [],
+        facets: { cwds: [], models: [] },
+      };
     }
-    return { success: true };
   }
 );
 
-// Add a command to always-allowed for a session (manual entry)
+// Export a session transcript (open or from history) as Markdown, HTML or JSON
 ipcMain.handle(
-  'copilot:addAlwaysAllowed',
-  async (_event, data: { sessionId: string; command: string }) => {
-    const sessionState = sessions.get(data.sessionId);
-    if (sessionState) {
-      const normalized = normalizeAlwaysAllowed(data.command.trim());
-      sessionState.alwaysAllowed.add(normalized);
-      console.log(`[${data.sessionId}] Manually added to always allow:`, normalized);
+  'copilot:exportTranscript',
+  async (_event, data: { sessionId: string; format: TranscriptFormat; name?: string }) => {
+    const { sessionId, format } = data;
+    const eventsPath = join(getCopilotStatePath(), 'session-state', sessionId, 'events.jsonl');
+    if (!existsSync(eventsPath)) {
+      return { success: false, error: 'No saved events found for this session' };
+    }
+
+    const sessionNames = (store.get('sessionNames') as Record<string, string>) || {};
+    const sessionCwds = (store.get('sessionCwds') as Record<string, string>) || {};
+    const sessionMarks =
+      (store.get('sessionMarks') as Record<
+        string,
+        { markedForReview?: boolean; reviewNote?: string }
+      >) || {};
+    const storedSession = ((store.get('openSessions') as StoredSession[]) || []).find(
+      (s) => s.sessionId === sessionId
+    );
+    const openSession = sessions.get(sessionId);
+    const name = data.name || sessionNames[sessionId];
+    const extension = TRANSCRIPT_FILE_EXTENSIONS[format];
+    const baseName = (name || `session-${sessionId.slice(0, 8)}`)
+      .replace(/[\\/:*?"<>|]+/g, '-')
+      .trim();
+
+    const result = await dialog.showSaveDialog(mainWindow!, {
+      title: 'Export Transcript',
+      defaultPath: `${baseName}.${extension}`,
+      filters: [
+        { name: format === 'json' ? 'JSON' : format.toUpperCase(), extensions: [extension] },
+      ],
+    });
+    if (result.canceled || !result.filePath) {
+      return { success: false, canceled: true };
+    }
+
+    try {
+      const transcript = await loadTranscript(
+        eventsPath,
+        {
+          sessionId,
+          name,
+          cwd: openSession?.cwd || sessionCwds[sessionId],
+          model: openSession?.model,
+          session: {
+            editedFiles: storedSession?.editedFiles,
+            alwaysAllowed: openSession
+              ? Array.from(openSession.alwaysAllowed)
+              : storedSession?.alwaysAllowed,
+            sourceIssue: storedSession?.sourceIssue,
+            markedForReview:
+              storedSession?.markedForReview ?? sessionMarks[sessionId]?.markedForReview,
+            reviewNote: storedSession?.reviewNote ?? sessionMarks[sessionId]?.reviewNote,
+          },
+        },
+        { includeEvents: format === 'json' }
+      );
+      await writeFile(result.filePath, renderTranscript(transcript, format), 'utf-8');
+      return { success: true, path: result.filePath };
+    } catch (error) {
+      console.error(`Failed to export transcript for ${sessionId}:`, error);
+      return { success: false, error: String(error) };
+    }
+  }
+);
+
+// Pick an exported transcript JSON to import
+ipcMain.handle('copilot:pickTranscript', async () => {
+  const result = await dialog.showOpenDialog(mainWindow!, {
+    title: 'Import Transcript',
+    properties: ['openFile'],
+    filters: [{ name: 'JSON', extensions: ['json'] }],
+  });
+  if (result.canceled || result.filePaths.length === 0) {
+    return { success: false, canceled: true };
+  }
+  try {
+    const filePath = result.filePaths[0];
+    const transcript = parseTranscriptFile(await readFile(filePath, 'utf-8'));
+    return {
+      success: true,
+      filePath,
+      name: transcript.name,
+      cwd: transcript.cwd,
+      model: transcript.model,
+      messageCount: getTranscriptMessages(transcript).length,
+    };
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : String(error) };
+  }
+});
+
+// Recreate a session from an exported transcript, seeded with a summary of the conversation
+ipcMain.handle(
+  'copilot:importTranscript',
+  async (_event, data: { filePath: string; cwd: string }) => {
+    try {
+      const transcript = parseTranscriptFile(await readFile(data.filePath, 'utf-8'));
+      const systemContext = buildImportContext(transcript, data.cwd);
+      let sessionId: string;
+      try {
+        sessionId = await createNewSession(transcript.model, data.cwd, { systemContext });
+      } catch (error) {
+        // The exported model may not be available on this machine
+        log.warn(`Import with model ${transcript.model} failed, using default model:`, error);
+        sessionId = await createNewSession(undefined, data.cwd, { systemContext });
+      }
+      const sessionState = sessions.get(sessionId)!;
+      const restored = remapSessionState(transcript.session, transcript.cwd, sessionState.cwd);
+      // A transcript file can come from anyone, so its "always allow" approvals and write
+      // scopes are not restored; the user grants them again as the session asks
+      if (restored.alwaysAllowed?.length) {
+        console.log(
+          `Not restoring ${restored.alwaysAllowed.length} always-allowed entries from imported transcript`
+        );
+      }
+
+      if (transcript.name) {
+        const sessionNames = (store.get('sessionNames') as Record<string, string>) || {};
+        sessionNames[sessionId] = transcript.name;
+        store.set('sessionNames', sessionNames);
+      }
+      if (restored.markedForReview || restored.reviewNote) {
+        const sessionMarks =
+          (store.get('sessionMarks') as Record<
+            string,
+            { markedForReview?: boolean; reviewNote?: string }
+          >) || {};
+        sessionMarks[sessionId] = {
+          markedForReview: restored.markedForReview,
+          reviewNote: restored.reviewNote,
+        };
+        store.set('sessionMarks', sessionMarks);
+      }
+
+      console.log(`Imported transcript ${transcript.sessionId} as session ${sessionId}`);
+      return {
+        success: true,
+        session: {
+          sessionId,
+          model: sessionState.model,
+          cwd: sessionState.cwd,
+          name: transcript.name,
+          editedFiles: restored.editedFiles || [],
+          alwaysAllowed: Array.from(sessionState.alwaysAllowed),
+          sourceIssue: restored.sourceIssue,
+          markedForReview: restored.markedForReview,
+          reviewNote: restored.reviewNote,
+          messages: getTranscriptMessages(transcript),
+        },
+      };
+    } catch (error) {
+      console.error('Failed to import transcript:', error);
+      return { success: false, error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+);
+
+// Fork a session from one of its messages into a new session, optionally in a new worktree
+ipcMain.handle(
+  'copilot:forkSession',
+  async (
+    _event,
+    data: { sessionId: string; point: ForkPoint; agentName?: string; worktreeBranch?: string }
+  ) => {
+    const eventsPath = join(getCopilotStatePath(), 'session-state', data.sessionId, 'events.jsonl');
+    if (!existsSync(eventsPath)) {
+      return { success: false, error: 'No saved events found for this session' };
+    }
+
+    let worktreeSession: { id: string; branch: string; worktreePath: string } | undefined;
+    let sessionId: string | undefined;
+    try {
+      const events = parseSessionEvents(await readFile(eventsPath, 'utf-8'));
+      const eventCount = findForkEventCount(events, data.point);
+      if (eventCount < 0) {
+        return { success: false, error: 'Could not find the message to fork from' };
+      }
+
+      const parent = sessions.get(data.sessionId);
+      const sessionNames = (store.get('sessionNames') as Record<string, string>) || {};
+      const sessionCwds = (store.get('sessionCwds') as Record<string, string>) || {};
+      const parentName = sessionNames[data.sessionId];
+      const parentCwd = parent?.cwd || sessionCwds[data.sessionId];
+      const storedParent = ((store.get('openSessions') as StoredSession[]) || []).find(
+        (s) => s.sessionId === data.sessionId
+      );
+      const transcript = buildTranscript(events.slice(0, eventCount), {
+        sessionId: data.sessionId,
+        name: parentName,
+        cwd: parentCwd,
+        model: parent?.model,
+        session: { editedFiles: storedParent?.editedFiles },
+      });
+
+      let cwd = transcript.cwd;
+      if (data.worktreeBranch) {
+        if (!cwd) {
+          return { success: false, error: 'The session has no working directory to branch from' };
+        }
+        const created = await worktree.createWorktreeSession(cwd, data.worktreeBranch);
+        if (!created.success || !created.session) {
+          return { success: false, error: created.error || 'Failed to create worktree' };
+        }
+        worktreeSession = created.session;
+        cwd = created.session.worktreePath;
+      }
+
+      sessionId = await createNewSession(transcript.model, cwd, {
+        systemContext: buildForkContext(transcript, cwd || ''),
+      });
+      const sessionState = sessions.get(sessionId)!;
+      const carried = remapSessionState(
+        {
+          alwaysAllowed: parent ? Array.from(parent.alwaysAllowed) : storedParent?.alwaysAllowed,
+        },
+        transcript.cwd,
+        sessionState.cwd
+      );
+      for (const id of carried.alwaysAllowed || []) {
+        sessionState.alwaysAllowed.add(id);
+      }
+      sessionState.yoloMode = parent?.yoloMode ?? storedParent?.yoloMode ?? false;
+
+      if (data.agentName) {
+        try {
+          // @ts-ignore - accessing internal connection to call undocumented RPC
+          await sessionState.session.connection?.sendRequest?.('session.selectAgent', {
+            sessionId,
+            agentName: data.agentName,
+          });
+        } catch (error) {
+          log.warn(`Could not select agent ${data.agentName} for fork ${sessionId}:`, error);
+        }
+      }
+
+      const name = parentName ? `${parentName} (fork)` : undefined;
+      if (name) {
+        sessionNames[sessionId] = name;
+        store.set('sessionNames', sessionNames);
+      }
+      const sessionParents = (store.get('sessionParents') as Record<string, string>) || {};
+      sessionParents[sessionId] = data.sessionId;
+      store.set('sessionParents', sessionParents);
+
+      console.log(`Forked session ${data.sessionId} at event ${eventCount} as ${sessionId}`);
+      return {
+        success: true,
+        session: {
+          sessionId,
+          model: sessionState.model,
+          cwd: sessionState.cwd,
+          name,
+          parentSessionId: data.sessionId,
+          alwaysAllowed: Array.from(sessionState.alwaysAllowed),
+          yoloMode: sessionState.yoloMode,
+          messages: getTranscriptMessages(transcript),
+          worktree: worktreeSession && {
+            id: worktreeSession.id,
+            branch: worktreeSession.branch,
+            worktreePath: worktreeSession.worktreePath,
+          },
+        },
+      };
+    } catch (error) {
+      console.error(`Failed to fork session ${data.sessionId}:`, error);
+      // Don't leave a half-made fork behind
+      if (sessionId) {
+        await sessions
+          .get(sessionId)
+          ?.session.destroy()
+          .catch(() => {});
+        sessions.delete(sessionId);
+      }
+      if (worktreeSession) {
+        const removed = await worktree.removeWorktreeSession(worktreeSession.id, { force: true });
+        if (!removed.success) {
+          log.warn(`Could not remove worktree for failed fork: ${removed.error}`);
+        }
+      }
+      return { success: false, error: error instanceof Error ? error.message : String(error) };
     }
-    return { success: true };
+  }
+);
+
+// Switch active session
+ipcMain.handle('copilot:switchSession', async (_event, sessionId: string) => {
+  if (!sessions.has(sessionId)) {
+    throw new Error(`Session not found: ${sessionId}`);
+  }
+  activeSessionId = sessionId;
+  const sessionState = sessions.get(sessionId)!;
+  return { sessionId, model: sessionState.model };
+});
+
+// Get always-allowed executables for a session
+ipcMain.handle('copilot:getAlwaysAllowed', async (_event, sessionId: string) => {
+  const sessionState = sessions.get(sessionId);
+  if (!sessionState) {
+    return [];
+  }
+  return Array.from(sessionState.alwaysAllowed);
+});
+
+// Remove an executable from always-allowed for a session
+ipcMain.handle(
+  'copilot:removeAlwaysAllowed',
+  async (_event, data: { sessionId: string; executable: string }) => {
+    const sessionState = sessions.get(data.sessionId);
+    if (sessionState) {
+      sessionState.alwaysAllowed.delete(data.executable);
+      console.log(`[${data.sessionId}] Removed from always allow:`, data.executable);
+    }
+    return { success: true };
+  }
+);
+
+// Add a command to always-allowed for a session (manual entry)
+ipcMain.handle(
+  'copilot:addAlwaysAllowed',
+  async (_event, data: { sessionId: string; command: string }) => {
+    const sessionState = sessions.get(data.sessionId);
+    if (sessionState) {
+      const command = data.command.trim();
+      sessionState.alwaysAllowed.add(command);
+      console.log(`[${data.sessionId}] Manually added to always allow:`, command);
+    }
+    return { success: true };
   }
 );
 
@@ -3631,11 +4368,11 @@ ipcMain.handle('copilot:getGlobalSafeCommands', async () => {
 // Add a command to global safe commands
 ipcMain.handle('copilot:addGlobalSafeCommand', async (_event, command: string) => {
   const globalSafeCommands = (store.get('globalSafeCommands') as string[]) || [];
-  const normalized = normalizeAlwaysAllowed(command.trim());
-  if (!globalSafeCommands.includes(normalized)) {
-    globalSafeCommands.push(normalized);
+  const trimmed = command.trim();
+  if (!globalSafeCommands.includes(trimmed)) {
+    globalSafeCommands.push(trimmed);
     store.set('globalSafeCommands', globalSafeCommands);
-    console.log('Added to global safe commands:', normalized);
+    console.log('Added to global safe commands:', trimmed);
   }
   return { success: true };
 });
@@ -3649,6 +4386,195 @@ ipcMain.handle('copilot:removeGlobalSafeCommand', async (_event, command: string
   return { success: true };
 });
 
+// Permission audit log
+ipcMain.handle('permissions:getAuditLog', async (_event, filter?: PermissionAuditFilter) => {
+  return readPermissionAudit(filter);
+});
+
+ipcMain.handle('permissions:exportAuditLog', async (_event, filter?: PermissionAuditFilter) => {
+  const result = await dialog.showSaveDialog(mainWindow!, {
+    title: 'Export Permission Audit Log',
+    defaultPath: `permission-audit-${new Date().toISOString().slice(0, 10)}.jsonl`,
+    filters: [{ name: 'JSON Lines', extensions: ['jsonl'] }],
+  });
+  if (result.canceled || !result.filePath) {
+    return { success: false, canceled: true };
+  }
+  try {
+    const count = await exportPermissionAudit(result.filePath, filter);
+    return { success: true, path: result.filePath, count };
+  } catch (error) {
+    console.error('Failed to export permission audit log:', error);
+    return { success: false, error: String(error) };
+  }
+});
+
+ipcMain.handle('permissions:clearAuditLog', async () => {
+  await clearPermissionAudit();
+  return { success: true };
+});
+
+// Local API server - lets scripts drive sessions over a token-protected socket/localhost
+const apiServerHandlers: ApiServerHandlers = {
+  listSessions: () =>
+    Array.from(sessions.entries()).map(([sessionId, state]) => ({
+      sessionId,
+      model: state.model,
+      cwd: state.cwd,
+      isProcessing: state.isProcessing,
+    })),
+  createSession: async ({ cwd, model }) => {
+    const sessionId = await createNewSession(model, cwd);
+    const sessionState = sessions.get(sessionId)!;
+    // Open a tab for the session so its permission prompts can be answered in the GUI
+    if (mainWindow && !mainWindow.isDestroyed()) {
+      const session: EarlyResumedSession = {
+        sessionId,
+        model: sessionState.model,
+        cwd: sessionState.cwd,
+        name: 'API session',
+        messages: [],
+      };
+      mainWindow.webContents.send('copilot:sessionResumed', { session });
+    }
+    return { sessionId, model: sessionState.model, cwd: sessionState.cwd };
+  },
+  send: sendMessage,
+  sendAndWait: sendMessageAndWait,
+  abort: abortSession,
+  getMessages: getSessionMessages,
+};
+
+function getApiServerToken(): string {
+  let token = store.get('apiServerToken') as string;
+  if (!token) {
+    token = generateApiToken();
+    store.set('apiServerToken', token);
+  }
+  return token;
+}
+
+async function applyApiServerConfig(): Promise<void> {
+  const config = store.get('apiServer') as ApiServerConfig;
+  if (!config.enabled) {
+    await stopApiServer();
+    return;
+  }
+  const status = await startApiServer(config, getApiServerToken(), apiServerHandlers);
+  if (status.running) {
+    log.info(`Local API server listening on ${status.address}`);
+  } else {
+    log.error('Failed to start local API server:', status.error);
+  }
+}
+
+ipcMain.handle('apiServer:getStatus', async () => {
+  return {
+    config: store.get('apiServer') as ApiServerConfig,
+    token: store.get('apiServerToken') as string,
+    status: getApiServerStatus(),
+  };
+});
+
+ipcMain.handle('apiServer:setConfig', async (_event, updates: Partial<ApiServerConfig>) => {
+  const config = { ...(store.get('apiServer') as ApiServerConfig), ...updates };
+  store.set('apiServer', config);
+  await applyApiServerConfig();
+  return { config, token: store.get('apiServerToken') as string, status: getApiServerStatus() };
+});
+
+ipcMain.handle('apiServer:regenerateToken', async () => {
+  store.set('apiServerToken', generateApiToken());
+  await applyApiServerConfig();
+  return { token: store.get('apiServerToken') as string, status: getApiServerStatus() };
+});
+
+// Issue tracker credentials. Tokens never leave the main process; the renderer only learns
+// whether one is set.
+function getIssueTrackerSettingsView() {
+  const { jira = {}, gitlab = {} } = store.get('issueTrackers') as IssueTrackerSettings;
+  return {
+    jira: { baseUrl: jira.baseUrl || '', email: jira.email || '', hasToken: !!jira.token },
+    gitlab: { baseUrl: gitlab.baseUrl || '', hasToken: !!gitlab.token },
+  };
+}
+
+ipcMain.handle('issueTrackers:getSettings', async () => {
+  return getIssueTrackerSettingsView();
+});
+
+// An undefined token keeps the stored one; an empty string clears it
+ipcMain.handle('issueTrackers:setSettings', async (_event, updates: IssueTrackerSettings) => {
+  const current = store.get('issueTrackers') as IssueTrackerSettings;
+  const merge = <T extends { token?: string }>(existing: T = {} as T, update?: T): T => {
+    if (!update) return existing;
+    const next = { ...existing, ...update };
+    if (update.token === undefined) next.token = existing.token;
+    if (!next.token) delete next.token;
+    return next;
+  };
+  store.set('issueTrackers', {
+    jira: merge(current.jira, updates.jira),
+    gitlab: merge(current.gitlab, updates.gitlab),
+  });
+  return getIssueTrackerSettingsView();
+});
+
+// Issue write-back: comment on the session's source issue when a loop finishes or a PR is opened
+const pullRequestWatches = new Map<string, () => void>(); // By issue URL + branch
+const postedPullRequests = new Set<string>(); // Issue URL + PR URL, so a PR is announced once
+
+function getIssueWriteBackConfig(): IssueWriteBackConfig {
+  return {
+    ...DEFAULT_ISSUE_WRITE_BACK_CONFIG,
+    ...(store.get('issueWriteBack') as Partial<IssueWriteBackConfig>),
+  };
+}
+
+ipcMain.handle('issueWriteBack:getConfig', async () => {
+  return getIssueWriteBackConfig();
+});
+
+ipcMain.handle(
+  'issueWriteBack:setConfig',
+  async (_event, updates: Partial<IssueWriteBackConfig>) => {
+    const config = { ...getIssueWriteBackConfig(), ...updates };
+    store.set('issueWriteBack', config);
+    return config;
+  }
+);
+
+ipcMain.handle('issueWriteBack:notify', async (_event, update: WriteBackUpdate) => {
+  const config = getIssueWriteBackConfig();
+  if (!config.enabled || !resolveWriteBackTarget(update.issueUrl)) {
+    return { posted: false };
+  }
+
+  if (update.event === 'loop-complete') {
+    if (!config.onLoopComplete) return { posted: false };
+    const result = await postIssueWriteBack(update, config);
+    if (!result.success) log.warn('Issue write-back failed:', result.error);
+    return { posted: result.success, error: result.error };
+  }
+
+  if (!config.onPullRequest || !update.branch) return { posted: false };
+  const watchKey = `${update.issueUrl}|${update.branch}`;
+  pullRequestWatches.get(watchKey)?.();
+  const stopWatching = watchForPullRequest(update.cwd, update.branch, async (prUrl) => {
+    pullRequestWatches.delete(watchKey);
+    const postedKey = `${update.issueUrl}|${prUrl}`;
+    if (postedPullRequests.has(postedKey)) return;
+    postedPullRequests.add(postedKey);
+    const result = await postIssueWriteBack({ ...update, prUrl }, getIssueWriteBackConfig());
+    if (!result.success) {
+      postedPullRequests.delete(postedKey);
+      log.warn('Issue write-back failed:', result.error);
+    }
+  });
+  pullRequestWatches.set(watchKey, stopWatching);
+  return { posted: false, watching: true };
+});
+
 // Favorite Models Management
 ipcMain.handle('copilot:getFavoriteModels', async () => {
   return (store.get('favoriteModels') as string[]) || [];
@@ -3981,42 +4907,7 @@ ipcMain.handle(
 // Git operations - check for uncommitted/unpushed changes
 ipcMain.handle('git:getWorkingStatus', async (_event, cwd: string) => {
   try {
-    // Check for uncommitted changes
-    const { stdout: statusOutput } = await execAsync('git status --porcelain', { cwd });
-    const hasUncommittedChanges = statusOutput.trim().length > 0;
-
-    // Check for unpushed commits
-    let hasUnpushedCommits = false;
-    try {
-      const { stdout: branch } = await execAsync('git branch --show-current', { cwd });
-      const branchName = branch.trim();
-      if (branchName) {
-        // Check if branch has an upstream
-        try {
-          const { stdout: unpushed } = await execAsync(
-            `git log origin/${branchName}..${branchName} --oneline`,
-            { cwd }
-          );
-          hasUnpushedCommits = unpushed.trim().length > 0;
-        } catch {
-          // No upstream branch, check if there are any commits at all
-          try {
-            const { stdout: allCommits } = await execAsync('git log --oneline -1', { cwd });
-            hasUnpushedCommits = allCommits.trim().length > 0;
-          } catch {
-            hasUnpushedCommits = false;
-          }
-        }
-      }
-    } catch {
-      // Ignore branch errors
-    }
-
-    return {
-      success: true,
-      hasUncommittedChanges,
-      hasUnpushedCommits,
-    };
+    return { success: true, ...(await getGitWorkingStatus(cwd)) };
   } catch (error) {
     console.error('Git status check failed:', error);
     return {
@@ -4655,7 +5546,13 @@ ipcMain.handle(
       draft?: boolean;
       targetBranch: string;
       untrackedFiles?: string[];
-      sourceIssue?: { url: string; number: number; owner: string; repo: string };
+      sourceIssue?: {
+        url: string;
+        number: number;
+        owner: string;
+        repo: string;
+        provider?: 'github' | 'azure-devops';
+      };
     }
   ) => {
     try {
@@ -4769,7 +5666,7 @@ ipcMain.handle(
       let prUrl = `https://github.com/${repoPath}/compare/${targetBranch}...${currentBranch}?quick_pull=1&title=${encodedTitle}`;
 
       // If this session was created from a GitHub issue, add body to link PR to issue
-      if (data.sourceIssue) {
+      if (data.sourceIssue && data.sourceIssue.provider !== 'azure-devops') {
         // Use "Closes" keyword to auto-close the issue when PR is merged
         // Check if PR is in the same repo as the issue
         const [prOwner, prRepo] = repoPath.split('/');
@@ -4815,13 +5712,14 @@ ipcMain.handle('copilot:resumePreviousSession', async (_event, sessionId: string
 
   const session = await client.resumeSession(sessionId, {
     mcpServers: mcpConfig.mcpServers,
-    tools: createBrowserTools(sessionId),
+    tools: createSessionTools(sessionId),
     onPermissionRequest: (request, invocation) =>
       handlePermissionRequest(request, invocation, sessionId),
   });
 
   // Set up event handler
   session.on((event) => {
+    publishSessionEvent(sessionId, event);
     if (!mainWindow || mainWindow.isDestroyed()) return;
 
     log.debug(`[${sessionId}] Event: ${event.type}`);
@@ -5154,6 +6052,215 @@ ipcMain.handle('browser:saveState', async () => {
   return { success: true };
 });
 
+// Live viewport panel: stream a session's page and let the user take over
+ipcMain.handle('browser:startViewport', async (_event, sessionId: string) => {
+  return browserManager.startViewport(sessionId);
+});
+
+ipcMain.handle('browser:stopViewport', async (_event, sessionId: string) => {
+  await browserManager.stopViewport(sessionId);
+  return { success: true };
+});
+
+ipcMain.handle(
+  'browser:setUserControl',
+  async (_event, data: { sessionId: string; inControl: boolean }) => {
+    return browserManager.setUserControl(data.sessionId, data.inControl);
+  }
+);
+
+ipcMain.handle(
+  'browser:sendInput',
+  async (_event, data: { sessionId: string; input: browserManager.BrowserViewportInput }) => {
+    return browserManager.sendViewportInput(data.sessionId, data.input);
+  }
+);
+
+// Export the network traffic captured on a session's page
+ipcMain.handle('browser:exportHar', async (_event, sessionId: string) => {
+  const result = await dialog.showSaveDialog(mainWindow!, {
+    title: 'Export Network Log (HAR)',
+    defaultPath: `cooper-${new Date().toISOString().slice(0, 19).replace(/:/g, '-')}.har`,
+    filters: [{ name: 'HTTP Archive', extensions: ['har'] }],
+  });
+  if (result.canceled || !result.filePath) {
+    return { success: false, canceled: true };
+  }
+  try {
+    const har = buildHar(sessionId, app.getVersion());
+    await writeFile(result.filePath, JSON.stringify(har, null, 2), 'utf-8');
+    return { success: true, path: result.filePath };
+  } catch (error) {
+    console.error('Failed to export HAR:', error);
+    return { success: false, error: String(error) };
+  }
+});
+
+// Record browser tool calls as a replayable Playwright test
+ipcMain.handle('browser:startRecording', async (_event, sessionId: string) => {
+  return browserRecorder.startRecording(sessionId, browserManager.getViewportState(sessionId).url);
+});
+
+ipcMain.handle('browser:stopRecording', async (_event, sessionId: string) => {
+  return browserRecorder.stopRecording(sessionId);
+});
+
+ipcMain.handle('browser:getRecording', async (_event, sessionId: string) => {
+  return browserRecorder.getRecordingStatus(sessionId);
+});
+
+ipcMain.handle('browser:saveRecording', async (_event, sessionId: string) => {
+  const cwd = getSessionCwd(sessionId);
+  const testsDir = ['tests/e2e', 'e2e', 'tests']
+    .map((dir) => join(cwd, dir))
+    .find((dir) => existsSync(dir));
+  const result = await dialog.showSaveDialog(mainWindow!, {
+    title: 'Save Recorded Browser Test',
+    defaultPath: join(testsDir || cwd, 'recorded-session.spec.ts'),
+    filters: [{ name: 'Playwright Test', extensions: ['ts'] }],
+  });
+  if (result.canceled || !result.filePath) {
+    return { success: false, canceled: true };
+  }
+  try {
+    browserRecorder.stopRecording(sessionId);
+    const testName = basename(result.filePath)
+      .replace(/(\.spec)?\.[jt]s$/, '')
+      .replace(/[-_]+/g, ' ');
+    const saved = await browserRecorder.saveRecording(sessionId, result.filePath, testName);
+    return { success: true, ...saved };
+  } catch (error) {
+    console.error('Failed to save browser recording:', error);
+    return { success: false, error: error instanceof Error ? error.message : String(error) };
+  }
+});
+
+// Visual baselines in the session's project, for the diff viewer
+ipcMain.handle('browser:listVisualBaselines', async (_event, sessionId: string) => {
+  return { baselines: await visualBaselines.listBaselines(getSessionCwd(sessionId)) };
+});
+
+ipcMain.handle(
+  'browser:getVisualImages',
+  async (_event, data: { sessionId: string; baselineId: string }) => {
+    return visualBaselines.readVisualImages(getSessionCwd(data.sessionId), data.baselineId);
+  }
+);
+
+ipcMain.handle(
+  'browser:acceptVisualBaseline',
+  async (_event, data: { sessionId: string; baselineId: string }) => {
+    try {
+      await visualBaselines.acceptComparison(getSessionCwd(data.sessionId), data.baselineId);
+      return { success: true };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+);
+
+ipcMain.handle(
+  'browser:deleteVisualBaseline',
+  async (_event, data: { sessionId: string; baselineId: string }) => {
+    try {
+      await visualBaselines.deleteBaseline(getSessionCwd(data.sessionId), data.baselineId);
+      return { success: true };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+);
+
+// Browser profiles: named storage states a session can select, plus incognito
+for (const [sessionId, profile] of Object.entries(
+  (store.get('sessionBrowserProfiles') as Record<string, string>) || {}
+)) {
+  browserManager
+    .setSessionBrowserProfile(sessionId, profile)
+    .catch((error) =>
+      log.warn(`[Browser] Could not restore profile ${profile} for ${sessionId}:`, error)
+    );
+}
+
+const saveSessionBrowserProfile = (sessionId: string, profile: string) => {
+  const sessionBrowserProfiles =
+    (store.get('sessionBrowserProfiles') as Record<string, string>) || {};
+  if (profile === browserManager.DEFAULT_PROFILE) {
+    delete sessionBrowserProfiles[sessionId];
+  } else {
+    sessionBrowserProfiles[sessionId] = profile;
+  }
+  store.set('sessionBrowserProfiles', sessionBrowserProfiles);
+};
+
+ipcMain.handle('browser:listProfiles', async () => {
+  return { profiles: await browserManager.listBrowserProfiles() };
+});
+
+ipcMain.handle('browser:getSessionProfile', async (_event, sessionId: string) => {
+  return { profile: browserManager.getSessionBrowserProfile(sessionId) };
+});
+
+ipcMain.handle(
+  'browser:setSessionProfile',
+  async (_event, data: { sessionId: string; profile: string }) => {
+    try {
+      await browserManager.setSessionBrowserProfile(data.sessionId, data.profile);
+      saveSessionBrowserProfile(data.sessionId, data.profile);
+      return { success: true };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+);
+
+ipcMain.handle('browser:createProfile', async (_event, name: string) => {
+  try {
+    await browserManager.createBrowserProfile(name);
+    return { success: true, profiles: await browserManager.listBrowserProfiles() };
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : String(error) };
+  }
+});
+
+ipcMain.handle('browser:clearProfile', async (_event, name: string) => {
+  try {
+    await browserManager.clearBrowserProfile(name);
+    return { success: true, profiles: await browserManager.listBrowserProfiles() };
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : String(error) };
+  }
+});
+
+ipcMain.handle('browser:deleteProfile', async (_event, name: string) => {
+  try {
+    await browserManager.deleteBrowserProfile(name);
+    const sessionBrowserProfiles =
+      (store.get('sessionBrowserProfiles') as Record<string, string>) || {};
+    for (const [sessionId, profile] of Object.entries(sessionBrowserProfiles)) {
+      if (profile === name) delete sessionBrowserProfiles[sessionId];
+    }
+    store.set('sessionBrowserProfiles', sessionBrowserProfiles);
+    return { success: true, profiles: await browserManager.listBrowserProfiles() };
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : String(error) };
+  }
+});
+
+browserManager.onViewportEvent((event) => {
+  if (!mainWindow || mainWindow.isDestroyed()) return;
+  if (event.type === 'frame') {
+    mainWindow.webContents.send('browser:viewportFrame', {
+      sessionId: event.sessionId,
+      data: event.data,
+      width: event.width,
+      height: event.height,
+    });
+  } else {
+    mainWindow.webContents.send('browser:viewportState', event.state);
+  }
+});
+
 // Window control handlers
 ipcMain.on('window:minimize', () => {
   mainWindow?.minimize();
@@ -5331,6 +6438,8 @@ if (!gotTheLock) {
     // This saves several seconds since session resumption involves network calls
     earlyResumptionPromise = startEarlySessionResumption();
 
+    applyApiServerConfig().catch((err) => log.error('Local API server error:', err));
+
     const cachedModels = getCachedModels();
     console.log(
       cachedModels.length > 0
@@ -5429,6 +6538,13 @@ if (!gotTheLock) {
 
     createWindow();
 
+    // Measure worktrees in the background and tell the renderer when free space runs low
+    startWorktreeUsageScanner((report) => {
+      if (mainWindow && !mainWindow.isDestroyed()) {
+        mainWindow.webContents.send('worktree:usageUpdated', report);
+      }
+    });
+
     app.on('child-process-gone', (_event, details) => {
       log.error('Child process gone:', details);
     });
@@ -5469,6 +6585,8 @@ app.on('before-quit', async () => {
   // Close all PTY instances
   ptyManager.closeAllPtys();
 
+  await stopApiServer();
+
   // Close browser and save state
   await browserManager.closeBrowser();
 
@@ -5499,6 +6617,19 @@ ipcMain.handle('worktree:fetchAzureDevOpsWorkItem', async (_event, workItemUrl:
   return worktree.fetchAzureDevOpsWorkItem(workItemUrl);
 });
 
+// Fetch an issue from any supported tracker (GitHub, Azure DevOps, GitLab, Jira)
+ipcMain.handle('worktree:fetchIssue', async (_event, issueUrl: string) => {
+  return fetchIssueFromUrl(issueUrl, store.get('issueTrackers') as IssueTrackerSettings);
+});
+
+// List a repository's GitHub issues by label, milestone or search
+ipcMain.handle(
+  'worktree:listGitHubIssues',
+  async (_event, data: { repoPath: string; query: worktree.GitHubIssueQuery }) => {
+    return worktree.listGitHubIssues(data.repoPath, data.query);
+  }
+);
+
 // Check git version for worktree support
 ipcMain.handle('worktree:checkGitVersion', async () => {
   return worktree.checkGitVersion();
@@ -5518,6 +6649,68 @@ ipcMain.handle(
   }
 );
 
+// Whether the worktree's repository has setup hooks (.copilot/worktree.json), with the commands
+// they run and whether the user has approved this version of them
+ipcMain.handle('worktree:hasSetup', async (_event, worktreePath: string) => {
+  const session = worktree.findWorktreeSessionByPath(worktreePath);
+  if (!session || !existsSync(getWorktreeSetupConfigPath(session.repoPath))) {
+    return { hasSetup: false, approved: true };
+  }
+  let commands: WorktreeSetupCommands | null = null;
+  try {
+    commands = getWorktreeSetupCommands(session.repoPath);
+  } catch {
+    // runSetup reports the invalid config
+  }
+  return {
+    hasSetup: true,
+    commands: commands ?? undefined,
+    approved: !commands || worktree.getWorktreeSetupApproval(session.repoPath) === commands.hash,
+  };
+});
+
+// Approve the worktree.json commands the user was shown, identified by the file's content hash
+ipcMain.handle(
+  'worktree:approveSetup',
+  async (_event, data: { worktreePath: string; hash: string }) => {
+    const session = worktree.findWorktreeSessionByPath(data.worktreePath);
+    if (!session) return { success: false, error: 'Worktree session not found' };
+    worktree.approveWorktreeSetup(session.repoPath, data.hash);
+    return { success: true };
+  }
+);
+
+// Copy files and run post-create commands in a new worktree. Commands run in the session's
+// "Setup" terminal so their output streams into the terminal panel.
+ipcMain.handle(
+  'worktree:runSetup',
+  async (_event, data: { sessionId: string; worktreePath: string }) => {
+    const session = worktree.findWorktreeSessionByPath(data.worktreePath);
+    if (!session) return { success: true, configured: false };
+    return runWorktreeSetup(
+      session.repoPath,
+      data.worktreePath,
+      (command) =>
+        ptyManager.runPtyCommand(
+          data.sessionId,
+          data.worktreePath,
+          mainWindow,
+          WORKTREE_SETUP_TERMINAL_ID,
+          'Setup',
+          command
+        ),
+      worktree.getWorktreeSetupApproval(session.repoPath)
+    );
+  }
+);
+
+// Tell the renderer which teardown command a worktree removal is waiting on
+function sendWorktreeTeardownProgress(sessionId: string, command: string): void {
+  if (mainWindow && !mainWindow.isDestroyed()) {
+    mainWindow.webContents.send('worktree:teardownProgress', { sessionId, command });
+  }
+}
+
 // Remove a worktree session
 ipcMain.handle(
   'worktree:removeSession',
@@ -5528,17 +6721,40 @@ ipcMain.handle(
       force?: boolean;
     }
   ) => {
-    return worktree.removeWorktreeSession(data.sessionId, { force: data.force });
+    const result = await worktree.removeWorktreeSession(data.sessionId, {
+      force: data.force,
+      onTeardownCommand: (command) => sendWorktreeTeardownProgress(data.sessionId, command),
+    });
+    if (result.success) {
+      forgetWorktreeUsage(data.sessionId);
+    }
+    return result;
   }
 );
 
-// List all worktree sessions
-ipcMain.handle(
-  'worktree:listSessions',
-  async (_event, options?: { includeDiskUsage?: boolean }) => {
-    return worktree.listWorktreeSessions(options);
+// List all worktree sessions, with disk usage from the last background scan
+ipcMain.handle('worktree:listSessions', async () => {
+  const { sessions } = worktree.listWorktreeSessions();
+  const report = getWorktreeUsageReport();
+  let totalBytes = 0;
+  const withUsage = sessions.map((session) => {
+    const usage = report?.sessions[session.id];
+    if (!usage) return session;
+    totalBytes += usage.sizeBytes;
+    return { ...session, usage, diskUsage: formatBytes(usage.sizeBytes) };
+  });
+  return { sessions: withUsage, totalDiskUsage: report ? formatBytes(totalBytes) : undefined };
+});
+
+// Last worktree disk usage scan (null before the first one), or a fresh scan with rescan
+ipcMain.handle('worktree:getUsage', async (_event, options?: { rescan?: boolean }) => {
+  if (!options?.rescan) return getWorktreeUsageReport();
+  const report = await scanWorktreeUsage();
+  if (mainWindow && !mainWindow.isDestroyed()) {
+    mainWindow.webContents.send('worktree:usageUpdated', report);
   }
-);
+  return report;
+});
 
 // Get a specific session
 ipcMain.handle('worktree:getSession', async (_event, sessionId: string) => {
@@ -5568,7 +6784,10 @@ ipcMain.handle(
       maxAgeDays?: number;
     }
   ) => {
-    return worktree.pruneWorktreeSessions(options);
+    return worktree.pruneWorktreeSessions({
+      ...options,
+      onTeardownCommand: sendWorktreeTeardownProgress,
+    });
   }
 );
 
@@ -5603,36 +6822,101 @@ ipcMain.handle(
   }
 );
 
-// PTY (Terminal) handlers
-ipcMain.handle('pty:create', async (_event, data: { sessionId: string; cwd: string }) => {
-  return ptyManager.createPty(data.sessionId, data.cwd, mainWindow);
-});
+// PTY (Terminal) handlers. terminalId picks one of a session's terminals (default 'main').
+ipcMain.handle(
+  'pty:create',
+  async (
+    _event,
+    data: {
+      sessionId: string;
+      cwd: string;
+      terminalId?: string;
+      name?: string;
+      restoreScrollback?: boolean;
+      runStartupCommand?: boolean;
+    }
+  ) => {
+    return ptyManager.createPty(data.sessionId, data.cwd, mainWindow, data.terminalId, data.name, {
+      restoreScrollback: data.restoreScrollback,
+      runStartupCommand: data.runStartupCommand,
+    });
+  }
+);
 
-ipcMain.handle('pty:write', async (_event, data: { sessionId: string; data: string }) => {
-  return ptyManager.writePty(data.sessionId, data.data);
-});
+ipcMain.handle(
+  'pty:write',
+  async (_event, data: { sessionId: string; data: string; terminalId?: string }) => {
+    return ptyManager.writePty(data.sessionId, data.data, data.terminalId);
+  }
+);
 
 ipcMain.handle(
   'pty:resize',
-  async (_event, data: { sessionId: string; cols: number; rows: number }) => {
-    return ptyManager.resizePty(data.sessionId, data.cols, data.rows);
+  async (_event, data: { sessionId: string; cols: number; rows: number; terminalId?: string }) => {
+    return ptyManager.resizePty(data.sessionId, data.cols, data.rows, data.terminalId);
   }
 );
 
-ipcMain.handle('pty:getOutput', async (_event, sessionId: string) => {
-  return ptyManager.getPtyOutput(sessionId);
+ipcMain.handle(
+  'pty:rename',
+  async (_event, data: { sessionId: string; terminalId: string; name: string }) => {
+    return ptyManager.renamePty(data.sessionId, data.terminalId, data.name);
+  }
+);
+
+ipcMain.handle('pty:list', async (_event, sessionId: string) => {
+  return { terminals: ptyManager.listPtys(sessionId) };
 });
 
-ipcMain.handle('pty:clearBuffer', async (_event, sessionId: string) => {
-  return ptyManager.clearPtyBuffer(sessionId);
+ipcMain.handle('pty:getOutput', async (_event, sessionId: string, terminalId?: string) => {
+  return ptyManager.getPtyOutput(sessionId, terminalId);
 });
 
-ipcMain.handle('pty:close', async (_event, sessionId: string) => {
-  return ptyManager.closePty(sessionId);
+ipcMain.handle('pty:getCommandBlocks', async (_event, sessionId: string, terminalId?: string) => {
+  return ptyManager.getPtyCommandBlocks(sessionId, terminalId);
 });
 
-ipcMain.handle('pty:exists', async (_event, sessionId: string) => {
-  return { exists: ptyManager.hasPty(sessionId) };
+ipcMain.handle('pty:clearBuffer', async (_event, sessionId: string, terminalId?: string) => {
+  return ptyManager.clearPtyBuffer(sessionId, terminalId);
+});
+
+// Without a terminalId, closes all of the session's terminals
+ipcMain.handle('pty:close', async (_event, sessionId: string, terminalId?: string) => {
+  return ptyManager.closePty(sessionId, terminalId);
+});
+
+ipcMain.handle('pty:exists', async (_event, sessionId: string, terminalId?: string) => {
+  return { exists: ptyManager.hasPty(sessionId, terminalId) };
+});
+
+// Terminals saved for a session (tabs, startup commands and scrollback) to restore after a restart
+ipcMain.handle('pty:getHistory', async (_event, sessionId: string) => {
+  return { terminals: getTerminalHistory(sessionId) };
+});
+
+ipcMain.handle(
+  'pty:setStartupCommand',
+  async (_event, data: { sessionId: string; terminalId: string; command: string }) => {
+    try {
+      const terminal = updateSavedTerminal(data.sessionId, data.terminalId, {
+        startupCommand: data.command.trim(),
+      });
+      return { success: true, startupCommand: terminal.startupCommand };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+);
+
+// The user closed a terminal tab: stop it and don't restore it
+ipcMain.handle('pty:forget', async (_event, sessionId: string, terminalId: string) => {
+  ptyManager.closePty(sessionId, terminalId);
+  try {
+    forgetTerminal(sessionId, terminalId);
+    return { success: true };
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : String(error) };
+  }
 });
 
 // File operations - read file content for preview
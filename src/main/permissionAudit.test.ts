@@ -0,0 +1,57 @@
+// @vitest-environment node
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('electron', () => ({
+  app: {
+    getPath: vi.fn(() => '/tmp/test-userdata'),
+  },
+}));
+
+import {
+  describePermissionTarget,
+  filterPermissionAudit,
+  parsePermissionAudit,
+  type PermissionAuditRecord,
+} from './permissionAudit';
+
+const record = (overrides: Partial<PermissionAuditRecord>): PermissionAuditRecord => ({
+  timestamp: '2026-01-01T00:00:00.000Z',
+  sessionId: 'session-a',
+  kind: 'shell',
+  executable: 'npm test',
+  decision: 'approved',
+  rule: 'yolo-mode',
+  ...overrides,
+});
+
+describe('permission audit log', () => {
+  it('describes the target of each permission kind', () => {
+    expect(describePermissionTarget({ kind: 'shell', fullCommandText: 'npm test' })).toBe(
+      'npm test'
+    );
+    expect(describePermissionTarget({ kind: 'write', fileName: '/repo/a.ts' })).toBe('/repo/a.ts');
+    expect(
+      describePermissionTarget({ kind: 'mcp', serverName: 'github', toolName: 'search' })
+    ).toBe('github/search');
+  });
+
+  it('skips partially written lines when parsing', () => {
+    const content = `${JSON.stringify(record({}))}\n{"timestamp":\n\n`;
+    expect(parsePermissionAudit(content)).toHaveLength(1);
+  });
+
+  it('filters by session and decision and keeps the most recent records', () => {
+    const records = [
+      record({ executable: 'ls' }),
+      record({ sessionId: 'session-b' }),
+      record({ decision: 'denied', rule: 'user:denied' }),
+      record({ executable: 'git status' }),
+    ];
+
+    expect(filterPermissionAudit(records, { sessionId: 'session-b' })).toHaveLength(1);
+    expect(filterPermissionAudit(records, { decision: 'denied' })[0].rule).toBe('user:denied');
+    expect(
+      filterPermissionAudit(records, { sessionId: 'session-a', limit: 2 }).map((r) => r.executable)
+    ).toEqual(['npm test', 'git status']);
+  });
+});
@@ -0,0 +1,153 @@
+/**
+ * Permission Audit Log
+ *
+ * Persists every permission decision (auto-approved, denied by rules, or answered by the
+ * user) as one JSON record per line so long unattended runs can be reviewed afterwards.
+ */
+
+import { existsSync, readFileSync, renameSync, statSync } from 'fs';
+import { appendFile, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { app } from 'electron';
+
+export type PermissionAuditDecision = 'approved' | 'denied';
+
+export interface PermissionAuditRecord {
+  timestamp: string; // ISO timestamp
+  sessionId: string;
+  kind: string;
+  executable: string; // Executable identifier, as used for "always allow"
+  commandText?: string; // Full command text, path, URL or MCP server/tool
+  decision: PermissionAuditDecision;
+  rule: string; // What decided: yolo-mode, policy:<source>, global-safe-commands, user:<choice>, ...
+  detail?: string; // Extra context, e.g. the policy reason
+}
+
+export interface PermissionAuditFilter {
+  sessionId?: string;
+  decision?: PermissionAuditDecision;
+  limit?: number;
+}
+
+// Rotate the log once it grows past this size; one previous generation is kept
+const MAX_AUDIT_LOG_BYTES = 10 * 1024 * 1024;
+
+export function getPermissionAuditPath(): string {
+  return join(app.getPath('userData'), 'permission-audit.jsonl');
+}
+
+// Human-readable target of a permission request for the audit record
+export function describePermissionTarget(request: Record<string, unknown>): string | undefined {
+  switch (request.kind) {
+    case 'shell':
+      return request.fullCommandText as string | undefined;
+    case 'read':
+    case 'write':
+      return (request.path || request.fileName) as string | undefined;
+    case 'url':
+      return request.url as string | undefined;
+    case 'mcp': {
+      const server = (request.serverName as string) || 'server';
+      const tool = (request.toolName as string) || (request.toolTitle as string) || 'tool';
+      return `${server}/${tool}`;
+    }
+    case 'terminal': {
+      const terminal = (request.terminalName as string) || 'terminal';
+      return request.input ? `${terminal}: ${request.input as string}` : terminal;
+    }
+    default:
+      return undefined;
+  }
+}
+
+function rotateIfNeeded(filePath: string): void {
+  try {
+    if (existsSync(filePath) && statSync(filePath).size > MAX_AUDIT_LOG_BYTES) {
+      renameSync(filePath, `${filePath}.1`);
+    }
+  } catch (error) {
+    console.error('Failed to rotate permission audit log:', error);
+  }
+}
+
+// Serialize appends so records keep their decision order
+let writeQueue: Promise<void> = Promise.resolve();
+
+export function recordPermissionDecision(
+  record: Omit<PermissionAuditRecord, 'timestamp'>
+): Promise<void> {
+  const entry: PermissionAuditRecord = { timestamp: new Date().toISOString(), ...record };
+  const filePath = getPermissionAuditPath();
+  writeQueue = writeQueue
+    .then(async () => {
+      rotateIfNeeded(filePath);
+      await appendFile(filePath, JSON.stringify(entry) + '\n', 'utf-8');
+    })
+    .catch((error) => {
+      console.error('Failed to write permission audit record:', error);
+    });
+  return writeQueue;
+}
+
+export function parsePermissionAudit(content: string): PermissionAuditRecord[] {
+  const records: PermissionAuditRecord[] = [];
+  for (const line of content.split('\n')) {
+    if (!line.trim()) continue;
+    try {
+      records.push(JSON.parse(line) as PermissionAuditRecord);
+    } catch {
+      // Skip partially written lines
+    }
+  }
+  return records;
+}
+
+export function filterPermissionAudit(
+  records: PermissionAuditRecord[],
+  filter?: PermissionAuditFilter
+): PermissionAuditRecord[] {
+  let result = records.filter(
+    (record) =>
+      (!filter?.sessionId || record.sessionId === filter.sessionId) &&
+      (!filter?.decision || record.decision === filter.decision)
+  );
+  if (filter?.limit && result.length > filter.limit) {
+    result = result.slice(result.length - filter.limit);
+  }
+  return result;
+}
+
+// Read records (oldest first), including the rotated generation
+export async function readPermissionAudit(
+  filter?: PermissionAuditFilter
+): Promise<PermissionAuditRecord[]> {
+  await writeQueue;
+  const filePath = getPermissionAuditPath();
+  const records: PermissionAuditRecord[] = [];
+  for (const path of [`${filePath}.1`, filePath]) {
+    if (existsSync(path)) {
+      records.push(...parsePermissionAudit(readFileSync(path, 'utf-8')));
+    }
+  }
+  return filterPermissionAudit(records, filter);
+}
+
+export async function exportPermissionAudit(
+  destinationPath: string,
+  filter?: PermissionAuditFilter
+): Promise<number> {
+  const records = await readPermissionAudit(filter);
+  await writeFile(
+    destinationPath,
+    records.map((record) => JSON.stringify(record)).join('\n') + (records.length ? '\n' : ''),
+    'utf-8'
+  );
+  return records.length;
+}
+
+export async function clearPermissionAudit(): Promise<void> {
+  await writeQueue;
+  const filePath = getPermissionAuditPath();
+  await writeFile(filePath, '', 'utf-8');
+  await writeFile(`${filePath}.1`, '', 'utf-8');
+}
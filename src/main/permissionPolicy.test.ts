@@ -0,0 +1,297 @@
+// @vitest-environment node
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const normalizePath = (p: unknown): string => String(p).replace(/\\/g, '/');
+
+const mocks = vi.hoisted(() => ({
+  existsSync: vi.fn(),
+  readFileSync: vi.fn(),
+  statSync: vi.fn(),
+}));
+
+vi.mock('fs', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('fs')>();
+  return {
+    ...actual,
+    default: {
+      ...actual,
+      existsSync: mocks.existsSync,
+      readFileSync: mocks.readFileSync,
+      statSync: mocks.statSync,
+    },
+    existsSync: mocks.existsSync,
+    readFileSync: mocks.readFileSync,
+    statSync: mocks.statSync,
+  };
+});
+
+import {
+  DEFAULT_POLICY_RULES,
+  evaluatePermissionPolicy,
+  loadPermissionPolicy,
+  matchesCommand,
+  matchesHost,
+  matchesPath,
+  parsePermissionPolicy,
+  type PermissionPolicy,
+} from './permissionPolicy';
+
+// Each call stands for an edit, so files get a new modification time
+let mtimeMs = 0;
+const mockFiles = (files: Record<string, unknown>) => {
+  mtimeMs++;
+  mocks.existsSync.mockImplementation((p: string) => normalizePath(p) in files);
+  mocks.statSync.mockImplementation(() => ({ mtimeMs, size: 1 }));
+  mocks.readFileSync.mockImplementation((p: string) => {
+    const content = files[normalizePath(p)];
+    return typeof content === 'string' ? content : JSON.stringify(content);
+  });
+};
+
+describe('permission policy matching', () => {
+  it('matches bare executables against all subcommands', () => {
+    expect(matchesCommand('git', 'git')).toBe(true);
+    expect(matchesCommand('git', 'git push')).toBe(true);
+    expect(matchesCommand('git push', 'git status')).toBe(false);
+    expect(matchesCommand('npm run*', 'npm run')).toBe(true);
+    expect(matchesCommand('gitk', 'git')).toBe(false);
+  });
+
+  it('matches path globs relative to the policy base dir', () => {
+    expect(matchesPath('src/**', '/repo/src/a/b.ts', '/repo')).toBe(true);
+    expect(matchesPath('src/**', '/repo/lib/b.ts', '/repo')).toBe(false);
+    expect(matchesPath('.env*', '/repo/app/.env.local', '/repo')).toBe(true);
+    expect(matchesPath('/etc', '/etc/hosts')).toBe(true);
+  });
+
+  it('matches hosts and their subdomains', () => {
+    expect(matchesHost('github.com', 'api.github.com')).toBe(true);
+    expect(matchesHost('github.com', 'notgithub.com')).toBe(false);
+    expect(matchesHost('*.example.com', 'docs.example.com')).toBe(true);
+  });
+});
+
+describe('evaluatePermissionPolicy', () => {
+  const policy: PermissionPolicy = {
+    errors: [],
+    layers: [
+      {
+        source: 'default',
+        rules: [{ kind: 'shell', action: 'allow', command: 'ls' }],
+      },
+      {
+        source: 'user',
+        baseDir: '/repo',
+        rules: [
+          { kind: 'shell', action: 'allow', command: 'git' },
+          { kind: 'mcp', action: 'allow', server: 'github' },
+        ],
+      },
+      {
+        source: 'project',
+        baseDir: '/repo',
+        rules: [
+          { kind: 'shell', action: 'deny', command: 'git push', reason: 'Push via PR only' },
+          { kind: 'write', action: 'ask', path: 'migrations/**' },
+          { kind: 'mcp', action: 'ask', server: 'github', tool: 'delete_*' },
+        ],
+      },
+    ],
+  };
+
+  it('uses built-in defaults when nothing else matches', () => {
+    expect(evaluatePermissionPolicy(policy, { kind: 'shell', command: 'ls' })).toMatchObject({
+      action: 'allow',
+      source: 'default',
+    });
+  });
+
+  it('lets the most restrictive action win across layers', () => {
+    expect(evaluatePermissionPolicy(policy, { kind: 'shell', command: 'git push' })).toMatchObject({
+      action: 'deny',
+      source: 'project',
+      reason: 'Push via PR only',
+    });
+    expect(
+      evaluatePermissionPolicy(policy, { kind: 'shell', command: 'git status' })
+    ).toMatchObject({ action: 'allow', source: 'user' });
+    expect(
+      evaluatePermissionPolicy(policy, {
+        kind: 'mcp',
+        serverName: 'github',
+        toolName: 'delete_repo',
+      })
+    ).toMatchObject({ action: 'ask', source: 'project' });
+  });
+
+  it('generates a reason when the rule has none', () => {
+    expect(
+      evaluatePermissionPolicy(policy, { kind: 'write', path: '/repo/migrations/001.sql' })?.reason
+    ).toBe('Matched project policy rule: ask write migrations/**');
+  });
+
+  it('returns null when no rule matches', () => {
+    expect(evaluatePermissionPolicy(policy, { kind: 'shell', command: 'rm' })).toBeNull();
+  });
+
+  it('matches terminal rules by tab name and access', () => {
+    const terminalPolicy: PermissionPolicy = {
+      errors: [],
+      layers: [
+        { source: 'default', rules: DEFAULT_POLICY_RULES },
+        {
+          source: 'project',
+          rules: [{ kind: 'terminal', action: 'deny', terminal: 'prod *', access: 'input' }],
+        },
+      ],
+    };
+    expect(
+      evaluatePermissionPolicy(terminalPolicy, {
+        kind: 'terminal',
+        terminalName: 'dev server',
+        access: 'read',
+      })
+    ).toMatchObject({ action: 'allow', source: 'default' });
+    expect(
+      evaluatePermissionPolicy(terminalPolicy, {
+        kind: 'terminal',
+        terminalName: 'dev server',
+        access: 'input',
+      })
+    ).toBeNull();
+    expect(
+      evaluatePermissionPolicy(terminalPolicy, {
+        kind: 'terminal',
+        terminalName: 'prod shell',
+        access: 'input',
+      })
+    ).toMatchObject({
+      action: 'deny',
+      reason: 'Matched project policy rule: deny terminal prod *, input',
+    });
+  });
+});
+
+describe('parsePermissionPolicy', () => {
+  it('rejects unsupported versions', () => {
+    const result = parsePermissionPolicy({ version: 2, rules: [] }, 'p.json');
+    expect(result.rules).toEqual([]);
+    expect(result.errors[0]).toContain('unsupported policy version');
+  });
+
+  it('drops invalid rules and keeps valid ones', () => {
+    const result = parsePermissionPolicy(
+      {
+        version: 1,
+        rules: [
+          { kind: 'shell', action: 'allow', command: 'make' },
+          { kind: 'exec', action: 'allow' },
+        ],
+      },
+      'p.json'
+    );
+    expect(result.rules).toHaveLength(1);
+    expect(result.errors).toEqual(['p.json: rule 1 has an invalid kind or action']);
+  });
+
+  it('drops rules whose matchers are not strings', () => {
+    const result = parsePermissionPolicy(
+      {
+        version: 1,
+        rules: [
+          { kind: 'shell', action: 'deny', command: 42 },
+          { kind: 'read', action: 'ask', path: ['src/**', null] },
+          { kind: 'terminal', action: 'allow', access: 'write' },
+          { kind: 'mcp', action: 'deny', server: 'github', tool: ['*'] },
+        ],
+      },
+      'p.json'
+    );
+    expect(result.rules).toEqual([{ kind: 'mcp', action: 'deny', server: 'github', tool: ['*'] }]);
+    expect(result.errors).toEqual([
+      'p.json: rule 0 ignored; "command" must be a string or an array of strings',
+      'p.json: rule 1 ignored; "path" must be a string or an array of strings',
+      'p.json: rule 2 ignored; "access" must be "read", "input" or both',
+    ]);
+  });
+});
+
+describe('loadPermissionPolicy', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('layers user and nearest project policy files over defaults', () => {
+    mockFiles({
+      '/home/.copilot/permissions.json': {
+        version: 1,
+        rules: [{ kind: 'url', action: 'allow', host: 'example.com' }],
+      },
+      '/repo/.copilot/permissions.json': {
+        version: 1,
+        rules: [{ kind: 'shell', action: 'deny', command: 'curl' }],
+      },
+    });
+
+    const policy = loadPermissionPolicy('/home/.copilot', '/repo/packages/app');
+    expect(policy.layers.map((layer) => layer.source)).toEqual(['default', 'user', 'project']);
+    expect(normalizePath(policy.layers[2].baseDir)).toBe('/repo');
+    expect(policy.errors).toEqual([]);
+  });
+
+  it('ignores allow rules in project policy files', () => {
+    mockFiles({
+      '/repo/.copilot/permissions.json': {
+        version: 1,
+        rules: [
+          { kind: 'shell', action: 'allow' },
+          { kind: 'shell', action: 'deny', command: 'curl' },
+        ],
+      },
+    });
+
+    const policy = loadPermissionPolicy('/home/.copilot', '/repo');
+    expect(policy.layers[1].rules).toEqual([{ kind: 'shell', action: 'deny', command: 'curl' }]);
+    expect(policy.errors).toHaveLength(1);
+    expect(policy.errors[0]).toContain('ignored 1 allow rule(s)');
+    expect(evaluatePermissionPolicy(policy, { kind: 'shell', command: 'make' })).toBeNull();
+  });
+
+  it('stops looking for a project policy at the repository root', () => {
+    mockFiles({
+      '/repo/.git': '',
+      '/.copilot/permissions.json': { version: 1, rules: [] },
+    });
+
+    const policy = loadPermissionPolicy('/home/.copilot', '/repo/src');
+    expect(policy.layers.map((layer) => layer.source)).toEqual(['default']);
+  });
+
+  it('re-reads policy files only when they change', () => {
+    mockFiles({
+      '/home/.copilot/permissions.json': {
+        version: 1,
+        rules: [{ kind: 'shell', action: 'deny', command: 'curl' }],
+      },
+    });
+
+    loadPermissionPolicy('/home/.copilot');
+    const policy = loadPermissionPolicy('/home/.copilot');
+    expect(mocks.readFileSync).toHaveBeenCalledTimes(1);
+    expect(evaluatePermissionPolicy(policy, { kind: 'shell', command: 'curl' })?.action).toBe(
+      'deny'
+    );
+
+    mtimeMs++;
+    loadPermissionPolicy('/home/.copilot');
+    expect(mocks.readFileSync).toHaveBeenCalledTimes(2);
+  });
+
+  it('reports malformed files', () => {
+    mockFiles({ '/home/.copilot/permissions.json': '{ not json' });
+
+    const policy = loadPermissionPolicy('/home/.copilot');
+    expect(policy.layers).toHaveLength(1);
+    expect(policy.errors).toHaveLength(1);
+  });
+});
@@ -0,0 +1,492 @@
+/**
+ * Declarative permission policy
+ *
+ * Policies are JSON files with allow/deny/ask rules per permission kind. They are loaded
+ * from the user config dir (~/.copilot/permissions.json) and from the nearest project
+ * `.copilot/permissions.json`, and layered on top of Cooper's built-in defaults.
+ *
+ * Precedence: the most restrictive matching action wins (deny > ask > allow). Among
+ * rules with the same action, project rules win over user rules, which win over defaults.
+ *
+ * Project files are committed with the repository, so anyone who clones it would inherit
+ * them. They can only tighten the policy: their `allow` rules are ignored and reported.
+ */
+
+import { existsSync, readFileSync, statSync } from 'fs';
+import { homedir } from 'os';
+import { dirname, isAbsolute, join, resolve } from 'path';
+
+export const PERMISSION_POLICY_VERSION = 1;
+export const PERMISSION_POLICY_FILENAME = 'permissions.json';
+
+export type PolicyKind = 'shell' | 'read' | 'write' | 'url' | 'mcp' | 'terminal';
+export type PolicyAction = 'allow' | 'deny' | 'ask';
+export type PolicySource = 'project' | 'user' | 'default';
+// What an agent terminal tool does with a session terminal
+export type TerminalAccess = 'read' | 'input';
+
+export interface PermissionPolicyRule {
+  kind: PolicyKind;
+  action: PolicyAction;
+  // shell: executable identifier as produced by extractExecutables ("git", "git push", "npm run*")
+  command?: string | string[];
+  // read/write: path globs ("src/**", "~/.ssh/**", ".env*")
+  path?: string | string[];
+  // url: hostname globs ("github.com", "*.internal.example.com")
+  host?: string | string[];
+  // mcp: server and tool name globs
+  server?: string | string[];
+  tool?: string | string[];
+  // terminal: terminal name globs ("dev server", "Terminal *") and access ("read", "input")
+  terminal?: string | string[];
+  access?: TerminalAccess | TerminalAccess[];
+  // Shown in the confirmation UI and logs
+  reason?: string;
+}
+
+export interface PermissionPolicyFile {
+  version: number;
+  rules: PermissionPolicyRule[];
+}
+
+export interface PermissionPolicyLayer {
+  source: PolicySource;
+  filePath?: string;
+  baseDir?: string; // Relative path globs resolve against this directory
+  rules: PermissionPolicyRule[];
+}
+
+export interface PermissionPolicy {
+  layers: PermissionPolicyLayer[];
+  errors: string[];
+}
+
+export interface PolicyTarget {
+  kind: string;
+  command?: string; // Single executable identifier for shell requests
+  path?: string;
+  url?: string;
+  serverName?: string;
+  toolName?: string;
+  terminalName?: string;
+  access?: TerminalAccess;
+}
+
+export interface PolicyMatch {
+  action: PolicyAction;
+  source: PolicySource;
+  rule: PermissionPolicyRule;
+  filePath?: string;
+  reason: string;
+}
+
+const VALID_KINDS: PolicyKind[] = ['shell', 'read', 'write', 'url', 'mcp', 'terminal'];
+const VALID_ACTIONS: PolicyAction[] = ['allow', 'deny', 'ask'];
+const VALID_ACCESS: TerminalAccess[] = ['read', 'input'];
+// Rule fields that hold a pattern or a list of patterns
+const PATTERN_FIELDS = ['command', 'path', 'host', 'server', 'tool', 'terminal'] as const;
+const ACTION_RANK: Record<PolicyAction, number> = { deny: 3, ask: 2, allow: 1 };
+const SOURCE_RANK: Record<PolicySource, number> = { project: 3, user: 2, default: 1 };
+
+// Low-risk, read-only shell commands that are auto-approved for all sessions.
+// These are intentionally NOT persisted/shown in the per-session "Always Allowed" UI.
+const DEFAULT_ALLOWED_SHELL_COMMANDS = [
+  // Basic shell inspection
+  'ls',
+  'cd',
+  'pwd',
+  'whoami',
+  'id',
+  'date',
+  'uname',
+  'which',
+  'echo',
+  'printf',
+
+  // Read-only file/content inspection
+  'cat',
+  'head',
+  'tail',
+  'wc',
+  'grep',
+  'sort',
+  'uniq',
+  'cut',
+  'tr',
+  'diff',
+
+  // File metadata / disk info
+  'stat',
+  'file',
+  'du',
+  'df',
+
+  // Path helpers
+  'basename',
+  'dirname',
+  'realpath',
+
+  // Hashing (read-only)
+  'shasum',
+  'md5',
+];
+
+export const DEFAULT_POLICY_RULES: PermissionPolicyRule[] = [
+  ...DEFAULT_ALLOWED_SHELL_COMMANDS.map(
+    (command): PermissionPolicyRule => ({
+      kind: 'shell',
+      action: 'allow',
+      command,
+      reason: 'Built-in read-only command',
+    })
+  ),
+  // Reading the session's own terminals is like an in-workspace file read; typing into them asks
+  {
+    kind: 'terminal',
+    action: 'allow',
+    access: 'read',
+    reason: 'Built-in: reading session terminal output',
+  },
+];
+
+const toList = (value: string | string[] | undefined): string[] | undefined => {
+  if (value === undefined) return undefined;
+  return Array.isArray(value) ? value : [value];
+};
+
+const expandHome = (pattern: string): string => {
+  if (pattern === '~') return homedir();
+  if (pattern.startsWith('~/') || pattern.startsWith('~\\')) {
+    return join(homedir(), pattern.slice(2));
+  }
+  return pattern;
+};
+
+const toPosix = (p: string): string => p.replace(/\\/g, '/');
+
+// Convert a glob to a RegExp. Supports `**` (any depth), `*` (within a segment) and `?`.
+export function globToRegExp(glob: string, options?: { segmentSeparator?: string }): RegExp {
+  const sep = options?.segmentSeparator ?? '/';
+  const escapedSep = sep.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+  let pattern = '';
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '*') {
+      if (glob[i + 1] === '*') {
+        // `**/` matches zero or more directories
+        if (glob[i + 2] === sep) {
+          pattern += `(?:.*${escapedSep})?`;
+          i += 2;
+        } else {
+          pattern += '.*';
+          i += 1;
+        }
+      } else {
+        pattern += `[^${escapedSep}]*`;
+      }
+    } else if (char === '?') {
+      pattern += `[^${escapedSep}]`;
+    } else {
+      pattern += char.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${pattern}$`, process.platform === 'win32' ? 'i' : '');
+}
+
+// Match a shell executable identifier ("git push") against a command pattern.
+// A bare executable ("git") also matches all of its subcommands.
+export function matchesCommand(pattern: string, identifier: string): boolean {
+  const trimmed = pattern.trim();
+  if (!trimmed) return false;
+  if (trimmed === identifier) return true;
+  if (!trimmed.includes(' ') && !/[*?]/.test(trimmed) && identifier.startsWith(trimmed + ' ')) {
+    return true;
+  }
+  return globToRegExp(trimmed, { segmentSeparator: ' ' }).test(identifier);
+}
+
+// Match an absolute file path against a path glob.
+// Patterns without a slash (".env*") match the file name at any depth, gitignore-style.
+export function matchesPath(pattern: string, filePath: string, baseDir?: string): boolean {
+  const expanded = expandHome(pattern.trim());
+  if (!expanded) return false;
+  const target = toPosix(filePath);
+
+  if (!/[/\\]/.test(expanded)) {
+    const name = target.split('/').pop() || target;
+    return globToRegExp(expanded).test(name);
+  }
+
+  const absolutePattern = isAbsolute(expanded)
+    ? expanded
+    : baseDir
+      ? join(baseDir, expanded)
+      : expanded;
+  const normalized = toPosix(absolutePattern).replace(/\/+$/, '');
+  // A plain directory pattern matches everything beneath it
+  if (!/[*?]/.test(normalized) && (target === normalized || target.startsWith(normalized + '/'))) {
+    return true;
+  }
+  return globToRegExp(normalized).test(target);
+}
+
+// Match a hostname against a host glob. Plain hosts also match their subdomains,
+// consistent with the allowedUrls setting.
+export function matchesHost(pattern: string, hostname: string): boolean {
+  const trimmed = pattern.trim().toLowerCase();
+  const host = hostname.toLowerCase();
+  if (!trimmed) return false;
+  if (/[*?]/.test(trimmed)) {
+    return globToRegExp(trimmed, { segmentSeparator: '.' }).test(host);
+  }
+  return host === trimmed || host.endsWith('.' + trimmed);
+}
+
+const matchesAny = (patterns: string[] | undefined, test: (pattern: string) => boolean): boolean =>
+  patterns === undefined || patterns.some(test);
+
+function ruleMatches(rule: PermissionPolicyRule, target: PolicyTarget, baseDir?: string): boolean {
+  if (rule.kind !== target.kind) return false;
+
+  switch (rule.kind) {
+    case 'shell': {
+      const commands = toList(rule.command);
+      if (commands === undefined) return true;
+      return !!target.command && commands.some((p) => matchesCommand(p, target.command!));
+    }
+    case 'read':
+    case 'write': {
+      const paths = toList(rule.path);
+      if (paths === undefined) return true;
+      return !!target.path && paths.some((p) => matchesPath(p, target.path!, baseDir));
+    }
+    case 'url': {
+      const hosts = toList(rule.host);
+      if (hosts === undefined) return true;
+      if (!target.url) return false;
+      let hostname: string;
+      try {
+        hostname = new URL(target.url).hostname;
+      } catch {
+        return false;
+      }
+      return hosts.some((p) => matchesHost(p, hostname));
+    }
+    case 'mcp': {
+      const server = target.serverName || '';
+      const tool = target.toolName || '';
+      return (
+        matchesAny(toList(rule.server), (p) => globToRegExp(p).test(server)) &&
+        matchesAny(toList(rule.tool), (p) => globToRegExp(p).test(tool))
+      );
+    }
+    case 'terminal': {
+      const name = target.terminalName || '';
+      const access = toList(rule.access);
+      return (
+        matchesAny(toList(rule.terminal), (p) => globToRegExp(p).test(name)) &&
+        (access === undefined || (!!target.access && access.includes(target.access)))
+      );
+    }
+    default:
+      return false;
+  }
+}
+
+const describeRule = (rule: PermissionPolicyRule): string => {
+  const matcher = toList(rule.command ?? rule.path ?? rule.host ?? rule.terminal) ?? [
+    rule.server,
+    rule.tool,
+  ];
+  const flat = [...matcher, ...(toList(rule.access) ?? [])].filter(Boolean).join(', ');
+  return flat ? `${rule.action} ${rule.kind} ${flat}` : `${rule.action} ${rule.kind}`;
+};
+
+// Evaluate a request against all policy layers and return the winning rule, if any
+export function evaluatePermissionPolicy(
+  policy: PermissionPolicy,
+  target: PolicyTarget
+): PolicyMatch | null {
+  let best: PolicyMatch | null = null;
+  for (const layer of policy.layers) {
+    for (const rule of layer.rules) {
+      if (!ruleMatches(rule, target, layer.baseDir)) continue;
+      const isBetter =
+        !best ||
+        ACTION_RANK[rule.action] > ACTION_RANK[best.action] ||
+        (ACTION_RANK[rule.action] === ACTION_RANK[best.action] &&
+          SOURCE_RANK[layer.source] > SOURCE_RANK[best.source]);
+      if (isBetter) {
+        best = {
+          action: rule.action,
+          source: layer.source,
+          rule,
+          filePath: layer.filePath,
+          reason: rule.reason || `Matched ${layer.source} policy rule: ${describeRule(rule)}`,
+        };
+      }
+    }
+  }
+  return best;
+}
+
+// Validate a parsed policy file, dropping invalid rules
+export function parsePermissionPolicy(
+  raw: unknown,
+  filePath: string
+): { rules: PermissionPolicyRule[]; errors: string[] } {
+  const errors: string[] = [];
+  if (!raw || typeof raw !== 'object') {
+    return { rules: [], errors: [`${filePath}: expected a JSON object`] };
+  }
+  const file = raw as Partial<PermissionPolicyFile>;
+  if (file.version !== PERMISSION_POLICY_VERSION) {
+    return {
+      rules: [],
+      errors: [
+        `${filePath}: unsupported policy version ${String(file.version)} (expected ${PERMISSION_POLICY_VERSION})`,
+      ],
+    };
+  }
+  if (!Array.isArray(file.rules)) {
+    return { rules: [], errors: [`${filePath}: "rules" must be an array`] };
+  }
+
+  const rules: PermissionPolicyRule[] = [];
+  file.rules.forEach((rule, index) => {
+    if (
+      !rule ||
+      !VALID_KINDS.includes(rule.kind as PolicyKind) ||
+      !VALID_ACTIONS.includes(rule.action as PolicyAction)
+    ) {
+      errors.push(`${filePath}: rule ${index} has an invalid kind or action`);
+      return;
+    }
+    // Matching assumes string patterns, so a malformed field would throw on every request
+    const invalidField = PATTERN_FIELDS.find((field) => !isPatternList(rule[field]));
+    if (invalidField) {
+      errors.push(
+        `${filePath}: rule ${index} ignored; "${invalidField}" must be a string or an array of strings`
+      );
+      return;
+    }
+    if (!isPatternList(rule.access, VALID_ACCESS)) {
+      errors.push(`${filePath}: rule ${index} ignored; "access" must be "read", "input" or both`);
+      return;
+    }
+    if (rule.reason !== undefined && typeof rule.reason !== 'string') {
+      errors.push(`${filePath}: rule ${index} ignored; "reason" must be a string`);
+      return;
+    }
+    rules.push(rule);
+  });
+  return { rules, errors };
+}
+
+// Undefined, a string, or an array of strings, optionally limited to `allowed` values
+function isPatternList(value: unknown, allowed?: readonly string[]): boolean {
+  if (value === undefined) return true;
+  const values = Array.isArray(value) ? value : [value];
+  return values.every(
+    (entry) => typeof entry === 'string' && (!allowed || allowed.includes(entry))
+  );
+}
+
+// Parsed policy files by path, re-read only when the file's modification time or size changes.
+// `rules` is null when the file could not be read or parsed.
+interface PolicyFileEntry {
+  mtimeMs: number;
+  size: number;
+  rules: PermissionPolicyRule[] | null;
+  errors: string[];
+}
+
+const policyFileCache = new Map<string, PolicyFileEntry>();
+
+function readPolicyFile(filePath: string): PolicyFileEntry {
+  const stats = statSync(filePath);
+  const cached = policyFileCache.get(filePath);
+  if (cached && cached.mtimeMs === stats.mtimeMs && cached.size === stats.size) {
+    return cached;
+  }
+  let entry: PolicyFileEntry;
+  try {
+    const parsed = parsePermissionPolicy(JSON.parse(readFileSync(filePath, 'utf-8')), filePath);
+    entry = { mtimeMs: stats.mtimeMs, size: stats.size, ...parsed };
+  } catch (error) {
+    entry = {
+      mtimeMs: stats.mtimeMs,
+      size: stats.size,
+      rules: null,
+      errors: [`${filePath}: ${error instanceof Error ? error.message : String(error)}`],
+    };
+  }
+  policyFileCache.set(filePath, entry);
+  return entry;
+}
+
+function readPolicyLayer(
+  filePath: string,
+  source: PolicySource,
+  baseDir: string | undefined,
+  errors: string[]
+): PermissionPolicyLayer | null {
+  if (!existsSync(filePath)) return null;
+  try {
+    const { rules, errors: fileErrors } = readPolicyFile(filePath);
+    errors.push(...fileErrors);
+    return rules ? { source, filePath, baseDir, rules } : null;
+  } catch (error) {
+    errors.push(`${filePath}: ${error instanceof Error ? error.message : String(error)}`);
+    return null;
+  }
+}
+
+// Walk up from cwd to find `.copilot/permissions.json`, stopping at the repository root
+export function findProjectPolicyPath(cwd: string): string | null {
+  let dir = resolve(cwd);
+  while (true) {
+    const candidate = join(dir, '.copilot', PERMISSION_POLICY_FILENAME);
+    if (existsSync(candidate)) return candidate;
+    if (existsSync(join(dir, '.git'))) return null;
+    const parent = dirname(dir);
+    if (parent === dir) return null;
+    dir = parent;
+  }
+}
+
+// Load the effective policy for a session: defaults, then user, then project
+export function loadPermissionPolicy(userConfigDir: string, cwd?: string): PermissionPolicy {
+  const errors: string[] = [];
+  const layers: PermissionPolicyLayer[] = [{ source: 'default', rules: DEFAULT_POLICY_RULES }];
+
+  const userLayer = readPolicyLayer(
+    join(userConfigDir, PERMISSION_POLICY_FILENAME),
+    'user',
+    cwd,
+    errors
+  );
+  if (userLayer) layers.push(userLayer);
+
+  if (cwd) {
+    const projectPolicyPath = findProjectPolicyPath(cwd);
+    if (projectPolicyPath) {
+      const projectRoot = dirname(dirname(projectPolicyPath));
+      const projectLayer = readPolicyLayer(projectPolicyPath, 'project', projectRoot, errors);
+      if (projectLayer) {
+        const ignored = projectLayer.rules.filter((rule) => rule.action === 'allow');
+        if (ignored.length > 0) {
+          errors.push(
+            `${projectPolicyPath}: ignored ${ignored.length} allow rule(s); project policies can only deny or ask. Add allow rules to your user policy instead.`
+          );
+        }
+        layers.push({
+          ...projectLayer,
+          rules: projectLayer.rules.filter((rule) => rule.action !== 'allow'),
+        });
+      }
+    }
+  }
+
+  return { layers, errors };
+}
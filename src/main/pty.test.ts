@@ -1,4 +1,8 @@
-import { describe, expect, it } from 'vitest';
+import { describe, expect, it, vi } from 'vitest';
+
+vi.mock('electron', () => ({
+  app: { getPath: vi.fn(() => '') },
+}));
 
 import { __ptyInternals } from './pty';
 
@@ -1,6 +1,22 @@
 import { BrowserWindow } from 'electron';
 import { existsSync, readFileSync } from 'fs';
 import { join } from 'path';
+import {
+  MAX_SCROLLBACK_CHARS,
+  capScrollback,
+  getSavedTerminal,
+  readScrollback,
+  saveScrollback,
+  updateSavedTerminal,
+} from './terminalHistory';
+import {
+  createCommandTracker,
+  getShellIntegrationLaunch,
+  listCommandBlocks,
+  trackShellOutput,
+  type CommandBlock,
+  type CommandTracker,
+} from './shellIntegration';
 
 // Lazy-loaded node-pty module to improve startup time
 // node-pty is a native module that takes time to load
@@ -19,11 +35,31 @@ import type * as pty from 'node-pty';
 
 interface PtyInstance {
   pty: pty.IPty;
+  name: string; // Label shown on the terminal's tab, e.g. "dev server"
   outputBuffer: string[];
   maxBufferLines: number;
+  totalOutputLength: number; // Characters received since spawn; stays valid when the buffer is trimmed
+  scrollback: string; // Output saved to disk so the terminal can be restored after a restart
+  saveTimer?: ReturnType<typeof setTimeout>;
+  commands: CommandTracker; // Command blocks parsed from shell integration markers
 }
 
-const ptyInstances = new Map<string, PtyInstance>();
+// Scrollback is written to disk this long after the last output
+const SCROLLBACK_SAVE_DELAY_MS = 2000;
+
+// Terminal used when a caller doesn't name one; every session's first tab
+export const DEFAULT_TERMINAL_ID = 'main';
+
+export interface PtyInfo {
+  terminalId: string;
+  name: string;
+}
+
+// Map of sessionId -> terminalId -> PTY. A session can run several terminals side by side.
+const ptyInstances = new Map<string, Map<string, PtyInstance>>();
+
+const getInstance = (sessionId: string, terminalId: string): PtyInstance | undefined =>
+  ptyInstances.get(sessionId)?.get(terminalId);
 
 interface WindowsTerminalProfile {
   guid?: string;
@@ -430,76 +466,166 @@ function getDefaultShell(): DefaultShellConfig {
   return { shell: process.env.SHELL || '/bin/bash', args: ['-l'] };
 }
 
-// Create a new PTY instance for a session
+function flushScrollback(sessionId: string, terminalId: string, instance: PtyInstance): void {
+  if (instance.saveTimer) {
+    clearTimeout(instance.saveTimer);
+    instance.saveTimer = undefined;
+  }
+  saveScrollback(sessionId, terminalId, instance.scrollback);
+}
+
+// Environment for spawned terminals
+function getTerminalEnv(): { [key: string]: string } {
+  // Filter out undefined/null env vars that can cause issues with ConPTY on Windows
+  const cleanEnv: { [key: string]: string } = {};
+  for (const [key, value] of Object.entries(process.env)) {
+    if (value !== undefined && value !== null) {
+      cleanEnv[key] = value;
+    }
+  }
+  cleanEnv.TERM = 'xterm-256color';
+  cleanEnv.COLORTERM = 'truecolor';
+  return cleanEnv;
+}
+
+// Spawn a process in a PTY and register it as one of the session's terminals
+function startPty(
+  sessionId: string,
+  terminalId: string,
+  mainWindow: BrowserWindow | null,
+  spawn: { file: string; args: string[]; cwd: string; env: { [key: string]: string } },
+  name: string,
+  options: {
+    restoreScrollback?: boolean;
+    banner?: string; // Shown before the process's own output
+    onExit?: (exitCode: number) => void;
+  } = {}
+): PtyInstance {
+  const pty = getPtyModule();
+  const ptyProcess = pty.spawn(spawn.file, spawn.args, {
+    name: 'xterm-256color',
+    cols: 80,
+    rows: 24,
+    cwd: spawn.cwd,
+    env: spawn.env,
+  });
+
+  const instance: PtyInstance = {
+    pty: ptyProcess,
+    name,
+    outputBuffer: [],
+    maxBufferLines: 1000,
+    totalOutputLength: 0,
+    scrollback: options.restoreScrollback ? readScrollback(sessionId, terminalId) : '',
+    commands: createCommandTracker(),
+  };
+
+  // Handle PTY data - only forward if this instance is still the active one
+  const handleData = (data: string) => {
+    if (getInstance(sessionId, terminalId) !== instance) return;
+
+    // Store in buffer for "send to agent" functionality
+    instance.outputBuffer.push(data);
+    instance.totalOutputLength += data.length;
+    trackShellOutput(instance.commands, data);
+
+    instance.scrollback += data;
+    if (instance.scrollback.length > MAX_SCROLLBACK_CHARS * 2) {
+      instance.scrollback = capScrollback(instance.scrollback);
+    }
+    if (!instance.saveTimer) {
+      instance.saveTimer = setTimeout(() => {
+        instance.saveTimer = undefined;
+        saveScrollback(sessionId, terminalId, instance.scrollback);
+      }, SCROLLBACK_SAVE_DELAY_MS);
+    }
+    // Trim buffer if too large
+    if (instance.outputBuffer.length > instance.maxBufferLines) {
+      instance.outputBuffer = instance.outputBuffer.slice(-instance.maxBufferLines);
+    }
+
+    // Send data to renderer
+    if (mainWindow && !mainWindow.isDestroyed()) {
+      mainWindow.webContents.send('pty:data', { sessionId, terminalId, data });
+    }
+  };
+  ptyProcess.onData(handleData);
+
+  // Handle PTY exit - only act if this instance is still the active one.
+  // A replaced PTY's onExit fires asynchronously after a new one is created;
+  // without this guard the stale handler would delete the new instance.
+  ptyProcess.onExit(({ exitCode }) => {
+    options.onExit?.(exitCode);
+    if (getInstance(sessionId, terminalId) !== instance) return;
+
+    console.log(`PTY ${terminalId} for session ${sessionId} exited with code ${exitCode}`);
+    flushScrollback(sessionId, terminalId, instance);
+    deleteInstance(sessionId, terminalId);
+    if (mainWindow && !mainWindow.isDestroyed()) {
+      mainWindow.webContents.send('pty:exit', { sessionId, terminalId, exitCode });
+    }
+  });
+
+  let terminals = ptyInstances.get(sessionId);
+  if (!terminals) {
+    terminals = new Map();
+    ptyInstances.set(sessionId, terminals);
+  }
+  terminals.set(terminalId, instance);
+
+  try {
+    updateSavedTerminal(sessionId, terminalId, { name: instance.name });
+  } catch (error) {
+    console.warn(`[${sessionId}] Failed to save terminal ${terminalId}:`, error);
+  }
+  if (options.banner) {
+    handleData(options.banner);
+  }
+  return instance;
+}
+
+// Create a new PTY instance for one of a session's terminals. With restoreScrollback, output
+// saved before the last restart is kept so the terminal's history continues where it left off.
+// With runStartupCommand, the terminal's saved startup command is typed in once the shell starts;
+// callers pass it only when bringing back a saved terminal, not for new tabs or restarts.
 export function createPty(
   sessionId: string,
   cwd: string,
-  mainWindow: BrowserWindow | null
+  mainWindow: BrowserWindow | null,
+  terminalId = DEFAULT_TERMINAL_ID,
+  name?: string,
+  options: { restoreScrollback?: boolean; runStartupCommand?: boolean } = {}
 ): { success: boolean; error?: string } {
-  // Close existing PTY for this session if any
-  if (ptyInstances.has(sessionId)) {
-    closePty(sessionId);
+  // Close the existing PTY for this terminal if any, keeping its name
+  const existing = getInstance(sessionId, terminalId);
+  if (existing) {
+    closePty(sessionId, terminalId);
   }
 
   try {
     const { shell, args: shellArgs } = getDefaultShell();
+    const cleanEnv = getTerminalEnv();
 
-    // Filter out undefined/null env vars that can cause issues with ConPTY on Windows
-    const cleanEnv: { [key: string]: string } = {};
-    for (const [key, value] of Object.entries(process.env)) {
-      if (value !== undefined && value !== null) {
-        cleanEnv[key] = value;
-      }
-    }
-    cleanEnv.TERM = 'xterm-256color';
-    cleanEnv.COLORTERM = 'truecolor';
-
-    const pty = getPtyModule();
-    const ptyProcess = pty.spawn(shell, shellArgs, {
-      name: 'xterm-256color',
-      cols: 80,
-      rows: 24,
-      cwd: cwd,
+    // Mark prompts and commands so output can be split into command blocks
+    const launch = getShellIntegrationLaunch(shell, shellArgs, cleanEnv) || {
+      args: shellArgs,
       env: cleanEnv,
-    });
-
-    const instance: PtyInstance = {
-      pty: ptyProcess,
-      outputBuffer: [],
-      maxBufferLines: 1000,
     };
 
-    // Handle PTY data - only forward if this instance is still the active one
-    ptyProcess.onData((data: string) => {
-      if (ptyInstances.get(sessionId) !== instance) return;
-
-      // Store in buffer for "send to agent" functionality
-      instance.outputBuffer.push(data);
-      // Trim buffer if too large
-      if (instance.outputBuffer.length > instance.maxBufferLines) {
-        instance.outputBuffer = instance.outputBuffer.slice(-instance.maxBufferLines);
-      }
-
-      // Send data to renderer
-      if (mainWindow && !mainWindow.isDestroyed()) {
-        mainWindow.webContents.send('pty:data', { sessionId, data });
-      }
-    });
-
-    // Handle PTY exit - only act if this instance is still the active one.
-    // A replaced PTY's onExit fires asynchronously after a new one is created;
-    // without this guard the stale handler would delete the new instance.
-    ptyProcess.onExit(({ exitCode }) => {
-      if (ptyInstances.get(sessionId) !== instance) return;
-
-      console.log(`PTY for session ${sessionId} exited with code ${exitCode}`);
-      ptyInstances.delete(sessionId);
-      if (mainWindow && !mainWindow.isDestroyed()) {
-        mainWindow.webContents.send('pty:exit', { sessionId, exitCode });
-      }
-    });
+    const saved = getSavedTerminal(sessionId, terminalId);
+    const instance = startPty(
+      sessionId,
+      terminalId,
+      mainWindow,
+      { file: shell, args: launch.args, cwd, env: launch.env },
+      name || existing?.name || saved?.name || terminalId,
+      { restoreScrollback: options.restoreScrollback }
+    );
 
-    ptyInstances.set(sessionId, instance);
+    // Shells read typed-ahead input once they are ready
+    if (options.runStartupCommand && saved?.startupCommand) {
+      instance.pty.write(`${saved.startupCommand}\r`);
+    }
     return { success: true };
   } catch (error) {
     console.error('Failed to create PTY:', error);
@@ -507,9 +633,57 @@ export function createPty(
   }
 }
 
+/**
+ * Run a one-off command (e.g. worktree setup) in one of the session's terminals instead of a
+ * shell. Its output shows up like any terminal's; resolves with the exit code once it finishes.
+ */
+export function runPtyCommand(
+  sessionId: string,
+  cwd: string,
+  mainWindow: BrowserWindow | null,
+  terminalId: string,
+  name: string,
+  command: string
+): Promise<{ success: boolean; exitCode?: number; error?: string }> {
+  if (getInstance(sessionId, terminalId)) {
+    closePty(sessionId, terminalId);
+  }
+
+  const spawn =
+    process.platform === 'win32'
+      ? { file: process.env.COMSPEC || 'cmd.exe', args: ['/d', '/s', '/c', command] }
+      : { file: process.env.SHELL || '/bin/sh', args: ['-lc', command] };
+
+  return new Promise((resolve) => {
+    try {
+      startPty(sessionId, terminalId, mainWindow, { ...spawn, cwd, env: getTerminalEnv() }, name, {
+        // Keep earlier commands' output when several run one after another
+        restoreScrollback: true,
+        banner: `\x1b[2m$ ${command}\x1b[0m\r\n`,
+        onExit: (exitCode) => resolve({ success: exitCode === 0, exitCode }),
+      });
+    } catch (error) {
+      console.error('Failed to run command in PTY:', error);
+      resolve({ success: false, error: String(error) });
+    }
+  });
+}
+
+function deleteInstance(sessionId: string, terminalId: string): void {
+  const terminals = ptyInstances.get(sessionId);
+  terminals?.delete(terminalId);
+  if (terminals?.size === 0) {
+    ptyInstances.delete(sessionId);
+  }
+}
+
 // Write data to PTY
-export function writePty(sessionId: string, data: string): { success: boolean; error?: string } {
-  const instance = ptyInstances.get(sessionId);
+export function writePty(
+  sessionId: string,
+  data: string,
+  terminalId = DEFAULT_TERMINAL_ID
+): { success: boolean; error?: string } {
+  const instance = getInstance(sessionId, terminalId);
   if (!instance) {
     return { success: false, error: 'PTY not found for session' };
   }
@@ -527,9 +701,10 @@ export function writePty(sessionId: string, data: string): { success: boolean; e
 export function resizePty(
   sessionId: string,
   cols: number,
-  rows: number
+  rows: number,
+  terminalId = DEFAULT_TERMINAL_ID
 ): { success: boolean; error?: string } {
-  const instance = ptyInstances.get(sessionId);
+  const instance = getInstance(sessionId, terminalId);
   if (!instance) {
     return { success: false, error: 'PTY not found for session' };
   }
@@ -543,59 +718,128 @@ export function resizePty(
   }
 }
 
+// Rename a terminal's tab
+export function renamePty(
+  sessionId: string,
+  terminalId: string,
+  name: string
+): { success: boolean; error?: string } {
+  const instance = getInstance(sessionId, terminalId);
+  if (!instance) {
+    return { success: false, error: 'PTY not found for session' };
+  }
+  instance.name = name.trim() || terminalId;
+  try {
+    updateSavedTerminal(sessionId, terminalId, { name: instance.name });
+  } catch (error) {
+    console.warn(`[${sessionId}] Failed to save terminal ${terminalId}:`, error);
+  }
+  return { success: true };
+}
+
+// List a session's running terminals
+export function listPtys(sessionId: string): PtyInfo[] {
+  return Array.from(ptyInstances.get(sessionId)?.entries() || []).map(([terminalId, instance]) => ({
+    terminalId,
+    name: instance.name,
+  }));
+}
+
 // Get terminal output buffer for sending to agent
-export function getPtyOutput(sessionId: string): {
+export function getPtyOutput(
+  sessionId: string,
+  terminalId = DEFAULT_TERMINAL_ID
+): {
   success: boolean;
   output?: string;
+  totalOutputLength?: number;
   error?: string;
 } {
-  const instance = ptyInstances.get(sessionId);
+  const instance = getInstance(sessionId, terminalId);
   if (!instance) {
     return { success: false, error: 'PTY not found for session' };
   }
 
   // Join buffer and return
   const output = instance.outputBuffer.join('');
-  return { success: true, output };
+  return { success: true, output, totalOutputLength: instance.totalOutputLength };
+}
+
+// Commands run in a terminal, oldest first; empty when the shell has no integration loaded
+export function getPtyCommandBlocks(
+  sessionId: string,
+  terminalId = DEFAULT_TERMINAL_ID
+): {
+  success: boolean;
+  blocks?: CommandBlock[];
+  shellIntegration?: boolean;
+  error?: string;
+} {
+  const instance = getInstance(sessionId, terminalId);
+  if (!instance) {
+    return { success: false, error: 'PTY not found for session' };
+  }
+  return {
+    success: true,
+    blocks: listCommandBlocks(instance.commands),
+    shellIntegration: instance.commands.active,
+  };
 }
 
 // Clear output buffer
-export function clearPtyBuffer(sessionId: string): { success: boolean; error?: string } {
-  const instance = ptyInstances.get(sessionId);
+export function clearPtyBuffer(
+  sessionId: string,
+  terminalId = DEFAULT_TERMINAL_ID
+): { success: boolean; error?: string } {
+  const instance = getInstance(sessionId, terminalId);
   if (!instance) {
     return { success: false, error: 'PTY not found for session' };
   }
 
   instance.outputBuffer = [];
+  instance.scrollback = '';
+  instance.commands.blocks = [];
+  flushScrollback(sessionId, terminalId, instance);
   return { success: true };
 }
 
-// Close PTY
-export function closePty(sessionId: string): { success: boolean; error?: string } {
-  const instance = ptyInstances.get(sessionId);
+// Close one of a session's terminals, or all of them when no terminal is given
+export function closePty(
+  sessionId: string,
+  terminalId?: string
+): { success: boolean; error?: string } {
+  if (terminalId === undefined) {
+    const results = Array.from(ptyInstances.get(sessionId)?.keys() || []).map((id) =>
+      closePty(sessionId, id)
+    );
+    return results.find((result) => !result.success) || { success: true };
+  }
+
+  const instance = getInstance(sessionId, terminalId);
   if (!instance) {
     return { success: true }; // Already closed
   }
 
+  flushScrollback(sessionId, terminalId, instance);
   try {
     instance.pty.kill();
-    ptyInstances.delete(sessionId);
+    deleteInstance(sessionId, terminalId);
     return { success: true };
   } catch (error) {
     console.error('Failed to close PTY:', error);
-    ptyInstances.delete(sessionId);
+    deleteInstance(sessionId, terminalId);
     return { success: false, error: String(error) };
   }
 }
 
-// Check if PTY exists for session
-export function hasPty(sessionId: string): boolean {
-  return ptyInstances.has(sessionId);
+// Check if PTY exists for a session's terminal
+export function hasPty(sessionId: string, terminalId = DEFAULT_TERMINAL_ID): boolean {
+  return !!getInstance(sessionId, terminalId);
 }
 
 // Close all PTY instances
 export function closeAllPtys(): void {
-  for (const sessionId of ptyInstances.keys()) {
+  for (const sessionId of Array.from(ptyInstances.keys())) {
     closePty(sessionId);
   }
 }
@@ -0,0 +1,60 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest';
+import { buildTranscript, type SessionEventRecord } from './transcriptExport';
+import { buildForkContext, findForkEventCount, removeSessionParentLinks } from './sessionFork';
+
+const events: SessionEventRecord[] = [
+  { type: 'session.start', data: { selectedModel: 'gpt-5', context: { cwd: '/repo' } } },
+  { type: 'user.message', data: { content: 'Run the tests' } },
+  { type: 'assistant.message', data: { content: 'Running them now' } },
+  { type: 'tool.execution_start', data: { toolCallId: 't1', toolName: 'bash', arguments: {} } },
+  { type: 'tool.execution_complete', data: { toolCallId: 't1', success: true } },
+  { type: 'assistant.message', data: { content: 'All green' } },
+  { type: 'user.message', data: { content: 'Run the tests' } },
+  { type: 'assistant.message', data: { content: 'Still green' } },
+];
+
+describe('sessionFork', () => {
+  it('keeps the tool calls a message started', () => {
+    const count = findForkEventCount(events, {
+      role: 'assistant',
+      content: 'Running them now',
+      occurrence: 0,
+      messageIndex: 99,
+    });
+    expect(count).toBe(5);
+  });
+
+  it('tells repeated messages apart by occurrence', () => {
+    const point = { role: 'user' as const, content: ' Run the tests ', messageIndex: 99 };
+    expect(findForkEventCount(events, { ...point, occurrence: 0 })).toBe(2);
+    expect(findForkEventCount(events, { ...point, occurrence: 1 })).toBe(7);
+    expect(findForkEventCount(events, { ...point, occurrence: 2 })).toBe(-1);
+  });
+
+  it('falls back to the message index when the content is not found', () => {
+    const point = { role: 'assistant' as const, content: 'edited locally', occurrence: 0 };
+    expect(findForkEventCount(events, { ...point, messageIndex: 2 })).toBe(6);
+    expect(findForkEventCount(events, { ...point, messageIndex: 10 })).toBe(-1);
+  });
+
+  it('seeds the fork with the conversation up to the fork point', () => {
+    const transcript = buildTranscript(events.slice(0, 5), { sessionId: 'parent', name: 'Tests' });
+
+    const sameFolder = buildForkContext(transcript, '/repo');
+    expect(sameFolder).toContain('fork of an earlier session ("Tests")');
+    expect(sameFolder).toContain('**Assistant:** Running them now');
+    expect(sameFolder).not.toContain('All green');
+    expect(sameFolder).not.toContain('worktree');
+
+    expect(buildForkContext(transcript, '/worktrees/repo--fork')).toContain(
+      'runs in its own worktree at `/worktrees/repo--fork`'
+    );
+  });
+
+  it('unlinks a deleted session from its parent and from its forks', () => {
+    expect(
+      removeSessionParentLinks({ fork: 'deleted', deleted: 'root', other: 'root' }, 'deleted')
+    ).toEqual({ other: 'root' });
+  });
+});
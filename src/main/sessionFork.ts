@@ -0,0 +1,88 @@
+/**
+ * Session Fork
+ *
+ * "Fork from here" starts a new session that carries a parent session's conversation up to a
+ * chosen message. As with transcript import, the SDK cannot replay events into a new session,
+ * so the parent's events up to the fork point are summarized into the new session's system
+ * context.
+ */
+
+import type { SessionEventRecord, Transcript } from './transcriptExport';
+import { buildSeedContext } from './transcriptImport';
+
+export interface ForkPoint {
+  role: 'user' | 'assistant';
+  content: string;
+  occurrence: number; // How many earlier messages in the tab have the same role and content
+  messageIndex: number; // Index among the session's messages, used when the content isn't found
+}
+
+const MESSAGE_EVENTS = new Set(['user.message', 'assistant.message']);
+
+/**
+ * Find where to cut the parent's events for a fork. Returns the number of events to keep, or -1
+ * when the message can't be found. Messages are matched by content first, since live tabs don't
+ * number their messages the way the events file does; the tool calls a message started are kept
+ * with it.
+ */
+export function findForkEventCount(events: SessionEventRecord[], point: ForkPoint): number {
+  const messageEvents: number[] = [];
+  let matched = -1;
+  let seen = 0;
+
+  events.forEach((event, index) => {
+    if (!MESSAGE_EVENTS.has(event.type)) return;
+    messageEvents.push(index);
+    if (matched >= 0) return;
+    const role = event.type === 'user.message' ? 'user' : 'assistant';
+    const content = event.data?.content;
+    if (
+      role === point.role &&
+      typeof content === 'string' &&
+      content.trim() === point.content.trim()
+    ) {
+      if (seen === point.occurrence) matched = index;
+      seen++;
+    }
+  });
+
+  if (matched < 0) matched = messageEvents[point.messageIndex] ?? -1;
+  if (matched < 0) return -1;
+
+  let end = matched + 1;
+  while (end < events.length && !MESSAGE_EVENTS.has(events[end].type)) end++;
+  return end;
+}
+
+export function buildForkContext(transcript: Transcript, cwd: string): string {
+  const movedCwd = transcript.cwd && transcript.cwd !== cwd;
+  return buildSeedContext(transcript, [
+    '## Forked Session',
+    '',
+    `This session is a fork of an earlier session` +
+      (transcript.name ? ` ("${transcript.name}")` : '') +
+      ' and carries its conversation up to the point the user forked it.' +
+      (movedCwd
+        ? ` The earlier session ran in \`${transcript.cwd}\`; this one runs in its own worktree ` +
+          `at \`${cwd}\`, so file changes here do not affect the original.`
+        : '') +
+      ' The earlier conversation could not be replayed, so it is summarized below. Treat it ' +
+      'as background: re-read files before relying on their contents, and wait for the next ' +
+      'user message before acting.',
+  ]);
+}
+
+/**
+ * Forked session -> parent links without a deleted session: its own link goes, and its forks
+ * lose theirs so they become top-level sessions
+ */
+export function removeSessionParentLinks(
+  sessionParents: Record<string, string>,
+  sessionId: string
+): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(sessionParents).filter(
+      ([forkId, parentId]) => forkId !== sessionId && parentId !== sessionId
+    )
+  );
+}
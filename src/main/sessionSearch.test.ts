@@ -0,0 +1,132 @@
+// @vitest-environment node
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { existsSync, mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+const paths = vi.hoisted(() => ({ userData: '' }));
+
+vi.mock('electron', () => ({
+  app: {
+    getPath: vi.fn(() => paths.userData),
+  },
+}));
+
+import {
+  extractSearchDocuments,
+  getSearchIndexPath,
+  makeSnippet,
+  searchSessions,
+} from './sessionSearch';
+
+const line = (type: string, data: Record<string, unknown>, timestamp = '2026-01-01T10:00:00Z') =>
+  JSON.stringify({ type, timestamp, data });
+
+describe('sessionSearch', () => {
+  let root: string;
+  let sessionStateDir: string;
+
+  const writeSession = (sessionId: string, lines: string[]) => {
+    mkdirSync(join(sessionStateDir, sessionId), { recursive: true });
+    writeFileSync(join(sessionStateDir, sessionId, 'events.jsonl'), lines.join('\n') + '\n');
+  };
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), 'session-search-'));
+    paths.userData = join(root, 'userData');
+    mkdirSync(paths.userData);
+    sessionStateDir = join(root, 'session-state');
+
+    writeSession('migration', [
+      line('session.start', { selectedModel: 'gpt-5', context: { cwd: '/repo/api' } }),
+      line('user.message', { content: 'Why does the deploy fail?' }),
+      line('assistant.message', { content: '' }),
+      line('tool.execution_start', {
+        toolCallId: 't1',
+        toolName: 'bash',
+        arguments: { command: 'npm run migrate' },
+      }),
+      line('tool.execution_complete', {
+        toolCallId: 't1',
+        success: false,
+        result: { content: 'Error: relation "users" already exists' },
+      }),
+      line('assistant.message', { content: 'The users migration runs twice.' }),
+    ]);
+    writeSession('docs', [
+      line('session.start', { selectedModel: 'claude', context: { cwd: '/repo/docs' } }),
+      line('user.message', { content: 'Document the users table' }, '2025-06-01T10:00:00Z'),
+    ]);
+  });
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it('indexes messages and tool calls with renderer message indexes', () => {
+    const { cwd, model, documents } = extractSearchDocuments(
+      [
+        line('session.start', { selectedModel: 'gpt-5', context: { cwd: '/repo' } }),
+        line('user.message', { content: 'hi', attachments: [{ path: '/repo/a.ts' }] }),
+        line('assistant.message', { content: '' }),
+        line('tool.execution_start', { toolCallId: 't', toolName: 'view', arguments: 'x' }),
+        line('assistant.message', { content: 'done' }),
+      ].map((l) => JSON.parse(l))
+    );
+
+    expect({ cwd, model }).toEqual({ cwd: '/repo', model: 'gpt-5' });
+    expect(documents).toEqual([
+      { kind: 'user', messageIndex: 0, text: 'hi\n/repo/a.ts' },
+      { kind: 'tool', messageIndex: 1, toolName: 'view', text: 'view x' },
+      { kind: 'assistant', messageIndex: 2, text: 'done' },
+    ]);
+  });
+
+  it('finds matches in tool output and persists the index', async () => {
+    const { results, facets } = await searchSessions(sessionStateDir, 'already exists');
+
+    expect(results).toHaveLength(1);
+    expect(results[0]).toMatchObject({
+      sessionId: 'migration',
+      cwd: '/repo/api',
+      model: 'gpt-5',
+      totalHits: 1,
+      hits: [{ kind: 'tool', toolName: 'bash', messageIndex: 1 }],
+    });
+    expect(results[0].hits[0].snippet).toContain('relation "users" already exists');
+    expect(facets).toEqual({ cwds: ['/repo/api', '/repo/docs'], models: ['claude', 'gpt-5'] });
+    expect(existsSync(getSearchIndexPath())).toBe(true);
+  });
+
+  it('applies cwd, model and date filters', async () => {
+    expect((await searchSessions(sessionStateDir, 'users')).results).toHaveLength(2);
+    expect(
+      (await searchSessions(sessionStateDir, 'users', { cwd: '/repo/docs' })).results
+    ).toMatchObject([{ sessionId: 'docs' }]);
+    expect(
+      (await searchSessions(sessionStateDir, 'users', { model: 'gpt-5' })).results
+    ).toMatchObject([{ sessionId: 'migration' }]);
+    expect(
+      (await searchSessions(sessionStateDir, 'users', { since: '2025-12-01T00:00:00Z' })).results
+    ).toMatchObject([{ sessionId: 'migration' }]);
+  });
+
+  it('picks up new sessions and drops deleted ones', async () => {
+    expect((await searchSessions(sessionStateDir, 'kubernetes')).results).toEqual([]);
+
+    writeSession('k8s', [line('user.message', { content: 'Scale the kubernetes pods' })]);
+    rmSync(join(sessionStateDir, 'docs'), { recursive: true });
+
+    const { results, facets } = await searchSessions(sessionStateDir, 'kubernetes');
+    expect(results.map((r) => r.sessionId)).toEqual(['k8s']);
+    expect(facets.cwds).toEqual(['/repo/api']);
+  });
+
+  it('trims snippets around the first match', () => {
+    const text = `${'a'.repeat(100)} needle ${'b'.repeat(200)}`;
+    const snippet = makeSnippet(text, ['needle']);
+    expect(snippet.startsWith('…')).toBe(true);
+    expect(snippet.endsWith('…')).toBe(true);
+    expect(snippet).toContain('needle');
+  });
+});
@@ -0,0 +1,333 @@
+/**
+ * Session Search
+ *
+ * Full-text search over every session's events.jsonl, including tool inputs and outputs (so
+ * file paths the agent touched are searchable too). Extracted text is kept in a persistent
+ * index under userData and refreshed incrementally: only sessions whose events file changed
+ * since the last search are re-read.
+ */
+
+import { existsSync } from 'fs';
+import { readdir, readFile, stat, writeFile } from 'fs/promises';
+import { isAbsolute, join, relative } from 'path';
+import { app } from 'electron';
+import { parseSessionEvents, type SessionEventRecord } from './transcriptExport';
+
+export type SessionSearchDocumentKind = 'user' | 'assistant' | 'tool';
+
+export interface SessionSearchDocument {
+  kind: SessionSearchDocumentKind;
+  messageIndex: number; // Index in the session's message list; tools use the preceding message
+  text: string;
+  toolName?: string;
+}
+
+export interface IndexedSession {
+  sessionId: string;
+  mtimeMs: number;
+  size: number;
+  modifiedTime: string; // ISO timestamp of the last event
+  cwd?: string;
+  model?: string;
+  documents: SessionSearchDocument[];
+}
+
+export interface SessionSearchFilters {
+  cwd?: string; // Sessions in this directory or below it
+  model?: string;
+  since?: string; // ISO timestamp; only sessions modified after it
+}
+
+export interface SessionSearchHit {
+  kind: SessionSearchDocumentKind;
+  messageIndex: number;
+  toolName?: string;
+  snippet: string;
+}
+
+export interface SessionSearchResult {
+  sessionId: string;
+  modifiedTime: string;
+  cwd?: string;
+  model?: string;
+  hits: SessionSearchHit[]; // Best hits, at most MAX_HITS_PER_SESSION
+  totalHits: number;
+}
+
+export interface SessionSearchResponse {
+  results: SessionSearchResult[];
+  facets: { cwds: string[]; models: string[] };
+}
+
+interface SearchIndexFile {
+  version: 1;
+  sessions: Record<string, IndexedSession>;
+}
+
+// Keep the index small: long messages, tool inputs and tool outputs are clipped before indexing
+const MAX_MESSAGE_CHARS = 20000;
+const MAX_TOOL_CHARS = 4000;
+const MAX_HITS_PER_SESSION = 3;
+const MAX_RESULTS = 50;
+const SNIPPET_RADIUS = 60;
+
+let index: { path: string; data: SearchIndexFile } | null = null;
+let refreshing: Promise<void> | null = null;
+
+export function getSearchIndexPath(): string {
+  return join(app.getPath('userData'), 'session-search-index.json');
+}
+
+const asString = (value: unknown): string | undefined =>
+  typeof value === 'string' ? value : undefined;
+
+function stringifyInput(input: unknown): string {
+  if (input === undefined || input === null) return '';
+  return typeof input === 'string' ? input : JSON.stringify(input);
+}
+
+/**
+ * Pull the searchable text out of a session's events. Message indexes follow the same
+ * user/assistant ordering the renderer uses when it loads a session's history.
+ */
+export function extractSearchDocuments(
+  events: SessionEventRecord[]
+): Pick<IndexedSession, 'cwd' | 'model' | 'documents'> & { lastTimestamp?: string } {
+  const documents: SessionSearchDocument[] = [];
+  const toolDocuments = new Map<string, SessionSearchDocument>();
+  let messageIndex = -1;
+  let cwd: string | undefined;
+  let model: string | undefined;
+  let lastTimestamp: string | undefined;
+
+  for (const event of events) {
+    const data = event.data || {};
+    if (event.timestamp) lastTimestamp = event.timestamp;
+    switch (event.type) {
+      case 'session.start':
+        cwd = (data.context as { cwd?: string } | undefined)?.cwd;
+        model = asString(data.selectedModel);
+        break;
+      case 'session.model_change':
+        model = asString(data.newModel) || model;
+        break;
+      case 'user.message': {
+        messageIndex++;
+        const attachments = Array.isArray(data.attachments) ? data.attachments : [];
+        const paths = attachments
+          .map((a: Record<string, unknown>) => asString(a.path) || asString(a.filePath))
+          .filter(Boolean);
+        const text = [asString(data.content) || '', ...paths].join('\n');
+        documents.push({ kind: 'user', messageIndex, text: text.slice(0, MAX_MESSAGE_CHARS) });
+        break;
+      }
+      case 'assistant.message': {
+        messageIndex++;
+        const text = asString(data.content) || '';
+        if (text.trim()) {
+          documents.push({
+            kind: 'assistant',
+            messageIndex,
+            text: text.slice(0, MAX_MESSAGE_CHARS),
+          });
+        }
+        break;
+      }
+      case 'tool.execution_start': {
+        const toolName = asString(data.toolName) || 'tool';
+        const doc: SessionSearchDocument = {
+          kind: 'tool',
+          messageIndex: Math.max(messageIndex, 0),
+          toolName,
+          text: `${toolName} ${stringifyInput(data.arguments)}`.slice(0, MAX_TOOL_CHARS),
+        };
+        toolDocuments.set(asString(data.toolCallId) || '', doc);
+        documents.push(doc);
+        break;
+      }
+      case 'tool.execution_complete': {
+        const doc = toolDocuments.get(asString(data.toolCallId) || '');
+        const result = data.result as { content?: unknown } | undefined;
+        const output =
+          asString(result?.content) ||
+          asString((data.error as { message?: unknown } | undefined)?.message);
+        if (doc && output) {
+          doc.text = `${doc.text}\n${output.slice(0, MAX_TOOL_CHARS)}`;
+        }
+        break;
+      }
+    }
+  }
+
+  return { cwd, model, documents, lastTimestamp };
+}
+
+async function loadIndex(): Promise<SearchIndexFile> {
+  const indexPath = getSearchIndexPath();
+  if (index?.path === indexPath) return index.data;
+  let data: SearchIndexFile = { version: 1, sessions: {} };
+  try {
+    const parsed = JSON.parse(await readFile(indexPath, 'utf-8')) as SearchIndexFile;
+    if (parsed.version === 1 && parsed.sessions) data = parsed;
+  } catch {
+    // Missing or corrupt index; it is rebuilt from the session files
+  }
+  index = { path: indexPath, data };
+  return data;
+}
+
+/**
+ * Bring the index up to date with the session-state directory: new and changed sessions are
+ * re-read, deleted ones dropped. Concurrent callers share one refresh.
+ */
+export function refreshSearchIndex(sessionStateDir: string): Promise<void> {
+  if (!refreshing) {
+    refreshing = doRefresh(sessionStateDir).finally(() => {
+      refreshing = null;
+    });
+  }
+  return refreshing;
+}
+
+async function doRefresh(sessionStateDir: string): Promise<void> {
+  const current = await loadIndex();
+  const sessionIds = existsSync(sessionStateDir) ? await readdir(sessionStateDir) : [];
+  const seen = new Set<string>();
+  let changed = false;
+
+  for (const sessionId of sessionIds) {
+    const eventsPath = join(sessionStateDir, sessionId, 'events.jsonl');
+    let stats;
+    try {
+      stats = await stat(eventsPath);
+    } catch {
+      continue;
+    }
+    seen.add(sessionId);
+    const existing = current.sessions[sessionId];
+    if (existing && existing.mtimeMs === stats.mtimeMs && existing.size === stats.size) continue;
+
+    try {
+      const events = parseSessionEvents(await readFile(eventsPath, 'utf-8'));
+      const { lastTimestamp, ...extracted } = extractSearchDocuments(events);
+      current.sessions[sessionId] = {
+        sessionId,
+        mtimeMs: stats.mtimeMs,
+        size: stats.size,
+        modifiedTime: lastTimestamp || stats.mtime.toISOString(),
+        ...extracted,
+      };
+      changed = true;
+    } catch (error) {
+      console.error(`Failed to index session ${sessionId}:`, error);
+    }
+  }
+
+  for (const sessionId of Object.keys(current.sessions)) {
+    if (!seen.has(sessionId)) {
+      delete current.sessions[sessionId];
+      changed = true;
+    }
+  }
+
+  if (changed) {
+    await writeFile(getSearchIndexPath(), JSON.stringify(current), 'utf-8');
+  }
+}
+
+function parseQuery(query: string): string[] {
+  const terms: string[] = [];
+  // "quoted phrases" stay together, everything else splits on whitespace
+  for (const match of query.toLowerCase().matchAll(/"([^"]+)"|(\S+)/g)) {
+    const term = (match[1] || match[2]).trim();
+    if (term) terms.push(term);
+  }
+  return terms;
+}
+
+// Excerpt around the first matching term, collapsed to a single line
+export function makeSnippet(text: string, terms: string[]): string {
+  const lower = text.toLowerCase();
+  const positions = terms.map((term) => lower.indexOf(term)).filter((pos) => pos >= 0);
+  const first = positions.length > 0 ? Math.min(...positions) : 0;
+  const start = Math.max(0, first - SNIPPET_RADIUS);
+  const end = Math.min(text.length, first + SNIPPET_RADIUS * 2);
+  return (
+    (start > 0 ? '…' : '') +
+    text.slice(start, end).replace(/\s+/g, ' ').trim() +
+    (end < text.length ? '…' : '')
+  );
+}
+
+function isUnder(path: string | undefined, dir: string): boolean {
+  if (!path) return false;
+  const rel = relative(dir, path);
+  return !rel.startsWith('..') && !isAbsolute(rel);
+}
+
+/**
+ * Search indexed sessions. Every term must appear in the same message or tool call; sessions
+ * are ranked by hit count, then by recency.
+ */
+export function searchIndexedSessions(
+  sessions: IndexedSession[],
+  query: string,
+  filters: SessionSearchFilters = {}
+): SessionSearchResult[] {
+  const terms = parseQuery(query);
+  if (terms.length === 0) return [];
+
+  const results: SessionSearchResult[] = [];
+  for (const session of sessions) {
+    if (filters.cwd && !isUnder(session.cwd, filters.cwd)) continue;
+    if (filters.model && session.model !== filters.model) continue;
+    if (filters.since && session.modifiedTime < filters.since) continue;
+
+    const matches = session.documents.filter((doc) => {
+      const lower = doc.text.toLowerCase();
+      return terms.every((term) => lower.includes(term));
+    });
+    if (matches.length === 0) continue;
+
+    // Prefer conversation hits over tool output when choosing what to show
+    const shown = [
+      ...matches.filter((doc) => doc.kind !== 'tool'),
+      ...matches.filter((doc) => doc.kind === 'tool'),
+    ].slice(0, MAX_HITS_PER_SESSION);
+    results.push({
+      sessionId: session.sessionId,
+      modifiedTime: session.modifiedTime,
+      cwd: session.cwd,
+      model: session.model,
+      hits: shown.map((doc) => ({
+        kind: doc.kind,
+        messageIndex: doc.messageIndex,
+        toolName: doc.toolName,
+        snippet: makeSnippet(doc.text, terms),
+      })),
+      totalHits: matches.length,
+    });
+  }
+
+  return results
+    .sort((a, b) => b.totalHits - a.totalHits || b.modifiedTime.localeCompare(a.modifiedTime))
+    .slice(0, MAX_RESULTS);
+}
+
+export async function searchSessions(
+  sessionStateDir: string,
+  query: string,
+  filters: SessionSearchFilters = {}
+): Promise<SessionSearchResponse> {
+  await refreshSearchIndex(sessionStateDir);
+  const sessions = Object.values((await loadIndex()).sessions);
+  const unique = (values: (string | undefined)[]) =>
+    Array.from(new Set(values.filter((v): v is string => !!v))).sort();
+  return {
+    results: searchIndexedSessions(sessions, query, filters),
+    facets: {
+      cwds: unique(sessions.map((s) => s.cwd)),
+      models: unique(sessions.map((s) => s.model)),
+    },
+  };
+}
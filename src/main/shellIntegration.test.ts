@@ -0,0 +1,105 @@
+// @vitest-environment node
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { existsSync, mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+const paths = vi.hoisted(() => ({ userData: '' }));
+
+vi.mock('electron', () => ({
+  app: {
+    getPath: vi.fn(() => paths.userData),
+  },
+}));
+
+import {
+  createCommandTracker,
+  getShellIntegrationLaunch,
+  listCommandBlocks,
+  trackShellOutput,
+} from './shellIntegration';
+
+const OSC = (params: string) => `\x1b]133;${params}\x07`;
+
+describe('command tracking', () => {
+  it('splits output into command blocks with exit codes and durations', () => {
+    const tracker = createCommandTracker();
+    trackShellOutput(tracker, `${OSC('A')}$ ${OSC('B')}`, 1000);
+    trackShellOutput(tracker, `npm test\r\n${OSC('C;cmdline_url=npm%20test')}`, 1000);
+    trackShellOutput(tracker, '\x1b[31mFAIL\x1b[0m src/app.test.ts\r\n', 1500);
+    trackShellOutput(tracker, `${OSC('D;1')}${OSC('A')}$ ${OSC('B')}ls\r\n`, 4200);
+    trackShellOutput(tracker, `${OSC('C;cmdline_url=ls')}README.md\r\n${OSC('D;0')}`, 4300);
+
+    expect(listCommandBlocks(tracker)).toEqual([
+      expect.objectContaining({
+        id: 1,
+        command: 'npm test',
+        output: 'FAIL src/app.test.ts',
+        exitCode: 1,
+        durationMs: 3200,
+      }),
+      expect.objectContaining({ id: 2, command: 'ls', output: 'README.md', exitCode: 0 }),
+    ]);
+    expect(tracker.active).toBe(true);
+  });
+
+  it('handles markers split across chunks and lists the running command', () => {
+    const tracker = createCommandTracker();
+    trackShellOutput(tracker, `${OSC('B')}npm run dev\r\n\x1b]13`, 0);
+    trackShellOutput(tracker, '3;C\x07ready on port 3000\r\n', 10);
+
+    expect(tracker.blocks).toHaveLength(0);
+    expect(listCommandBlocks(tracker)).toEqual([
+      expect.objectContaining({ command: 'npm run dev', output: 'ready on port 3000' }),
+    ]);
+    expect(listCommandBlocks(tracker)[0].finishedAt).toBeUndefined();
+  });
+
+  it('ignores output from shells without integration', () => {
+    const tracker = createCommandTracker();
+    trackShellOutput(tracker, '$ ls\r\nREADME.md\r\n\x1b]0;title\x07');
+
+    expect(tracker.active).toBe(false);
+    expect(listCommandBlocks(tracker)).toEqual([]);
+  });
+});
+
+describe('getShellIntegrationLaunch', () => {
+  let root: string;
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), 'shell-integration-'));
+    paths.userData = root;
+  });
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it('loads the bash script in place of bashrc and keeps login shells', () => {
+    const launch = getShellIntegrationLaunch('/bin/bash', ['-l'], { HOME: '/home/me' });
+
+    const script = join(root, 'shell-integration', 'bash-integration.sh');
+    expect(launch).toEqual({
+      args: ['--init-file', script],
+      env: { HOME: '/home/me', COOPER_SHELL_LOGIN: '1' },
+    });
+    expect(readFileSync(script, 'utf-8')).toContain('133;C;cmdline_url=');
+  });
+
+  it("points zsh at wrapper startup files that load the user's own", () => {
+    const launch = getShellIntegrationLaunch('/bin/zsh', ['-l'], { HOME: '/home/me' });
+
+    const dir = join(root, 'shell-integration', 'zsh');
+    expect(launch?.args).toEqual(['-l']);
+    expect(launch?.env).toMatchObject({ ZDOTDIR: dir, COOPER_USER_ZDOTDIR: '/home/me' });
+    expect(existsSync(join(dir, '.zshrc'))).toBe(true);
+  });
+
+  it('leaves other shells and custom arguments alone', () => {
+    expect(getShellIntegrationLaunch('/usr/bin/fish', ['-l'], {})).toBeNull();
+    expect(getShellIntegrationLaunch('C:\\Windows\\cmd.exe', [], {})).toBeNull();
+    expect(getShellIntegrationLaunch('pwsh.exe', ['-NoProfile'], {})).toBeNull();
+    expect(getShellIntegrationLaunch('pwsh.exe', [], {})?.args).toContain('-NoExit');
+  });
+});
@@ -0,0 +1,370 @@
+/**
+ * Shell Integration
+ *
+ * Terminals spawned by Cooper load a small script into bash, zsh or PowerShell that marks prompts
+ * and commands with OSC 133 escape sequences (the FinalTerm convention also used by VS Code,
+ * iTerm2 and kitty). The user's own startup files are still loaded first.
+ *
+ *   ESC ] 133 ; A BEL                 prompt starts
+ *   ESC ] 133 ; B BEL                 prompt ends, the user types a command
+ *   ESC ] 133 ; C ; cmdline_url=… BEL the command runs; its output follows
+ *   ESC ] 133 ; D ; <exit code> BEL   the command finished
+ *
+ * The tracker below turns the PTY output stream into command blocks with the command text, its
+ * output, exit code and duration, so the UI can attach one command's output instead of a number
+ * of lines. xterm ignores the markers when rendering.
+ */
+
+import { existsSync, mkdirSync, writeFileSync } from 'fs';
+import { basename, join } from 'path';
+import { app } from 'electron';
+import { stripAnsiCodes } from '../shared/ansi';
+
+// Blocks kept per terminal; older ones are dropped first
+const MAX_COMMAND_BLOCKS = 100;
+// Output kept per block, in characters; the end of long output is kept
+const MAX_BLOCK_OUTPUT_CHARS = 200 * 1024;
+// Typed command line kept while waiting for the command to start
+const MAX_INPUT_CHARS = 4096;
+
+export interface CommandBlock {
+  id: number;
+  command: string;
+  output: string; // Raw output including escape sequences
+  exitCode?: number; // Undefined while running or when the shell didn't report one
+  startedAt: number; // Epoch milliseconds
+  finishedAt?: number;
+  durationMs?: number;
+}
+
+export interface CommandTracker {
+  active: boolean; // True once the shell has sent any marker
+  phase: 'idle' | 'input' | 'running';
+  pending: string; // Start of a marker split across chunks
+  input: string; // Echoed command line between the B and C markers
+  current?: CommandBlock;
+  blocks: CommandBlock[];
+  nextId: number;
+}
+
+const BASH_SCRIPT = String.raw`# Cooper shell integration for bash. Loaded with --init-file in place of ~/.bashrc.
+if [ -n "$COOPER_SHELL_LOGIN" ]; then
+  unset COOPER_SHELL_LOGIN
+  [ -r /etc/profile ] && . /etc/profile
+  if [ -r ~/.bash_profile ]; then . ~/.bash_profile
+  elif [ -r ~/.bash_login ]; then . ~/.bash_login
+  elif [ -r ~/.profile ]; then . ~/.profile
+  fi
+else
+  [ -r ~/.bashrc ] && . ~/.bashrc
+fi
+
+if [ -z "$__cooper_integrated" ]; then
+  __cooper_integrated=1
+  __cooper_at_prompt=0
+  __cooper_running=0
+
+  __cooper_urlencode() {
+    local LC_ALL=C s="$1" out="" c hex i
+    for ((i = 0; i < ${'${'}#s}; i++)); do
+      c="${'${'}s:i:1}"
+      case "$c" in
+        [a-zA-Z0-9.~_-]) out+="$c" ;;
+        *) printf -v hex '%%%02X' "'$c"; out+="$hex" ;;
+      esac
+    done
+    printf '%s' "$out"
+  }
+
+  __cooper_preexec() {
+    [ "$__cooper_at_prompt" = 1 ] || return
+    case "$BASH_COMMAND" in __cooper_*) return ;; esac
+    __cooper_at_prompt=0
+    __cooper_running=1
+    local entry cmd="$BASH_COMMAND"
+    entry=$(HISTTIMEFORMAT= builtin history 1)
+    [[ $entry =~ ^\ *[0-9]+\*?\ +(.*)$ ]] && cmd="${'${'}BASH_REMATCH[1]}"
+    printf '\e]133;C;cmdline_url=%s\a' "$(__cooper_urlencode "$cmd")"
+  }
+
+  __cooper_precmd() {
+    local status=$?
+    [ "$__cooper_running" = 1 ] && printf '\e]133;D;%s\a' "$status"
+    __cooper_running=0
+    __cooper_at_prompt=0
+  }
+
+  __cooper_prompt_ready() {
+    # Prompt frameworks may rebuild PS1; mark it again when they do
+    case "$PS1" in
+      *'133;A'*) ;;
+      *) PS1="\[\e]133;A\a\]$PS1\[\e]133;B\a\]" ;;
+    esac
+    __cooper_at_prompt=1
+  }
+
+  trap '__cooper_preexec' DEBUG
+  # Drop trailing separators so the user's PROMPT_COMMAND can be chained
+  __cooper_user_prompt_command="${'${'}PROMPT_COMMAND%"${'${'}PROMPT_COMMAND##*[![:space:];]}"}"
+  PROMPT_COMMAND="__cooper_precmd${'${'}__cooper_user_prompt_command:+; $__cooper_user_prompt_command}; __cooper_prompt_ready"
+fi
+`;
+
+// zsh reads its startup files from $ZDOTDIR; these forward to the user's files
+const zshForward = (file: string) => `# Cooper shell integration: load the user's ${file}
+if [[ -f "$COOPER_USER_ZDOTDIR/${file}" ]]; then
+  __cooper_zdotdir=$ZDOTDIR
+  ZDOTDIR=$COOPER_USER_ZDOTDIR
+  . "$COOPER_USER_ZDOTDIR/${file}"
+  COOPER_USER_ZDOTDIR=$ZDOTDIR
+  ZDOTDIR=$__cooper_zdotdir
+fi
+`;
+
+const ZSH_RC = String.raw`# Cooper shell integration for zsh
+ZDOTDIR=$COOPER_USER_ZDOTDIR
+[[ -f "$ZDOTDIR/.zshrc" ]] && . "$ZDOTDIR/.zshrc"
+
+if [[ -z "$__cooper_integrated" ]]; then
+  __cooper_integrated=1
+  __cooper_running=0
+
+  __cooper_urlencode() {
+    local LC_ALL=C s=$1 out= c hex i
+    for (( i = 1; i <= ${'${'}#s}; i++ )); do
+      c=$s[i]
+      if [[ $c == [a-zA-Z0-9.~_-] ]]; then
+        out+=$c
+      else
+        printf -v hex '%%%02X' "'$c"
+        out+=$hex
+      fi
+    done
+    print -rn -- $out
+  }
+
+  __cooper_precmd() {
+    local cmd_status=$?
+    (( __cooper_running )) && printf '\e]133;D;%s\a' $cmd_status
+    __cooper_running=0
+  }
+
+  __cooper_prompt_ready() {
+    # Prompt themes may rebuild PS1; mark it again when they do
+    [[ $PS1 == *'133;A'* ]] || PS1=$'%{\e]133;A\a%}'"$PS1"$'%{\e]133;B\a%}'
+  }
+
+  __cooper_preexec() {
+    __cooper_running=1
+    printf '\e]133;C;cmdline_url=%s\a' "$(__cooper_urlencode "$1")"
+  }
+
+  precmd_functions=(__cooper_precmd $precmd_functions __cooper_prompt_ready)
+  preexec_functions+=(__cooper_preexec)
+fi
+`;
+
+const PWSH_SCRIPT = String.raw`# Cooper shell integration for PowerShell
+if ($global:__CooperIntegrated) { return }
+$global:__CooperIntegrated = $true
+$global:__CooperRunning = $false
+$global:__CooperOriginalPrompt = $function:prompt
+$global:__CooperEsc = [char]27
+$global:__CooperBel = [char]7
+
+function global:prompt {
+  $code = if ($?) { 0 } elseif ($global:LASTEXITCODE) { $global:LASTEXITCODE } else { 1 }
+  $result = ''
+  if ($global:__CooperRunning) {
+    $result += "$($global:__CooperEsc)]133;D;$code$($global:__CooperBel)"
+  }
+  $global:__CooperRunning = $false
+  $result += "$($global:__CooperEsc)]133;A$($global:__CooperBel)"
+  $result += & $global:__CooperOriginalPrompt
+  $result + "$($global:__CooperEsc)]133;B$($global:__CooperBel)"
+}
+
+if (Get-Module PSReadLine) {
+  Set-PSReadLineKeyHandler -Chord Enter -ScriptBlock {
+    $line = $null
+    $cursor = $null
+    [Microsoft.PowerShell.PSConsoleReadLine]::GetBufferState([ref]$line, [ref]$cursor)
+    [Microsoft.PowerShell.PSConsoleReadLine]::AcceptLine()
+    if ($line.Trim()) {
+      $global:__CooperRunning = $true
+      [Console]::Write("$($global:__CooperEsc)]133;C;cmdline_url=$([uri]::EscapeDataString($line))$($global:__CooperBel)")
+    }
+  }
+}
+`;
+
+let installedDir: string | null = null;
+
+export function getShellIntegrationDir(): string {
+  return join(app.getPath('userData'), 'shell-integration');
+}
+
+// Write the scripts once per app run so updates ship with the app
+function installScripts(): string {
+  if (installedDir && existsSync(installedDir)) return installedDir;
+  const dir = getShellIntegrationDir();
+  mkdirSync(join(dir, 'zsh'), { recursive: true });
+  writeFileSync(join(dir, 'bash-integration.sh'), BASH_SCRIPT, 'utf-8');
+  writeFileSync(join(dir, 'pwsh-integration.ps1'), PWSH_SCRIPT, 'utf-8');
+  writeFileSync(join(dir, 'zsh', '.zshenv'), zshForward('.zshenv'), 'utf-8');
+  writeFileSync(join(dir, 'zsh', '.zprofile'), zshForward('.zprofile'), 'utf-8');
+  writeFileSync(join(dir, 'zsh', '.zshrc'), ZSH_RC, 'utf-8');
+  installedDir = dir;
+  return dir;
+}
+
+/**
+ * Spawn arguments and environment that load shell integration into a supported shell.
+ * Returns null for other shells, or when the shell already gets custom arguments.
+ */
+export function getShellIntegrationLaunch(
+  shell: string,
+  args: string[],
+  env: Record<string, string>
+): { args: string[]; env: Record<string, string> } | null {
+  const name = basename(shell)
+    .toLowerCase()
+    .replace(/\.exe$/, '');
+  const isLogin = args.includes('-l') || args.includes('--login');
+  const otherArgs = args.filter((arg) => arg !== '-l' && arg !== '--login');
+  if (otherArgs.length > 0) return null;
+
+  try {
+    if (name === 'bash') {
+      const dir = installScripts();
+      return {
+        args: ['--init-file', join(dir, 'bash-integration.sh')],
+        env: { ...env, ...(isLogin && { COOPER_SHELL_LOGIN: '1' }) },
+      };
+    }
+    if (name === 'zsh') {
+      const dir = installScripts();
+      return {
+        args,
+        env: {
+          ...env,
+          COOPER_USER_ZDOTDIR: env.ZDOTDIR || env.HOME || '',
+          ZDOTDIR: join(dir, 'zsh'),
+        },
+      };
+    }
+    if (name === 'pwsh' || name === 'powershell') {
+      const dir = installScripts();
+      const script = join(dir, 'pwsh-integration.ps1').replace(/'/g, "''");
+      return {
+        args: ['-NoLogo', '-NoExit', '-Command', `try { . '${script}' } catch {}`],
+        env,
+      };
+    }
+  } catch (error) {
+    console.warn('Shell integration unavailable:', error);
+  }
+  return null;
+}
+
+export function createCommandTracker(): CommandTracker {
+  return { active: false, phase: 'idle', pending: '', input: '', blocks: [], nextId: 1 };
+}
+
+const MARKER = /\x1b\]133;([A-D])((?:;[^\x07\x1b]*)?)(?:\x07|\x1b\\)/g;
+// Possible start of a marker at the very end of a chunk
+const PARTIAL_MARKER = /\x1b(?:\](?:1(?:3(?:3(?:;[^\x07\x1b]*)?)?)?)?)?$/;
+
+const keepTail = (text: string, max: number): string =>
+  text.length > max ? text.slice(-max) : text;
+
+function appendText(tracker: CommandTracker, text: string): void {
+  if (!text) return;
+  if (tracker.phase === 'input') {
+    tracker.input = keepTail(tracker.input + text, MAX_INPUT_CHARS);
+  } else if (tracker.phase === 'running' && tracker.current) {
+    tracker.current.output = keepTail(tracker.current.output + text, MAX_BLOCK_OUTPUT_CHARS);
+  }
+}
+
+function finishBlock(tracker: CommandTracker, now: number, exitCode?: number): void {
+  const block = tracker.current;
+  tracker.current = undefined;
+  if (!block) return;
+  block.finishedAt = now;
+  block.durationMs = now - block.startedAt;
+  if (exitCode !== undefined && !Number.isNaN(exitCode)) block.exitCode = exitCode;
+  tracker.blocks.push(block);
+  if (tracker.blocks.length > MAX_COMMAND_BLOCKS) {
+    tracker.blocks.splice(0, tracker.blocks.length - MAX_COMMAND_BLOCKS);
+  }
+}
+
+function handleMarker(tracker: CommandTracker, kind: string, params: string, now: number): void {
+  tracker.active = true;
+  switch (kind) {
+    case 'A':
+      // A new prompt without D means the shell lost track of the command (e.g. a subshell exited)
+      finishBlock(tracker, now);
+      tracker.phase = 'idle';
+      break;
+    case 'B':
+      tracker.phase = 'input';
+      tracker.input = '';
+      break;
+    case 'C': {
+      finishBlock(tracker, now);
+      const encoded = /;cmdline_url=([^;]*)/.exec(params)?.[1];
+      let command = '';
+      if (encoded) {
+        try {
+          command = decodeURIComponent(encoded);
+        } catch {
+          command = encoded;
+        }
+      }
+      tracker.current = {
+        id: tracker.nextId++,
+        command: command.trim() || stripAnsiCodes(tracker.input).split('\n').pop() || '',
+        output: '',
+        startedAt: now,
+      };
+      tracker.phase = 'running';
+      tracker.input = '';
+      break;
+    }
+    case 'D':
+      finishBlock(tracker, now, parseInt(params.slice(1), 10));
+      tracker.phase = 'idle';
+      break;
+  }
+}
+
+/**
+ * Feed PTY output to the tracker. Markers split across chunks are held back until complete.
+ */
+export function trackShellOutput(tracker: CommandTracker, data: string, now = Date.now()): void {
+  let text = tracker.pending + data;
+  tracker.pending = '';
+  const partial = PARTIAL_MARKER.exec(text);
+  if (partial && text.length - partial.index < MAX_INPUT_CHARS) {
+    tracker.pending = text.slice(partial.index);
+    text = text.slice(0, partial.index);
+  }
+
+  let last = 0;
+  for (const match of text.matchAll(MARKER)) {
+    appendText(tracker, text.slice(last, match.index));
+    handleMarker(tracker, match[1], match[2], now);
+    last = match.index + match[0].length;
+  }
+  appendText(tracker, text.slice(last));
+}
+
+/**
+ * Finished blocks plus the running one, oldest first, with output as plain text
+ */
+export function listCommandBlocks(tracker: CommandTracker): CommandBlock[] {
+  const blocks = tracker.current ? [...tracker.blocks, tracker.current] : tracker.blocks;
+  return blocks.map((block) => ({ ...block, output: stripAnsiCodes(block.output) }));
+}
@@ -0,0 +1,78 @@
+// @vitest-environment node
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { existsSync, mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+const paths = vi.hoisted(() => ({ userData: '' }));
+
+vi.mock('electron', () => ({
+  app: {
+    getPath: vi.fn(() => paths.userData),
+  },
+}));
+
+import {
+  capScrollback,
+  deleteTerminalHistory,
+  forgetTerminal,
+  getTerminalHistory,
+  getTerminalHistoryDir,
+  saveScrollback,
+  updateSavedTerminal,
+} from './terminalHistory';
+
+describe('terminalHistory', () => {
+  let root: string;
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), 'terminal-history-'));
+    paths.userData = root;
+  });
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it('caps scrollback to the most recent output at a line boundary', () => {
+    expect(capScrollback('short', 10)).toBe('short');
+    expect(capScrollback('line one\nline two\nline three\n', 16)).toBe('line three\n');
+    expect(capScrollback('x'.repeat(30), 10)).toBe('x'.repeat(10));
+  });
+
+  it('saves tabs, startup commands and scrollback per session', () => {
+    updateSavedTerminal('session/1', 'main', { name: 'Terminal 1' });
+    updateSavedTerminal('session/1', 'terminal-2', { name: 'dev server' });
+    updateSavedTerminal('session/1', 'terminal-2', { startupCommand: 'npm run dev' });
+    updateSavedTerminal('session/1', 'main', { name: 'shell' });
+    saveScrollback('session/1', 'terminal-2', '\x1b[32mready\x1b[0m\r\n');
+
+    expect(getTerminalHistory('session/1')).toEqual([
+      { terminalId: 'main', name: 'shell', scrollback: '' },
+      {
+        terminalId: 'terminal-2',
+        name: 'dev server',
+        startupCommand: 'npm run dev',
+        scrollback: '\x1b[32mready\x1b[0m\r\n',
+      },
+    ]);
+    expect(getTerminalHistory('session-2')).toEqual([]);
+
+    // Clearing the startup command removes it
+    expect(
+      updateSavedTerminal('session/1', 'terminal-2', { startupCommand: ' ' }).startupCommand
+    ).toBeUndefined();
+  });
+
+  it('forgets closed terminals and deletes a session history', () => {
+    updateSavedTerminal('session-1', 'main', { name: 'Terminal 1' });
+    updateSavedTerminal('session-1', 'terminal-2', { name: 'Terminal 2' });
+    saveScrollback('session-1', 'terminal-2', 'output');
+
+    forgetTerminal('session-1', 'terminal-2');
+    expect(getTerminalHistory('session-1').map((t) => t.terminalId)).toEqual(['main']);
+
+    deleteTerminalHistory('session-1');
+    expect(existsSync(join(getTerminalHistoryDir(), 'session-1'))).toBe(false);
+  });
+});
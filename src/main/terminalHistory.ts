@@ -0,0 +1,135 @@
+/**
+ * Terminal History
+ *
+ * Keeps each session's terminals across app restarts: the tab list (names and an optional startup
+ * command such as `npm run dev`) and the raw scrollback of every terminal, capped in size. Files
+ * live under `<userData>/terminal-history/<sessionId>/`. Writes are synchronous and small so the
+ * last output is still saved when terminals are closed while the app quits.
+ */
+
+import { existsSync, mkdirSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { app } from 'electron';
+
+// Scrollback kept per terminal, in characters; older output is dropped first
+export const MAX_SCROLLBACK_CHARS = 256 * 1024;
+
+export interface SavedTerminal {
+  terminalId: string;
+  name: string;
+  startupCommand?: string; // Typed into the shell whenever the terminal starts
+}
+
+export interface TerminalHistoryEntry extends SavedTerminal {
+  scrollback: string; // Raw output including escape sequences, replayed into xterm
+}
+
+export function getTerminalHistoryDir(): string {
+  return join(app.getPath('userData'), 'terminal-history');
+}
+
+const sessionDir = (sessionId: string): string =>
+  join(getTerminalHistoryDir(), encodeURIComponent(sessionId));
+const listPath = (sessionId: string): string => join(sessionDir(sessionId), 'terminals.json');
+const scrollbackPath = (sessionId: string, terminalId: string): string =>
+  join(sessionDir(sessionId), `${encodeURIComponent(terminalId)}.log`);
+
+/**
+ * Keep the last `max` characters, starting at a line boundary when there is one
+ */
+export function capScrollback(text: string, max = MAX_SCROLLBACK_CHARS): string {
+  if (text.length <= max) return text;
+  const tail = text.slice(-max);
+  const lineStart = tail.indexOf('\n');
+  return lineStart >= 0 && lineStart < tail.length - 1 ? tail.slice(lineStart + 1) : tail;
+}
+
+export function loadSavedTerminals(sessionId: string): SavedTerminal[] {
+  try {
+    const parsed = JSON.parse(readFileSync(listPath(sessionId), 'utf-8')) as {
+      terminals?: SavedTerminal[];
+    };
+    return Array.isArray(parsed.terminals) ? parsed.terminals.filter((t) => t?.terminalId) : [];
+  } catch {
+    return [];
+  }
+}
+
+function writeSavedTerminals(sessionId: string, terminals: SavedTerminal[]): void {
+  mkdirSync(sessionDir(sessionId), { recursive: true });
+  writeFileSync(listPath(sessionId), JSON.stringify({ terminals }, null, 2), 'utf-8');
+}
+
+/**
+ * Add a terminal to the session's saved tab list, or update its name or startup command
+ */
+export function updateSavedTerminal(
+  sessionId: string,
+  terminalId: string,
+  changes: Partial<Omit<SavedTerminal, 'terminalId'>>
+): SavedTerminal {
+  const terminals = loadSavedTerminals(sessionId);
+  const existing = terminals.find((t) => t.terminalId === terminalId);
+  const updated: SavedTerminal = {
+    ...(existing || { terminalId, name: terminalId }),
+    ...changes,
+  };
+  if (!updated.startupCommand?.trim()) delete updated.startupCommand;
+  writeSavedTerminals(
+    sessionId,
+    existing
+      ? terminals.map((t) => (t.terminalId === terminalId ? updated : t))
+      : [...terminals, updated]
+  );
+  return updated;
+}
+
+export function getSavedTerminal(sessionId: string, terminalId: string): SavedTerminal | undefined {
+  return loadSavedTerminals(sessionId).find((t) => t.terminalId === terminalId);
+}
+
+export function readScrollback(sessionId: string, terminalId: string): string {
+  const path = scrollbackPath(sessionId, terminalId);
+  try {
+    return existsSync(path) ? readFileSync(path, 'utf-8') : '';
+  } catch {
+    return '';
+  }
+}
+
+export function saveScrollback(sessionId: string, terminalId: string, scrollback: string): void {
+  try {
+    mkdirSync(sessionDir(sessionId), { recursive: true });
+    writeFileSync(scrollbackPath(sessionId, terminalId), capScrollback(scrollback), 'utf-8');
+  } catch (error) {
+    console.warn(`[${sessionId}] Failed to save scrollback for terminal ${terminalId}:`, error);
+  }
+}
+
+/**
+ * Saved terminals of a session with their scrollback, in tab order
+ */
+export function getTerminalHistory(sessionId: string): TerminalHistoryEntry[] {
+  return loadSavedTerminals(sessionId).map((terminal) => ({
+    ...terminal,
+    scrollback: readScrollback(sessionId, terminal.terminalId),
+  }));
+}
+
+/**
+ * Drop a terminal the user closed so it isn't restored
+ */
+export function forgetTerminal(sessionId: string, terminalId: string): void {
+  const terminals = loadSavedTerminals(sessionId);
+  if (terminals.some((t) => t.terminalId === terminalId)) {
+    writeSavedTerminals(
+      sessionId,
+      terminals.filter((t) => t.terminalId !== terminalId)
+    );
+  }
+  rmSync(scrollbackPath(sessionId, terminalId), { force: true });
+}
+
+export function deleteTerminalHistory(sessionId: string): void {
+  rmSync(sessionDir(sessionId), { recursive: true, force: true });
+}
@@ -0,0 +1,139 @@
+// @vitest-environment node
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const mocks = vi.hoisted(() => ({
+  terminals: [] as { terminalId: string; name: string }[],
+  output: '',
+  totalOutputLength: 0,
+  writePty: vi.fn(),
+}));
+
+vi.mock('@github/copilot-sdk', () => ({
+  defineTool: (name: string, config: Record<string, unknown>) => ({ name, ...config }),
+}));
+
+vi.mock('./pty', () => ({
+  DEFAULT_TERMINAL_ID: 'main',
+  listPtys: () => mocks.terminals,
+  hasPty: () => true,
+  getPtyOutput: () => ({
+    success: true,
+    output: mocks.output,
+    totalOutputLength: mocks.totalOutputLength,
+  }),
+  writePty: mocks.writePty,
+}));
+
+import { createTerminalTools, outputSince, resolveTerminal } from './terminalTools';
+
+const emit = (data: string) => {
+  mocks.output += data;
+  mocks.totalOutputLength += data.length;
+};
+
+const getTool = (tools: ReturnType<typeof createTerminalTools>, name: string) => {
+  const tool = tools.find((t) => t.name === name)!;
+  return (args: Record<string, unknown>) =>
+    tool.handler(args, { sessionId: 's1', toolCallId: 'call-1', toolName: name, arguments: args });
+};
+
+describe('terminal tool helpers', () => {
+  const terminals = [
+    { terminalId: 'main', name: 'Terminal 1' },
+    { terminalId: 'terminal-2', name: 'dev server' },
+  ];
+
+  it('resolves terminals by id, tab name or the default terminal', () => {
+    expect(resolveTerminal(terminals)?.terminalId).toBe('main');
+    expect(resolveTerminal(terminals, 'terminal-2')?.name).toBe('dev server');
+    expect(resolveTerminal(terminals, 'Dev Server')?.terminalId).toBe('terminal-2');
+    expect(resolveTerminal(terminals, 'logs')).toBeUndefined();
+  });
+
+  it('returns only output that arrived after a mark, even once the buffer was trimmed', () => {
+    expect(outputSince('abcdef', 10, 7)).toBe('def');
+    expect(outputSince('abcdef', 10, 2)).toBe('abcdef');
+    // Terminal restarted since the mark
+    expect(outputSince('abc', 3, 8)).toBe('abc');
+  });
+});
+
+describe('createTerminalTools', () => {
+  beforeEach(() => {
+    mocks.terminals = [{ terminalId: 'main', name: 'Terminal 1' }];
+    mocks.output = '';
+    mocks.totalOutputLength = 0;
+    mocks.writePty.mockReset().mockReturnValue({ success: true });
+  });
+
+  it('reads output with ANSI codes stripped', async () => {
+    emit('\x1b[32mready\x1b[0m on port 3000\r\n');
+    const requestPermission = vi.fn().mockResolvedValue({ kind: 'approved' });
+    const read = getTool(createTerminalTools('s1', requestPermission), 'terminal_read_output');
+
+    const result = await read({});
+
+    expect(result).toContain('ready on port 3000');
+    expect(result).not.toContain('\x1b');
+    expect(requestPermission).toHaveBeenCalledWith(
+      expect.objectContaining({ kind: 'terminal', access: 'read', terminalName: 'Terminal 1' })
+    );
+  });
+
+  it('does not type into the terminal when permission is denied', async () => {
+    const requestPermission = vi.fn().mockResolvedValue({ kind: 'denied-interactively-by-user' });
+    const send = getTool(createTerminalTools('s1', requestPermission), 'terminal_send_input');
+
+    const result = await send({ text: 'npm run dev' });
+
+    expect(result).toEqual({ error: expect.stringContaining('Permission denied') });
+    expect(requestPermission).toHaveBeenCalledWith(
+      expect.objectContaining({ access: 'input', input: 'npm run dev' })
+    );
+    expect(mocks.writePty).not.toHaveBeenCalled();
+  });
+
+  it('sends the submitted line as a command, including text typed before Enter', async () => {
+    const requestPermission = vi.fn().mockResolvedValue({ kind: 'approved' });
+    const send = getTool(createTerminalTools('s1', requestPermission), 'terminal_send_input');
+
+    await send({ text: 'git pu', pressEnter: false });
+    expect(requestPermission.mock.calls[0][0].command).toBeUndefined();
+
+    await send({ text: 'sh --force' });
+    expect(requestPermission.mock.calls[1][0]).toMatchObject({
+      input: 'sh --force',
+      command: 'git push --force',
+    });
+
+    await send({ key: 'ctrl+c' });
+    expect(requestPermission.mock.calls[2][0].command).toBeUndefined();
+  });
+
+  it('waits for a pattern in output since the last input', async () => {
+    const tools = createTerminalTools('s1', vi.fn().mockResolvedValue({ kind: 'approved' }));
+    emit('old run: Compiled successfully\n');
+
+    await getTool(tools, 'terminal_send_input')({ text: 'npm start' });
+    expect(mocks.writePty).toHaveBeenCalledWith('s1', 'npm start\r', 'main');
+
+    setTimeout(() => emit('Starting...\nCompiled successfully in 2s\n'), 300);
+    const wait = getTool(tools, 'terminal_wait_for_pattern');
+    const result = await wait({ pattern: 'compiled successfully', timeoutSeconds: 5 });
+
+    expect(result).toMatch(/^Matched "Compiled successfully"/);
+    expect(result).toContain('Starting...');
+    expect(result).not.toContain('old run');
+  });
+
+  it('times out with the latest output', async () => {
+    emit('still building\n');
+    const tools = createTerminalTools('s1', vi.fn().mockResolvedValue({ kind: 'approved' }));
+
+    const wait = getTool(tools, 'terminal_wait_for_pattern');
+    const result = await wait({ pattern: 'ready', timeoutSeconds: 1 });
+
+    expect(result).toEqual({ error: expect.stringContaining('Timed out after 1s') });
+    expect((result as { error: string }).error).toContain('still building');
+  });
+});
@@ -0,0 +1,297 @@
+/**
+ * Terminal Tools for Copilot SDK
+ *
+ * Lets the agent work with the terminals the user has open in the session's terminal panel:
+ * read their output, type into them and wait for output such as "ready on port 3000" from a dev
+ * server. Every call goes through the permission flow as a `terminal` request. Input that submits
+ * a line carries the line as `command`, which is checked against shell policy rules and the
+ * destructive-command safeguards like a shell command. Input is never covered by "always allow".
+ */
+
+import { z } from 'zod';
+import { defineTool, Tool, type PermissionRequestResult } from '@github/copilot-sdk';
+import { stripAnsiCodes } from '../shared/ansi';
+import { DEFAULT_TERMINAL_ID, getPtyOutput, hasPty, listPtys, writePty, type PtyInfo } from './pty';
+import type { TerminalAccess } from './permissionPolicy';
+
+export interface TerminalPermissionRequest {
+  kind: 'terminal';
+  toolCallId: string;
+  access: TerminalAccess;
+  terminalId: string;
+  terminalName: string;
+  input?: string; // What terminal_send_input will type, shown in the prompt
+  command?: string; // The line the input submits to the terminal's shell
+}
+
+export type TerminalPermissionHandler = (
+  request: TerminalPermissionRequest
+) => Promise<PermissionRequestResult>;
+
+const DEFAULT_READ_LINES = 100;
+const MAX_READ_LINES = 1000;
+const DEFAULT_WAIT_SECONDS = 30;
+const MAX_WAIT_SECONDS = 600;
+const WAIT_POLL_MS = 250;
+// Lines of output returned along with a match or a timeout
+const CONTEXT_LINES = 20;
+
+const KEY_SEQUENCES = {
+  enter: '\r',
+  tab: '\t',
+  escape: '\x1b',
+  up: '\x1b[A',
+  down: '\x1b[B',
+  'ctrl+c': '\x03',
+  'ctrl+d': '\x04',
+  'ctrl+z': '\x1a',
+} as const;
+
+type TerminalKey = keyof typeof KEY_SEQUENCES;
+
+// Output length when the agent last typed into each terminal, keyed by session and terminal
+const inputMarks = new Map<string, number>();
+
+const markKey = (sessionId: string, terminalId: string) => `${sessionId}\0${terminalId}`;
+
+// Text typed without pressing Enter, keyed like inputMarks; it is part of the next submitted line
+const unsubmittedText = new Map<string, string>();
+
+/**
+ * Find a terminal by id or tab name (case-insensitive). Without a name, the session's first
+ * terminal is used.
+ */
+export function resolveTerminal(terminals: PtyInfo[], terminal?: string): PtyInfo | undefined {
+  const wanted = terminal?.trim();
+  if (!wanted) {
+    return terminals.find((t) => t.terminalId === DEFAULT_TERMINAL_ID) || terminals[0];
+  }
+  return (
+    terminals.find((t) => t.terminalId === wanted) ||
+    terminals.find((t) => t.name.toLowerCase() === wanted.toLowerCase())
+  );
+}
+
+/**
+ * Part of the buffered output that arrived after `mark` (a total output length seen earlier).
+ * Falls back to the whole buffer when the terminal was restarted since.
+ */
+export function outputSince(output: string, totalOutputLength: number, mark: number): string {
+  const unseen = totalOutputLength - mark;
+  if (unseen < 0) return output;
+  return output.slice(Math.max(0, output.length - unseen));
+}
+
+export function lastLines(text: string, count: number): { text: string; total: number } {
+  const lines = text.split('\n');
+  return { text: lines.slice(-count).join('\n'), total: lines.length };
+}
+
+const describeInput = (text: string | undefined, key: TerminalKey | undefined): string =>
+  [text, key && `[${key}]`].filter(Boolean).join(' ');
+
+/**
+ * Create terminal tools for a specific Copilot session. requestPermission runs the session's
+ * permission flow; tools only touch a terminal once it approves.
+ */
+export function createTerminalTools(
+  sessionId: string,
+  requestPermission: TerminalPermissionHandler
+): Tool<any>[] {
+  const findTerminal = (terminal?: string): PtyInfo | { error: string } => {
+    const terminals = listPtys(sessionId);
+    if (terminals.length === 0) {
+      return {
+        error:
+          'No terminal is open for this session. Ask the user to open the terminal panel first.',
+      };
+    }
+    const found = resolveTerminal(terminals, terminal);
+    if (!found) {
+      const names = terminals.map((t) => `"${t.name}" (${t.terminalId})`).join(', ');
+      return { error: `No terminal named "${terminal}". Open terminals: ${names}` };
+    }
+    return found;
+  };
+
+  const checkPermission = async (
+    toolCallId: string,
+    terminal: PtyInfo,
+    access: TerminalAccess,
+    input?: string,
+    command?: string
+  ): Promise<{ error: string } | null> => {
+    const result = await requestPermission({
+      kind: 'terminal',
+      toolCallId,
+      access,
+      terminalId: terminal.terminalId,
+      terminalName: terminal.name,
+      ...(input !== undefined && { input }),
+      ...(command !== undefined && { command }),
+    });
+    if (result.kind === 'approved') return null;
+    const action = access === 'input' ? 'type into' : 'read';
+    return { error: `Permission denied: not allowed to ${action} terminal "${terminal.name}".` };
+  };
+
+  const readStripped = (terminalId: string, mark?: number): string | null => {
+    const result = getPtyOutput(sessionId, terminalId);
+    if (!result.success) return null;
+    const output = result.output || '';
+    const unseen =
+      mark === undefined ? output : outputSince(output, result.totalOutputLength ?? 0, mark);
+    return stripAnsiCodes(unseen);
+  };
+
+  const currentLength = (terminalId: string): number =>
+    getPtyOutput(sessionId, terminalId).totalOutputLength ?? 0;
+
+  const terminalParam = z
+    .string()
+    .optional()
+    .describe('Terminal name or id as shown on its tab (defaults to the first terminal)');
+
+  return [
+    defineTool('terminal_read_output', {
+      description:
+        "Read the recent output of one of the user's terminals in the session's terminal panel, with colors and control codes removed. Use this to check on dev servers, watchers or commands the user ran.",
+      parameters: z.object({
+        terminal: terminalParam,
+        lines: z
+          .number()
+          .int()
+          .min(1)
+          .max(MAX_READ_LINES)
+          .optional()
+          .describe(`Number of lines from the end to return (default ${DEFAULT_READ_LINES})`),
+      }),
+      handler: async (args, invocation) => {
+        const terminal = findTerminal(args.terminal);
+        if ('error' in terminal) return terminal;
+        const denied = await checkPermission(invocation.toolCallId, terminal, 'read');
+        if (denied) return denied;
+
+        const output = readStripped(terminal.terminalId);
+        if (output === null) return { error: `Terminal "${terminal.name}" has exited.` };
+        if (!output) return `Terminal "${terminal.name}" has no output yet.`;
+        const { text, total } = lastLines(output, args.lines ?? DEFAULT_READ_LINES);
+        const shown = Math.min(total, args.lines ?? DEFAULT_READ_LINES);
+        return `Terminal "${terminal.name}" (last ${shown} of ${total} lines):\n${text}`;
+      },
+    }),
+
+    defineTool('terminal_send_input', {
+      description:
+        "Type into one of the user's terminals, e.g. to run a command in a shell the user already set up, answer a prompt or stop a process with ctrl+c. The text is followed by Enter unless pressEnter is false. Use terminal_wait_for_pattern or terminal_read_output afterwards to see the result.",
+      parameters: z.object({
+        terminal: terminalParam,
+        text: z.string().optional().describe('Text to type'),
+        pressEnter: z
+          .boolean()
+          .optional()
+          .describe('Press Enter after the text (default true; ignored when key is set)'),
+        key: z
+          .enum(Object.keys(KEY_SEQUENCES) as [TerminalKey, ...TerminalKey[]])
+          .optional()
+          .describe('Special key to press after the text'),
+      }),
+      handler: async (args, invocation) => {
+        if (!args.text && !args.key) return { error: 'Provide text, key or both.' };
+        const terminal = findTerminal(args.terminal);
+        if ('error' in terminal) return terminal;
+        const suffix = args.key
+          ? KEY_SEQUENCES[args.key]
+          : args.pressEnter === false
+            ? ''
+            : KEY_SEQUENCES.enter;
+        const key = markKey(sessionId, terminal.terminalId);
+        const line = `${unsubmittedText.get(key) || ''}${args.text || ''}`;
+        const submits = suffix === KEY_SEQUENCES.enter;
+        const input = describeInput(args.text, args.key);
+        const denied = await checkPermission(
+          invocation.toolCallId,
+          terminal,
+          'input',
+          input,
+          submits && line.trim() ? line : undefined
+        );
+        if (denied) return denied;
+
+        inputMarks.set(key, currentLength(terminal.terminalId));
+        const result = writePty(sessionId, `${args.text || ''}${suffix}`, terminal.terminalId);
+        if (!result.success) return { error: result.error || 'Failed to write to terminal' };
+        // Enter submits the line; ctrl+c and ctrl+d discard it
+        if (submits || args.key === 'ctrl+c' || args.key === 'ctrl+d') {
+          unsubmittedText.delete(key);
+        } else if (line) {
+          unsubmittedText.set(key, line);
+        }
+        return `Sent ${input}${!args.key && suffix ? ' [enter]' : ''} to terminal "${terminal.name}".`;
+      },
+    }),
+
+    defineTool('terminal_wait_for_pattern', {
+      description:
+        "Wait until output matching a regular expression appears in one of the user's terminals, e.g. a dev server's \"ready\" line or a test run's summary. By default it searches output since your last terminal_send_input to that terminal (or all buffered output if you haven't typed into it).",
+      parameters: z.object({
+        terminal: terminalParam,
+        pattern: z.string().describe('Regular expression to look for (case-insensitive)'),
+        timeoutSeconds: z
+          .number()
+          .min(1)
+          .max(MAX_WAIT_SECONDS)
+          .optional()
+          .describe(`How long to wait (default ${DEFAULT_WAIT_SECONDS})`),
+        newOutputOnly: z
+          .boolean()
+          .optional()
+          .describe('Only match output that arrives after this call starts (default false)'),
+      }),
+      handler: async (args, invocation) => {
+        let regex: RegExp;
+        try {
+          regex = new RegExp(args.pattern, 'i');
+        } catch (error) {
+          return {
+            error: `Invalid pattern: ${error instanceof Error ? error.message : String(error)}`,
+          };
+        }
+        const terminal = findTerminal(args.terminal);
+        if ('error' in terminal) return terminal;
+        const denied = await checkPermission(invocation.toolCallId, terminal, 'read');
+        if (denied) return denied;
+
+        const { terminalId, name } = terminal;
+        const mark = args.newOutputOnly
+          ? currentLength(terminalId)
+          : inputMarks.get(markKey(sessionId, terminalId));
+        const timeoutMs = (args.timeoutSeconds ?? DEFAULT_WAIT_SECONDS) * 1000;
+        const startedAt = Date.now();
+
+        while (true) {
+          const output = readStripped(terminalId, mark);
+          if (output === null || !hasPty(sessionId, terminalId)) {
+            return { error: `Terminal "${name}" exited before /${args.pattern}/ appeared.` };
+          }
+          const match = regex.exec(output);
+          if (match) {
+            const seconds = ((Date.now() - startedAt) / 1000).toFixed(1);
+            const context = lastLines(
+              output.slice(0, match.index + match[0].length),
+              CONTEXT_LINES
+            );
+            return `Matched "${match[0]}" in terminal "${name}" after ${seconds}s:\n${context.text}`;
+          }
+          if (Date.now() - startedAt >= timeoutMs) {
+            const tail = lastLines(output, CONTEXT_LINES).text;
+            return {
+              error: `Timed out after ${timeoutMs / 1000}s waiting for /${args.pattern}/ in terminal "${name}". Last output:\n${tail}`,
+            };
+          }
+          await new Promise((resolve) => setTimeout(resolve, WAIT_POLL_MS));
+        }
+      },
+    }),
+  ];
+}
@@ -0,0 +1,149 @@
+// @vitest-environment node
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  buildTranscript,
+  loadTranscript,
+  parseSessionEvents,
+  renderTranscriptHtml,
+  renderTranscriptMarkdown,
+  type SessionEventRecord,
+} from './transcriptExport';
+
+const events: SessionEventRecord[] = [
+  {
+    type: 'session.start',
+    timestamp: '2026-01-01T10:00:00.000Z',
+    data: { selectedModel: 'gpt-5', context: { cwd: '/repo' } },
+  },
+  {
+    type: 'user.message',
+    timestamp: '2026-01-01T10:00:01.000Z',
+    data: { content: 'Fix the <build>', attachments: [] },
+  },
+  { type: 'assistant.message_delta', data: { deltaContent: 'Look' } },
+  {
+    type: 'tool.execution_start',
+    timestamp: '2026-01-01T10:00:02.000Z',
+    data: { toolCallId: 't1', toolName: 'bash', arguments: { command: 'npm test' } },
+  },
+  {
+    type: 'tool.execution_complete',
+    timestamp: '2026-01-01T10:00:03.000Z',
+    data: {
+      toolCallId: 't1',
+      success: true,
+      result: {
+        content: '3 passed',
+        contents: [{ type: 'image', data: 'aW1n', mimeType: 'image/png' }],
+      },
+    },
+  },
+  {
+    type: 'subagent.failed',
+    timestamp: '2026-01-01T10:00:04.000Z',
+    data: { toolCallId: 't2', agentName: 'explore', agentDisplayName: 'Explore', error: 'boom' },
+  },
+  {
+    type: 'session.compaction_complete',
+    timestamp: '2026-01-01T10:00:05.000Z',
+    data: { success: true, summaryContent: 'Earlier work summary', tokensRemoved: 1200 },
+  },
+  {
+    type: 'assistant.message',
+    timestamp: '2026-01-01T10:00:06.000Z',
+    data: { messageId: 'm1', content: 'All green ```now```' },
+  },
+];
+
+describe('transcriptExport', () => {
+  it('merges tool events and keeps subagent and compaction entries', () => {
+    const transcript = buildTranscript(events, { sessionId: 'abc12345xyz', name: 'Build fix' });
+
+    expect(transcript.cwd).toBe('/repo');
+    expect(transcript.model).toBe('gpt-5');
+    expect(transcript.entries.map((entry) => entry.type)).toEqual([
+      'user',
+      'tool',
+      'subagent',
+      'compaction',
+      'assistant',
+    ]);
+    expect(transcript.entries[1]).toMatchObject({
+      toolName: 'bash',
+      input: { command: 'npm test' },
+      success: true,
+      output: '3 passed',
+      images: [{ mimeType: 'image/png', data: 'aW1n' }],
+    });
+    expect(transcript.entries[2]).toMatchObject({ status: 'failed', error: 'boom' });
+  });
+
+  it('renders markdown with tool details, embedded images and safe fences', () => {
+    const markdown = renderTranscriptMarkdown(buildTranscript(events, { sessionId: 'abc12345' }));
+
+    expect(markdown).toContain('<summary>Tool: bash (succeeded)</summary>');
+    expect(markdown).toContain('"command": "npm test"');
+    expect(markdown).toContain('![tool output](data:image/png;base64,aW1n)');
+    expect(markdown).toContain('**Subagent Explore** failed: boom');
+    expect(markdown).toContain('Context compacted (1,200 tokens removed)');
+    expect(markdown).toContain('All green ```now```');
+  });
+
+  it('escapes message content in HTML', () => {
+    const html = renderTranscriptHtml(buildTranscript(events, { sessionId: 'abc12345' }));
+
+    expect(html).toContain('Fix the &lt;build&gt;');
+    expect(html).not.toContain('Fix the <build>');
+    expect(html).toContain('<img src="data:image/png;base64,aW1n"');
+  });
+
+  it('skips malformed lines when parsing events.jsonl', () => {
+    const parsed = parseSessionEvents('{"type":"session.idle"}\n{"type":"user.me\n\n');
+    expect(parsed).toEqual([{ type: 'session.idle' }]);
+  });
+
+  describe('loadTranscript', () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = mkdtempSync(join(tmpdir(), 'transcript-export-'));
+    });
+
+    afterEach(() => {
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('embeds image attachments and keeps raw events when requested', async () => {
+      const imagePath = join(dir, 'screenshot.png');
+      writeFileSync(imagePath, Buffer.from('png-bytes'));
+      const eventsPath = join(dir, 'events.jsonl');
+      const userMessage = {
+        type: 'user.message',
+        data: {
+          content: 'What is this?',
+          attachments: [{ type: 'file', path: imagePath, displayName: 'screenshot.png' }],
+        },
+      };
+      writeFileSync(eventsPath, JSON.stringify(userMessage) + '\n');
+
+      const transcript = await loadTranscript(
+        eventsPath,
+        { sessionId: 's1' },
+        { includeEvents: true }
+      );
+
+      expect(transcript.entries[0]).toMatchObject({
+        attachments: [
+          {
+            displayName: 'screenshot.png',
+            image: { mimeType: 'image/png', data: Buffer.from('png-bytes').toString('base64') },
+          },
+        ],
+      });
+      expect(transcript.events).toEqual([userMessage]);
+    });
+  });
+});
@@ -0,0 +1,558 @@
+/**
+ * Transcript Export
+ *
+ * Turns a session's events.jsonl into a readable transcript. Markdown and HTML exports are
+ * self-contained (images are embedded as data URIs); the JSON export also carries the raw
+ * SDK events so nothing from the session is lost.
+ */
+
+import { existsSync } from 'fs';
+import { readFile, stat } from 'fs/promises';
+import { extname } from 'path';
+
+export type TranscriptFormat = 'markdown' | 'html' | 'json';
+
+export interface TranscriptImage {
+  mimeType: string;
+  data: string; // Base64
+  name?: string;
+}
+
+export interface TranscriptAttachment {
+  type: 'file' | 'directory' | 'selection';
+  path: string;
+  displayName: string;
+  text?: string; // Selected text for selection attachments
+  image?: TranscriptImage; // Embedded contents for image files
+}
+
+export type TranscriptEntry =
+  | {
+      type: 'user';
+      timestamp: string;
+      content: string;
+      attachments: TranscriptAttachment[];
+    }
+  | {
+      type: 'assistant';
+      timestamp: string;
+      content: string;
+      parentToolCallId?: string; // Set when a subagent produced the message
+    }
+  | {
+      type: 'tool';
+      timestamp: string;
+      toolCallId: string;
+      toolName: string;
+      input?: unknown;
+      success?: boolean; // Undefined while the tool never completed
+      output?: string;
+      error?: string;
+      images: TranscriptImage[];
+      parentToolCallId?: string;
+    }
+  | {
+      type: 'subagent';
+      timestamp: string;
+      toolCallId: string;
+      agentName: string;
+      status: 'started' | 'completed' | 'failed';
+      description?: string;
+      error?: string;
+    }
+  | {
+      type: 'compaction';
+      timestamp: string;
+      summary: string;
+      tokensRemoved?: number;
+      preCompactionTokens?: number;
+      postCompactionTokens?: number;
+    }
+  | {
+      type: 'error';
+      timestamp: string;
+      message: string;
+    };
+
+// Session metadata carried along so an import can restore the tab as it was
+export interface TranscriptSessionState {
+  editedFiles?: string[];
+  alwaysAllowed?: string[];
+  sourceIssue?: { url: string; number: number; owner: string; repo: string };
+  markedForReview?: boolean;
+  reviewNote?: string;
+}
+
+export interface TranscriptMeta {
+  sessionId: string;
+  name?: string;
+  cwd?: string;
+  model?: string;
+  session?: TranscriptSessionState;
+}
+
+export interface Transcript extends TranscriptMeta {
+  version: 1;
+  exportedAt: string;
+  entries: TranscriptEntry[];
+  events?: SessionEventRecord[]; // Raw SDK events, only kept in JSON exports
+}
+
+export interface SessionEventRecord {
+  id?: string;
+  timestamp?: string;
+  parentId?: string | null;
+  type: string;
+  data?: Record<string, unknown>;
+}
+
+// Attached images larger than this are listed but not embedded
+const MAX_EMBEDDED_IMAGE_BYTES = 10 * 1024 * 1024;
+
+const IMAGE_MIME_TYPES: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.bmp': 'image/bmp',
+  '.svg': 'image/svg+xml',
+};
+
+export function parseSessionEvents(content: string): SessionEventRecord[] {
+  const events: SessionEventRecord[] = [];
+  for (const line of content.split('\n')) {
+    if (!line.trim()) continue;
+    try {
+      events.push(JSON.parse(line));
+    } catch {
+      // Skip lines truncated by a crash mid-write
+    }
+  }
+  return events;
+}
+
+const asString = (value: unknown): string | undefined =>
+  typeof value === 'string' ? value : undefined;
+const asNumber = (value: unknown): number | undefined =>
+  typeof value === 'number' ? value : undefined;
+
+function toolResultImages(result: Record<string, unknown> | undefined): TranscriptImage[] {
+  const contents = Array.isArray(result?.contents) ? result.contents : [];
+  return contents
+    .filter(
+      (item): item is { type: 'image'; data: string; mimeType: string } =>
+        item?.type === 'image' && typeof item.data === 'string'
+    )
+    .map((item) => ({ mimeType: item.mimeType || 'image/png', data: item.data }));
+}
+
+/**
+ * Build a transcript from session events. Tool start/complete pairs are merged into a single
+ * entry; streaming deltas and other ephemeral events are dropped.
+ */
+export function buildTranscript(events: SessionEventRecord[], meta: TranscriptMeta): Transcript {
+  const entries: TranscriptEntry[] = [];
+  const toolEntries = new Map<string, Extract<TranscriptEntry, { type: 'tool' }>>();
+  let cwd = meta.cwd;
+  let model = meta.model;
+
+  for (const event of events) {
+    const data = event.data || {};
+    const timestamp = event.timestamp || '';
+    switch (event.type) {
+      case 'session.start': {
+        const context = data.context as { cwd?: string } | undefined;
+        cwd = cwd || context?.cwd;
+        model = model || asString(data.selectedModel);
+        break;
+      }
+      case 'session.model_change':
+        if (!meta.model) model = asString(data.newModel) || model;
+        break;
+      case 'user.message': {
+        const attachments = Array.isArray(data.attachments) ? data.attachments : [];
+        entries.push({
+          type: 'user',
+          timestamp,
+          content: asString(data.content) || '',
+          attachments: attachments.map((attachment: Record<string, unknown>) => ({
+            type: attachment.type as TranscriptAttachment['type'],
+            path: asString(attachment.path) || asString(attachment.filePath) || '',
+            displayName: asString(attachment.displayName) || '',
+            text: asString(attachment.text),
+          })),
+        });
+        break;
+      }
+      case 'assistant.message': {
+        const content = asString(data.content) || '';
+        // Tool-only turns have no text of their own; the tool entries cover them
+        if (!content.trim()) break;
+        entries.push({
+          type: 'assistant',
+          timestamp,
+          content,
+          parentToolCallId: asString(data.parentToolCallId),
+        });
+        break;
+      }
+      case 'tool.execution_start': {
+        const toolCallId = asString(data.toolCallId) || '';
+        const entry: Extract<TranscriptEntry, { type: 'tool' }> = {
+          type: 'tool',
+          timestamp,
+          toolCallId,
+          toolName: asString(data.toolName) || 'unknown',
+          input: data.arguments,
+          images: [],
+          parentToolCallId: asString(data.parentToolCallId),
+        };
+        toolEntries.set(toolCallId, entry);
+        entries.push(entry);
+        break;
+      }
+      case 'tool.execution_complete': {
+        const toolCallId = asString(data.toolCallId) || '';
+        let entry = toolEntries.get(toolCallId);
+        if (!entry) {
+          // The start event can be lost to compaction; keep the result anyway
+          entry = { type: 'tool', timestamp, toolCallId, toolName: 'unknown', images: [] };
+          toolEntries.set(toolCallId, entry);
+          entries.push(entry);
+        }
+        const result = data.result as Record<string, unknown> | undefined;
+        entry.success = data.success === true;
+        entry.output = asString(result?.detailedContent) || asString(result?.content);
+        entry.error = asString((data.error as { message?: unknown } | undefined)?.message);
+        entry.images = toolResultImages(result);
+        break;
+      }
+      case 'subagent.started':
+      case 'subagent.completed':
+      case 'subagent.failed':
+        entries.push({
+          type: 'subagent',
+          timestamp,
+          toolCallId: asString(data.toolCallId) || '',
+          agentName: asString(data.agentDisplayName) || asString(data.agentName) || 'subagent',
+          status: event.type.slice('subagent.'.length) as 'started' | 'completed' | 'failed',
+          description: asString(data.agentDescription),
+          error: asString(data.error),
+        });
+        break;
+      case 'session.compaction_complete':
+        if (data.success !== true) break;
+        entries.push({
+          type: 'compaction',
+          timestamp,
+          summary: asString(data.summaryContent) || '',
+          tokensRemoved: asNumber(data.tokensRemoved),
+          preCompactionTokens: asNumber(data.preCompactionTokens),
+          postCompactionTokens: asNumber(data.postCompactionTokens),
+        });
+        break;
+      case 'session.error':
+        entries.push({ type: 'error', timestamp, message: asString(data.message) || '' });
+        break;
+    }
+  }
+
+  return {
+    version: 1,
+    sessionId: meta.sessionId,
+    name: meta.name,
+    cwd,
+    model,
+    session: meta.session,
+    exportedAt: new Date().toISOString(),
+    entries,
+  };
+}
+
+/**
+ * Read image attachments from disk and embed them in the transcript, so the export still
+ * shows them after the temp images are cleaned up.
+ */
+export async function embedAttachmentImages(transcript: Transcript): Promise<void> {
+  for (const entry of transcript.entries) {
+    if (entry.type !== 'user') continue;
+    for (const attachment of entry.attachments) {
+      const mimeType = IMAGE_MIME_TYPES[extname(attachment.path).toLowerCase()];
+      if (attachment.type !== 'file' || !mimeType || !existsSync(attachment.path)) continue;
+      try {
+        if ((await stat(attachment.path)).size > MAX_EMBEDDED_IMAGE_BYTES) continue;
+        const data = (await readFile(attachment.path)).toString('base64');
+        attachment.image = { mimeType, data, name: attachment.displayName };
+      } catch {
+        // Leave the attachment as a path reference
+      }
+    }
+  }
+}
+
+export async function loadTranscript(
+  eventsPath: string,
+  meta: TranscriptMeta,
+  options: { includeEvents?: boolean } = {}
+): Promise<Transcript> {
+  const events = parseSessionEvents(await readFile(eventsPath, 'utf-8'));
+  const transcript = buildTranscript(events, meta);
+  await embedAttachmentImages(transcript);
+  if (options.includeEvents) transcript.events = events;
+  return transcript;
+}
+
+// Fence code with more backticks than the content contains
+function fence(text: string, language = ''): string {
+  const longestRun = Math.max(0, ...(text.match(/`+/g) || []).map((run) => run.length));
+  const ticks = '`'.repeat(Math.max(3, longestRun + 1));
+  return `${ticks}${language}\n${text}\n${ticks}`;
+}
+
+function formatInput(input: unknown): string {
+  return typeof input === 'string' ? input : JSON.stringify(input, null, 2);
+}
+
+const dataUri = (image: TranscriptImage): string => `data:${image.mimeType};base64,${image.data}`;
+
+function transcriptTitle(transcript: Transcript): string {
+  return transcript.name || `Session ${transcript.sessionId.slice(0, 8)}`;
+}
+
+function formatTimestamp(timestamp: string): string {
+  const date = new Date(timestamp);
+  return isNaN(date.getTime()) ? '' : date.toLocaleString();
+}
+
+function formatTokenChange(entry: Extract<TranscriptEntry, { type: 'compaction' }>): string {
+  if (entry.preCompactionTokens !== undefined && entry.postCompactionTokens !== undefined) {
+    return `${entry.preCompactionTokens.toLocaleString()} → ${entry.postCompactionTokens.toLocaleString()} tokens`;
+  }
+  return entry.tokensRemoved !== undefined
+    ? `${entry.tokensRemoved.toLocaleString()} tokens removed`
+    : '';
+}
+
+function toolStatus(entry: Extract<TranscriptEntry, { type: 'tool' }>): string {
+  if (entry.success === undefined) return 'no result';
+  return entry.success ? 'succeeded' : 'failed';
+}
+
+export function renderTranscriptMarkdown(transcript: Transcript): string {
+  const lines: string[] = [`# ${transcriptTitle(transcript)}`, ''];
+  lines.push(`- **Session:** \`${transcript.sessionId}\``);
+  if (transcript.cwd) lines.push(`- **Directory:** \`${transcript.cwd}\``);
+  if (transcript.model) lines.push(`- **Model:** ${transcript.model}`);
+  lines.push(`- **Exported:** ${formatTimestamp(transcript.exportedAt)}`, '');
+
+  for (const entry of transcript.entries) {
+    const time = formatTimestamp(entry.timestamp);
+    switch (entry.type) {
+      case 'user':
+        lines.push('---', '', `### User${time ? ` · ${time}` : ''}`, '', entry.content, '');
+        for (const attachment of entry.attachments) {
+          if (attachment.image) {
+            lines.push(`![${attachment.displayName}](${dataUri(attachment.image)})`, '');
+          } else if (attachment.type === 'selection' && attachment.text) {
+            lines.push(`**${attachment.displayName}**`, '', fence(attachment.text), '');
+          } else {
+            lines.push(`- Attached ${attachment.type}: \`${attachment.path}\``);
+          }
+        }
+        break;
+      case 'assistant':
+        lines.push(
+          `### ${entry.parentToolCallId ? 'Subagent' : 'Assistant'}${time ? ` · ${time}` : ''}`,
+          '',
+          entry.content,
+          ''
+        );
+        break;
+      case 'tool':
+        lines.push(
+          '<details>',
+          `<summary>Tool: ${entry.toolName} (${toolStatus(entry)})</summary>`,
+          ''
+        );
+        if (entry.input !== undefined) {
+          lines.push('**Input**', '', fence(formatInput(entry.input), 'json'), '');
+        }
+        if (entry.output) lines.push('**Output**', '', fence(entry.output), '');
+        if (entry.error) lines.push('**Error**', '', fence(entry.error), '');
+        for (const image of entry.images) lines.push(`![tool output](${dataUri(image)})`, '');
+        lines.push('</details>', '');
+        break;
+      case 'subagent':
+        lines.push(
+          `> **Subagent ${entry.agentName}** ${entry.status}` +
+            (entry.description ? ` — ${entry.description}` : '') +
+            (entry.error ? `: ${entry.error}` : ''),
+          ''
+        );
+        break;
+      case 'compaction': {
+        const tokens = formatTokenChange(entry);
+        lines.push(
+          '<details>',
+          `<summary>Context compacted${tokens ? ` (${tokens})` : ''}</summary>`,
+          '',
+          entry.summary,
+          '',
+          '</details>',
+          ''
+        );
+        break;
+      }
+      case 'error':
+        lines.push(`> **Error:** ${entry.message}`, '');
+        break;
+    }
+  }
+
+  return lines.join('\n');
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+const HTML_STYLES = `
+body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif; max-width: 920px; margin: 2rem auto; padding: 0 1rem; color: #1f2328; background: #fff; line-height: 1.5; }
+header { border-bottom: 1px solid #d1d9e0; margin-bottom: 1.5rem; }
+header dl { display: grid; grid-template-columns: max-content 1fr; gap: 0.25rem 1rem; font-size: 0.85rem; }
+header dt { color: #59636e; }
+.message { border: 1px solid #d1d9e0; border-radius: 8px; padding: 0.75rem 1rem; margin: 1rem 0; }
+.message.user { background: #f6f8fa; }
+.role { font-size: 0.75rem; font-weight: 600; color: #59636e; text-transform: uppercase; margin-bottom: 0.25rem; }
+.role time { font-weight: normal; text-transform: none; margin-left: 0.5rem; }
+.content { white-space: pre-wrap; word-wrap: break-word; }
+pre { background: #f6f8fa; border-radius: 6px; padding: 0.5rem 0.75rem; overflow-x: auto; font-size: 0.8rem; white-space: pre-wrap; word-wrap: break-word; }
+details { border-left: 3px solid #d1d9e0; padding-left: 0.75rem; margin: 0.5rem 0; }
+details.failed { border-left-color: #cf222e; }
+summary { cursor: pointer; font-size: 0.85rem; color: #59636e; }
+img { max-width: 100%; border: 1px solid #d1d9e0; border-radius: 6px; margin: 0.5rem 0; }
+.note { font-size: 0.85rem; color: #59636e; margin: 0.5rem 0; }
+.error { color: #cf222e; }
+`;
+
+export function renderTranscriptHtml(transcript: Transcript): string {
+  const title = escapeHtml(transcriptTitle(transcript));
+  const body: string[] = [];
+  const timeTag = (timestamp: string) => {
+    const time = formatTimestamp(timestamp);
+    return time ? `<time datetime="${escapeHtml(timestamp)}">${escapeHtml(time)}</time>` : '';
+  };
+  const image = (img: TranscriptImage, alt: string) =>
+    `<img src="${dataUri(img)}" alt="${escapeHtml(alt)}">`;
+
+  for (const entry of transcript.entries) {
+    switch (entry.type) {
+      case 'user': {
+        const attachments = entry.attachments.map((attachment) => {
+          if (attachment.image) return image(attachment.image, attachment.displayName);
+          if (attachment.type === 'selection' && attachment.text) {
+            return `<div class="note">${escapeHtml(attachment.displayName)}</div><pre>${escapeHtml(attachment.text)}</pre>`;
+          }
+          return `<div class="note">Attached ${attachment.type}: <code>${escapeHtml(attachment.path)}</code></div>`;
+        });
+        body.push(
+          `<section class="message user"><div class="role">User${timeTag(entry.timestamp)}</div>` +
+            `<div class="content">${escapeHtml(entry.content)}</div>${attachments.join('')}</section>`
+        );
+        break;
+      }
+      case 'assistant':
+        body.push(
+          `<section class="message assistant"><div class="role">${entry.parentToolCallId ? 'Subagent' : 'Assistant'}${timeTag(entry.timestamp)}</div>` +
+            `<div class="content">${escapeHtml(entry.content)}</div></section>`
+        );
+        break;
+      case 'tool': {
+        const parts = [
+          `<summary>Tool: ${escapeHtml(entry.toolName)} (${toolStatus(entry)})</summary>`,
+        ];
+        if (entry.input !== undefined) {
+          parts.push(
+            `<div class="note">Input</div><pre>${escapeHtml(formatInput(entry.input))}</pre>`
+          );
+        }
+        if (entry.output) {
+          parts.push(`<div class="note">Output</div><pre>${escapeHtml(entry.output)}</pre>`);
+        }
+        if (entry.error) {
+          parts.push(`<div class="note error">Error</div><pre>${escapeHtml(entry.error)}</pre>`);
+        }
+        parts.push(...entry.images.map((img) => image(img, 'tool output')));
+        body.push(
+          `<details class="tool${entry.success === false ? ' failed' : ''}">${parts.join('')}</details>`
+        );
+        break;
+      }
+      case 'subagent':
+        body.push(
+          `<div class="note${entry.status === 'failed' ? ' error' : ''}">Subagent <strong>${escapeHtml(entry.agentName)}</strong> ${entry.status}` +
+            (entry.description ? ` — ${escapeHtml(entry.description)}` : '') +
+            (entry.error ? `: ${escapeHtml(entry.error)}` : '') +
+            '</div>'
+        );
+        break;
+      case 'compaction': {
+        const tokens = formatTokenChange(entry);
+        body.push(
+          `<details class="compaction"><summary>Context compacted${tokens ? ` (${escapeHtml(tokens)})` : ''}</summary>` +
+            `<div class="content">${escapeHtml(entry.summary)}</div></details>`
+        );
+        break;
+      }
+      case 'error':
+        body.push(`<div class="note error">Error: ${escapeHtml(entry.message)}</div>`);
+        break;
+    }
+  }
+
+  const meta = [
+    ['Session', transcript.sessionId],
+    ['Directory', transcript.cwd],
+    ['Model', transcript.model],
+    ['Exported', formatTimestamp(transcript.exportedAt)],
+  ]
+    .filter(([, value]) => value)
+    .map(([label, value]) => `<dt>${label}</dt><dd>${escapeHtml(value!)}</dd>`)
+    .join('');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${title}</title>
+<style>${HTML_STYLES}</style>
+</head>
+<body>
+<header><h1>${title}</h1><dl>${meta}</dl></header>
+${body.join('\n')}
+</body>
+</html>
+`;
+}
+
+export function renderTranscript(transcript: Transcript, format: TranscriptFormat): string {
+  switch (format) {
+    case 'markdown':
+      return renderTranscriptMarkdown(transcript);
+    case 'html':
+      return renderTranscriptHtml(transcript);
+    case 'json':
+      return JSON.stringify(transcript, null, 2);
+  }
+}
+
+export const TRANSCRIPT_FILE_EXTENSIONS: Record<TranscriptFormat, string> = {
+  markdown: 'md',
+  html: 'html',
+  json: 'json',
+};
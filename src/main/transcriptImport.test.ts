@@ -0,0 +1,94 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest';
+import type { Transcript } from './transcriptExport';
+import {
+  buildImportContext,
+  getTranscriptMessages,
+  parseTranscriptFile,
+  remapSessionState,
+} from './transcriptImport';
+
+const transcript: Transcript = {
+  version: 1,
+  sessionId: 'old-session',
+  name: 'Fix login',
+  cwd: '/home/alice/app',
+  model: 'gpt-5',
+  exportedAt: '2026-01-01T10:00:00.000Z',
+  session: {
+    editedFiles: ['/home/alice/app/src/login.ts', '/etc/hosts'],
+    alwaysAllowed: ['git', 'write:/home/alice/app/src'],
+    markedForReview: true,
+    reviewNote: 'Check the redirect',
+  },
+  entries: [
+    { type: 'user', timestamp: '', content: 'Start over', attachments: [] },
+    { type: 'compaction', timestamp: '', summary: 'Investigated the auth flow' },
+    { type: 'user', timestamp: '', content: 'Fix the redirect', attachments: [] },
+    {
+      type: 'tool',
+      timestamp: '',
+      toolCallId: 't1',
+      toolName: 'bash',
+      input: { command: 'npm test' },
+      success: false,
+      images: [],
+    },
+    { type: 'assistant', timestamp: '', content: 'Found it', parentToolCallId: 't2' },
+    { type: 'assistant', timestamp: '', content: 'Redirect fixed' },
+  ],
+};
+
+describe('transcriptImport', () => {
+  it('rejects files that are not exported transcripts', () => {
+    expect(() => parseTranscriptFile('not json')).toThrow('not valid JSON');
+    expect(() => parseTranscriptFile('{"version":2}')).toThrow('not an exported session');
+    expect(parseTranscriptFile(JSON.stringify(transcript)).sessionId).toBe('old-session');
+  });
+
+  it('summarizes the conversation since the last compaction', () => {
+    const context = buildImportContext(transcript, '/work/app');
+
+    expect(context).toContain('("Fix login"), originally run in `/home/alice/app`');
+    expect(context).toContain('The working directory is now `/work/app`');
+    expect(context).toContain('Investigated the auth flow');
+    expect(context).toContain('**User:** Fix the redirect');
+    expect(context).toContain('- Tool `bash` `npm test` → failed');
+    expect(context).toContain('**Assistant:** Redirect fixed');
+    expect(context).not.toContain('Start over');
+  });
+
+  it('keeps the newest entries when the conversation is too long', () => {
+    const long: Transcript = {
+      ...transcript,
+      entries: Array.from({ length: 40 }, (_, i) => ({
+        type: 'user' as const,
+        timestamp: '',
+        content: `message ${i} ${'x'.repeat(1500)}`,
+        attachments: [],
+      })),
+    };
+    const context = buildImportContext(long, '/work/app');
+
+    expect(context.length).toBeLessThanOrEqual(24000);
+    expect(context).toContain('message 39');
+    expect(context).not.toContain('message 0 ');
+    expect(context).toMatch(/\(\d+ earlier entries omitted\)/);
+  });
+
+  it('remaps paths inside the original working directory', () => {
+    const state = remapSessionState(transcript.session, transcript.cwd, '/work/app');
+
+    expect(state.editedFiles).toEqual(['/work/app/src/login.ts', '/etc/hosts']);
+    expect(state.alwaysAllowed).toEqual(['git', 'write:/work/app/src']);
+    expect(state).toMatchObject({ markedForReview: true, reviewNote: 'Check the redirect' });
+  });
+
+  it('returns top-level user and assistant messages for the new tab', () => {
+    expect(getTranscriptMessages(transcript)).toEqual([
+      { role: 'user', content: 'Start over' },
+      { role: 'user', content: 'Fix the redirect' },
+      { role: 'assistant', content: 'Redirect fixed' },
+    ]);
+  });
+});
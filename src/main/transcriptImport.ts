@@ -0,0 +1,173 @@
+/**
+ * Transcript Import
+ *
+ * Recreates a session from a JSON transcript exported by transcriptExport. The SDK cannot
+ * replay another machine's conversation, so the new session is seeded with a summarized
+ * system context instead, and the stored tab metadata is restored with paths remapped to
+ * the chosen working directory. Permission approvals in the file are not granted on import.
+ */
+
+import { isAbsolute, join, relative } from 'path';
+import type { Transcript, TranscriptEntry, TranscriptSessionState } from './transcriptExport';
+
+// Upper bound for the seeded context; older conversation entries are dropped first
+const MAX_CONTEXT_CHARS = 24000;
+// Individual messages and tool outputs are clipped to this many characters
+const MAX_ENTRY_CHARS = 2000;
+
+export function parseTranscriptFile(content: string): Transcript {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch {
+    throw new Error('File is not valid JSON');
+  }
+  const transcript = parsed as Partial<Transcript> | null;
+  if (
+    !transcript ||
+    transcript.version !== 1 ||
+    typeof transcript.sessionId !== 'string' ||
+    !Array.isArray(transcript.entries)
+  ) {
+    throw new Error('File is not an exported session transcript');
+  }
+  return transcript as Transcript;
+}
+
+function clip(text: string, max = MAX_ENTRY_CHARS): string {
+  const trimmed = text.trim();
+  return trimmed.length > max ? `${trimmed.slice(0, max)}… [truncated]` : trimmed;
+}
+
+function summarizeToolInput(input: unknown): string {
+  if (input === undefined) return '';
+  const record = (input && typeof input === 'object' ? input : {}) as Record<string, unknown>;
+  const primary = record.command ?? record.path ?? record.url ?? record.query;
+  const text = typeof primary === 'string' ? primary : JSON.stringify(input);
+  return clip(text, 200);
+}
+
+function describeEntry(entry: TranscriptEntry): string | null {
+  switch (entry.type) {
+    case 'user': {
+      const attached = entry.attachments.map((a) => a.displayName || a.path).filter(Boolean);
+      return (
+        `**User:** ${clip(entry.content)}` +
+        (attached.length ? `\n(Attached: ${attached.join(', ')})` : '')
+      );
+    }
+    case 'assistant':
+      return `**${entry.parentToolCallId ? 'Subagent' : 'Assistant'}:** ${clip(entry.content)}`;
+    case 'tool': {
+      const status = entry.success === undefined ? 'no result' : entry.success ? 'ok' : 'failed';
+      const input = summarizeToolInput(entry.input);
+      return `- Tool \`${entry.toolName}\`${input ? ` \`${input}\`` : ''} → ${status}`;
+    }
+    case 'subagent':
+      return entry.status === 'started'
+        ? null
+        : `- Subagent ${entry.agentName} ${entry.status}${entry.error ? `: ${entry.error}` : ''}`;
+    case 'error':
+      return `- Error: ${clip(entry.message, 300)}`;
+    case 'compaction':
+      return null;
+  }
+}
+
+/**
+ * Build the system context that stands in for the original conversation: the latest
+ * compaction summary (which already covers everything before it) followed by the entries
+ * since then, newest kept when the budget runs out. `intro` goes first and explains where
+ * the conversation came from.
+ */
+export function buildSeedContext(transcript: Transcript, intro: string[]): string {
+  let lastCompaction = -1;
+  transcript.entries.forEach((entry, index) => {
+    if (entry.type === 'compaction' && entry.summary) lastCompaction = index;
+  });
+  const summary =
+    lastCompaction >= 0
+      ? (transcript.entries[lastCompaction] as Extract<TranscriptEntry, { type: 'compaction' }>)
+          .summary
+      : '';
+
+  const lines = transcript.entries
+    .slice(lastCompaction + 1)
+    .map(describeEntry)
+    .filter((line): line is string => line !== null);
+
+  const header = [...intro];
+  const editedFiles = transcript.session?.editedFiles || [];
+  if (editedFiles.length > 0) {
+    header.push('', '### Files edited so far', ...editedFiles.map((file) => `- ${file}`));
+  }
+  if (summary) {
+    header.push('', '### Summary of earlier work', clip(summary, MAX_CONTEXT_CHARS / 2));
+  }
+
+  const budget = MAX_CONTEXT_CHARS - header.join('\n').length;
+  const kept: string[] = [];
+  let used = 0;
+  for (let i = lines.length - 1; i >= 0; i--) {
+    used += lines[i].length + 1;
+    if (used > budget) break;
+    kept.unshift(lines[i]);
+  }
+
+  const conversation = ['', '### Conversation'];
+  if (kept.length < lines.length) {
+    conversation.push(`(${lines.length - kept.length} earlier entries omitted)`);
+  }
+  return [...header, ...(kept.length ? [...conversation, ...kept] : [])].join('\n');
+}
+
+export function buildImportContext(transcript: Transcript, cwd: string): string {
+  return buildSeedContext(transcript, [
+    '## Imported Session',
+    '',
+    `This session continues work handed off from an earlier session` +
+      (transcript.name ? ` ("${transcript.name}")` : '') +
+      (transcript.cwd ? `, originally run in \`${transcript.cwd}\`` : '') +
+      `. The working directory is now \`${cwd}\`. The earlier conversation could not be ` +
+      'replayed, so it is summarized below. Treat it as background: re-read files before ' +
+      'relying on their contents, and wait for the next user message before acting.',
+  ]);
+}
+
+// Move a path from the exported working directory into the new one when it was inside it
+export function remapPath(filePath: string, fromCwd: string | undefined, toCwd: string): string {
+  if (!fromCwd || !isAbsolute(filePath)) return filePath;
+  const rel = relative(fromCwd, filePath);
+  if (rel.startsWith('..') || isAbsolute(rel)) return filePath;
+  return rel ? join(toCwd, rel) : toCwd;
+}
+
+export function remapSessionState(
+  state: TranscriptSessionState | undefined,
+  fromCwd: string | undefined,
+  toCwd: string
+): TranscriptSessionState {
+  return {
+    ...state,
+    editedFiles: state?.editedFiles?.map((file) => remapPath(file, fromCwd, toCwd)),
+    // Folder-scoped write approvals are stored as `write:<path>`
+    alwaysAllowed: state?.alwaysAllowed?.map((id) =>
+      id.startsWith('write:') ? `write:${remapPath(id.slice(6), fromCwd, toCwd)}` : id
+    ),
+  };
+}
+
+// User and assistant messages to show in the new tab
+export function getTranscriptMessages(
+  transcript: Transcript
+): { role: 'user' | 'assistant'; content: string }[] {
+  const messages: { role: 'user' | 'assistant'; content: string }[] = [];
+  for (const entry of transcript.entries) {
+    if (entry.type === 'user') messages.push({ role: 'user', content: entry.content });
+    // Subagent messages were never shown in the original tab either
+    if (entry.type === 'assistant' && !entry.parentToolCallId) {
+      messages.push({ role: 'assistant', content: entry.content });
+    }
+  }
+  return messages;
+}
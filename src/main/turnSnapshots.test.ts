@@ -0,0 +1,118 @@
+// @vitest-environment node
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  existsSync,
+  mkdirSync,
+  mkdtempSync,
+  readdirSync,
+  readFileSync,
+  rmSync,
+  writeFileSync,
+} from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+const paths = vi.hoisted(() => ({ userData: '' }));
+
+vi.mock('electron', () => ({
+  app: {
+    getPath: vi.fn(() => paths.userData),
+  },
+}));
+
+import {
+  beginTurnSnapshot,
+  captureTurnFiles,
+  deleteTurnSnapshots,
+  getTurnSnapshotsDir,
+  listTurnSnapshots,
+  revertTurnSnapshot,
+} from './turnSnapshots';
+
+describe('turnSnapshots', () => {
+  let root: string;
+  let workspace: string;
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), 'turn-snapshots-'));
+    paths.userData = join(root, 'userData');
+    workspace = join(root, 'workspace');
+    mkdirSync(join(workspace, 'src'), { recursive: true });
+    writeFileSync(join(workspace, 'src', 'index.ts'), 'original');
+    writeFileSync(join(workspace, 'notes.md'), 'keep me');
+  });
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it('restores modified and deleted files and removes created ones', async () => {
+    const turnId = beginTurnSnapshot('session-a', workspace);
+    const indexPath = join(workspace, 'src', 'index.ts');
+    const notesPath = join(workspace, 'notes.md');
+    const newPath = join(workspace, 'src', 'new.ts');
+
+    await captureTurnFiles('session-a', [indexPath, newPath]);
+    await captureTurnFiles('session-a', [notesPath]);
+    writeFileSync(indexPath, 'first edit');
+    writeFileSync(newPath, 'created');
+    rmSync(notesPath);
+
+    // A second capture of the same path keeps the pre-turn contents
+    await captureTurnFiles('session-a', [indexPath]);
+    writeFileSync(indexPath, 'second edit');
+
+    const result = await revertTurnSnapshot('session-a', turnId);
+
+    expect(result.failed).toEqual([]);
+    expect(result.partial).toBe(false);
+    expect(result.removed).toEqual([newPath]);
+    expect(readFileSync(indexPath, 'utf-8')).toBe('original');
+    expect(readFileSync(notesPath, 'utf-8')).toBe('keep me');
+    expect(existsSync(newPath)).toBe(false);
+    expect((await listTurnSnapshots('session-a'))[0].revertedAt).toBeDefined();
+  });
+
+  it('reports turns whose deletions were only partly captured', async () => {
+    const turnId = beginTurnSnapshot('session-d', workspace);
+    const notesPath = join(workspace, 'notes.md');
+    await captureTurnFiles('session-d', [notesPath], { partial: true });
+    rmSync(notesPath);
+
+    const result = await revertTurnSnapshot('session-d', turnId);
+    expect(result.restored).toEqual([notesPath]);
+    expect(result.partial).toBe(true);
+  });
+
+  it('stops a large capture at its file cap and marks the turn partial', async () => {
+    beginTurnSnapshot('session-e', workspace);
+    mkdirSync(join(workspace, 'many'));
+    const manyPaths = Array.from({ length: 2001 }, (_, i) => {
+      const filePath = join(workspace, 'many', `${i}.txt`);
+      writeFileSync(filePath, String(i));
+      return filePath;
+    });
+
+    const snapshot = await captureTurnFiles('session-e', manyPaths);
+    expect(snapshot?.files).toHaveLength(2000);
+    expect(snapshot?.partial).toBe(true);
+  });
+
+  it('does not write a manifest for turns that change nothing', async () => {
+    beginTurnSnapshot('session-b', workspace);
+    expect(await listTurnSnapshots('session-b')).toEqual([]);
+    expect(await captureTurnFiles('session-c', [join(workspace, 'notes.md')])).toBeNull();
+  });
+
+  it('deletes a session and its unreferenced objects', async () => {
+    beginTurnSnapshot('session-a', workspace);
+    await captureTurnFiles('session-a', [join(workspace, 'notes.md')]);
+    expect(await listTurnSnapshots('session-a')).toHaveLength(1);
+
+    await deleteTurnSnapshots('session-a');
+
+    expect(await listTurnSnapshots('session-a')).toEqual([]);
+    const objectsDir = join(getTurnSnapshotsDir(), 'objects');
+    expect(existsSync(objectsDir) ? readdirSync(objectsDir) : []).toEqual([]);
+  });
+});
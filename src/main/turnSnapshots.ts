@@ -0,0 +1,329 @@
+/**
+ * Turn Snapshots
+ *
+ * Captures the pre-turn contents of every file the agent writes or deletes so a single turn
+ * can be rolled back, independent of git. File contents live in a content-addressed object
+ * store shared by all sessions; each turn keeps a small manifest of the paths it touched.
+ */
+
+import { createHash } from 'crypto';
+import { existsSync } from 'fs';
+import {
+  chmod,
+  lstat,
+  mkdir,
+  readdir,
+  readFile,
+  readlink,
+  rm,
+  symlink,
+  unlink,
+  writeFile,
+} from 'fs/promises';
+import { dirname, join } from 'path';
+import { app } from 'electron';
+
+export interface TurnSnapshotFile {
+  path: string; // Absolute path
+  existed: boolean; // False when the turn created the file
+  hash?: string; // Object hash of the pre-turn contents
+  mode?: number;
+  symlinkTarget?: string;
+  skipped?: 'too-large' | 'unreadable'; // Pre-turn contents could not be captured
+}
+
+export interface TurnSnapshot {
+  turnId: string;
+  sessionId: string;
+  cwd: string;
+  createdAt: string; // ISO timestamp
+  files: TurnSnapshotFile[];
+  partial?: boolean; // The turn deleted more files than could be found and captured
+  revertedAt?: string;
+}
+
+export interface TurnRevertResult {
+  restored: string[]; // Files written back to their pre-turn contents
+  removed: string[]; // Files the turn created
+  failed: { path: string; error: string }[];
+  partial: boolean; // Some files the turn deleted were never captured, so they stay deleted
+}
+
+// Files larger than this are recorded but not captured
+const MAX_SNAPSHOT_FILE_BYTES = 20 * 1024 * 1024;
+// A single capture (e.g. everything an `rm -rf` removes) stops at this many files or bytes and
+// marks the turn partial, so it can't hold the shared store queue for long
+const MAX_CAPTURE_FILES = 2000;
+const MAX_CAPTURE_BYTES = 200 * 1024 * 1024;
+// Older turn manifests are dropped once a session has more than this many
+const MAX_TURNS_PER_SESSION = 50;
+
+interface ActiveTurn {
+  snapshot: TurnSnapshot;
+  captured: Set<string>;
+}
+
+const activeTurns = new Map<string, ActiveTurn>();
+
+export function getTurnSnapshotsDir(): string {
+  return join(app.getPath('userData'), 'turn-snapshots');
+}
+
+const objectsDir = (): string => join(getTurnSnapshotsDir(), 'objects');
+const sessionDir = (sessionId: string): string =>
+  join(getTurnSnapshotsDir(), 'sessions', encodeURIComponent(sessionId));
+const manifestPath = (sessionId: string, turnId: string): string =>
+  join(sessionDir(sessionId), `${turnId}.json`);
+
+// Serialize store writes so parallel captures cannot interleave manifest updates
+let storeQueue: Promise<unknown> = Promise.resolve();
+
+function enqueue<T>(task: () => Promise<T>): Promise<T> {
+  const result = storeQueue.then(task);
+  storeQueue = result.catch(() => undefined);
+  return result;
+}
+
+async function writeObject(content: Buffer): Promise<string> {
+  const hash = createHash('sha256').update(content).digest('hex');
+  const objectPath = join(objectsDir(), hash);
+  if (!existsSync(objectPath)) {
+    await mkdir(objectsDir(), { recursive: true });
+    await writeFile(objectPath, content);
+  }
+  return hash;
+}
+
+// Capture one file and report the bytes stored for it. Returns 'over-budget' when its contents
+// don't fit in the remaining bytes of the capture.
+async function captureFile(
+  filePath: string,
+  byteBudget: number
+): Promise<{ file: TurnSnapshotFile; bytes: number } | 'over-budget' | null> {
+  let stats;
+  try {
+    stats = await lstat(filePath);
+  } catch {
+    return { file: { path: filePath, existed: false }, bytes: 0 };
+  }
+  if (stats.isDirectory()) return null;
+  if (stats.isSymbolicLink()) {
+    return {
+      file: { path: filePath, existed: true, symlinkTarget: await readlink(filePath) },
+      bytes: 0,
+    };
+  }
+  if (stats.size > MAX_SNAPSHOT_FILE_BYTES) {
+    return { file: { path: filePath, existed: true, skipped: 'too-large' }, bytes: 0 };
+  }
+  if (stats.size > byteBudget) return 'over-budget';
+  try {
+    const hash = await writeObject(await readFile(filePath));
+    return {
+      file: { path: filePath, existed: true, hash, mode: stats.mode & 0o777 },
+      bytes: stats.size,
+    };
+  } catch {
+    return { file: { path: filePath, existed: true, skipped: 'unreadable' }, bytes: 0 };
+  }
+}
+
+async function saveManifest(snapshot: TurnSnapshot): Promise<void> {
+  await mkdir(sessionDir(snapshot.sessionId), { recursive: true });
+  await writeFile(
+    manifestPath(snapshot.sessionId, snapshot.turnId),
+    JSON.stringify(snapshot, null, 2),
+    'utf-8'
+  );
+}
+
+/**
+ * Start a new turn for a session. Files are captured lazily as the agent touches them, so
+ * turns that change nothing leave nothing on disk.
+ */
+export function beginTurnSnapshot(sessionId: string, cwd: string): string {
+  const turnId = `turn-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+  activeTurns.set(sessionId, {
+    snapshot: { turnId, sessionId, cwd, createdAt: new Date().toISOString(), files: [] },
+    captured: new Set(),
+  });
+  return turnId;
+}
+
+export function getActiveTurnId(sessionId: string): string | undefined {
+  return activeTurns.get(sessionId)?.snapshot.turnId;
+}
+
+/**
+ * Record the current contents of files the active turn is about to modify. Only the first
+ * capture of a path per turn is kept, since that is the pre-turn state. Pass `partial` when
+ * filePaths may not cover everything the change touches, so a revert can say so; the turn is
+ * also marked partial when a capture stops at its file or byte cap.
+ * Returns the updated snapshot, or null if nothing new was captured.
+ */
+export function captureTurnFiles(
+  sessionId: string,
+  filePaths: string[],
+  options: { partial?: boolean } = {}
+): Promise<TurnSnapshot | null> {
+  const turn = activeTurns.get(sessionId);
+  if (!turn) return Promise.resolve(null);
+
+  return enqueue(async () => {
+    let changed = false;
+    const markPartial = () => {
+      if (!turn.snapshot.partial) {
+        turn.snapshot.partial = true;
+        changed = true;
+      }
+    };
+    if (options.partial) markPartial();
+    let fileCount = 0;
+    let byteCount = 0;
+    for (const filePath of filePaths) {
+      if (turn.captured.has(filePath)) continue;
+      if (fileCount >= MAX_CAPTURE_FILES) {
+        markPartial();
+        break;
+      }
+      const captured = await captureFile(filePath, MAX_CAPTURE_BYTES - byteCount);
+      if (captured === 'over-budget') {
+        markPartial();
+        break;
+      }
+      turn.captured.add(filePath);
+      if (captured) {
+        turn.snapshot.files.push(captured.file);
+        fileCount++;
+        byteCount += captured.bytes;
+        changed = true;
+      }
+    }
+    if (!changed) return null;
+    const isNew = !existsSync(manifestPath(sessionId, turn.snapshot.turnId));
+    await saveManifest(turn.snapshot);
+    if (isNew) await trimSessionSnapshots(sessionId);
+    return turn.snapshot;
+  });
+}
+
+export async function getTurnSnapshot(
+  sessionId: string,
+  turnId: string
+): Promise<TurnSnapshot | null> {
+  try {
+    return JSON.parse(await readFile(manifestPath(sessionId, turnId), 'utf-8')) as TurnSnapshot;
+  } catch {
+    return null;
+  }
+}
+
+// Turn manifests for a session, oldest first
+export async function listTurnSnapshots(sessionId: string): Promise<TurnSnapshot[]> {
+  let entries: string[];
+  try {
+    entries = await readdir(sessionDir(sessionId));
+  } catch {
+    return [];
+  }
+  const snapshots: TurnSnapshot[] = [];
+  for (const entry of entries.filter((name) => name.endsWith('.json'))) {
+    const snapshot = await getTurnSnapshot(sessionId, entry.slice(0, -'.json'.length));
+    if (snapshot) snapshots.push(snapshot);
+  }
+  return snapshots.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+/**
+ * Restore every file touched in a turn to its pre-turn state: modified and deleted files get
+ * their old contents back, files the turn created are removed. Later turns that touched the
+ * same files are rolled back along with it for those paths.
+ */
+export function revertTurnSnapshot(sessionId: string, turnId: string): Promise<TurnRevertResult> {
+  return enqueue(async () => {
+    const snapshot = await getTurnSnapshot(sessionId, turnId);
+    if (!snapshot) {
+      throw new Error('No snapshot found for this turn');
+    }
+
+    const result: TurnRevertResult = {
+      restored: [],
+      removed: [],
+      failed: [],
+      partial: !!snapshot.partial,
+    };
+    for (const file of snapshot.files) {
+      try {
+        if (!file.existed) {
+          if (existsSync(file.path)) {
+            await rm(file.path, { force: true });
+            result.removed.push(file.path);
+          }
+          continue;
+        }
+        if (file.skipped) {
+          result.failed.push({ path: file.path, error: `Not captured (${file.skipped})` });
+          continue;
+        }
+        await mkdir(dirname(file.path), { recursive: true });
+        if (file.symlinkTarget !== undefined) {
+          await rm(file.path, { force: true });
+          await symlink(file.symlinkTarget, file.path);
+        } else if (file.hash) {
+          // Replace symlinks or read-only files rather than writing through them
+          await rm(file.path, { force: true });
+          await writeFile(file.path, await readFile(join(objectsDir(), file.hash)));
+          if (file.mode !== undefined) await chmod(file.path, file.mode);
+        }
+        result.restored.push(file.path);
+      } catch (error) {
+        result.failed.push({
+          path: file.path,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    snapshot.revertedAt = new Date().toISOString();
+    await saveManifest(snapshot);
+    return result;
+  });
+}
+
+// Drop the oldest manifests beyond the per-session limit
+async function trimSessionSnapshots(sessionId: string): Promise<void> {
+  const snapshots = await listTurnSnapshots(sessionId);
+  const excess = snapshots.slice(0, Math.max(0, snapshots.length - MAX_TURNS_PER_SESSION));
+  for (const snapshot of excess) {
+    await unlink(manifestPath(sessionId, snapshot.turnId)).catch(() => undefined);
+  }
+  if (excess.length > 0) await collectUnreferencedObjects();
+}
+
+// Remove objects no manifest refers to anymore
+async function collectUnreferencedObjects(): Promise<void> {
+  const referenced = new Set<string>();
+  const sessionsRoot = join(getTurnSnapshotsDir(), 'sessions');
+  const sessionDirs = await readdir(sessionsRoot).catch(() => [] as string[]);
+  for (const dir of sessionDirs) {
+    for (const snapshot of await listTurnSnapshots(decodeURIComponent(dir))) {
+      for (const file of snapshot.files) {
+        if (file.hash) referenced.add(file.hash);
+      }
+    }
+  }
+  const objects = await readdir(objectsDir()).catch(() => [] as string[]);
+  for (const hash of objects) {
+    if (!referenced.has(hash)) {
+      await unlink(join(objectsDir(), hash)).catch(() => undefined);
+    }
+  }
+}
+
+export function deleteTurnSnapshots(sessionId: string): Promise<void> {
+  activeTurns.delete(sessionId);
+  return enqueue(async () => {
+    await rm(sessionDir(sessionId), { recursive: true, force: true });
+    await collectUnreferencedObjects();
+  });
+}
@@ -0,0 +1,62 @@
+// @vitest-environment node
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { extractDeleteTargets, extractFindDeleteTargets, scanDeletion } from './deletePreview';
+
+describe('deletePreview', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'delete-preview-'));
+    mkdirSync(join(dir, 'build', 'nested'), { recursive: true });
+    writeFileSync(join(dir, 'build', 'a.js'), 'aaaa');
+    writeFileSync(join(dir, 'build', 'nested', 'b.js'), 'bb');
+    writeFileSync(join(dir, 'build', '.keep'), '');
+    writeFileSync(join(dir, 'app.log'), 'log');
+    writeFileSync(join(dir, 'build', 'nested', 'debug.log'), 'debug');
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('extracts rm targets and whether they are recursive', () => {
+    expect(extractDeleteTargets('rm -rf build/* && rm notes.txt')).toEqual([
+      { pattern: 'build/*', recursive: true },
+      { pattern: 'notes.txt', recursive: false },
+    ]);
+  });
+
+  it('extracts find -delete filters', () => {
+    expect(extractFindDeleteTargets("find src -maxdepth 2 -type f -name '*.log' -delete")).toEqual([
+      {
+        roots: ['src'],
+        namePatterns: [{ pattern: '*.log', caseInsensitive: false }],
+        type: 'f',
+        maxDepth: 2,
+      },
+    ]);
+    expect(extractFindDeleteTargets("find . -name '*.log'")).toEqual([]);
+  });
+
+  it('expands globs and walks recursive rm targets', async () => {
+    const { preview, paths, complete } = await scanDeletion('rm -rf build/* missing/', dir);
+    expect(preview.files.sort()).toEqual(
+      ['build/a.js', 'build/nested/b.js', 'build/nested/debug.log'].sort()
+    );
+    expect(preview.totalFiles).toBe(3);
+    expect(preview.totalBytes).toBe(11);
+    expect(preview.unmatched).toEqual(['missing/']);
+    expect(preview.truncated).toBe(false);
+    expect(paths.sort()).toEqual(preview.files.map((file) => join(dir, file)).sort());
+    expect(complete).toBe(true);
+  });
+
+  it('evaluates find name filters against the filesystem', async () => {
+    const { preview } = await scanDeletion("find . -name '*.log' -delete", dir);
+    expect(preview.files.sort()).toEqual(['app.log', 'build/nested/debug.log']);
+    expect(preview.totalBytes).toBe(8);
+  });
+});
@@ -0,0 +1,326 @@
+import { execFile } from 'child_process';
+import { lstat, readdir } from 'fs/promises';
+import { homedir } from 'os';
+import { isAbsolute, join, parse, relative, resolve } from 'path';
+import { promisify } from 'util';
+import { globToRegExp } from '../permissionPolicy';
+import { extractFilesToDelete } from './extractExecutables';
+
+const execFileAsync = promisify(execFile);
+
+// Stop walking the filesystem after this many entries so the prompt never stalls
+const MAX_SCANNED_ENTRIES = 100_000;
+// Only this many paths are sent to the renderer; totals still cover everything scanned
+const MAX_LISTED_FILES = 500;
+const GIT_TIMEOUT_MS = 5000;
+
+export interface DeleteTarget {
+  pattern: string; // Path or glob as written in the command
+  recursive: boolean;
+}
+
+export interface FindDeleteTarget {
+  roots: string[];
+  namePatterns: { pattern: string; caseInsensitive: boolean }[];
+  type?: 'f' | 'd';
+  minDepth?: number;
+  maxDepth?: number;
+}
+
+export interface DeletePreview {
+  files: string[]; // Resolved paths (relative to cwd when inside it), capped at MAX_LISTED_FILES
+  totalFiles: number;
+  totalBytes: number;
+  truncated: boolean; // True if the scan stopped early or the list was capped
+  unmatched: string[]; // Targets that resolved to nothing on disk
+  dirtyTrackedFiles: string[]; // Git-tracked files with uncommitted changes that would be deleted
+}
+
+export interface DeletionScan {
+  preview: DeletePreview; // What the permission prompt shows
+  paths: string[]; // Every path found, absolute and uncapped, for turn snapshots
+  complete: boolean; // False if the scan stopped at MAX_SCANNED_ENTRIES
+}
+
+const hasGlob = (value: string): boolean => /[*?[]/.test(value);
+
+const expandHome = (value: string): string => {
+  if (value === '~') return homedir();
+  if (value.startsWith('~/')) return join(homedir(), value.slice(2));
+  return value;
+};
+
+// Split a command into segments on shell operators, like extractFilesToDelete does
+const splitSegments = (command: string): string[] =>
+  command
+    .split(/[;&|\n]+/)
+    .map((segment) => segment.trim())
+    .filter(Boolean);
+
+/**
+ * Extract rm/rmdir/unlink/shred targets, noting whether each segment deletes recursively.
+ */
+export function extractDeleteTargets(command: string): DeleteTarget[] {
+  const targets: DeleteTarget[] = [];
+  for (const segment of splitSegments(command)) {
+    // `find ... -exec rm {} \;` is handled by extractFindDeleteTargets
+    if (/(?:^|\s|\/)find\s/.test(segment)) continue;
+    const files = extractFilesToDelete(segment);
+    if (files.length === 0) continue;
+    const recursive = /(?:^|\s)(?:-[a-zA-Z]*[rR][a-zA-Z]*|--recursive)(?=\s|$)/.test(segment);
+    for (const pattern of files) {
+      targets.push({ pattern, recursive });
+    }
+  }
+  return targets;
+}
+
+/**
+ * Extract `find ... -delete` / `find ... -exec rm` invocations with the filters we can evaluate.
+ */
+export function extractFindDeleteTargets(command: string): FindDeleteTarget[] {
+  const targets: FindDeleteTarget[] = [];
+  // -exec arguments end with `;` or `+`, so split on && / || / | / newlines only
+  for (const segment of command.split(/&&|\|\||\||\n/)) {
+    const tokens = segment.trim().split(/\s+/).filter(Boolean);
+    const findIndex = tokens.findIndex((token) => token === 'find' || token.endsWith('/find'));
+    if (findIndex === -1) continue;
+    const rest = tokens.slice(findIndex + 1);
+    const deletes =
+      rest.includes('-delete') ||
+      rest.some((token, i) => token === '-exec' && /(?:^|\/)rm$/.test(rest[i + 1] || ''));
+    if (!deletes) continue;
+
+    const unquote = (value: string): string => value.replace(/^(['"])(.*)\1$/, '$2');
+    const target: FindDeleteTarget = { roots: [], namePatterns: [] };
+    let i = 0;
+    while (i < rest.length && !rest[i].startsWith('-') && rest[i] !== '(' && rest[i] !== '!') {
+      target.roots.push(unquote(rest[i]));
+      i++;
+    }
+    for (; i < rest.length; i++) {
+      const value = rest[i + 1] !== undefined ? unquote(rest[i + 1]) : undefined;
+      if ((rest[i] === '-name' || rest[i] === '-iname') && value !== undefined) {
+        target.namePatterns.push({ pattern: value, caseInsensitive: rest[i] === '-iname' });
+        i++;
+      } else if (rest[i] === '-type' && (value === 'f' || value === 'd')) {
+        target.type = value;
+        i++;
+      } else if (rest[i] === '-maxdepth' && value !== undefined) {
+        target.maxDepth = Number(value);
+        i++;
+      } else if (rest[i] === '-mindepth' && value !== undefined) {
+        target.minDepth = Number(value);
+        i++;
+      }
+    }
+    if (target.roots.length === 0) target.roots.push('.');
+    targets.push(target);
+  }
+  return targets;
+}
+
+// Expand a shell glob against the filesystem (dotfiles only match explicit dot patterns)
+export async function expandGlob(pattern: string, cwd: string): Promise<string[]> {
+  const expanded = expandHome(pattern);
+  const absolute = isAbsolute(expanded) ? expanded : join(cwd, expanded);
+
+  let candidates: string[];
+  if (!hasGlob(absolute)) {
+    candidates = [absolute];
+  } else {
+    const { root } = parse(absolute);
+    const parts = absolute.slice(root.length).split(/[\\/]/).filter(Boolean);
+    candidates = [root];
+    for (const part of parts) {
+      const next: string[] = [];
+      for (const base of candidates) {
+        if (!hasGlob(part)) {
+          next.push(join(base, part));
+          continue;
+        }
+        const matcher = globToRegExp(part);
+        let entries: string[];
+        try {
+          entries = await readdir(base);
+        } catch {
+          continue;
+        }
+        for (const name of entries.sort()) {
+          if ((!name.startsWith('.') || part.startsWith('.')) && matcher.test(name)) {
+            next.push(join(base, name));
+          }
+        }
+      }
+      candidates = next;
+    }
+  }
+
+  const existing: string[] = [];
+  for (const candidate of candidates) {
+    try {
+      await lstat(candidate);
+      existing.push(candidate);
+    } catch {
+      // Does not exist
+    }
+  }
+  return existing;
+}
+
+interface ScanState {
+  files: Map<string, number>; // path -> size in bytes
+  scanned: number;
+  truncated: boolean;
+}
+
+async function addPath(path: string, recursive: boolean, state: ScanState): Promise<void> {
+  if (state.scanned >= MAX_SCANNED_ENTRIES) {
+    state.truncated = true;
+    return;
+  }
+  state.scanned++;
+  let stats;
+  try {
+    stats = await lstat(path);
+  } catch {
+    return;
+  }
+  if (!stats.isDirectory()) {
+    state.files.set(path, stats.size);
+    return;
+  }
+  if (!recursive) {
+    // rmdir / rm -d only remove empty directories
+    state.files.set(path, 0);
+    return;
+  }
+  let entries: string[];
+  try {
+    entries = await readdir(path);
+  } catch {
+    return;
+  }
+  for (const entry of entries.sort()) {
+    await addPath(join(path, entry), true, state);
+  }
+}
+
+async function walkFind(
+  dir: string,
+  depth: number,
+  target: FindDeleteTarget,
+  matchers: RegExp[],
+  state: ScanState
+): Promise<void> {
+  if (state.scanned >= MAX_SCANNED_ENTRIES) {
+    state.truncated = true;
+    return;
+  }
+  state.scanned++;
+  let stats;
+  try {
+    stats = await lstat(dir);
+  } catch {
+    return;
+  }
+  const name = parse(dir).base;
+  const typeMatches =
+    !target.type || (target.type === 'd' ? stats.isDirectory() : !stats.isDirectory());
+  const nameMatches = matchers.length === 0 || matchers.some((matcher) => matcher.test(name));
+  if (depth >= (target.minDepth ?? 0) && typeMatches && nameMatches) {
+    state.files.set(dir, stats.isDirectory() ? 0 : stats.size);
+  }
+  if (!stats.isDirectory() || (target.maxDepth !== undefined && depth >= target.maxDepth)) {
+    return;
+  }
+  let entries: string[];
+  try {
+    entries = await readdir(dir);
+  } catch {
+    return;
+  }
+  for (const entry of entries.sort()) {
+    await walkFind(join(dir, entry), depth + 1, target, matchers, state);
+  }
+}
+
+// Absolute paths of git-tracked files with uncommitted changes in the repository containing cwd
+async function getDirtyTrackedFiles(cwd: string): Promise<Set<string>> {
+  try {
+    const { stdout: root } = await execFileAsync('git', ['rev-parse', '--show-toplevel'], {
+      cwd,
+      timeout: GIT_TIMEOUT_MS,
+    });
+    const { stdout } = await execFileAsync(
+      'git',
+      ['status', '--porcelain=v1', '-z', '--untracked-files=no'],
+      { cwd, timeout: GIT_TIMEOUT_MS, maxBuffer: 10 * 1024 * 1024 }
+    );
+    const dirty = new Set<string>();
+    const entries = stdout.split('\0');
+    for (let i = 0; i < entries.length; i++) {
+      const entry = entries[i];
+      if (entry.length < 4) continue;
+      dirty.add(resolve(root.trim(), entry.slice(3)));
+      // Renames/copies are followed by the original path
+      if (entry[0] === 'R' || entry[0] === 'C') i++;
+    }
+    return dirty;
+  } catch {
+    return new Set();
+  }
+}
+
+/**
+ * Resolve what a destructive command would delete, without executing it: expands globs,
+ * walks recursive rm targets and evaluates find filters against the real filesystem.
+ */
+export async function scanDeletion(command: string, cwd: string): Promise<DeletionScan> {
+  const state: ScanState = { files: new Map(), scanned: 0, truncated: false };
+  const unmatched: string[] = [];
+
+  for (const target of extractDeleteTargets(command)) {
+    const matches = await expandGlob(target.pattern, cwd);
+    if (matches.length === 0) unmatched.push(target.pattern);
+    for (const match of matches) {
+      await addPath(match, target.recursive, state);
+    }
+  }
+
+  for (const target of extractFindDeleteTargets(command)) {
+    const matchers = target.namePatterns.map(({ pattern, caseInsensitive }) => {
+      const regex = globToRegExp(pattern);
+      return caseInsensitive ? new RegExp(regex.source, 'i') : regex;
+    });
+    for (const root of target.roots) {
+      const rootPath = resolve(cwd, expandHome(root));
+      const before = state.files.size;
+      await walkFind(rootPath, 0, target, matchers, state);
+      if (state.files.size === before) unmatched.push(root);
+    }
+  }
+
+  const dirty = state.files.size > 0 ? await getDirtyTrackedFiles(cwd) : new Set<string>();
+  const display = (path: string): string => {
+    const rel = relative(cwd, path);
+    return rel && !rel.startsWith('..') && !isAbsolute(rel) ? rel : path;
+  };
+
+  const paths = Array.from(state.files.keys());
+  let totalBytes = 0;
+  for (const size of state.files.values()) totalBytes += size;
+
+  return {
+    preview: {
+      files: paths.slice(0, MAX_LISTED_FILES).map(display),
+      totalFiles: paths.length,
+      totalBytes,
+      truncated: state.truncated || paths.length > MAX_LISTED_FILES,
+      unmatched,
+      dirtyTrackedFiles: paths.filter((path) => dirty.has(path)).map(display),
+    },
+    paths,
+    complete: !state.truncated,
+  };
+}
@@ -0,0 +1,41 @@
+import { homedir } from 'os';
+import { join } from 'path';
+import { describe, expect, it } from 'vitest';
+import { findMatchingWriteScope, isPathWithin, isSensitiveWritePath } from './writeScope';
+
+describe('isSensitiveWritePath', () => {
+  it('flags git internals, env files and ssh config', () => {
+    expect(isSensitiveWritePath('/repo/.git/config')).toBe(true);
+    expect(isSensitiveWritePath('/repo/.env')).toBe(true);
+    expect(isSensitiveWritePath('/repo/app/.env.local')).toBe(true);
+    expect(isSensitiveWritePath(join(homedir(), '.ssh', 'authorized_keys'))).toBe(true);
+  });
+
+  it('allows regular project files', () => {
+    expect(isSensitiveWritePath('/repo/src/index.ts')).toBe(false);
+    expect(isSensitiveWritePath('/repo/.gitignore')).toBe(false);
+    expect(isSensitiveWritePath('/repo/docs/environment.md')).toBe(false);
+  });
+});
+
+describe('isPathWithin', () => {
+  it('checks directory containment without prefix false positives', () => {
+    expect(isPathWithin('/repo/src/a.ts', '/repo')).toBe(true);
+    expect(isPathWithin('/repo', '/repo')).toBe(true);
+    expect(isPathWithin('/repo-other/a.ts', '/repo')).toBe(false);
+  });
+});
+
+describe('findMatchingWriteScope', () => {
+  const allowed = ['write', 'git push', 'write:/tmp/out', 'write:src/**/*.ts'];
+
+  it('matches folder-scoped approvals', () => {
+    expect(findMatchingWriteScope(allowed, '/tmp/out/report.md', '/repo')).toBe('/tmp/out');
+    expect(findMatchingWriteScope(allowed, '/tmp/other/report.md', '/repo')).toBeNull();
+  });
+
+  it('resolves relative glob scopes against the session cwd', () => {
+    expect(findMatchingWriteScope(allowed, '/repo/src/a/b.ts', '/repo')).toBe('src/**/*.ts');
+    expect(findMatchingWriteScope(allowed, '/repo/src/a/b.css', '/repo')).toBeNull();
+  });
+});
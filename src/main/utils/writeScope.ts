@@ -0,0 +1,44 @@
+import { homedir } from 'os';
+import { join, relative, isAbsolute } from 'path';
+import { matchesPath } from '../permissionPolicy';
+
+// Always-allowed entries of the form `write:<dir or glob>` grant writes under that scope.
+// The bare `write` entry grants writes anywhere inside the session's working directory.
+export const WRITE_SCOPE_PREFIX = 'write:';
+
+const toPosix = (p: string): string => p.replace(/\\/g, '/');
+
+export function isPathWithin(targetPath: string, dir: string): boolean {
+  const rel = relative(dir, targetPath);
+  return rel === '' || (!rel.startsWith('..') && !isAbsolute(rel));
+}
+
+// Paths that must always prompt before being written, whatever was approved before
+export function isSensitiveWritePath(targetPath: string): boolean {
+  const posixPath = toPosix(targetPath);
+  const segments = posixPath.split('/');
+  const name = segments[segments.length - 1] || '';
+
+  if (segments.slice(0, -1).includes('.git') || name === '.git') return true;
+  if (name.startsWith('.env')) return true;
+  return isPathWithin(targetPath, join(homedir(), '.ssh'));
+}
+
+export function getWriteScopes(alwaysAllowed: Iterable<string>): string[] {
+  const scopes: string[] = [];
+  for (const entry of alwaysAllowed) {
+    if (entry.startsWith(WRITE_SCOPE_PREFIX) && entry.length > WRITE_SCOPE_PREFIX.length) {
+      scopes.push(entry.slice(WRITE_SCOPE_PREFIX.length));
+    }
+  }
+  return scopes;
+}
+
+// Return the first write scope covering the path (relative scopes resolve against cwd)
+export function findMatchingWriteScope(
+  alwaysAllowed: Iterable<string>,
+  targetPath: string,
+  cwd: string
+): string | null {
+  return getWriteScopes(alwaysAllowed).find((scope) => matchesPath(scope, targetPath, cwd)) ?? null;
+}
@@ -0,0 +1,127 @@
+// @vitest-environment node
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { existsSync, mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+// Stand-in for PNG encoding: images are JSON with the raw bitmap bytes
+vi.mock('electron', () => ({
+  nativeImage: {
+    createFromBuffer: (buffer: Buffer) => {
+      const { width, height, data } = JSON.parse(buffer.toString());
+      return { getSize: () => ({ width, height }), toBitmap: () => Buffer.from(data) };
+    },
+    createFromBitmap: (data: Buffer, size: { width: number; height: number }) => ({
+      toPNG: () => Buffer.from(JSON.stringify({ ...size, data: Array.from(data) })),
+    }),
+  },
+}));
+
+import {
+  acceptComparison,
+  baselineId,
+  compareWithBaseline,
+  defaultBaselineName,
+  deleteBaseline,
+  diffBitmaps,
+  listBaselines,
+  readVisualImages,
+  saveBaseline,
+  type Bitmap,
+} from './visualBaselines';
+
+const WHITE = [255, 255, 255, 255];
+const BLACK = [0, 0, 0, 255];
+
+const bitmap = (width: number, height: number, pixels: number[][]): Bitmap => ({
+  width,
+  height,
+  data: Buffer.from(pixels.flat()),
+});
+
+const png = (image: Bitmap): Buffer =>
+  Buffer.from(
+    JSON.stringify({ width: image.width, height: image.height, data: Array.from(image.data) })
+  );
+
+describe('visualBaselines', () => {
+  let cwd: string;
+  const viewport = { width: 2, height: 2 };
+
+  beforeEach(() => {
+    cwd = mkdtempSync(join(tmpdir(), 'visual-baselines-'));
+  });
+
+  afterEach(() => {
+    rmSync(cwd, { recursive: true, force: true });
+  });
+
+  it('counts differing pixels and marks them red in the diff', () => {
+    const expected = bitmap(2, 2, [WHITE, WHITE, WHITE, WHITE]);
+    const actual = bitmap(2, 2, [WHITE, [250, 250, 250, 255], BLACK, WHITE]);
+
+    const { diffPixels, totalPixels, diff } = diffBitmaps(actual, expected);
+    expect(diffPixels).toBe(1);
+    expect(totalPixels).toBe(4);
+    expect(Array.from(diff.data.subarray(8, 12))).toEqual([0, 0, 255, 255]);
+    expect(Array.from(diff.data.subarray(0, 4))).toEqual([255, 255, 255, 255]);
+  });
+
+  it('counts the area outside a smaller image as changed', () => {
+    const expected = bitmap(2, 1, [WHITE, WHITE]);
+    const actual = bitmap(2, 2, [WHITE, WHITE, WHITE, WHITE]);
+    expect(diffBitmaps(actual, expected)).toMatchObject({ diffPixels: 2, totalPixels: 4 });
+  });
+
+  it('names baselines after the page and viewport', () => {
+    expect(defaultBaselineName('http://localhost:3000/settings/profile?tab=1')).toBe(
+      'localhost-3000-settings-profile'
+    );
+    expect(baselineId('Settings Page', { width: 1280, height: 800 })).toBe(
+      'settings-page-1280x800'
+    );
+  });
+
+  it('compares against a saved baseline and accepts the new screenshot', async () => {
+    const url = 'http://localhost:3000/';
+    const baseline = await saveBaseline(
+      cwd,
+      { name: 'home', url, viewport, fullPage: false },
+      png(bitmap(2, 2, [WHITE, WHITE, WHITE, WHITE]))
+    );
+    expect(baseline.id).toBe('home-2x2');
+    expect(existsSync(join(cwd, '.copilot', 'visual-baselines', 'home-2x2.png'))).toBe(true);
+
+    const changed = png(bitmap(2, 2, [BLACK, WHITE, WHITE, WHITE]));
+    const { comparison } = await compareWithBaseline(cwd, 'home-2x2', changed, { url });
+    expect(comparison).toMatchObject({
+      diffPixels: 1,
+      mismatchPercent: 25,
+      maxMismatchPercent: 0.5,
+      passed: false,
+    });
+    const resultsDir = join(cwd, '.copilot', 'visual-baselines', '.results');
+    expect(readFileSync(join(resultsDir, '.gitignore'), 'utf-8')).toBe('*\n');
+
+    const [entry] = await listBaselines(cwd);
+    expect(entry.lastComparison?.mismatchPercent).toBe(25);
+    const images = await readVisualImages(cwd, 'home-2x2');
+    expect(images.actual).toBe(changed.toString('base64'));
+    expect(images.diff).toBeDefined();
+
+    await acceptComparison(cwd, 'home-2x2');
+    const [accepted] = await listBaselines(cwd);
+    expect(accepted.lastComparison).toBeUndefined();
+    const { comparison: again } = await compareWithBaseline(cwd, 'home-2x2', changed, { url });
+    expect(again).toMatchObject({ diffPixels: 0, passed: true });
+
+    await deleteBaseline(cwd, 'home-2x2');
+    expect(await listBaselines(cwd)).toEqual([]);
+  });
+
+  it('fails when the baseline does not exist', async () => {
+    await expect(
+      compareWithBaseline(cwd, 'missing-2x2', png(bitmap(1, 1, [WHITE])), { url: '' })
+    ).rejects.toThrow('No visual baseline named missing-2x2');
+  });
+});
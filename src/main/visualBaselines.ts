@@ -0,0 +1,302 @@
+/**
+ * Visual Baselines
+ *
+ * Named reference screenshots stored in the project under `.copilot/visual-baselines/`, one per
+ * name and viewport size, so they can be committed and reviewed like any other test fixture.
+ * browser_compare_screenshot diffs the current page against a baseline pixel by pixel and writes
+ * the actual image, a diff overlay and the result to `.results/` (ignored by git) for the diff
+ * viewer. Images are decoded with Electron's nativeImage, whose bitmaps are BGRA.
+ */
+
+import { existsSync } from 'fs';
+import { copyFile, mkdir, readdir, readFile, rm, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { nativeImage } from 'electron';
+
+export const VISUAL_BASELINES_DIR = join('.copilot', 'visual-baselines');
+
+// Largest per-channel difference (0-255) still treated as the same pixel; absorbs
+// anti-aliasing and compression noise
+export const DEFAULT_PIXEL_TOLERANCE = 16;
+// Share of differing pixels (in percent) a comparison may have and still pass
+export const DEFAULT_MAX_MISMATCH_PERCENT = 0.5;
+
+export interface VisualViewport {
+  width: number;
+  height: number;
+}
+
+export interface VisualBaseline {
+  id: string; // File name stem: <name>-<width>x<height>
+  name: string;
+  url: string; // Page the baseline was captured from
+  viewport: VisualViewport;
+  fullPage: boolean;
+  createdAt: string; // ISO timestamp
+  updatedAt: string;
+}
+
+export interface VisualComparison {
+  baselineId: string;
+  name: string;
+  url: string; // Page the actual screenshot was taken of
+  comparedAt: string; // ISO timestamp
+  diffPixels: number;
+  totalPixels: number;
+  mismatchPercent: number;
+  maxMismatchPercent: number;
+  passed: boolean;
+  sizeMismatch?: { baseline: VisualViewport; actual: VisualViewport }; // Image sizes differ
+}
+
+export interface VisualBaselineEntry extends VisualBaseline {
+  lastComparison?: VisualComparison;
+}
+
+export interface Bitmap {
+  width: number;
+  height: number;
+  data: Buffer; // 4 bytes per pixel, BGRA
+}
+
+const slug = (text: string): string =>
+  text
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 80) || 'page';
+
+export const getVisualBaselinesDir = (cwd: string): string => join(cwd, VISUAL_BASELINES_DIR);
+
+const getResultsDir = (cwd: string): string => join(getVisualBaselinesDir(cwd), '.results');
+
+export const baselineId = (name: string, viewport: VisualViewport): string =>
+  `${slug(name)}-${viewport.width}x${viewport.height}`;
+
+/**
+ * Baseline name for a page when the agent doesn't pick one, e.g. `localhost-3000-settings`
+ */
+export function defaultBaselineName(url: string): string {
+  try {
+    const parsed = new URL(url);
+    return slug(`${parsed.host}${parsed.pathname}`);
+  } catch {
+    return slug(url);
+  }
+}
+
+/**
+ * Compare two bitmaps pixel by pixel. Where the sizes differ, the area covered by only one of
+ * them counts as changed. The diff image shows the baseline faded out with changes in red.
+ */
+export function diffBitmaps(
+  actual: Bitmap,
+  expected: Bitmap,
+  tolerance = DEFAULT_PIXEL_TOLERANCE
+): { diffPixels: number; totalPixels: number; diff: Bitmap } {
+  const width = Math.max(actual.width, expected.width);
+  const height = Math.max(actual.height, expected.height);
+  const diff = Buffer.alloc(width * height * 4);
+  let diffPixels = 0;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const out = (y * width + x) * 4;
+      const inActual = x < actual.width && y < actual.height;
+      const inExpected = x < expected.width && y < expected.height;
+      const a = (y * actual.width + x) * 4;
+      const e = (y * expected.width + x) * 4;
+
+      let changed = !inActual || !inExpected;
+      for (let c = 0; !changed && c < 4; c++) {
+        changed = Math.abs(actual.data[a + c] - expected.data[e + c]) > tolerance;
+      }
+
+      if (changed) {
+        diffPixels++;
+        diff[out] = 0;
+        diff[out + 1] = 0;
+        diff[out + 2] = 255;
+        diff[out + 3] = 255;
+      } else {
+        const luminance =
+          0.114 * expected.data[e] + 0.587 * expected.data[e + 1] + 0.299 * expected.data[e + 2];
+        const faded = Math.round(255 - (255 - luminance) * 0.25);
+        diff.fill(faded, out, out + 3);
+        diff[out + 3] = 255;
+      }
+    }
+  }
+
+  return { diffPixels, totalPixels: width * height, diff: { width, height, data: diff } };
+}
+
+const decodePng = (png: Buffer): Bitmap => {
+  const image = nativeImage.createFromBuffer(png);
+  const { width, height } = image.getSize();
+  return { width, height, data: image.toBitmap() };
+};
+
+const encodePng = (bitmap: Bitmap): Buffer =>
+  nativeImage.createFromBitmap(bitmap.data, { width: bitmap.width, height: bitmap.height }).toPNG();
+
+async function readJson<T>(path: string): Promise<T | undefined> {
+  try {
+    return JSON.parse(await readFile(path, 'utf-8')) as T;
+  } catch {
+    return undefined;
+  }
+}
+
+export async function getBaseline(cwd: string, id: string): Promise<VisualBaseline | undefined> {
+  return readJson<VisualBaseline>(join(getVisualBaselinesDir(cwd), `${slug(id)}.json`));
+}
+
+/**
+ * Save (or replace) a baseline screenshot
+ */
+export async function saveBaseline(
+  cwd: string,
+  info: { name: string; url: string; viewport: VisualViewport; fullPage: boolean },
+  png: Buffer
+): Promise<VisualBaseline> {
+  const dir = getVisualBaselinesDir(cwd);
+  await mkdir(dir, { recursive: true });
+  const id = baselineId(info.name, info.viewport);
+  const now = new Date().toISOString();
+  const baseline: VisualBaseline = {
+    id,
+    ...info,
+    createdAt: (await getBaseline(cwd, id))?.createdAt || now,
+    updatedAt: now,
+  };
+  await writeFile(join(dir, `${id}.png`), png);
+  await writeFile(join(dir, `${id}.json`), JSON.stringify(baseline, null, 2), 'utf-8');
+  return baseline;
+}
+
+/**
+ * Diff a screenshot against a saved baseline and keep the images for the diff viewer
+ */
+export async function compareWithBaseline(
+  cwd: string,
+  id: string,
+  actualPng: Buffer,
+  options: { url: string; maxMismatchPercent?: number; tolerance?: number }
+): Promise<{ comparison: VisualComparison; diffPng: Buffer }> {
+  const baseline = await getBaseline(cwd, id);
+  if (!baseline) {
+    throw new Error(`No visual baseline named ${id}`);
+  }
+  id = baseline.id;
+  const expected = decodePng(await readFile(join(getVisualBaselinesDir(cwd), `${id}.png`)));
+  const actual = decodePng(actualPng);
+  const { diffPixels, totalPixels, diff } = diffBitmaps(actual, expected, options.tolerance);
+
+  const maxMismatchPercent = options.maxMismatchPercent ?? DEFAULT_MAX_MISMATCH_PERCENT;
+  const mismatchPercent = totalPixels ? Math.round((diffPixels / totalPixels) * 10000) / 100 : 0;
+  const sameSize = actual.width === expected.width && actual.height === expected.height;
+  const comparison: VisualComparison = {
+    baselineId: id,
+    name: baseline.name,
+    url: options.url,
+    comparedAt: new Date().toISOString(),
+    diffPixels,
+    totalPixels,
+    mismatchPercent,
+    maxMismatchPercent,
+    passed: sameSize && mismatchPercent <= maxMismatchPercent,
+    ...(!sameSize && {
+      sizeMismatch: {
+        baseline: { width: expected.width, height: expected.height },
+        actual: { width: actual.width, height: actual.height },
+      },
+    }),
+  };
+
+  const resultsDir = getResultsDir(cwd);
+  await mkdir(resultsDir, { recursive: true });
+  await writeFile(join(resultsDir, '.gitignore'), '*\n', 'utf-8');
+  const diffPng = encodePng(diff);
+  await writeFile(join(resultsDir, `${id}.actual.png`), actualPng);
+  await writeFile(join(resultsDir, `${id}.diff.png`), diffPng);
+  await writeFile(join(resultsDir, `${id}.json`), JSON.stringify(comparison, null, 2), 'utf-8');
+  return { comparison, diffPng };
+}
+
+/**
+ * All baselines in the project with the result of their last comparison
+ */
+export async function listBaselines(cwd: string): Promise<VisualBaselineEntry[]> {
+  const dir = getVisualBaselinesDir(cwd);
+  if (!existsSync(dir)) return [];
+  const files = (await readdir(dir)).filter((file) => file.endsWith('.json'));
+  const entries: VisualBaselineEntry[] = [];
+  for (const file of files) {
+    const baseline = await readJson<VisualBaseline>(join(dir, file));
+    if (!baseline?.id) continue;
+    const lastComparison = await readJson<VisualComparison>(
+      join(getResultsDir(cwd), `${baseline.id}.json`)
+    );
+    entries.push({ ...baseline, ...(lastComparison && { lastComparison }) });
+  }
+  return entries.sort((a, b) => a.name.localeCompare(b.name) || a.id.localeCompare(b.id));
+}
+
+/**
+ * Baseline, last actual screenshot and diff overlay as base64 PNGs
+ */
+export async function readVisualImages(
+  cwd: string,
+  id: string
+): Promise<{ baseline?: string; actual?: string; diff?: string }> {
+  const read = async (path: string) =>
+    existsSync(path) ? (await readFile(path)).toString('base64') : undefined;
+  const safeId = slug(id);
+  return {
+    baseline: await read(join(getVisualBaselinesDir(cwd), `${safeId}.png`)),
+    actual: await read(join(getResultsDir(cwd), `${safeId}.actual.png`)),
+    diff: await read(join(getResultsDir(cwd), `${safeId}.diff.png`)),
+  };
+}
+
+/**
+ * Make the last compared screenshot the new baseline
+ */
+export async function acceptComparison(cwd: string, id: string): Promise<VisualBaseline> {
+  const baseline = await getBaseline(cwd, id);
+  const actualPath = join(getResultsDir(cwd), `${slug(id)}.actual.png`);
+  if (!baseline || !existsSync(actualPath)) {
+    throw new Error(`Nothing to accept for ${id}`);
+  }
+  id = baseline.id;
+  const comparison = await readJson<VisualComparison>(join(getResultsDir(cwd), `${id}.json`));
+  const updated: VisualBaseline = {
+    ...baseline,
+    url: comparison?.url || baseline.url,
+    updatedAt: new Date().toISOString(),
+  };
+  await copyFile(actualPath, join(getVisualBaselinesDir(cwd), `${id}.png`));
+  await writeFile(
+    join(getVisualBaselinesDir(cwd), `${id}.json`),
+    JSON.stringify(updated, null, 2),
+    'utf-8'
+  );
+  await rm(join(getResultsDir(cwd), `${id}.json`), { force: true });
+  await rm(join(getResultsDir(cwd), `${id}.diff.png`), { force: true });
+  return updated;
+}
+
+export async function deleteBaseline(cwd: string, id: string): Promise<void> {
+  const safeId = slug(id);
+  const dir = getVisualBaselinesDir(cwd);
+  for (const path of [
+    join(dir, `${safeId}.png`),
+    join(dir, `${safeId}.json`),
+    join(getResultsDir(cwd), `${safeId}.json`),
+    join(getResultsDir(cwd), `${safeId}.actual.png`),
+    join(getResultsDir(cwd), `${safeId}.diff.png`),
+  ]) {
+    await rm(path, { force: true });
+  }
+}
@@ -5,14 +5,16 @@
  * Each session gets its own worktree tied to a specific branch.
  */
 
-import { exec } from 'child_process';
+import { exec, execFile } from 'child_process';
 import { promisify } from 'util';
 import { existsSync, mkdirSync, readFileSync, writeFileSync, rmSync } from 'fs';
 import { join, basename } from 'path';
 import { app } from 'electron';
 import { net } from 'electron';
+import { runWorktreeTeardown } from './worktreeSetup';
 
 const execAsync = promisify(exec);
+const execFileAsync = promisify(execFile);
 
 // XDG Base Directory helpers - respect standard env vars for config/state isolation
 
@@ -95,6 +97,7 @@ interface WorktreeSession {
 interface SessionRegistry {
   version: number;
   sessions: WorktreeSession[];
+  setupApprovals?: Record<string, string>; // Repo path -> approved .copilot/worktree.json hash
 }
 
 // Configuration
@@ -399,8 +402,8 @@ export async function createWorktreeSession(
  */
 export async function removeWorktreeSession(
   sessionId: string,
-  options?: { force?: boolean }
-): Promise<{ success: boolean; error?: string }> {
+  options?: { force?: boolean; onTeardownCommand?: (command: string) => void }
+): Promise<{ success: boolean; error?: string; warnings?: string[] }> {
   const registry = loadRegistry();
   const session = registry.sessions.find((s) => s.id === sessionId);
 
@@ -408,6 +411,14 @@ export async function removeWorktreeSession(
     return { success: false, error: `Session not found: ${sessionId}` };
   }
 
+  // Run the repository's teardown hooks while the worktree still exists
+  const warnings = await runWorktreeTeardown(
+    session.repoPath,
+    session.worktreePath,
+    registry.setupApprovals?.[session.repoPath],
+    options?.onTeardownCommand
+  );
+
   // Remove the worktree
   try {
     const forceFlag = options?.force ? ' --force' : '';
@@ -463,7 +474,23 @@ export async function removeWorktreeSession(
   registry.sessions = registry.sessions.filter((s) => s.id !== sessionId);
   saveRegistry(registry);
 
-  return { success: true };
+  return warnings.length > 0 ? { success: true, warnings } : { success: true };
+}
+
+/**
+ * Hash of the repository's .copilot/worktree.json the user approved the commands of, if any
+ */
+export function getWorktreeSetupApproval(repoPath: string): string | undefined {
+  return loadRegistry().setupApprovals?.[repoPath];
+}
+
+/**
+ * Approve the commands of the repository's .copilot/worktree.json with the given content hash
+ */
+export function approveWorktreeSetup(repoPath: string, hash: string): void {
+  const registry = loadRegistry();
+  registry.setupApprovals = { ...registry.setupApprovals, [repoPath]: hash };
+  saveRegistry(registry);
 }
 
 /**
@@ -544,9 +571,11 @@ export function trackCopilotSession(worktreeSessionId: string, copilotSessionId:
 export async function pruneWorktreeSessions(options?: {
   dryRun?: boolean;
   maxAgeDays?: number;
+  onTeardownCommand?: (sessionId: string, command: string) => void;
 }): Promise<{
   pruned: string[];
   errors: Array<{ sessionId: string; error: string }>;
+  warnings: string[];
 }> {
   const config = loadConfig();
   const maxAgeDays = options?.maxAgeDays ?? config.pruneAfterDays;
@@ -556,6 +585,7 @@ export async function pruneWorktreeSessions(options?: {
   const registry = loadRegistry();
   const pruned: string[] = [];
   const errors: Array<{ sessionId: string; error: string }> = [];
+  const warnings: string[] = [];
 
   for (const session of registry.sessions) {
     const shouldPrune =
@@ -566,7 +596,11 @@ export async function pruneWorktreeSessions(options?: {
       if (options?.dryRun) {
         pruned.push(session.id);
       } else {
-        const result = await removeWorktreeSession(session.id, { force: true });
+        const result = await removeWorktreeSession(session.id, {
+          force: true,
+          onTeardownCommand: (command) => options?.onTeardownCommand?.(session.id, command),
+        });
+        warnings.push(...(result.warnings || []).map((warning) => `${session.branch}: ${warning}`));
         if (result.success) {
           pruned.push(session.id);
         } else {
@@ -591,7 +625,7 @@ export async function pruneWorktreeSessions(options?: {
     }
   }
 
-  return { pruned, errors };
+  return { pruned, errors, warnings };
 }
 
 /**
@@ -682,7 +716,7 @@ export function updateWorktreeConfig(updates: Partial<WorktreeConfig>): void {
 /**
  * Parse a GitHub issue URL and extract owner, repo, and issue number
  */
-function parseGitHubIssueUrl(
+export function parseGitHubIssueUrl(
   url: string
 ): { owner: string; repo: string; issueNumber: number } | null {
   // Match patterns like:
@@ -699,9 +733,10 @@ function parseGitHubIssueUrl(
 }
 
 /**
- * Generate a branch name from issue title
+ * Generate a branch name from issue title. The issue key may be a number or a tracker key
+ * such as PROJ-123.
  */
-function generateBranchFromTitle(issueNumber: number, title: string): string {
+export function generateBranchFromTitle(issueNumber: number | string, title: string): string {
   // Clean and format the title for a branch name
   const cleaned = title
     .toLowerCase()
@@ -953,10 +988,59 @@ gh auth login
   });
 }
 
+export interface GitHubIssueQuery {
+  label?: string; // Comma-separated labels; issues must have all of them
+  milestone?: string;
+  search?: string; // GitHub search syntax, e.g. "is:open no:assignee"
+  limit?: number;
+}
+
+/**
+ * List open issues of the repository's GitHub remote via gh CLI, for launching a batch of
+ * worktree sessions
+ */
+export async function listGitHubIssues(
+  repoPath: string,
+  query: GitHubIssueQuery
+): Promise<{
+  success: boolean;
+  issues?: { number: number; title: string; url: string }[];
+  error?: string;
+}> {
+  const args = ['issue', 'list', '--state', 'open', '--json', 'number,title,url'];
+  args.push('--limit', String(Math.max(1, Math.min(100, query.limit || 20))));
+  for (const label of (query.label || '').split(',')) {
+    if (label.trim()) args.push('--label', label.trim());
+  }
+  if (query.milestone?.trim()) args.push('--milestone', query.milestone.trim());
+  if (query.search?.trim()) args.push('--search', query.search.trim());
+
+  try {
+    const { stdout } = await execFileAsync('gh', args, { cwd: repoPath, timeout: 30000 });
+    const issues = JSON.parse(stdout) as { number: number; title: string; url: string }[];
+    return { success: true, issues };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    if (message.includes('ENOENT')) {
+      return {
+        success: false,
+        error: 'GitHub CLI not found. Install it from https://cli.github.com to search issues.',
+      };
+    }
+    if (message.includes('gh auth') || message.includes('authenticate')) {
+      return {
+        success: false,
+        error: 'GitHub CLI authentication required. Run "gh auth login" to authenticate.',
+      };
+    }
+    return { success: false, error: message };
+  }
+}
+
 /**
  * Parse an Azure DevOps work item URL and extract organization, project, and work item ID
  */
-function parseAzureDevOpsWorkItemUrl(
+export function parseAzureDevOpsWorkItemUrl(
   url: string
 ): { organization: string; project: string; workItemId: number } | null {
   // Match patterns like:
@@ -0,0 +1,335 @@
+/**
+ * Worktree Setup Hooks
+ *
+ * A fresh worktree only has tracked files. Repositories can describe what else a worktree needs
+ * in `.copilot/worktree.json` at the repository root:
+ *
+ *   {
+ *     "copy": [".env.local", "config/*.secret.json"],
+ *     "symlink": ["node_modules"],
+ *     "postCreate": ["npm run codegen"],
+ *     "teardown": ["docker compose down"]
+ *   }
+ *
+ * `copy` and `symlink` entries are paths or globs relative to the main checkout. `postCreate`
+ * commands run in the new worktree, in order, before the agent starts; `teardown` commands run
+ * in the worktree before it is removed.
+ *
+ * The file comes from the repository, so its commands only run once the user has approved them.
+ * An approval is tied to a hash of the file's content and lapses whenever the file changes.
+ */
+
+import { exec } from 'child_process';
+import { createHash } from 'crypto';
+import { promisify } from 'util';
+import {
+  cpSync,
+  existsSync,
+  lstatSync,
+  mkdirSync,
+  readdirSync,
+  readFileSync,
+  symlinkSync,
+} from 'fs';
+import { dirname, join } from 'path';
+import { globToRegExp } from './permissionPolicy';
+
+const execAsync = promisify(exec);
+
+// Session terminal that shows post-create command output
+export const WORKTREE_SETUP_TERMINAL_ID = 'setup';
+
+// Removal waits for teardown, so all of a worktree's teardown commands share this time budget
+const TEARDOWN_TIMEOUT_MS = 60 * 1000;
+// Directories never searched when expanding `**`
+const SKIPPED_DIRECTORIES = new Set(['.git', 'node_modules']);
+
+export interface WorktreeSetupConfig {
+  copy?: string[];
+  symlink?: string[];
+  postCreate?: string[];
+  teardown?: string[];
+}
+
+export interface WorktreeSetupCommands {
+  postCreate: string[];
+  teardown: string[];
+  hash: string; // Hash of the worktree.json content the commands were read from
+}
+
+export interface WorktreeFilesResult {
+  copied: string[];
+  linked: string[];
+  warnings: string[];
+}
+
+export function getWorktreeSetupConfigPath(repoPath: string): string {
+  return join(repoPath, '.copilot', 'worktree.json');
+}
+
+const stringList = (value: unknown, key: string): string[] => {
+  if (value === undefined) return [];
+  if (!Array.isArray(value) || value.some((entry) => typeof entry !== 'string')) {
+    throw new Error(`"${key}" must be an array of strings`);
+  }
+  return value.map((entry: string) => entry.trim()).filter(Boolean);
+};
+
+/**
+ * Read the repository's worktree setup config. Returns null when there is none.
+ */
+export function loadWorktreeSetupConfig(repoPath: string): WorktreeSetupConfig | null {
+  return readWorktreeSetupConfig(repoPath)?.config ?? null;
+}
+
+/**
+ * The commands the repository's worktree.json would run, for the user to approve. Returns null
+ * when there is no config or it has no commands.
+ */
+export function getWorktreeSetupCommands(repoPath: string): WorktreeSetupCommands | null {
+  const loaded = readWorktreeSetupConfig(repoPath);
+  if (!loaded) return null;
+  const postCreate = loaded.config.postCreate || [];
+  const teardown = loaded.config.teardown || [];
+  if (postCreate.length === 0 && teardown.length === 0) return null;
+  return { postCreate, teardown, hash: loaded.hash };
+}
+
+function readWorktreeSetupConfig(
+  repoPath: string
+): { config: WorktreeSetupConfig; hash: string } | null {
+  const path = getWorktreeSetupConfigPath(repoPath);
+  if (!existsSync(path)) return null;
+
+  let content: string;
+  let parsed: Record<string, unknown>;
+  try {
+    content = readFileSync(path, 'utf-8');
+    parsed = JSON.parse(content);
+  } catch (error) {
+    throw new Error(
+      `Invalid .copilot/worktree.json: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new Error('Invalid .copilot/worktree.json: expected an object');
+  }
+  try {
+    return {
+      config: {
+        copy: stringList(parsed.copy, 'copy'),
+        symlink: stringList(parsed.symlink, 'symlink'),
+        postCreate: stringList(parsed.postCreate, 'postCreate'),
+        teardown: stringList(parsed.teardown, 'teardown'),
+      },
+      hash: createHash('sha256').update(content).digest('hex'),
+    };
+  } catch (error) {
+    throw new Error(`Invalid .copilot/worktree.json: ${(error as Error).message}`);
+  }
+}
+
+const notApprovedWarning = (kind: string, commands: string[]) =>
+  `Skipped ${kind} commands from .copilot/worktree.json because they have not been approved: ${commands.join(', ')}`;
+
+/**
+ * Paths under `root` (relative, with forward slashes) matching a path or glob
+ */
+export function expandPattern(root: string, pattern: string): string[] {
+  const segments = pattern.replace(/\\/g, '/').replace(/^\.\//, '').split('/').filter(Boolean);
+  if (segments.some((segment) => segment === '..')) return [];
+
+  const walk = (dir: string, index: number): string[] => {
+    if (index === segments.length) return [dir];
+    const segment = segments[index];
+    const absolute = join(root, dir);
+
+    if (segment === '**') {
+      // Zero directories, or descend one level and keep `**`
+      const results = walk(dir, index + 1);
+      for (const entry of listDirectories(absolute)) {
+        results.push(...walk(dir ? `${dir}/${entry}` : entry, index));
+      }
+      return results;
+    }
+    if (!/[*?]/.test(segment)) {
+      const next = dir ? `${dir}/${segment}` : segment;
+      return existsSync(join(root, next)) ? walk(next, index + 1) : [];
+    }
+    const regex = globToRegExp(segment);
+    let entries: string[] = [];
+    try {
+      entries = readdirSync(absolute);
+    } catch {
+      return [];
+    }
+    return entries
+      .filter((entry) => regex.test(entry))
+      .flatMap((entry) => walk(dir ? `${dir}/${entry}` : entry, index + 1));
+  };
+
+  return [...new Set(walk('', 0))].filter(Boolean);
+}
+
+function listDirectories(dir: string): string[] {
+  try {
+    return readdirSync(dir, { withFileTypes: true })
+      .filter((entry) => entry.isDirectory() && !SKIPPED_DIRECTORIES.has(entry.name))
+      .map((entry) => entry.name);
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Copy and symlink the configured files from the main checkout into a new worktree. Files that
+ * already exist in the worktree are left alone.
+ */
+export function applyWorktreeFiles(
+  repoPath: string,
+  worktreePath: string,
+  config: WorktreeSetupConfig
+): WorktreeFilesResult {
+  const result: WorktreeFilesResult = { copied: [], linked: [], warnings: [] };
+
+  const each = (patterns: string[] | undefined, action: 'copy' | 'symlink') => {
+    for (const pattern of patterns || []) {
+      const matches = expandPattern(repoPath, pattern);
+      if (matches.length === 0) {
+        result.warnings.push(`Nothing to ${action} for "${pattern}"`);
+        continue;
+      }
+      for (const relative of matches) {
+        const source = join(repoPath, relative);
+        const target = join(worktreePath, relative);
+        if (existsSync(target)) continue;
+        try {
+          mkdirSync(dirname(target), { recursive: true });
+          if (action === 'copy') {
+            cpSync(source, target, { recursive: true });
+            result.copied.push(relative);
+          } else {
+            const isDirectory = lstatSync(source).isDirectory();
+            // Junctions don't need elevated rights on Windows
+            symlinkSync(source, target, isDirectory ? 'junction' : 'file');
+            result.linked.push(relative);
+          }
+        } catch (error) {
+          result.warnings.push(
+            `Failed to ${action} ${relative}: ${error instanceof Error ? error.message : String(error)}`
+          );
+        }
+      }
+    }
+  };
+
+  each(config.copy, 'copy');
+  each(config.symlink, 'symlink');
+  return result;
+}
+
+/**
+ * Run the configured teardown commands in a worktree that is about to be removed, calling
+ * `onCommand` as each one starts. Failures, commands skipped because the config doesn't match
+ * `approvedHash`, and commands cut off by the shared timeout are returned as warnings so they
+ * don't keep the worktree around.
+ */
+export async function runWorktreeTeardown(
+  repoPath: string,
+  worktreePath: string,
+  approvedHash?: string,
+  onCommand?: (command: string) => void
+): Promise<string[]> {
+  const warnings: string[] = [];
+  let loaded: { config: WorktreeSetupConfig; hash: string } | null;
+  try {
+    loaded = readWorktreeSetupConfig(repoPath);
+  } catch (error) {
+    return [(error as Error).message];
+  }
+  const config = loaded?.config;
+  if (!config?.teardown?.length || !existsSync(worktreePath)) return warnings;
+  if (loaded?.hash !== approvedHash) return [notApprovedWarning('teardown', config.teardown)];
+
+  const deadline = Date.now() + TEARDOWN_TIMEOUT_MS;
+  for (const [index, command] of config.teardown.entries()) {
+    const remaining = deadline - Date.now();
+    if (remaining <= 0) {
+      warnings.push(
+        `Teardown timed out after ${TEARDOWN_TIMEOUT_MS / 1000}s; skipped: ${config.teardown.slice(index).join(', ')}`
+      );
+      break;
+    }
+    onCommand?.(command);
+    try {
+      await execAsync(command, { cwd: worktreePath, timeout: remaining });
+    } catch (error) {
+      const timedOut = (error as { killed?: boolean }).killed;
+      warnings.push(
+        timedOut
+          ? `Teardown command timed out: ${command}`
+          : `Teardown command failed: ${command}: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+  return warnings;
+}
+
+export interface WorktreeSetupResult {
+  success: boolean;
+  configured: boolean; // False when the repository has no .copilot/worktree.json
+  copied?: string[];
+  linked?: string[];
+  warnings?: string[];
+  failedCommand?: string;
+  exitCode?: number;
+  error?: string;
+}
+
+/**
+ * Prepare a new worktree: copy and symlink files, then run the post-create commands in order
+ * with `runCommand`, stopping at the first one that fails. The commands are skipped with a
+ * warning unless the config matches `approvedHash`.
+ */
+export async function runWorktreeSetup(
+  repoPath: string,
+  worktreePath: string,
+  runCommand: (command: string) => Promise<{ success: boolean; exitCode?: number; error?: string }>,
+  approvedHash?: string
+): Promise<WorktreeSetupResult> {
+  let loaded: { config: WorktreeSetupConfig; hash: string } | null;
+  try {
+    loaded = readWorktreeSetupConfig(repoPath);
+  } catch (error) {
+    return { success: false, configured: true, error: (error as Error).message };
+  }
+  if (!loaded) return { success: true, configured: false };
+
+  const { config, hash } = loaded;
+  const files = applyWorktreeFiles(repoPath, worktreePath, config);
+  const postCreate = config.postCreate || [];
+  if (postCreate.length > 0 && hash !== approvedHash) {
+    return {
+      success: true,
+      configured: true,
+      ...files,
+      warnings: [...files.warnings, notApprovedWarning('post-create', postCreate)],
+    };
+  }
+  for (const command of postCreate) {
+    const result = await runCommand(command);
+    if (!result.success) {
+      return {
+        success: false,
+        configured: true,
+        ...files,
+        failedCommand: command,
+        exitCode: result.exitCode,
+        error:
+          result.error ||
+          `Setup command "${command}" failed${result.exitCode !== undefined ? ` with exit code ${result.exitCode}` : ''}`,
+      };
+    }
+  }
+  return { success: true, configured: true, ...files };
+}
@@ -0,0 +1,87 @@
+// @vitest-environment node
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { execFileSync } from 'child_process';
+import { mkdirSync, mkdtempSync, rmSync, symlinkSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+const mocks = vi.hoisted(() => ({
+  sessions: [] as Array<{ id: string; worktreePath: string; status: string }>,
+  config: { directory: '', pruneAfterDays: 30, warnDiskThresholdMB: 1024 },
+}));
+
+vi.mock('./worktree', () => ({
+  getWorktreeConfig: vi.fn(() => mocks.config),
+  listWorktreeSessions: vi.fn(() => ({ sessions: mocks.sessions })),
+}));
+
+import {
+  forgetWorktreeUsage,
+  formatBytes,
+  getDirectorySize,
+  getWorktreeUsageReport,
+  scanWorktreeUsage,
+} from './worktreeUsage';
+
+describe('worktreeUsage', () => {
+  let root: string;
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), 'worktree-usage-'));
+    mocks.sessions = [];
+    mocks.config = { directory: root, pruneAfterDays: 30, warnDiskThresholdMB: 1 };
+  });
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it('formats sizes like the renderer', () => {
+    expect(formatBytes(512)).toBe('512 B');
+    expect(formatBytes(1536)).toBe('1.5 KB');
+    expect(formatBytes(10 * 1024 * 1024)).toBe('10.0 MB');
+  });
+
+  it('adds up file sizes without following symlinks', async () => {
+    const shared = join(root, 'shared');
+    const worktree = join(root, 'worktree');
+    mkdirSync(shared);
+    mkdirSync(join(worktree, 'src'), { recursive: true });
+    writeFileSync(join(shared, 'big.bin'), Buffer.alloc(4096));
+    writeFileSync(join(worktree, 'a.txt'), 'hello');
+    writeFileSync(join(worktree, 'src', 'b.txt'), 'world!');
+    symlinkSync(shared, join(worktree, 'node_modules'), 'junction');
+
+    expect(await getDirectorySize(worktree)).toBe(11);
+    expect(await getDirectorySize(join(root, 'missing'))).toBe(0);
+  });
+
+  it('scans worktrees, skips orphaned ones and flags low disk space', async () => {
+    const worktree = join(root, 'repo--feature');
+    mkdirSync(worktree);
+    execFileSync('git', ['init', '-q'], { cwd: worktree });
+    writeFileSync(join(worktree, 'file.txt'), 'abc');
+    mocks.sessions = [
+      { id: 'repo--feature', worktreePath: worktree, status: 'idle' },
+      { id: 'repo--gone', worktreePath: join(root, 'gone'), status: 'orphaned' },
+    ];
+
+    const report = await scanWorktreeUsage();
+    expect(Object.keys(report.sessions)).toEqual(['repo--feature']);
+    expect(report.sessions['repo--feature']).toMatchObject({
+      sizeBytes: expect.any(Number),
+      hasUncommittedChanges: true,
+      hasUnpushedCommits: false,
+    });
+    expect(report.freeBytes).toBeGreaterThan(0);
+    expect(report.lowDiskSpace).toBe(false);
+    expect(getWorktreeUsageReport()).toBe(report);
+
+    // A threshold above any real disk's free space triggers the warning
+    mocks.config.warnDiskThresholdMB = Number.MAX_SAFE_INTEGER / (1024 * 1024);
+    expect((await scanWorktreeUsage()).lowDiskSpace).toBe(true);
+
+    forgetWorktreeUsage('repo--feature');
+    expect(getWorktreeUsageReport()?.sessions).toEqual({});
+  });
+});
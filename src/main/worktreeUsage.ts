@@ -0,0 +1,221 @@
+/**
+ * Worktree Disk Usage
+ *
+ * Worktrees are full checkouts, often with their own dependencies and build output, so the
+ * sessions directory grows quietly. A background scanner measures each worktree's size, whether
+ * it still has uncommitted changes or unpushed commits, and the free space left on the drive.
+ * Results are cached so listing sessions stays fast.
+ */
+
+import { exec } from 'child_process';
+import { promisify } from 'util';
+import { existsSync } from 'fs';
+import { lstat, readdir, statfs } from 'fs/promises';
+import { homedir } from 'os';
+import { join } from 'path';
+import { getWorktreeConfig, listWorktreeSessions } from './worktree';
+
+const execAsync = promisify(exec);
+
+const SCAN_INTERVAL_MS = 30 * 60 * 1000;
+const FIRST_SCAN_DELAY_MS = 60 * 1000;
+
+export interface GitWorkingStatus {
+  hasUncommittedChanges: boolean;
+  hasUnpushedCommits: boolean;
+}
+
+export interface WorktreeUsage {
+  sizeBytes: number;
+  hasUncommittedChanges: boolean;
+  hasUnpushedCommits: boolean;
+  scannedAt: string; // ISO timestamp
+}
+
+export interface WorktreeUsageReport {
+  sessions: Record<string, WorktreeUsage>; // By worktree session ID
+  freeBytes?: number; // Free space on the drive holding the worktrees
+  thresholdMB: number;
+  lowDiskSpace: boolean;
+  scannedAt: string;
+}
+
+let lastReport: WorktreeUsageReport | null = null;
+let scanInProgress: Promise<WorktreeUsageReport> | null = null;
+
+/**
+ * Check a working tree for uncommitted changes and commits not on its upstream branch. A branch
+ * without an upstream counts as unpushed when it has any commits.
+ */
+export async function getGitWorkingStatus(cwd: string): Promise<GitWorkingStatus> {
+  const { stdout: statusOutput } = await execAsync('git status --porcelain', { cwd });
+  const hasUncommittedChanges = statusOutput.trim().length > 0;
+
+  let hasUnpushedCommits = false;
+  try {
+    const { stdout: branch } = await execAsync('git branch --show-current', { cwd });
+    const branchName = branch.trim();
+    if (branchName) {
+      // Check if branch has an upstream
+      try {
+        const { stdout: unpushed } = await execAsync(
+          `git log origin/${branchName}..${branchName} --oneline`,
+          { cwd }
+        );
+        hasUnpushedCommits = unpushed.trim().length > 0;
+      } catch {
+        // No upstream branch, check if there are any commits at all
+        try {
+          const { stdout: allCommits } = await execAsync('git log --oneline -1', { cwd });
+          hasUnpushedCommits = allCommits.trim().length > 0;
+        } catch {
+          hasUnpushedCommits = false;
+        }
+      }
+    }
+  } catch {
+    // Ignore branch errors
+  }
+
+  return { hasUncommittedChanges, hasUnpushedCommits };
+}
+
+/**
+ * Total size of the files under a directory. Symlinks are not followed, so linked dependency
+ * folders (see worktree setup hooks) don't count towards the worktree.
+ */
+export async function getDirectorySize(dir: string): Promise<number> {
+  let total = 0;
+  const pending = [dir];
+  while (pending.length > 0) {
+    const current = pending.pop()!;
+    let entries;
+    try {
+      entries = await readdir(current, { withFileTypes: true });
+    } catch {
+      continue;
+    }
+    for (const entry of entries) {
+      const path = join(current, entry.name);
+      if (entry.isDirectory()) {
+        pending.push(path);
+      } else if (entry.isFile()) {
+        try {
+          total += (await lstat(path)).size;
+        } catch {
+          // File removed while scanning
+        }
+      }
+    }
+  }
+  return total;
+}
+
+export async function getFreeDiskBytes(path: string): Promise<number | undefined> {
+  try {
+    const stats = await statfs(path);
+    return stats.bavail * stats.bsize;
+  } catch {
+    return undefined;
+  }
+}
+
+// Same format as the renderer's formatBytes (e.g. 1536 -> "1.5 KB")
+export function formatBytes(bytes: number): string {
+  if (!Number.isFinite(bytes) || bytes < 1024) {
+    return `${Math.max(0, Math.round(bytes || 0))} B`;
+  }
+  const units = ['KB', 'MB', 'GB', 'TB'];
+  let value = bytes / 1024;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${value.toFixed(1)} ${units[unit]}`;
+}
+
+/**
+ * Measure every worktree session and the free disk space. Concurrent callers share one scan.
+ */
+export function scanWorktreeUsage(): Promise<WorktreeUsageReport> {
+  if (!scanInProgress) {
+    scanInProgress = runScan().finally(() => {
+      scanInProgress = null;
+    });
+  }
+  return scanInProgress;
+}
+
+async function runScan(): Promise<WorktreeUsageReport> {
+  const config = getWorktreeConfig();
+  const { sessions } = listWorktreeSessions();
+  const usage: Record<string, WorktreeUsage> = {};
+
+  // One worktree at a time keeps the scan from competing with the agent for disk and CPU
+  for (const session of sessions) {
+    if (session.status === 'orphaned') continue;
+    let status: GitWorkingStatus = { hasUncommittedChanges: false, hasUnpushedCommits: false };
+    try {
+      status = await getGitWorkingStatus(session.worktreePath);
+    } catch (error) {
+      console.warn(`Failed to check git status of ${session.worktreePath}:`, error);
+    }
+    usage[session.id] = {
+      sizeBytes: await getDirectorySize(session.worktreePath),
+      ...status,
+      scannedAt: new Date().toISOString(),
+    };
+  }
+
+  const freeBytes = await getFreeDiskBytes(
+    existsSync(config.directory) ? config.directory : homedir()
+  );
+  lastReport = {
+    sessions: usage,
+    freeBytes,
+    thresholdMB: config.warnDiskThresholdMB,
+    lowDiskSpace:
+      freeBytes !== undefined &&
+      config.warnDiskThresholdMB > 0 &&
+      freeBytes < config.warnDiskThresholdMB * 1024 * 1024,
+    scannedAt: new Date().toISOString(),
+  };
+  return lastReport;
+}
+
+/**
+ * The most recent scan, or null before the first one finishes
+ */
+export function getWorktreeUsageReport(): WorktreeUsageReport | null {
+  return lastReport;
+}
+
+/**
+ * Drop a removed worktree from the cached report
+ */
+export function forgetWorktreeUsage(sessionId: string): void {
+  if (lastReport) {
+    const { [sessionId]: _removed, ...rest } = lastReport.sessions;
+    lastReport = { ...lastReport, sessions: rest };
+  }
+}
+
+/**
+ * Scan shortly after startup and then periodically. Returns a function that stops the scanner.
+ */
+export function startWorktreeUsageScanner(
+  onReport: (report: WorktreeUsageReport) => void
+): () => void {
+  const scan = () => {
+    scanWorktreeUsage()
+      .then(onReport)
+      .catch((error) => console.warn('Worktree disk usage scan failed:', error));
+  };
+  const firstScan = setTimeout(scan, FIRST_SCAN_DELAY_MS);
+  const interval = setInterval(scan, SCAN_INTERVAL_MS);
+  return () => {
+    clearTimeout(firstScan);
+    clearInterval(interval);
+  };
+}
@@ -32,6 +32,40 @@ const electronAPI = {
     abort: (sessionId: string): void => {
       ipcRenderer.send('copilot:abort', sessionId);
     },
+    getTurnSnapshot: (
+      sessionId: string,
+      turnId: string
+    ): Promise<{
+      turnId: string;
+      files: { path: string; created: boolean; skipped: boolean }[];
+      partial: boolean;
+      revertedAt?: string;
+    } | null> => {
+      return ipcRenderer.invoke('copilot:getTurnSnapshot', { sessionId, turnId });
+    },
+    revertTurn: (
+      sessionId: string,
+      turnId: string
+    ): Promise<{
+      success: boolean;
+      restored: string[];
+      removed: string[];
+      failed: { path: string; error: string }[];
+      partial: boolean;
+      error?: string;
+    }> => {
+      return ipcRenderer.invoke('copilot:revertTurn', { sessionId, turnId });
+    },
+    onTurnSnapshot: (
+      callback: (data: { sessionId: string; turnId: string; fileCount: number }) => void
+    ): (() => void) => {
+      const handler = (
+        _event: Electron.IpcRendererEvent,
+        data: { sessionId: string; turnId: string; fileCount: number }
+      ): void => callback(data);
+      ipcRenderer.on('copilot:turnSnapshot', handler);
+      return () => ipcRenderer.removeListener('copilot:turnSnapshot', handler);
+    },
 
     // Session management
     createSession: (options?: {
@@ -56,6 +90,62 @@ const electronAPI = {
     ): Promise<{ success: boolean; error?: string }> => {
       return ipcRenderer.invoke('copilot:deleteSessionFromHistory', sessionId);
     },
+    exportTranscript: (
+      sessionId: string,
+      format: 'markdown' | 'html' | 'json',
+      name?: string
+    ): Promise<{ success: boolean; path?: string; canceled?: boolean; error?: string }> => {
+      return ipcRenderer.invoke('copilot:exportTranscript', { sessionId, format, name });
+    },
+    pickTranscript: (): Promise<{
+      success: boolean;
+      canceled?: boolean;
+      error?: string;
+      filePath?: string;
+      name?: string;
+      cwd?: string;
+      model?: string;
+      messageCount?: number;
+    }> => {
+      return ipcRenderer.invoke('copilot:pickTranscript');
+    },
+    importTranscript: (
+      filePath: string,
+      cwd: string
+    ): Promise<{
+      success: boolean;
+      error?: string;
+      session?: ImportedSession;
+    }> => {
+      return ipcRenderer.invoke('copilot:importTranscript', { filePath, cwd });
+    },
+    searchSessions: (
+      query: string,
+      filters?: { cwd?: string; model?: string; since?: string }
+    ): Promise<{
+      success: boolean;
+      error?: string;
+      results: SessionSearchResult[];
+      facets: { cwds: string[]; models: string[] };
+    }> => {
+      return ipcRenderer.invoke('copilot:searchSessions', { query, filters });
+    },
+    forkSession: (
+      sessionId: string,
+      point: {
+        role: 'user' | 'assistant';
+        content: string;
+        occurrence: number;
+        messageIndex: number;
+      },
+      options: { agentName?: string; worktreeBranch?: string } = {}
+    ): Promise<{
+      success: boolean;
+      error?: string;
+      session?: ForkedSession;
+    }> => {
+      return ipcRenderer.invoke('copilot:forkSession', { sessionId, point, ...options });
+    },
     switchSession: (sessionId: string): Promise<{ sessionId: string; model: string }> => {
       return ipcRenderer.invoke('copilot:switchSession', sessionId);
     },
@@ -153,12 +243,14 @@ const electronAPI = {
           name?: string;
           editedFiles?: string[];
           alwaysAllowed?: string[];
+          parentSessionId?: string;
         }[];
         previousSessions: {
           sessionId: string;
           name?: string;
           modifiedTime: string;
           cwd?: string;
+          parentSessionId?: string;
         }[];
         models: { id: string; name: string; multiplier: number }[];
       }) => void
@@ -173,12 +265,14 @@ const electronAPI = {
             name?: string;
             editedFiles?: string[];
             alwaysAllowed?: string[];
+            parentSessionId?: string;
           }[];
           previousSessions: {
             sessionId: string;
             name?: string;
             modifiedTime: string;
             cwd?: string;
+            parentSessionId?: string;
           }[];
           models: { id: string; name: string; multiplier: number }[];
         }
@@ -195,6 +289,7 @@ const electronAPI = {
           name?: string;
           editedFiles?: string[];
           alwaysAllowed?: string[];
+          parentSessionId?: string;
         };
       }) => void
     ): (() => void) => {
@@ -208,6 +303,7 @@ const electronAPI = {
             name?: string;
             editedFiles?: string[];
             alwaysAllowed?: string[];
+            parentSessionId?: string;
           };
         }
       ): void => callback(data);
@@ -388,7 +484,7 @@ const electronAPI = {
     },
     respondPermission: (data: {
       requestId: string;
-      decision: 'approved' | 'always' | 'global' | 'denied';
+      decision: 'approved' | 'always' | 'global' | 'folder' | 'denied';
     }): Promise<{ success: boolean }> => {
       return ipcRenderer.invoke('copilot:permissionResponse', data);
     },
@@ -728,7 +824,13 @@ const electronAPI = {
       draft: boolean | undefined,
       targetBranch: string,
       untrackedFiles?: string[],
-      sourceIssue?: { url: string; number: number; owner: string; repo: string }
+      sourceIssue?: {
+        url: string;
+        number: number;
+        owner: string;
+        repo: string;
+        provider?: 'github' | 'azure-devops';
+      }
     ): Promise<{
       success: boolean;
       error?: string;
@@ -885,6 +987,75 @@ const electronAPI = {
       return ipcRenderer.invoke('settings:setRecursiveAgentSkillsScan', enabled);
     },
   },
+  // Permission audit log
+  permissions: {
+    getAuditLog: (filter?: {
+      sessionId?: string;
+      decision?: 'approved' | 'denied';
+      limit?: number;
+    }): Promise<PermissionAuditRecord[]> => {
+      return ipcRenderer.invoke('permissions:getAuditLog', filter);
+    },
+    exportAuditLog: (filter?: {
+      sessionId?: string;
+      decision?: 'approved' | 'denied';
+    }): Promise<{
+      success: boolean;
+      canceled?: boolean;
+      path?: string;
+      count?: number;
+      error?: string;
+    }> => {
+      return ipcRenderer.invoke('permissions:exportAuditLog', filter);
+    },
+    clearAuditLog: (): Promise<{ success: boolean }> => {
+      return ipcRenderer.invoke('permissions:clearAuditLog');
+    },
+  },
+  // Local API server for scripts
+  apiServer: {
+    getStatus: (): Promise<ApiServerState> => {
+      return ipcRenderer.invoke('apiServer:getStatus');
+    },
+    setConfig: (updates: Partial<ApiServerConfig>): Promise<ApiServerState> => {
+      return ipcRenderer.invoke('apiServer:setConfig', updates);
+    },
+    regenerateToken: (): Promise<Omit<ApiServerState, 'config'>> => {
+      return ipcRenderer.invoke('apiServer:regenerateToken');
+    },
+  },
+  // Comments on the source issue when a loop finishes or a PR is opened
+  issueWriteBack: {
+    getConfig: (): Promise<IssueWriteBackConfig> => {
+      return ipcRenderer.invoke('issueWriteBack:getConfig');
+    },
+    setConfig: (updates: Partial<IssueWriteBackConfig>): Promise<IssueWriteBackConfig> => {
+      return ipcRenderer.invoke('issueWriteBack:setConfig', updates);
+    },
+    // Loop completions post right away; PRs are posted once gh sees the PR for the branch
+    notify: (update: {
+      event: 'loop-complete' | 'pull-request';
+      issueUrl: string;
+      cwd: string;
+      outcome?: string;
+      summary?: string;
+      filesChanged?: string[];
+      branch?: string;
+      targetBranch?: string;
+    }): Promise<{ posted: boolean; watching?: boolean; error?: string }> => {
+      return ipcRenderer.invoke('issueWriteBack:notify', update);
+    },
+  },
+  // Jira and GitLab credentials for fetching issues
+  issueTrackers: {
+    getSettings: (): Promise<IssueTrackerSettingsView> => {
+      return ipcRenderer.invoke('issueTrackers:getSettings');
+    },
+    // Omit a token to keep the saved one; pass an empty string to remove it
+    setSettings: (updates: IssueTrackerSettingsUpdate): Promise<IssueTrackerSettingsView> => {
+      return ipcRenderer.invoke('issueTrackers:setSettings', updates);
+    },
+  },
   // Theme management
   theme: {
     get: (): Promise<string> => {
@@ -998,6 +1169,111 @@ const electronAPI = {
     saveState: (): Promise<{ success: boolean }> => {
       return ipcRenderer.invoke('browser:saveState');
     },
+    startViewport: (sessionId: string): Promise<BrowserViewportState> => {
+      return ipcRenderer.invoke('browser:startViewport', sessionId);
+    },
+    stopViewport: (sessionId: string): Promise<{ success: boolean }> => {
+      return ipcRenderer.invoke('browser:stopViewport', sessionId);
+    },
+    setUserControl: (sessionId: string, inControl: boolean): Promise<BrowserViewportState> => {
+      return ipcRenderer.invoke('browser:setUserControl', { sessionId, inControl });
+    },
+    sendInput: (
+      sessionId: string,
+      input: BrowserViewportInput
+    ): Promise<{ success: boolean; message?: string }> => {
+      return ipcRenderer.invoke('browser:sendInput', { sessionId, input });
+    },
+    onViewportFrame: (
+      callback: (data: { sessionId: string; data: string; width: number; height: number }) => void
+    ): (() => void) => {
+      const handler = (
+        _event: Electron.IpcRendererEvent,
+        data: { sessionId: string; data: string; width: number; height: number }
+      ): void => callback(data);
+      ipcRenderer.on('browser:viewportFrame', handler);
+      return () => ipcRenderer.removeListener('browser:viewportFrame', handler);
+    },
+    onViewportState: (callback: (state: BrowserViewportState) => void): (() => void) => {
+      const handler = (_event: Electron.IpcRendererEvent, state: BrowserViewportState): void =>
+        callback(state);
+      ipcRenderer.on('browser:viewportState', handler);
+      return () => ipcRenderer.removeListener('browser:viewportState', handler);
+    },
+    exportHar: (
+      sessionId: string
+    ): Promise<{ success: boolean; path?: string; canceled?: boolean; error?: string }> => {
+      return ipcRenderer.invoke('browser:exportHar', sessionId);
+    },
+    startRecording: (sessionId: string): Promise<BrowserRecordingStatus> => {
+      return ipcRenderer.invoke('browser:startRecording', sessionId);
+    },
+    stopRecording: (sessionId: string): Promise<BrowserRecordingStatus> => {
+      return ipcRenderer.invoke('browser:stopRecording', sessionId);
+    },
+    getRecording: (sessionId: string): Promise<BrowserRecordingStatus> => {
+      return ipcRenderer.invoke('browser:getRecording', sessionId);
+    },
+    saveRecording: (
+      sessionId: string
+    ): Promise<{
+      success: boolean;
+      specPath?: string;
+      tracePath?: string;
+      stepCount?: number;
+      canceled?: boolean;
+      error?: string;
+    }> => {
+      return ipcRenderer.invoke('browser:saveRecording', sessionId);
+    },
+    listVisualBaselines: (sessionId: string): Promise<{ baselines: VisualBaselineEntry[] }> => {
+      return ipcRenderer.invoke('browser:listVisualBaselines', sessionId);
+    },
+    getVisualImages: (
+      sessionId: string,
+      baselineId: string
+    ): Promise<{ baseline?: string; actual?: string; diff?: string }> => {
+      return ipcRenderer.invoke('browser:getVisualImages', { sessionId, baselineId });
+    },
+    acceptVisualBaseline: (
+      sessionId: string,
+      baselineId: string
+    ): Promise<{ success: boolean; error?: string }> => {
+      return ipcRenderer.invoke('browser:acceptVisualBaseline', { sessionId, baselineId });
+    },
+    deleteVisualBaseline: (
+      sessionId: string,
+      baselineId: string
+    ): Promise<{ success: boolean; error?: string }> => {
+      return ipcRenderer.invoke('browser:deleteVisualBaseline', { sessionId, baselineId });
+    },
+    listProfiles: (): Promise<{ profiles: BrowserProfileInfo[] }> => {
+      return ipcRenderer.invoke('browser:listProfiles');
+    },
+    getSessionProfile: (sessionId: string): Promise<{ profile: string }> => {
+      return ipcRenderer.invoke('browser:getSessionProfile', sessionId);
+    },
+    setSessionProfile: (
+      sessionId: string,
+      profile: string
+    ): Promise<{ success: boolean; error?: string }> => {
+      return ipcRenderer.invoke('browser:setSessionProfile', { sessionId, profile });
+    },
+    createProfile: (
+      name: string
+    ): Promise<{ success: boolean; profiles?: BrowserProfileInfo[]; error?: string }> => {
+      return ipcRenderer.invoke('browser:createProfile', name);
+    },
+    clearProfile: (
+      name: string
+    ): Promise<{ success: boolean; profiles?: BrowserProfileInfo[]; error?: string }> => {
+      return ipcRenderer.invoke('browser:clearProfile', name);
+    },
+    deleteProfile: (
+      name: string
+    ): Promise<{ success: boolean; profiles?: BrowserProfileInfo[]; error?: string }> => {
+      return ipcRenderer.invoke('browser:deleteProfile', name);
+    },
   },
   // Worktree Session Management
   worktree: {
@@ -1035,6 +1311,69 @@ const electronAPI = {
     }> => {
       return ipcRenderer.invoke('worktree:fetchAzureDevOpsWorkItem', workItemUrl);
     },
+    // Fetch an issue from GitHub, Azure DevOps, GitLab or Jira, whichever the URL belongs to
+    fetchIssue: (
+      issueUrl: string
+    ): Promise<{
+      success: boolean;
+      provider?: 'github' | 'azure-devops' | 'jira' | 'gitlab';
+      issue?: {
+        key: string;
+        title: string;
+        body: string | null;
+        state: string;
+        html_url: string;
+        comments?: Array<{ body: string; user: { login: string }; created_at: string }>;
+      };
+      suggestedBranch?: string;
+      error?: string;
+    }> => {
+      return ipcRenderer.invoke('worktree:fetchIssue', issueUrl);
+    },
+    // Whether the worktree's repository has .copilot/worktree.json setup hooks. Its commands only
+    // run once approved, and approval lapses when the file changes.
+    hasSetup: (
+      worktreePath: string
+    ): Promise<{
+      hasSetup: boolean;
+      commands?: { postCreate: string[]; teardown: string[]; hash: string };
+      approved: boolean;
+    }> => {
+      return ipcRenderer.invoke('worktree:hasSetup', worktreePath);
+    },
+    approveSetup: (
+      worktreePath: string,
+      hash: string
+    ): Promise<{ success: boolean; error?: string }> => {
+      return ipcRenderer.invoke('worktree:approveSetup', { worktreePath, hash });
+    },
+    // Copy files and run post-create commands; output streams into the session's Setup terminal
+    runSetup: (
+      sessionId: string,
+      worktreePath: string
+    ): Promise<{
+      success: boolean;
+      configured: boolean;
+      copied?: string[];
+      linked?: string[];
+      warnings?: string[];
+      failedCommand?: string;
+      exitCode?: number;
+      error?: string;
+    }> => {
+      return ipcRenderer.invoke('worktree:runSetup', { sessionId, worktreePath });
+    },
+    // Open issues of the repository's GitHub remote, via gh CLI
+    listGitHubIssues: (
+      repoPath: string,
+      query: { label?: string; milestone?: string; search?: string; limit?: number }
+    ): Promise<{
+      success: boolean;
+      issues?: { number: number; title: string; url: string }[];
+      error?: string;
+    }> => {
+      return ipcRenderer.invoke('worktree:listGitHubIssues', { repoPath, query });
+    },
     checkGitVersion: (): Promise<{ supported: boolean; version: string }> => {
       return ipcRenderer.invoke('worktree:checkGitVersion');
     },
@@ -1054,15 +1393,37 @@ const electronAPI = {
     }): Promise<{
       success: boolean;
       error?: string;
+      warnings?: string[]; // Teardown commands that failed or were not approved
     }> => {
       return ipcRenderer.invoke('worktree:removeSession', data);
     },
+    // Disk usage comes from the last background scan and is missing until it has run
     listSessions: (): Promise<{
-      sessions: Array<WorktreeSession & { diskUsage: string }>;
-      totalDiskUsage: string;
+      sessions: Array<WorktreeSession & { diskUsage?: string; usage?: WorktreeUsage }>;
+      totalDiskUsage?: string;
     }> => {
       return ipcRenderer.invoke('worktree:listSessions');
     },
+    getUsage: (options?: { rescan?: boolean }): Promise<WorktreeUsageReport | null> => {
+      return ipcRenderer.invoke('worktree:getUsage', options);
+    },
+    // Teardown command a worktree removal (single, bulk or prune) is currently running
+    onTeardownProgress: (
+      callback: (data: { sessionId: string; command: string }) => void
+    ): (() => void) => {
+      const handler = (
+        _event: Electron.IpcRendererEvent,
+        data: { sessionId: string; command: string }
+      ): void => callback(data);
+      ipcRenderer.on('worktree:teardownProgress', handler);
+      return () => ipcRenderer.removeListener('worktree:teardownProgress', handler);
+    },
+    onUsageUpdated: (callback: (report: WorktreeUsageReport) => void): (() => void) => {
+      const handler = (_event: Electron.IpcRendererEvent, report: WorktreeUsageReport): void =>
+        callback(report);
+      ipcRenderer.on('worktree:usageUpdated', handler);
+      return () => ipcRenderer.removeListener('worktree:usageUpdated', handler);
+    },
     getSession: (sessionId: string): Promise<WorktreeSession | null> => {
       return ipcRenderer.invoke('worktree:getSession', sessionId);
     },
@@ -1078,6 +1439,7 @@ const electronAPI = {
     }): Promise<{
       pruned: string[];
       errors: Array<{ sessionId: string; error: string }>;
+      warnings: string[];
     }> => {
       return ipcRenderer.invoke('worktree:pruneSessions', options);
     },
@@ -1100,47 +1462,112 @@ const electronAPI = {
       return ipcRenderer.invoke('worktree:updateConfig', updates);
     },
   },
-  // PTY (Terminal) management
+  // PTY (Terminal) management. terminalId picks one of a session's terminals (default 'main').
   pty: {
-    create: (sessionId: string, cwd: string): Promise<{ success: boolean; error?: string }> => {
-      return ipcRenderer.invoke('pty:create', { sessionId, cwd });
+    // restoreScrollback keeps the output saved before the last restart in the terminal's history;
+    // runStartupCommand types the terminal's saved startup command into the new shell
+    create: (
+      sessionId: string,
+      cwd: string,
+      terminalId?: string,
+      name?: string,
+      options?: { restoreScrollback?: boolean; runStartupCommand?: boolean }
+    ): Promise<{ success: boolean; error?: string }> => {
+      return ipcRenderer.invoke('pty:create', { sessionId, cwd, terminalId, name, ...options });
     },
-    write: (sessionId: string, data: string): Promise<{ success: boolean; error?: string }> => {
-      return ipcRenderer.invoke('pty:write', { sessionId, data });
+    write: (
+      sessionId: string,
+      data: string,
+      terminalId?: string
+    ): Promise<{ success: boolean; error?: string }> => {
+      return ipcRenderer.invoke('pty:write', { sessionId, data, terminalId });
     },
     resize: (
       sessionId: string,
       cols: number,
-      rows: number
+      rows: number,
+      terminalId?: string
+    ): Promise<{ success: boolean; error?: string }> => {
+      return ipcRenderer.invoke('pty:resize', { sessionId, cols, rows, terminalId });
+    },
+    rename: (
+      sessionId: string,
+      terminalId: string,
+      name: string
     ): Promise<{ success: boolean; error?: string }> => {
-      return ipcRenderer.invoke('pty:resize', { sessionId, cols, rows });
+      return ipcRenderer.invoke('pty:rename', { sessionId, terminalId, name });
+    },
+    list: (sessionId: string): Promise<{ terminals: { terminalId: string; name: string }[] }> => {
+      return ipcRenderer.invoke('pty:list', sessionId);
     },
     getOutput: (
-      sessionId: string
+      sessionId: string,
+      terminalId?: string
     ): Promise<{ success: boolean; output?: string; error?: string }> => {
-      return ipcRenderer.invoke('pty:getOutput', sessionId);
+      return ipcRenderer.invoke('pty:getOutput', sessionId, terminalId);
     },
-    clearBuffer: (sessionId: string): Promise<{ success: boolean; error?: string }> => {
-      return ipcRenderer.invoke('pty:clearBuffer', sessionId);
+    // Commands parsed from shell integration markers, oldest first
+    getCommandBlocks: (
+      sessionId: string,
+      terminalId?: string
+    ): Promise<{
+      success: boolean;
+      blocks?: TerminalCommandBlock[];
+      shellIntegration?: boolean;
+      error?: string;
+    }> => {
+      return ipcRenderer.invoke('pty:getCommandBlocks', sessionId, terminalId);
+    },
+    clearBuffer: (
+      sessionId: string,
+      terminalId?: string
+    ): Promise<{ success: boolean; error?: string }> => {
+      return ipcRenderer.invoke('pty:clearBuffer', sessionId, terminalId);
     },
-    close: (sessionId: string): Promise<{ success: boolean; error?: string }> => {
-      return ipcRenderer.invoke('pty:close', sessionId);
+    // Closes all of the session's terminals when terminalId is omitted
+    close: (
+      sessionId: string,
+      terminalId?: string
+    ): Promise<{ success: boolean; error?: string }> => {
+      return ipcRenderer.invoke('pty:close', sessionId, terminalId);
     },
-    exists: (sessionId: string): Promise<{ exists: boolean }> => {
-      return ipcRenderer.invoke('pty:exists', sessionId);
+    exists: (sessionId: string, terminalId?: string): Promise<{ exists: boolean }> => {
+      return ipcRenderer.invoke('pty:exists', sessionId, terminalId);
     },
-    onData: (callback: (data: { sessionId: string; data: string }) => void): (() => void) => {
+    getHistory: (sessionId: string): Promise<{ terminals: TerminalHistoryEntry[] }> => {
+      return ipcRenderer.invoke('pty:getHistory', sessionId);
+    },
+    // Typed into the terminal whenever it starts; an empty command clears it
+    setStartupCommand: (
+      sessionId: string,
+      terminalId: string,
+      command: string
+    ): Promise<{ success: boolean; startupCommand?: string; error?: string }> => {
+      return ipcRenderer.invoke('pty:setStartupCommand', { sessionId, terminalId, command });
+    },
+    // Closes the terminal and removes its saved history
+    forget: (
+      sessionId: string,
+      terminalId: string
+    ): Promise<{ success: boolean; error?: string }> => {
+      return ipcRenderer.invoke('pty:forget', sessionId, terminalId);
+    },
+    onData: (
+      callback: (data: { sessionId: string; terminalId: string; data: string }) => void
+    ): (() => void) => {
       const handler = (
         _event: Electron.IpcRendererEvent,
-        data: { sessionId: string; data: string }
+        data: { sessionId: string; terminalId: string; data: string }
       ): void => callback(data);
       ipcRenderer.on('pty:data', handler);
       return () => ipcRenderer.removeListener('pty:data', handler);
     },
-    onExit: (callback: (data: { sessionId: string; exitCode: number }) => void): (() => void) => {
+    onExit: (
+      callback: (data: { sessionId: string; terminalId: string; exitCode: number }) => void
+    ): (() => void) => {
       const handler = (
         _event: Electron.IpcRendererEvent,
-        data: { sessionId: string; exitCode: number }
+        data: { sessionId: string; terminalId: string; exitCode: number }
       ): void => callback(data);
       ipcRenderer.on('pty:exit', handler);
       return () => ipcRenderer.removeListener('pty:exit', handler);
@@ -1305,6 +1732,173 @@ interface CustomAgentProfile {
   prompt?: string;
 }
 
+// Permission audit types
+interface PermissionAuditRecord {
+  timestamp: string;
+  sessionId: string;
+  kind: string;
+  executable: string;
+  commandText?: string;
+  decision: 'approved' | 'denied';
+  rule: string;
+  detail?: string;
+}
+
+// Local API server types
+interface ApiServerConfig {
+  enabled: boolean;
+  transport: 'socket' | 'tcp';
+  port: number;
+}
+
+interface ApiServerState {
+  config: ApiServerConfig;
+  token: string;
+  status: {
+    running: boolean;
+    transport?: 'socket' | 'tcp';
+    address?: string;
+    discoveryFile?: string;
+    error?: string;
+  };
+}
+
+// Issue tracker settings as seen by the renderer (tokens are write-only)
+interface IssueTrackerSettingsView {
+  jira: { baseUrl: string; email: string; hasToken: boolean };
+  gitlab: { baseUrl: string; hasToken: boolean };
+}
+
+interface IssueWriteBackConfig {
+  enabled: boolean;
+  onLoopComplete: boolean;
+  onPullRequest: boolean;
+  githubLabel: string;
+  workItemState: string;
+}
+
+interface IssueTrackerSettingsUpdate {
+  jira?: { baseUrl?: string; email?: string; token?: string };
+  gitlab?: { baseUrl?: string; token?: string };
+}
+
+// Session recreated from an imported transcript
+interface ImportedSession {
+  sessionId: string;
+  model: string;
+  cwd: string;
+  name?: string;
+  editedFiles: string[];
+  alwaysAllowed: string[];
+  sourceIssue?: { url: string; number: number; owner: string; repo: string };
+  markedForReview?: boolean;
+  reviewNote?: string;
+  messages: { role: 'user' | 'assistant'; content: string }[];
+}
+
+// Live browser viewport
+interface BrowserViewportState {
+  sessionId: string;
+  hasPage: boolean;
+  url: string;
+  title: string;
+  lastAction?: { description: string; at: string };
+  userInControl: boolean;
+}
+
+type BrowserViewportInput =
+  | { type: 'click'; x: number; y: number; button?: 'left' | 'right' | 'middle' }
+  | { type: 'scroll'; deltaX: number; deltaY: number }
+  | { type: 'key'; key: string }
+  | { type: 'text'; text: string };
+
+interface BrowserRecordingStatus {
+  recording: boolean;
+  stepCount: number;
+  startedAt?: string;
+}
+
+// Visual baselines
+interface VisualBaselineEntry {
+  id: string;
+  name: string;
+  url: string;
+  viewport: { width: number; height: number };
+  fullPage: boolean;
+  createdAt: string;
+  updatedAt: string;
+  lastComparison?: {
+    baselineId: string;
+    name: string;
+    url: string;
+    comparedAt: string;
+    diffPixels: number;
+    totalPixels: number;
+    mismatchPercent: number;
+    maxMismatchPercent: number;
+    passed: boolean;
+    sizeMismatch?: {
+      baseline: { width: number; height: number };
+      actual: { width: number; height: number };
+    };
+  };
+}
+
+// Browser profiles
+interface BrowserProfileInfo {
+  name: string;
+  ephemeral: boolean;
+  cookieCount: number;
+  originCount: number;
+  domainCount: number;
+  sessionIds: string[];
+}
+
+// Terminal saved for a session: its tab, startup command and raw scrollback
+interface TerminalHistoryEntry {
+  terminalId: string;
+  name: string;
+  startupCommand?: string;
+  scrollback: string;
+}
+
+interface TerminalCommandBlock {
+  id: number;
+  command: string;
+  output: string;
+  exitCode?: number;
+  startedAt: number;
+  finishedAt?: number;
+  durationMs?: number;
+}
+
+interface ForkedSession {
+  sessionId: string;
+  model: string;
+  cwd: string;
+  name?: string;
+  parentSessionId: string;
+  alwaysAllowed: string[];
+  yoloMode: boolean;
+  messages: { role: 'user' | 'assistant'; content: string }[];
+  worktree?: { id: string; branch: string; worktreePath: string };
+}
+
+// Full-text session search result
+interface SessionSearchResult {
+  sessionId: string;
+  modifiedTime: string;
+  cwd?: string;
+  model?: string;
+  hits: {
+    kind: 'user' | 'assistant' | 'tool';
+    messageIndex: number;
+    toolName?: string;
+    snippet: string;
+  }[];
+  totalHits: number;
+}
+
 // Worktree Session types
 interface WorktreeSession {
   id: string;
@@ -1323,6 +1917,21 @@ interface WorktreeConfig {
   warnDiskThresholdMB: number;
 }
 
+interface WorktreeUsage {
+  sizeBytes: number;
+  hasUncommittedChanges: boolean;
+  hasUnpushedCommits: boolean;
+  scannedAt: string;
+}
+
+interface WorktreeUsageReport {
+  sessions: Record<string, WorktreeUsage>;
+  freeBytes?: number;
+  thresholdMB: number;
+  lowDiskSpace: boolean;
+  scannedAt: string;
+}
+
 contextBridge.exposeInMainWorld('electronAPI', electronAPI);
 
 export type ElectronAPI = typeof electronAPI;
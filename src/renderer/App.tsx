@@ -31,6 +31,7 @@ import {
   HistoryIcon,
   GitBranchIcon,
   TerminalPanel,
+  BrowserViewportPanel,
   TerminalOutputShrinkModal,
   ChoiceSelector,
   PaperclipIcon,
@@ -62,7 +63,18 @@ import {
   CliSetupModal,
 } from './components';
 import { GitBranchWidget, CommitModal, useCommitModal } from './features/git';
-import { CreateWorktreeSession } from './features/sessions';
+import {
+  CreateWorktreeSession,
+  DEFAULT_BATCH_CONCURRENCY,
+  IssueBatchLauncher,
+  countByStatus,
+  detectIssueSource,
+  isSessionIdle,
+  itemsToStart,
+  WorktreeSessionsList,
+  type BatchLaunchOptions,
+  type BatchQueueItem,
+} from './features/sessions';
 import { ToolActivitySection } from './features/chat';
 import { SubagentActivitySection } from './features/chat/SubagentActivitySection';
 import { buildLisaPhasePrompt } from './features/agent-loops';
@@ -77,6 +89,7 @@ import {
   ImageAttachment,
   FileAttachment,
   PendingConfirmation,
+  DeletePreview,
   PendingInjection,
   TabState,
   DraftInput,
@@ -97,6 +110,8 @@ import {
   Skill,
   Instruction,
   Agent,
+  TranscriptFormat,
+  TRANSCRIPT_FORMATS,
 } from './types';
 import { generateId, generateTabName, setTabCounter } from './utils/session';
 import { playNotificationSound } from './utils/sound';
@@ -105,6 +120,8 @@ import { isAsciiDiagram, extractTextContent } from './utils/isAsciiDiagram';
 import { isCliCommand } from './utils/isCliCommand';
 import { groupAgents } from './utils/agentPicker';
 import { parseGitHubIssueUrl } from './utils/parseGitHubIssueUrl';
+import { parseAzureDevOpsWorkItemUrl } from './utils/parseAzureDevOpsWorkItemUrl';
+import { formatBytes } from './utils/formatBytes';
 import { useClickOutside, useResponsive, useVoiceSpeech } from './hooks';
 import buildInfo from './build-info.json';
 import { TerminalProvider } from './context/TerminalContext';
@@ -149,6 +166,36 @@ const SKILL_TYPE_LABELS: Record<Skill['type'], string> = {
   project: 'Project skills',
 };
 const SKILL_TYPE_ORDER: Skill['type'][] = ['personal', 'project'];
+
+const LOOP_SIGNALS = [
+  RALPH_COMPLETION_SIGNAL,
+  LISA_PHASE_COMPLETE_SIGNAL,
+  LISA_REVIEW_APPROVE_SIGNAL,
+];
+
+// Tell the issue a worktree session came from how its agent loop ended. The main process
+// skips this unless issue write-back is turned on in settings.
+const reportLoopToSourceIssue = (tab: TabState, outcome: string) => {
+  if (!tab.sourceIssue) return;
+  const lastAssistant = [...tab.messages]
+    .reverse()
+    .find((m) => m.role === 'assistant' && m.content.trim());
+  const summary = LOOP_SIGNALS.reduce(
+    (text, signal) => text.split(signal).join(''),
+    lastAssistant?.content || ''
+  ).trim();
+  window.electronAPI.issueWriteBack
+    .notify({
+      event: 'loop-complete',
+      issueUrl: tab.sourceIssue.url,
+      cwd: tab.cwd,
+      outcome,
+      summary,
+      filesChanged: tab.editedFiles,
+    })
+    .catch((err) => console.error('Failed to post to source issue:', err));
+};
+
 const App: React.FC = () => {
   const [status, setStatus] = useState<Status>('connecting');
   const [tabs, setTabs] = useState<TabState[]>([]);
@@ -179,7 +226,7 @@ const App: React.FC = () => {
 
   const [isGitRepo, setIsGitRepo] = useState<boolean>(true);
   const commitModal = useCommitModal();
-  const [allowMode, setAllowMode] = useState<'once' | 'session' | 'global'>('once');
+  const [allowMode, setAllowMode] = useState<'once' | 'session' | 'global' | 'folder'>('once');
   const [showAllowDropdown, setShowAllowDropdown] = useState(false);
   const allowDropdownRef = useRef<HTMLDivElement>(null);
   const [diagnosticsPaths, setDiagnosticsPaths] = useState<{
@@ -390,7 +437,13 @@ const App: React.FC = () => {
 
   // Worktree session state
   const [showCreateWorktree, setShowCreateWorktree] = useState(false);
+  const [showIssueBatch, setShowIssueBatch] = useState(false);
+  const [issueBatchItems, setIssueBatchItems] = useState<BatchQueueItem[]>([]);
+  const [issueBatchConcurrency, setIssueBatchConcurrency] = useState(DEFAULT_BATCH_CONCURRENCY);
   const [worktreeRepoPath, setWorktreeRepoPath] = useState('');
+  const [showWorktreeSessions, setShowWorktreeSessions] = useState(false);
+  // Free bytes left when the last disk usage scan found less than the warning threshold
+  const [worktreeLowDiskBytes, setWorktreeLowDiskBytes] = useState<number | null>(null);
 
   // Terminal panel state - track which sessions have terminal open (per-session state)
   const [terminalOpenSessions, setTerminalOpenSessions] = useState<Set<string>>(new Set());
@@ -398,6 +451,11 @@ const App: React.FC = () => {
   const [terminalInitializedSessions, setTerminalInitializedSessions] = useState<Set<string>>(
     new Set()
   );
+  // Browser viewport state - sessions with the live page view open, and sessions whose agent has a page
+  const [browserViewportOpenSessions, setBrowserViewportOpenSessions] = useState<Set<string>>(
+    new Set()
+  );
+  const [browserPageSessions, setBrowserPageSessions] = useState<Set<string>>(new Set());
   // Terminal output attachment state
   const [terminalAttachment, setTerminalAttachment] = useState<{
     output: string;
@@ -487,6 +545,29 @@ const App: React.FC = () => {
   const [findInChatCurrentMatch, setFindInChatCurrentMatch] = useState(0);
   const findInChatInputRef = useRef<HTMLInputElement>(null);
 
+  // Message to scroll to once a session opened from a transcript search hit has loaded
+  const [pendingMessageJump, setPendingMessageJump] = useState<{
+    sessionId: string;
+    messageIndex: number;
+    query: string;
+  } | null>(null);
+  const [jumpHighlightMessageId, setJumpHighlightMessageId] = useState<string | null>(null);
+
+  // "Fork from here" dialog: the message to fork at and where to run the fork
+  const [forkTarget, setForkTarget] = useState<{
+    tabId: string;
+    point: {
+      role: 'user' | 'assistant';
+      content: string;
+      occurrence: number;
+      messageIndex: number;
+    };
+  } | null>(null);
+  const [forkInWorktree, setForkInWorktree] = useState(false);
+  const [forkBranch, setForkBranch] = useState('');
+  const [forkError, setForkError] = useState<string | null>(null);
+  const [isForking, setIsForking] = useState(false);
+
   // Voice speech hook for STT/TTS
   const voiceSpeech = useVoiceSpeech();
   const { isRecording } = voiceSpeech;
@@ -522,6 +603,20 @@ const App: React.FC = () => {
       .catch((error) => console.error('Failed to load environment settings:', error));
   }, []);
 
+  // Show the browser toggle for sessions whose agent has opened a page
+  useEffect(() => {
+    if (!window.electronAPI?.browser?.onViewportState) return;
+    return window.electronAPI.browser.onViewportState((state) => {
+      setBrowserPageSessions((prev) => {
+        if (prev.has(state.sessionId) === state.hasPage) return prev;
+        const next = new Set(prev);
+        if (state.hasPage) next.add(state.sessionId);
+        else next.delete(state.sessionId);
+        return next;
+      });
+    });
+  }, []);
+
   // Prevent page refresh shortcuts (causes limbo state)
   // Handles: Ctrl+R (Win/Linux), Cmd+R (Mac), F5 (Win), Ctrl+Shift+R, Cmd+Shift+R
   useEffect(() => {
@@ -1360,6 +1455,7 @@ const App: React.FC = () => {
               yoloMode: s.yoloMode,
               activeAgentName: s.activeAgentName,
               sourceIssue: s.sourceIssue,
+              parentSessionId: s.parentSessionId,
             };
           });
 
@@ -1439,6 +1535,7 @@ const App: React.FC = () => {
             yoloMode: s.yoloMode,
             activeAgentName: s.activeAgentName,
             sourceIssue: s.sourceIssue,
+            parentSessionId: s.parentSessionId,
           },
         ];
       });
@@ -1553,6 +1650,8 @@ const App: React.FC = () => {
                 content,
                 isStreaming: false,
                 timestamp: Date.now(),
+                // Later messages of the same turn share its snapshot
+                turnSnapshotId: last?.role === 'assistant' ? last.turnSnapshotId : undefined,
               },
             ],
           };
@@ -1616,7 +1715,7 @@ const App: React.FC = () => {
             const nextIteration = tab.ralphConfig.currentIteration + 1;
 
             const screenshotChecklistItem = tab.ralphConfig.requireScreenshot
-              ? '\n- [ ] Screenshot taken of the delivered feature'
+              ? '\n- [ ] Screenshot taken of the delivered feature\n- [ ] Pages with visual baselines checked with browser_compare_screenshot'
               : '';
 
             // Build continuation prompt based on context clearing setting
@@ -1741,6 +1840,14 @@ Only output ${RALPH_COMPLETION_SIGNAL} when ALL items above are verified complet
             // Ralph loop complete - stop it and close settings
             setShowRalphSettings(false);
             setShowLisaSettings(false);
+            reportLoopToSourceIssue(
+              tab,
+              hasCompletionPromise
+                ? `Ralph loop completed after ${tab.ralphConfig.currentIteration} ${
+                    tab.ralphConfig.currentIteration === 1 ? 'iteration' : 'iterations'
+                  }`
+                : `Ralph loop stopped after reaching the limit of ${tab.ralphConfig.maxIterations} iterations`
+            );
           }
         }
 
@@ -1880,6 +1987,12 @@ Only output ${RALPH_COMPLETION_SIGNAL} when ALL items above are verified complet
             // Lisa loop complete - close settings
             setShowRalphSettings(false);
             setShowLisaSettings(false);
+            reportLoopToSourceIssue(
+              tab,
+              hasReviewApprove && currentPhase === 'final-review'
+                ? 'Lisa loop completed: final review approved'
+                : `Lisa loop stopped in the ${currentPhase} phase`
+            );
           }
         }
 
@@ -2272,6 +2385,12 @@ Only output ${RALPH_COMPLETION_SIGNAL} when ALL items above are verified complet
         toolTitle: data.toolTitle as string | undefined,
         isOutOfScope: data.isOutOfScope as boolean | undefined,
         content: data.content as string | undefined,
+        policyReason: data.policyReason as string | undefined,
+        writePath: data.writePath as string | undefined,
+        writeScope: data.writeScope as string | undefined,
+        isSensitiveWrite: data.isSensitiveWrite as boolean | undefined,
+        isOutsideWorkspace: data.isOutsideWorkspace as boolean | undefined,
+        deletePreview: data.deletePreview as DeletePreview | undefined,
       };
       // Add to pending confirmations queue (don't replace existing ones)
       setTabs((prev) =>
@@ -2377,6 +2496,24 @@ Only output ${RALPH_COMPLETION_SIGNAL} when ALL items above are verified complet
       }
     );
 
+    // Files changed in the current turn were snapshotted: attach the snapshot to the turn's
+    // assistant message so it can offer "revert this turn"
+    const unsubscribeTurnSnapshot = window.electronAPI.copilot.onTurnSnapshot((data) => {
+      setTabs((prev) =>
+        prev.map((tab) => {
+          if (tab.id !== data.sessionId) return tab;
+          const lastIndex = tab.messages.length - 1;
+          const last = tab.messages[lastIndex];
+          if (!last || last.role !== 'assistant' || last.turnSnapshotId === data.turnId) {
+            return tab;
+          }
+          const messages = [...tab.messages];
+          messages[lastIndex] = { ...last, turnSnapshotId: data.turnId };
+          return { ...tab, messages };
+        })
+      );
+    });
+
     const unsubscribeYoloModeChanged = window.electronAPI.copilot.onYoloModeChanged((data) => {
       if (data.enabled && data.flushedCount > 0) {
         // Clear pending confirmations that were flushed by the backend
@@ -2407,6 +2544,7 @@ Only output ${RALPH_COMPLETION_SIGNAL} when ALL items above are verified complet
       unsubscribeCompactionStart();
       unsubscribeCompactionComplete();
       unsubscribeYoloModeChanged();
+      unsubscribeTurnSnapshot();
     };
   }, []);
 
@@ -2467,6 +2605,11 @@ Only output ${RALPH_COMPLETION_SIGNAL} when ALL items above are verified complet
         if (pendingConfirmation.path) {
           deniedContent += `: \`${pendingConfirmation.path}\``;
         }
+      } else if (pendingConfirmation.kind === 'terminal') {
+        deniedContent += `${pendingConfirmation.access === 'input' ? 'Terminal input' : 'Terminal read'}`;
+        if (pendingConfirmation.terminalName) {
+          deniedContent += ` \`${pendingConfirmation.terminalName}\``;
+        }
       } else if (pendingConfirmation.kind === 'read') {
         deniedContent += `File read`;
         if (pendingConfirmation.path) {
@@ -2667,6 +2810,7 @@ Only output ${RALPH_COMPLETION_SIGNAL} when ALL items above are verified complet
 6. **Take Screenshot**: Before signaling completion, you MUST take a screenshot of the delivered feature:
    - Use the \`take_screenshot\` tool to capture the working feature
    - The screenshot should clearly show the feature in action
+   - If the project has visual baselines in \`.copilot/visual-baselines/\`, run \`browser_compare_screenshot\` on the pages you touched and explain or fix any differences
    - This is REQUIRED before you can signal completion`
       : '';
 
@@ -2867,6 +3011,29 @@ Only when ALL the above are verified complete, output exactly: ${RALPH_COMPLETIO
     }
   }, [findInChatCurrentMatch, findInChatMatches]);
 
+  // Transcript search: scroll to the hit once its session's messages are loaded
+  useEffect(() => {
+    if (!pendingMessageJump || activeTab?.id !== pendingMessageJump.sessionId) return;
+    const messages = activeTab.messages;
+    if (messages.length === 0) return;
+
+    // History loaded from disk uses index-based ids; otherwise fall back to the query text
+    const terms = pendingMessageJump.query.toLowerCase().split(/\s+/).filter(Boolean);
+    const target =
+      messages.find((m) => m.id === `hist-${pendingMessageJump.messageIndex}`) ||
+      messages.find((m) => terms.every((term) => m.content.toLowerCase().includes(term)));
+    setPendingMessageJump(null);
+    if (!target) return;
+
+    setJumpHighlightMessageId(target.id);
+    setTimeout(() => {
+      document
+        .getElementById(`message-${target.id}`)
+        ?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    }, 0);
+    setTimeout(() => setJumpHighlightMessageId(null), 3000);
+  }, [pendingMessageJump, activeTab?.id, activeTab?.messages]);
+
   // Handle sending terminal output to the agent
   const handleSendTerminalOutput = useCallback(
     (output: string, lineCount: number, lastCommandStart?: number) => {
@@ -2904,6 +3071,59 @@ Only when ALL the above are verified complete, output exactly: ${RALPH_COMPLETIO
     console.log('Image clicked:', src, alt);
   }, []);
 
+  // Roll back the file changes the agent made in one turn
+  const handleRevertTurn = useCallback(async (sessionId: string, turnId: string) => {
+    const snapshot = await window.electronAPI.copilot.getTurnSnapshot(sessionId, turnId);
+    if (!snapshot || snapshot.files.length === 0) return;
+    const created = snapshot.files.filter((file) => file.created).length;
+    const summary =
+      `${snapshot.files.length - created} file(s) will be restored and ${created} created file(s) removed.` +
+      (snapshot.partial
+        ? '\nSome files deleted in this turn were not captured and cannot be restored.'
+        : '');
+    if (
+      !window.confirm(
+        `Revert the file changes from this turn?\n\n${summary}\nLater edits to these files are discarded too.`
+      )
+    ) {
+      return;
+    }
+
+    const result = await window.electronAPI.copilot.revertTurn(sessionId, turnId);
+    const lines = [
+      result.error
+        ? `⚠️ Could not revert turn: ${result.error}`
+        : `↩️ Reverted turn: ${result.restored.length} file(s) restored, ${result.removed.length} removed`,
+      ...result.failed.map((failure) => `- ${failure.path}: ${failure.error}`),
+      ...(result.partial
+        ? ['⚠️ Some files deleted in this turn were not captured and could not be restored.']
+        : []),
+    ];
+    const revertMessage: Message = {
+      id: generateId(),
+      role: 'system',
+      content: lines.join('\n'),
+      timestamp: Date.now(),
+    };
+    setTabs((prev) =>
+      prev.map((tab) =>
+        tab.id === sessionId
+          ? {
+              ...tab,
+              messages: [
+                ...tab.messages.map((msg) =>
+                  msg.turnSnapshotId === turnId && !result.error
+                    ? { ...msg, turnReverted: true }
+                    : msg
+                ),
+                revertMessage,
+              ],
+            }
+          : tab
+      )
+    );
+  }, []);
+
   // Handle confirmation from shrink modal
   const handleShrinkModalConfirm = useCallback((output: string, lineCount: number) => {
     setTerminalAttachment({ output, lineCount });
@@ -3022,7 +3242,9 @@ Only when ALL the above are verified complete, output exactly: ${RALPH_COMPLETIO
     [handleSendMessage]
   );
 
-  const handleConfirmation = async (decision: 'approved' | 'always' | 'global' | 'denied') => {
+  const handleConfirmation = async (
+    decision: 'approved' | 'always' | 'global' | 'folder' | 'denied'
+  ) => {
     // Get the first pending confirmation from the queue
     const pendingConfirmation = activeTab?.pendingConfirmations?.[0];
     if (!pendingConfirmation || !activeTab) return;
@@ -3065,6 +3287,11 @@ Only when ALL the above are verified complete, output exactly: ${RALPH_COMPLETIO
           if (pendingConfirmation.path) {
             deniedContent += `: \`${pendingConfirmation.path}\``;
           }
+        } else if (pendingConfirmation.kind === 'terminal') {
+          deniedContent += `${pendingConfirmation.access === 'input' ? 'Terminal input' : 'Terminal read'}`;
+          if (pendingConfirmation.terminalName) {
+            deniedContent += ` \`${pendingConfirmation.terminalName}\``;
+          }
         } else if (pendingConfirmation.kind === 'read') {
           deniedContent += `File read`;
           if (pendingConfirmation.path) {
@@ -3493,8 +3720,9 @@ Only when ALL the above are verified complete, output exactly: ${RALPH_COMPLETIO
       useLisaSimpson?: boolean;
       yoloMode?: boolean;
       shouldAutoStart?: boolean;
-    }
-  ) => {
+    },
+    options?: { activate?: boolean } // False keeps the current tab in front, e.g. for batches
+  ): Promise<{ sessionId: string; setupError?: string } | undefined> => {
     try {
       // Check trust for the worktree directory
       const trustResult = await window.electronAPI.copilot.checkDirectoryTrust(worktreePath);
@@ -3502,7 +3730,7 @@ Only when ALL the above are verified complete, output exactly: ${RALPH_COMPLETIO
         // User declined trust - remove the worktree we just created
         const sessionId = worktreePath.split(/[/\\]/).pop() || '';
         await window.electronAPI.worktree.removeSession({ sessionId, force: true });
-        return;
+        return undefined;
       }
 
       setStatus('connecting');
@@ -3526,7 +3754,8 @@ Only when ALL the above are verified complete, output exactly: ${RALPH_COMPLETIO
 
       // Parse source issue URL if provided (always, not just for autoStart)
       const sourceIssue = issueData?.issueInfo?.url
-        ? parseGitHubIssueUrl(issueData.issueInfo.url)
+        ? parseGitHubIssueUrl(issueData.issueInfo.url) ||
+          parseAzureDevOpsWorkItemUrl(issueData.issueInfo.url)
         : undefined;
 
       const newTab: TabState = {
@@ -3552,11 +3781,64 @@ Only when ALL the above are verified complete, output exactly: ${RALPH_COMPLETIO
         sourceIssue: sourceIssue ?? undefined,
       };
       setTabs((prev) => [...prev, newTab]);
-      setActiveTabId(result.sessionId);
+      if (options?.activate !== false) {
+        setActiveTabId(result.sessionId);
+      }
       setStatus('connected');
 
+      // Run the repository's worktree setup hooks in the session's terminal before the agent
+      // starts, so it works in a ready worktree
+      let setupError: string | undefined;
+      const addSetupMessage = (content: string) =>
+        setTabs((prev) =>
+          prev.map((tab) =>
+            tab.id === result.sessionId
+              ? {
+                  ...tab,
+                  messages: [...tab.messages, { id: generateId(), role: 'assistant', content }],
+                }
+              : tab
+          )
+        );
+      const setupInfo = await window.electronAPI.worktree.hasSetup(worktreePath);
+      if (setupInfo.hasSetup) {
+        // The commands come from the repository, so show them and ask before running any
+        let commandsDeclined = false;
+        if (setupInfo.commands && !setupInfo.approved) {
+          const { postCreate, teardown, hash } = setupInfo.commands;
+          const listCommands = (label: string, commands: string[]) =>
+            commands.length > 0
+              ? `\n\n${label}:\n${commands.map((command) => `  ${command}`).join('\n')}`
+              : '';
+          const approved = window.confirm(
+            `This repository's .copilot/worktree.json runs commands in its worktrees.` +
+              listCommands('After a worktree is created', postCreate) +
+              listCommands('Before a worktree is removed', teardown) +
+              `\n\nOnly allow them if you trust this repository. Run these commands?`
+          );
+          if (approved) {
+            await window.electronAPI.worktree.approveSetup(worktreePath, hash);
+          } else {
+            commandsDeclined = true;
+          }
+        }
+        setTerminalInitializedSessions((prev) => new Set(prev).add(result.sessionId));
+        setTerminalOpenSessions((prev) => new Set(prev).add(result.sessionId));
+        const setup = await window.electronAPI.worktree.runSetup(result.sessionId, worktreePath);
+        if (!setup.success) {
+          setupError = setup.error || 'Worktree setup failed';
+          addSetupMessage(
+            `⚠️ Worktree setup failed: ${setupError}\n\nSee the Setup terminal for details.${issueData?.shouldAutoStart ? ' The agent was not started.' : ''}`
+          );
+        } else if (commandsDeclined) {
+          addSetupMessage(
+            'Commands from .copilot/worktree.json were not run. They will be shown again for approval next time.'
+          );
+        }
+      }
+
       // If shouldAutoStart is enabled, send the initial prompt with issue context
-      if (issueData?.shouldAutoStart) {
+      if (issueData?.shouldAutoStart && !setupError) {
         const issueContext = issueData.issueInfo.body
           ? `## Issue Description\n\n${issueData.issueInfo.body}`
           : '';
@@ -3681,12 +3963,160 @@ Only when ALL the above are verified complete, output exactly: ${RALPH_COMPLETIO
           );
         }
       }
+      return { sessionId: result.sessionId, setupError };
     } catch (error) {
       console.error('Failed to create worktree session tab:', error);
       setStatus('connected');
+      return undefined;
+    }
+  };
+
+  const updateIssueBatchItem = (itemId: string, changes: Partial<BatchQueueItem>) => {
+    setIssueBatchItems((prev) =>
+      prev.map((item) => (item.id === itemId ? { ...item, ...changes } : item))
+    );
+  };
+
+  // Fetch the issue, create its worktree and start the agent in a background tab
+  const startIssueBatchItem = async (item: BatchQueueItem) => {
+    const fail = (error: string) =>
+      updateIssueBatchItem(item.id, { status: 'failed', error, finishedAt: Date.now() });
+    try {
+      let issue:
+        | {
+            title: string;
+            body: string | null;
+            comments?: Array<{ body: string; user: { login: string }; created_at: string }>;
+          }
+        | undefined;
+      let suggestedBranch: string | undefined;
+      let fetchError: string | undefined;
+      const source = detectIssueSource(item.issueUrl);
+      if (source === 'github') {
+        const result = await window.electronAPI.worktree.fetchGitHubIssue(item.issueUrl);
+        issue = result.issue;
+        suggestedBranch = result.suggestedBranch;
+        fetchError = result.error;
+      } else if (source === 'jira' || source === 'gitlab') {
+        const result = await window.electronAPI.worktree.fetchIssue(item.issueUrl);
+        issue = result.issue;
+        suggestedBranch = result.suggestedBranch;
+        fetchError = result.error;
+      } else {
+        const result = await window.electronAPI.worktree.fetchAzureDevOpsWorkItem(item.issueUrl);
+        issue = result.workItem;
+        suggestedBranch = result.suggestedBranch;
+        fetchError = result.error;
+      }
+      if (!issue || !suggestedBranch) {
+        fail(fetchError || 'Failed to fetch issue');
+        return;
+      }
+      updateIssueBatchItem(item.id, { title: issue.title, branch: suggestedBranch });
+
+      const created = await window.electronAPI.worktree.createSession({
+        repoPath: item.repoPath,
+        branch: suggestedBranch,
+      });
+      if (!created.success || !created.session) {
+        fail(created.error || 'Failed to create worktree session');
+        return;
+      }
+
+      const { mode, ralphMaxIterations, yoloMode } = item.options;
+      const started = await handleWorktreeSessionCreated(
+        created.session.worktreePath,
+        created.session.branch,
+        {
+          issueInfo: {
+            url: item.issueUrl,
+            title: issue.title,
+            body: issue.body,
+            comments: issue.comments,
+          },
+          useRalphWiggum: mode === 'ralph',
+          ralphMaxIterations,
+          useLisaSimpson: mode === 'lisa',
+          yoloMode,
+          shouldAutoStart: true,
+        },
+        { activate: false }
+      );
+      if (!started) {
+        fail('Failed to start a session in the worktree');
+        return;
+      }
+      if (started.setupError) {
+        updateIssueBatchItem(item.id, { sessionId: started.sessionId });
+        fail(`Worktree setup failed: ${started.setupError}`);
+        return;
+      }
+      updateIssueBatchItem(item.id, { status: 'running', sessionId: started.sessionId });
+    } catch (error) {
+      fail(error instanceof Error ? error.message : String(error));
     }
   };
 
+  const handleQueueIssueBatch = (issueUrls: string[], options: BatchLaunchOptions) => {
+    setIssueBatchItems((prev) => {
+      const pending = prev.filter((item) => item.status !== 'done' && item.status !== 'failed');
+      const added = issueUrls
+        .filter((url) => !pending.some((item) => item.issueUrl === url))
+        .map(
+          (issueUrl): BatchQueueItem => ({
+            id: generateId(),
+            issueUrl,
+            repoPath: worktreeRepoPath,
+            options,
+            status: 'queued',
+          })
+        );
+      return [...prev, ...added];
+    });
+  };
+
+  // Warn when the background worktree scan finds free disk space below the threshold
+  useEffect(() => {
+    return window.electronAPI.worktree.onUsageUpdated((report) => {
+      setWorktreeLowDiskBytes(report.lowDiskSpace ? (report.freeBytes ?? 0) : null);
+    });
+  }, []);
+
+  // Start queued issues while there is room under the concurrency limit
+  useEffect(() => {
+    const ready = itemsToStart(issueBatchItems, issueBatchConcurrency);
+    if (ready.length === 0) return;
+    const readyIds = new Set(ready.map((item) => item.id));
+    setIssueBatchItems((prev) =>
+      prev.map((item) => (readyIds.has(item.id) ? { ...item, status: 'starting' } : item))
+    );
+    for (const item of ready) {
+      startIssueBatchItem(item);
+    }
+  }, [issueBatchItems, issueBatchConcurrency]);
+
+  // A batch session is done once its agent (and any Ralph or Lisa loop) goes idle
+  useEffect(() => {
+    const finished = new Map<string, Partial<BatchQueueItem>>();
+    for (const item of issueBatchItems) {
+      if (item.status !== 'running') continue;
+      const tab = tabs.find((t) => t.id === item.sessionId);
+      if (!tab) {
+        finished.set(item.id, {
+          status: 'failed',
+          error: 'Session was closed',
+          finishedAt: Date.now(),
+        });
+      } else if (isSessionIdle(tab)) {
+        finished.set(item.id, { status: 'done', finishedAt: Date.now() });
+      }
+    }
+    if (finished.size === 0) return;
+    setIssueBatchItems((prev) =>
+      prev.map((item) => (finished.has(item.id) ? { ...item, ...finished.get(item.id) } : item))
+    );
+  }, [tabs, issueBatchItems]);
+
   // Handle opening an existing worktree session
   const handleOpenWorktreeSession = async (session: { worktreePath: string; branch: string }) => {
     // Check if this worktree is already open in an existing tab
@@ -3792,6 +4222,7 @@ Only when ALL the above are verified complete, output exactly: ${RALPH_COMPLETIO
               cwd: closingTab.cwd,
               markedForReview: closingTab.markedForReview,
               reviewNote: closingTab.reviewNote,
+              parentSessionId: closingTab.parentSessionId,
             },
             ...prev,
           ]);
@@ -3841,6 +4272,7 @@ Only when ALL the above are verified complete, output exactly: ${RALPH_COMPLETIO
             cwd: closingTab.cwd,
             markedForReview: closingTab.markedForReview,
             reviewNote: closingTab.reviewNote,
+            parentSessionId: closingTab.parentSessionId,
           },
           ...prev,
         ]);
@@ -4028,6 +4460,7 @@ Only when ALL the above are verified complete, output exactly: ${RALPH_COMPLETIO
         markedForReview: prevSession.markedForReview,
         reviewNote: prevSession.reviewNote,
         activeAgentName: prevSession.activeAgentName,
+        parentSessionId: prevSession.parentSessionId,
       };
 
       setTabs((prev) => [...prev, newTab]);
@@ -4090,6 +4523,179 @@ Only when ALL the above are verified complete, output exactly: ${RALPH_COMPLETIO
     }
   };
 
+  const handleExportTranscript = async (
+    sessionId: string,
+    format: TranscriptFormat,
+    name?: string
+  ): Promise<{ success: boolean; path?: string; canceled?: boolean; error?: string }> => {
+    setContextMenu(null);
+    try {
+      const result = await window.electronAPI.copilot.exportTranscript(sessionId, format, name);
+      if (!result.success && !result.canceled) {
+        console.error('Failed to export transcript:', result.error);
+      }
+      return result;
+    } catch (error) {
+      console.error('Failed to export transcript:', error);
+      return { success: false, error: String(error) };
+    }
+  };
+
+  // Recreate a session from an exported transcript JSON in a folder of the user's choosing
+  const handleImportTranscript = async (): Promise<{ success: boolean; error?: string }> => {
+    try {
+      const picked = await window.electronAPI.copilot.pickTranscript();
+      if (!picked.success || !picked.filePath) {
+        return { success: false, error: picked.canceled ? undefined : picked.error };
+      }
+
+      const folderResult = await window.electronAPI.copilot.pickFolder();
+      if (folderResult.canceled || !folderResult.path) {
+        return { success: false };
+      }
+      const trustResult = await window.electronAPI.copilot.checkDirectoryTrust(folderResult.path);
+      if (!trustResult.trusted) {
+        return { success: false };
+      }
+
+      setStatus('connecting');
+      const result = await window.electronAPI.copilot.importTranscript(
+        picked.filePath,
+        folderResult.path
+      );
+      setStatus('connected');
+      if (!result.success || !result.session) {
+        return { success: false, error: result.error || 'Failed to import transcript' };
+      }
+
+      const s = result.session;
+      const newTab: TabState = {
+        id: s.sessionId,
+        name: s.name || generateTabName(),
+        messages: s.messages.map((m, i) => ({
+          id: `hist-${i}`,
+          ...m,
+          isStreaming: false,
+        })),
+        model: s.model,
+        cwd: s.cwd,
+        isProcessing: false,
+        activeTools: [],
+        activeSubagents: [],
+        hasUnreadCompletion: false,
+        pendingConfirmations: [],
+        needsTitle: !s.name,
+        alwaysAllowed: s.alwaysAllowed,
+        editedFiles: s.editedFiles,
+        untrackedFiles: [],
+        fileViewMode: 'flat',
+        currentIntent: null,
+        currentIntentTimestamp: null,
+        gitBranchRefresh: 0,
+        activeAgentName: undefined,
+        sourceIssue: s.sourceIssue,
+        markedForReview: s.markedForReview,
+        reviewNote: s.reviewNote,
+      };
+      setTabs((prev) => [...prev, newTab]);
+      setActiveTabId(s.sessionId);
+      return { success: true };
+    } catch (error) {
+      console.error('Failed to import transcript:', error);
+      setStatus('connected');
+      return { success: false, error: String(error) };
+    }
+  };
+
+  const handleOpenForkDialog = (tab: TabState, message: Message) => {
+    if (message.role !== 'user' && message.role !== 'assistant') return;
+    const position = tab.messages.findIndex((m) => m.id === message.id);
+    const content = message.content.trim();
+    // Live tabs don't number messages like the events file, so main matches on content first
+    const occurrence = tab.messages
+      .slice(0, position)
+      .filter((m) => m.role === message.role && m.content.trim() === content).length;
+    const histIndex = message.id.startsWith('hist-') ? Number(message.id.slice(5)) : NaN;
+    setForkTarget({
+      tabId: tab.id,
+      point: {
+        role: message.role,
+        content: message.content,
+        occurrence,
+        messageIndex: Number.isNaN(histIndex) ? position : histIndex,
+      },
+    });
+    const slug = tab.name
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-|-$/g, '');
+    setForkBranch(`${slug || 'session'}-fork`);
+    setForkInWorktree(false);
+    setForkError(null);
+  };
+
+  const handleForkSession = async () => {
+    if (!forkTarget) return;
+    const parentTab = tabs.find((t) => t.id === forkTarget.tabId);
+    setIsForking(true);
+    setForkError(null);
+    try {
+      const result = await window.electronAPI.copilot.forkSession(
+        forkTarget.tabId,
+        forkTarget.point,
+        {
+          agentName: parentTab?.activeAgentName,
+          worktreeBranch: forkInWorktree ? forkBranch.trim() : undefined,
+        }
+      );
+      if (!result.success || !result.session) {
+        setForkError(result.error || 'Failed to fork session');
+        return;
+      }
+
+      const s = result.session;
+      const newTab: TabState = {
+        id: s.sessionId,
+        name: s.name || (s.worktree ? `${s.worktree.branch} (worktree)` : generateTabName()),
+        messages: s.messages.map((m, i) => ({
+          id: `hist-${i}`,
+          ...m,
+          isStreaming: false,
+        })),
+        model: s.model,
+        cwd: s.cwd,
+        isProcessing: false,
+        activeTools: [],
+        activeSubagents: [],
+        hasUnreadCompletion: false,
+        pendingConfirmations: [],
+        needsTitle: !s.name,
+        alwaysAllowed: s.alwaysAllowed,
+        editedFiles: [],
+        untrackedFiles: [],
+        fileViewMode: parentTab?.fileViewMode || 'flat',
+        currentIntent: null,
+        currentIntentTimestamp: null,
+        gitBranchRefresh: 0,
+        activeAgentName: parentTab?.activeAgentName,
+        yoloMode: s.yoloMode,
+        sourceIssue: parentTab?.sourceIssue,
+        parentSessionId: s.parentSessionId,
+      };
+      setTabs((prev) => [...prev, newTab]);
+      setSelectedAgentByTab((prev) =>
+        prev[s.parentSessionId] ? { ...prev, [s.sessionId]: prev[s.parentSessionId] } : prev
+      );
+      setActiveTabId(s.sessionId);
+      setForkTarget(null);
+    } catch (error) {
+      console.error('Failed to fork session:', error);
+      setForkError(String(error));
+    } finally {
+      setIsForking(false);
+    }
+  };
+
   const handleModelChange = async (
     model: string
   ): Promise<{ sessionId: string; model: string; cwd?: string; newSession?: boolean } | null> => {
@@ -4920,6 +5526,40 @@ Only when ALL the above are verified complete, output exactly: ${RALPH_COMPLETIO
                 </div>
               </div>
 
+              {/* Issue batch progress */}
+              {issueBatchItems.length > 0 &&
+                (() => {
+                  const counts = countByStatus(issueBatchItems);
+                  return (
+                    <button
+                      onClick={() => setShowIssueBatch(true)}
+                      className="flex items-center gap-2 px-3 py-1.5 text-[10px] text-copilot-text-muted hover:text-copilot-text hover:bg-copilot-surface border-t border-copilot-border transition-colors"
+                      title="Show issue batch"
+                    >
+                      <GitBranchIcon size={12} />
+                      <span className="truncate">
+                        Issue batch: {counts.starting + counts.running} running · {counts.queued}{' '}
+                        queued · {counts.done} done
+                        {counts.failed > 0 && ` · ${counts.failed} failed`}
+                      </span>
+                    </button>
+                  );
+                })()}
+
+              {/* Low disk space warning from the worktree usage scan */}
+              {worktreeLowDiskBytes !== null && (
+                <button
+                  onClick={() => setShowWorktreeSessions(true)}
+                  className="flex items-center gap-2 px-3 py-1.5 text-[10px] text-copilot-warning hover:bg-copilot-surface border-t border-copilot-border transition-colors"
+                  title="Manage worktrees"
+                >
+                  <GitBranchIcon size={12} />
+                  <span className="truncate">
+                    Low disk space: {formatBytes(worktreeLowDiskBytes)} free · Clean up worktrees
+                  </span>
+                </button>
+              )}
+
               {/* Open Tabs */}
               <div className="flex-1 overflow-y-auto" data-tour="sidebar-tabs">
                 {(() => {
@@ -5255,35 +5895,84 @@ Only when ALL the above are verified complete, output exactly: ${RALPH_COMPLETIO
 
           {/* Main Content Area */}
           <div className="flex-1 flex flex-col min-h-0 min-w-0">
-            {/* Terminal Toggle Button */}
+            {/* Terminal and Browser Toggle Buttons */}
             {activeTab && (
-              <button
-                onClick={() => {
-                  if (terminalOpenSessions.has(activeTab.id)) {
-                    setTerminalOpenSessions((prev) => {
+              <div className="shrink-0 flex border-b border-copilot-border">
+                <button
+                  onClick={() => {
+                    if (terminalOpenSessions.has(activeTab.id)) {
+                      setTerminalOpenSessions((prev) => {
+                        const next = new Set(prev);
+                        next.delete(activeTab.id);
+                        return next;
+                      });
+                    } else {
+                      setTerminalOpenSessions((prev) => new Set(prev).add(activeTab.id));
+                      setTerminalInitializedSessions((prev) => new Set(prev).add(activeTab.id));
+                    }
+                  }}
+                  className={`flex-1 flex items-center gap-2 px-4 py-2 text-xs ${
+                    terminalOpenSessions.has(activeTab.id)
+                      ? 'text-copilot-accent bg-copilot-surface'
+                      : 'text-copilot-text-muted hover:text-copilot-text hover:bg-copilot-surface'
+                  }`}
+                  data-tour="terminal-toggle"
+                >
+                  <TerminalIcon size={14} />
+                  <span className="font-medium">Terminal</span>
+                  <ChevronDownIcon
+                    size={12}
+                    className={`transition-transform duration-200 ${terminalOpenSessions.has(activeTab.id) ? 'rotate-180' : ''}`}
+                  />
+                </button>
+                <button
+                  onClick={() =>
+                    setBrowserViewportOpenSessions((prev) => {
                       const next = new Set(prev);
-                      next.delete(activeTab.id);
+                      if (next.has(activeTab.id)) next.delete(activeTab.id);
+                      else next.add(activeTab.id);
                       return next;
-                    });
-                  } else {
-                    setTerminalOpenSessions((prev) => new Set(prev).add(activeTab.id));
-                    setTerminalInitializedSessions((prev) => new Set(prev).add(activeTab.id));
+                    })
                   }
-                }}
-                className={`shrink-0 flex items-center gap-2 px-4 py-2 text-xs border-b border-copilot-border ${
-                  terminalOpenSessions.has(activeTab.id)
-                    ? 'text-copilot-accent bg-copilot-surface'
-                    : 'text-copilot-text-muted hover:text-copilot-text hover:bg-copilot-surface'
-                }`}
-                data-tour="terminal-toggle"
-              >
-                <TerminalIcon size={14} />
-                <span className="font-medium">Terminal</span>
-                <ChevronDownIcon
-                  size={12}
-                  className={`transition-transform duration-200 ${terminalOpenSessions.has(activeTab.id) ? 'rotate-180' : ''}`}
-                />
-              </button>
+                  className={`flex items-center gap-2 px-4 py-2 text-xs border-l border-copilot-border ${
+                    browserViewportOpenSessions.has(activeTab.id)
+                      ? 'text-copilot-accent bg-copilot-surface'
+                      : 'text-copilot-text-muted hover:text-copilot-text hover:bg-copilot-surface'
+                  }`}
+                  title={
+                    browserPageSessions.has(activeTab.id)
+                      ? "Watch the agent's browser page"
+                      : "Choose this session's browser profile"
+                  }
+                  data-testid="browser-viewport-toggle"
+                >
+                  <GlobeIcon size={14} />
+                  <span className="font-medium">Browser</span>
+                  {browserPageSessions.has(activeTab.id) && (
+                    <span className="w-1.5 h-1.5 rounded-full bg-copilot-success" />
+                  )}
+                  <ChevronDownIcon
+                    size={12}
+                    className={`transition-transform duration-200 ${browserViewportOpenSessions.has(activeTab.id) ? 'rotate-180' : ''}`}
+                  />
+                </button>
+              </div>
+            )}
+
+            {/* Live Browser Viewport - only the active session streams its page */}
+            {activeTab && browserViewportOpenSessions.has(activeTab.id) && (
+              <BrowserViewportPanel
+                key={activeTab.id}
+                sessionId={activeTab.id}
+                isOpen
+                onClose={() =>
+                  setBrowserViewportOpenSessions((prev) => {
+                    const next = new Set(prev);
+                    next.delete(activeTab.id);
+                    return next;
+                  })
+                }
+              />
             )}
 
             {/* Embedded Terminal Panels */}
@@ -5338,9 +6027,20 @@ Only when ALL the above are verified complete, output exactly: ${RALPH_COMPLETIO
                   }
                 }
 
+                // Offer "revert this turn" on the last visible message of each snapshotted turn
+                const lastTurnMessageIds = new Map<string, string>();
+                filteredMessages.forEach((m) => {
+                  if (m.turnSnapshotId) lastTurnMessageIds.set(m.turnSnapshotId, m.id);
+                });
+
                 return filteredMessages.map((message, index) => {
                   const currentMatch = findInChatMatches[findInChatCurrentMatch];
-                  const isHighlighted = currentMatch?.messageId === message.id;
+                  const isHighlighted =
+                    currentMatch?.messageId === message.id || jumpHighlightMessageId === message.id;
+                  const canRevertTurn =
+                    !!message.turnSnapshotId &&
+                    lastTurnMessageIds.get(message.turnSnapshotId) === message.id &&
+                    !(index === lastAssistantIndex && activeTab?.isProcessing);
 
                   return (
                     <React.Fragment key={message.id}>
@@ -5354,6 +6054,16 @@ Only when ALL the above are verified complete, output exactly: ${RALPH_COMPLETIO
                         onStopSpeaking={voiceSpeech.stopSpeaking}
                         onImageClick={handleImageClick}
                         isHighlighted={isHighlighted}
+                        onRevertTurn={
+                          canRevertTurn && activeTab
+                            ? (turnId) => handleRevertTurn(activeTab.id, turnId)
+                            : undefined
+                        }
+                        onFork={
+                          activeTab && !message.isStreaming && !message.isPendingInjection
+                            ? () => handleOpenForkDialog(activeTab, message)
+                            : undefined
+                        }
                       />
                       {/* Show timestamp for the last assistant message (only when not processing) */}
                       {index === lastAssistantIndex &&
@@ -5391,6 +6101,7 @@ Only when ALL the above are verified complete, output exactly: ${RALPH_COMPLETIO
                 handleChoiceSelect,
                 findInChatMatches,
                 findInChatCurrentMatch,
+                jumpHighlightMessageId,
               ])}
 
               {/* Thinking indicator when processing but no streaming content yet */}
@@ -5474,6 +6185,9 @@ Only when ALL the above are verified complete, output exactly: ${RALPH_COMPLETIO
               (() => {
                 const pendingConfirmation = activeTab.pendingConfirmations[0];
                 const queueLength = activeTab.pendingConfirmations?.length ?? 0;
+                // Typing into a terminal is always approved once
+                const isTerminalInput =
+                  pendingConfirmation.kind === 'terminal' && pendingConfirmation.access === 'input';
                 return (
                   <div
                     className={`shrink-0 mx-3 mb-2 p-4 bg-copilot-surface rounded-lg border ${pendingConfirmation.isDestructive ? 'border-copilot-error' : 'border-copilot-warning'}`}
@@ -5509,6 +6223,12 @@ Only when ALL the above are verified complete, output exactly: ${RALPH_COMPLETIO
                           <>
                             Allow <strong>MCP tool</strong>?
                           </>
+                        ) : pendingConfirmation.kind === 'terminal' ? (
+                          <>
+                            Allow{' '}
+                            {pendingConfirmation.access === 'input' ? 'typing into' : 'reading'}{' '}
+                            <strong>{pendingConfirmation.terminalName || 'terminal'}</strong>?
+                          </>
                         ) : (
                           <>
                             Allow <strong>{pendingConfirmation.kind}</strong>?
@@ -5526,6 +6246,26 @@ Only when ALL the above are verified complete, output exactly: ${RALPH_COMPLETIO
                         Path is outside trusted workspace
                       </div>
                     )}
+                    {pendingConfirmation.kind === 'write' && pendingConfirmation.writePath && (
+                      <div
+                        className="text-xs text-copilot-accent mb-2 font-mono truncate"
+                        title={pendingConfirmation.writePath}
+                      >
+                        ✏️ {pendingConfirmation.writePath}
+                      </div>
+                    )}
+                    {pendingConfirmation.kind === 'write' &&
+                      pendingConfirmation.isOutsideWorkspace &&
+                      !pendingConfirmation.isSensitiveWrite && (
+                        <div className="text-xs text-copilot-text-muted mb-2">
+                          Path is outside the session workspace
+                        </div>
+                      )}
+                    {pendingConfirmation.policyReason && (
+                      <div className="text-xs text-copilot-warning mb-2">
+                        📋 {pendingConfirmation.policyReason}
+                      </div>
+                    )}
                     {pendingConfirmation.kind === 'mcp' &&
                       (pendingConfirmation.toolTitle ||
                         pendingConfirmation.toolName ||
@@ -5551,6 +6291,11 @@ Only when ALL the above are verified complete, output exactly: ${RALPH_COMPLETIO
                         🌐 {pendingConfirmation.url}
                       </div>
                     )}
+                    {pendingConfirmation.kind === 'terminal' && pendingConfirmation.input && (
+                      <pre className="bg-copilot-bg rounded p-3 my-2 overflow-x-auto text-xs text-copilot-text border border-copilot-border max-h-32">
+                        <code>{pendingConfirmation.input}</code>
+                      </pre>
+                    )}
                     {pendingConfirmation.path && pendingConfirmation.kind !== 'write' && (
                       <div
                         className="text-xs text-copilot-accent mb-2 font-mono truncate"
@@ -5583,19 +6328,57 @@ Only when ALL the above are verified complete, output exactly: ${RALPH_COMPLETIO
                       )}
                     {/* Issue #101: Show files to be deleted for destructive commands */}
                     {pendingConfirmation.isDestructive &&
-                      pendingConfirmation.filesToDelete &&
-                      pendingConfirmation.filesToDelete.length > 0 && (
-                        <div className="bg-copilot-error/10 border border-copilot-error/30 rounded p-3 my-2">
+                      (pendingConfirmation.deletePreview ||
+                        (pendingConfirmation.filesToDelete &&
+                          pendingConfirmation.filesToDelete.length > 0)) && (
+                        <div
+                          className="bg-copilot-error/10 border border-copilot-error/30 rounded p-3 my-2"
+                          data-testid="delete-preview"
+                        >
                           <div className="text-xs font-medium text-copilot-error mb-2 flex items-center gap-1">
-                            🗑️ Files to be deleted:
+                            🗑️ Files to be deleted
+                            {pendingConfirmation.deletePreview &&
+                              ` (${pendingConfirmation.deletePreview.totalFiles}${pendingConfirmation.deletePreview.truncated ? '+' : ''}, ${formatBytes(pendingConfirmation.deletePreview.totalBytes)})`}
+                            :
                           </div>
                           <ul className="text-xs text-copilot-error font-mono space-y-1 max-h-24 overflow-y-auto">
-                            {pendingConfirmation.filesToDelete.map((file, idx) => (
+                            {(pendingConfirmation.deletePreview
+                              ? pendingConfirmation.deletePreview.files
+                              : pendingConfirmation.filesToDelete || []
+                            ).map((file, idx) => (
                               <li key={idx} className="truncate" title={file}>
                                 • {file}
                               </li>
                             ))}
                           </ul>
+                          {pendingConfirmation.deletePreview?.truncated && (
+                            <div className="text-[11px] text-copilot-text-muted mt-1">
+                              List truncated — more files would be deleted than shown.
+                            </div>
+                          )}
+                          {pendingConfirmation.deletePreview &&
+                            pendingConfirmation.deletePreview.dirtyTrackedFiles.length > 0 && (
+                              <div className="text-xs text-copilot-warning mt-2">
+                                ⚠️ {pendingConfirmation.deletePreview.dirtyTrackedFiles.length}{' '}
+                                tracked file(s) have uncommitted changes:{' '}
+                                <span className="font-mono">
+                                  {pendingConfirmation.deletePreview.dirtyTrackedFiles
+                                    .slice(0, 5)
+                                    .join(', ')}
+                                  {pendingConfirmation.deletePreview.dirtyTrackedFiles.length > 5 &&
+                                    ', …'}
+                                </span>
+                              </div>
+                            )}
+                          {pendingConfirmation.deletePreview &&
+                            pendingConfirmation.deletePreview.unmatched.length > 0 && (
+                              <div className="text-[11px] text-copilot-text-muted mt-1">
+                                No match on disk:{' '}
+                                <span className="font-mono">
+                                  {pendingConfirmation.deletePreview.unmatched.join(', ')}
+                                </span>
+                              </div>
+                            )}
                         </div>
                       )}
                     <div className="flex gap-2 mt-3">
@@ -5624,6 +6407,8 @@ Only when ALL the above are verified complete, output exactly: ${RALPH_COMPLETIO
                                   handleConfirmation('approved');
                                 } else if (allowMode === 'session') {
                                   handleConfirmation('always');
+                                } else if (allowMode === 'folder') {
+                                  handleConfirmation('folder');
                                 } else {
                                   handleConfirmation('global');
                                 }
@@ -5634,7 +6419,9 @@ Only when ALL the above are verified complete, output exactly: ${RALPH_COMPLETIO
                                 ? 'Allow'
                                 : allowMode === 'session'
                                   ? 'Allow (Session)'
-                                  : 'Allow (Global)'}
+                                  : allowMode === 'folder'
+                                    ? 'Allow (Folder)'
+                                    : 'Allow (Global)'}
                             </button>
                             <button
                               onClick={() => setShowAllowDropdown(!showAllowDropdown)}
@@ -5658,23 +6445,49 @@ Only when ALL the above are verified complete, output exactly: ${RALPH_COMPLETIO
                                 >
                                   {allowMode === 'once' && '✓ '}Once
                                 </button>
-                                <button
-                                  onClick={() => {
-                                    setAllowMode('session');
-                                    setShowAllowDropdown(false);
-                                  }}
-                                  className={`w-full px-3 py-1.5 text-left text-xs hover:bg-copilot-surface-hover transition-colors ${
-                                    allowMode === 'session'
-                                      ? 'text-copilot-accent'
-                                      : 'text-copilot-text'
-                                  }`}
-                                  title="Always allow for this session"
-                                >
-                                  {allowMode === 'session' && '✓ '}Session
-                                </button>
-                                {/* Hide Global option for file changes (write kind) and destructive commands (Issue #101) */}
+                                {/* Session-wide write approval only covers the workspace, so hide it for sensitive/outside writes */}
+                                {!(
+                                  pendingConfirmation.kind === 'write' &&
+                                  (pendingConfirmation.isSensitiveWrite ||
+                                    pendingConfirmation.isOutsideWorkspace)
+                                ) &&
+                                  !isTerminalInput && (
+                                    <button
+                                      onClick={() => {
+                                        setAllowMode('session');
+                                        setShowAllowDropdown(false);
+                                      }}
+                                      className={`w-full px-3 py-1.5 text-left text-xs hover:bg-copilot-surface-hover transition-colors ${
+                                        allowMode === 'session'
+                                          ? 'text-copilot-accent'
+                                          : 'text-copilot-text'
+                                      }`}
+                                      title="Always allow for this session"
+                                    >
+                                      {allowMode === 'session' && '✓ '}Session
+                                    </button>
+                                  )}
+                                {pendingConfirmation.kind === 'write' &&
+                                  pendingConfirmation.writeScope && (
+                                    <button
+                                      onClick={() => {
+                                        setAllowMode('folder');
+                                        setShowAllowDropdown(false);
+                                      }}
+                                      className={`w-full px-3 py-1.5 text-left text-xs hover:bg-copilot-surface-hover transition-colors ${
+                                        allowMode === 'folder'
+                                          ? 'text-copilot-accent'
+                                          : 'text-copilot-text'
+                                      }`}
+                                      title={`Allow writes under ${pendingConfirmation.writeScope} for this session`}
+                                    >
+                                      {allowMode === 'folder' && '✓ '}Allow writes under this folder
+                                    </button>
+                                  )}
+                                {/* Hide Global option for file changes (write kind), destructive commands (Issue #101) and terminal input */}
                                 {pendingConfirmation.kind !== 'write' &&
-                                  !pendingConfirmation.isDestructive && (
+                                  !pendingConfirmation.isDestructive &&
+                                  !isTerminalInput && (
                                     <button
                                       onClick={() => {
                                         setAllowMode('global');
@@ -7067,14 +7880,122 @@ Only when ALL the above are verified complete, output exactly: ${RALPH_COMPLETIO
           onDeleteSession={handleDeleteSessionFromHistory}
           onRemoveWorktreeSession={handleRemoveWorktreeSession}
           onOpenWorktreeSession={handleOpenWorktreeSession}
+          onManageWorktrees={() => {
+            setShowSessionHistory(false);
+            setShowWorktreeSessions(true);
+          }}
+          onExportTranscript={handleExportTranscript}
+          onImportTranscript={handleImportTranscript}
+          onJumpToMessage={(sessionId, messageIndex, query) =>
+            setPendingMessageJump({ sessionId, messageIndex, query })
+          }
         />
 
+        {/* Fork Session Modal */}
+        <Modal
+          isOpen={!!forkTarget}
+          onClose={() => !isForking && setForkTarget(null)}
+          title="Fork from Here"
+          width="440px"
+        >
+          <Modal.Body>
+            <p className="text-sm text-copilot-text-muted mb-3">
+              Start a new session with the same folder, model and agent that carries the
+              conversation up to this message.
+            </p>
+            <label className="flex items-center gap-2 text-sm text-copilot-text cursor-pointer">
+              <input
+                type="checkbox"
+                checked={forkInWorktree}
+                onChange={(e) => setForkInWorktree(e.target.checked)}
+                disabled={isForking}
+              />
+              Run the fork in a new worktree
+            </label>
+            {forkInWorktree && (
+              <div className="mt-2">
+                <label className="text-xs text-copilot-text-muted mb-1 block">Branch name</label>
+                <input
+                  type="text"
+                  value={forkBranch}
+                  onChange={(e) => setForkBranch(e.target.value)}
+                  disabled={isForking}
+                  className="w-full bg-copilot-bg border border-copilot-border rounded px-3 py-2 text-sm text-copilot-text font-mono placeholder-copilot-text-muted focus:border-copilot-accent outline-none"
+                />
+                <p className="text-xs text-copilot-text-muted mt-1">
+                  The worktree starts from the last commit; uncommitted changes stay in the original
+                  folder.
+                </p>
+              </div>
+            )}
+            {forkError && <p className="text-xs text-copilot-error mt-2">{forkError}</p>}
+            <Modal.Footer className="pt-3">
+              <Button variant="ghost" onClick={() => setForkTarget(null)} disabled={isForking}>
+                Cancel
+              </Button>
+              <Button
+                variant="primary"
+                onClick={handleForkSession}
+                disabled={isForking || (forkInWorktree && !forkBranch.trim())}
+              >
+                {isForking ? 'Forking...' : 'Fork'}
+              </Button>
+            </Modal.Footer>
+          </Modal.Body>
+        </Modal>
+
         {/* Create Worktree Session Modal */}
         <CreateWorktreeSession
           isOpen={showCreateWorktree}
           onClose={() => setShowCreateWorktree(false)}
           repoPath={worktreeRepoPath}
           onSessionCreated={handleWorktreeSessionCreated}
+          onOpenBatch={() => setShowIssueBatch(true)}
+        />
+
+        {/* Issue Batch Launcher and Queue */}
+        <IssueBatchLauncher
+          isOpen={showIssueBatch}
+          onClose={() => setShowIssueBatch(false)}
+          repoPath={worktreeRepoPath}
+          items={issueBatchItems}
+          maxConcurrent={issueBatchConcurrency}
+          onMaxConcurrentChange={setIssueBatchConcurrency}
+          onQueue={handleQueueIssueBatch}
+          onOpenSession={(sessionId) => {
+            setActiveTabId(sessionId);
+            setShowIssueBatch(false);
+          }}
+          onRetry={(itemId) =>
+            updateIssueBatchItem(itemId, {
+              status: 'queued',
+              error: undefined,
+              sessionId: undefined,
+              finishedAt: undefined,
+            })
+          }
+          onCancel={(itemId) =>
+            setIssueBatchItems((prev) => prev.filter((item) => item.id !== itemId))
+          }
+          onClearFinished={() =>
+            setIssueBatchItems((prev) =>
+              prev.filter((item) => item.status !== 'done' && item.status !== 'failed')
+            )
+          }
+        />
+
+        {/* Worktree disk usage and cleanup */}
+        <WorktreeSessionsList
+          isOpen={showWorktreeSessions}
+          onClose={() => setShowWorktreeSessions(false)}
+          onOpenSession={(session) => {
+            setShowWorktreeSessions(false);
+            handleOpenWorktreeSession(session);
+          }}
+          onRemoveSession={(worktreePath) => {
+            const tab = tabs.find((t) => t.cwd === worktreePath);
+            if (tab) handleCloseTab(tab.id);
+          }}
         />
 
         {/* Terminal Output Shrink Modal */}
@@ -7242,6 +8163,12 @@ Only when ALL the above are verified complete, output exactly: ${RALPH_COMPLETIO
           diagnosticsPaths={diagnosticsPaths}
           recursiveAgentSkillsScan={recursiveAgentSkillsScan}
           onToggleRecursiveAgentSkillsScan={handleToggleRecursiveAgentSkillsScan}
+          sessionLabels={Object.fromEntries([
+            ...previousSessions
+              .filter((session) => session.name)
+              .map((session) => [session.sessionId, session.name as string]),
+            ...tabs.map((tab) => [tab.id, tab.name]),
+          ])}
           onRevealLogFile={async (pathToReveal) => {
             try {
               await window.electronAPI.file.revealInFolder(pathToReveal);
@@ -7319,6 +8246,20 @@ Only when ALL the above are verified complete, output exactly: ${RALPH_COMPLETIO
                     <EditIcon size={10} />
                     Rename...
                   </button>
+                  <div className="border-t border-copilot-border my-1" />
+                  <div className="px-3 py-1 text-[10px] uppercase tracking-wide text-copilot-text-muted">
+                    Export transcript
+                  </div>
+                  {TRANSCRIPT_FORMATS.map(({ format, label }) => (
+                    <button
+                      key={format}
+                      onClick={() => handleExportTranscript(contextMenu.tabId, format, tab?.name)}
+                      className="w-full px-3 py-1.5 text-left text-xs text-copilot-text hover:bg-copilot-bg transition-colors flex items-center gap-2"
+                    >
+                      <FileIcon size={10} />
+                      {label}
+                    </button>
+                  ))}
                 </>
               );
             })()}
@@ -0,0 +1,171 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Spinner } from '../Spinner';
+import type { ApiServerConfig, ApiServerState } from '../../types';
+
+export const ApiServerPanel: React.FC = () => {
+  const [state, setState] = useState<ApiServerState | null>(null);
+  const [portInput, setPortInput] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [showToken, setShowToken] = useState(false);
+  const [copied, setCopied] = useState(false);
+
+  const loadState = useCallback(async () => {
+    try {
+      const next = await window.electronAPI.apiServer.getStatus();
+      setState(next);
+      setPortInput(String(next.config.port));
+    } catch (error) {
+      console.error('Failed to load API server status:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadState();
+  }, [loadState]);
+
+  const updateConfig = async (updates: Partial<ApiServerConfig>) => {
+    setIsSaving(true);
+    try {
+      setState(await window.electronAPI.apiServer.setConfig(updates));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRegenerateToken = async () => {
+    setIsSaving(true);
+    try {
+      const result = await window.electronAPI.apiServer.regenerateToken();
+      setState((prev) => (prev ? { ...prev, ...result } : prev));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleCopyToken = async () => {
+    if (!state?.token) return;
+    await navigator.clipboard.writeText(state.token);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 1500);
+  };
+
+  const commitPort = () => {
+    const port = Number(portInput);
+    if (!state || !Number.isInteger(port) || port < 1024 || port > 65535) {
+      setPortInput(String(state?.config.port ?? ''));
+      return;
+    }
+    if (port !== state.config.port) updateConfig({ port });
+  };
+
+  if (!state) {
+    return (
+      <div className="flex items-center gap-2 text-xs text-copilot-text-muted py-2">
+        <Spinner size="sm" /> Loading...
+      </div>
+    );
+  }
+
+  const { config, status } = state;
+  const inputClassName =
+    'px-2 py-1.5 text-xs bg-copilot-surface border border-copilot-border rounded text-copilot-text focus:outline-none focus:border-copilot-accent';
+  const buttonClassName =
+    'shrink-0 px-2 py-1.5 text-xs bg-copilot-surface text-copilot-text border border-copilot-border rounded hover:bg-copilot-surface-hover transition-colors disabled:opacity-50 disabled:cursor-not-allowed';
+
+  return (
+    <div data-testid="api-server-panel">
+      <div className="flex items-center justify-between py-2.5">
+        <div>
+          <span className="text-sm text-copilot-text">Enable local API</span>
+          <p className="text-xs text-copilot-text-muted">
+            Create sessions, send prompts and stream events from scripts. Permission prompts still
+            appear here.
+          </p>
+        </div>
+        <button
+          onClick={() => updateConfig({ enabled: !config.enabled })}
+          disabled={isSaving}
+          className={`relative inline-flex h-5 w-9 shrink-0 items-center rounded-full transition-colors ${
+            config.enabled ? 'bg-copilot-accent' : 'bg-copilot-border'
+          }`}
+          aria-label="Enable local API"
+        >
+          <span
+            className="inline-block h-3.5 w-3.5 transform rounded-full bg-white transition-transform"
+            style={{ transform: config.enabled ? 'translateX(18px)' : 'translateX(4px)' }}
+          />
+        </button>
+      </div>
+
+      <div className="flex items-center gap-2 mb-3">
+        <select
+          value={config.transport}
+          onChange={(e) =>
+            updateConfig({ transport: e.target.value as ApiServerConfig['transport'] })
+          }
+          disabled={isSaving}
+          className={`${inputClassName} flex-1`}
+          aria-label="Transport"
+        >
+          <option value="socket">Unix socket / named pipe</option>
+          <option value="tcp">Localhost port</option>
+        </select>
+        {config.transport === 'tcp' && (
+          <input
+            value={portInput}
+            onChange={(e) => setPortInput(e.target.value.replace(/\D/g, ''))}
+            onBlur={commitPort}
+            onKeyDown={(e) => e.key === 'Enter' && commitPort()}
+            disabled={isSaving}
+            className={`${inputClassName} w-20`}
+            aria-label="Port"
+          />
+        )}
+      </div>
+
+      <div className="text-xs mb-3">
+        {status.running ? (
+          <span className="text-copilot-success">
+            Listening on <span className="font-mono break-all">{status.address}</span>
+          </span>
+        ) : status.error ? (
+          <span className="text-copilot-error">Failed to start: {status.error}</span>
+        ) : (
+          <span className="text-copilot-text-muted">Not running</span>
+        )}
+      </div>
+
+      {config.enabled && state.token && (
+        <div className="mb-3">
+          <div className="text-sm text-copilot-text mb-1">Token</div>
+          <div className="flex items-center gap-2">
+            <code className="flex-1 min-w-0 truncate px-2 py-1.5 text-xs bg-copilot-bg border border-copilot-border rounded font-mono text-copilot-text">
+              {showToken ? state.token : '•'.repeat(32)}
+            </code>
+            <button onClick={() => setShowToken((v) => !v)} className={buttonClassName}>
+              {showToken ? 'Hide' : 'Show'}
+            </button>
+            <button onClick={handleCopyToken} className={buttonClassName}>
+              {copied ? 'Copied' : 'Copy'}
+            </button>
+            <button onClick={handleRegenerateToken} disabled={isSaving} className={buttonClassName}>
+              Regenerate
+            </button>
+          </div>
+          <p className="text-xs text-copilot-text-muted mt-1">
+            Send it as <span className="font-mono">Authorization: Bearer &lt;token&gt;</span>.
+          </p>
+        </div>
+      )}
+
+      {status.discoveryFile && (
+        <p className="text-xs text-copilot-text-muted">
+          Address and token are also written to{' '}
+          <span className="font-mono break-all">{status.discoveryFile}</span> while the server runs.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default ApiServerPanel;
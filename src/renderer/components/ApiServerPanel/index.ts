@@ -0,0 +1 @@
+export { ApiServerPanel } from './ApiServerPanel';
@@ -0,0 +1,155 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Spinner } from '../Spinner';
+import type { BrowserProfileInfo } from '../../types';
+
+export interface BrowserProfilesPanelProps {
+  // Display names for known sessions (falls back to the session ID)
+  sessionLabels?: Record<string, string>;
+}
+
+const plural = (count: number, noun: string): string => `${count} ${noun}${count === 1 ? '' : 's'}`;
+
+export const BrowserProfilesPanel: React.FC<BrowserProfilesPanelProps> = ({
+  sessionLabels = {},
+}) => {
+  const [profiles, setProfiles] = useState<BrowserProfileInfo[] | null>(null);
+  const [newProfileName, setNewProfileName] = useState('');
+  const [busyProfile, setBusyProfile] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadProfiles = useCallback(async () => {
+    try {
+      const result = await window.electronAPI.browser.listProfiles();
+      setProfiles(result.profiles);
+    } catch (err) {
+      console.error('Failed to load browser profiles:', err);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadProfiles();
+  }, [loadProfiles]);
+
+  const runAction = async (
+    profile: string,
+    action: () => Promise<{ success: boolean; profiles?: BrowserProfileInfo[]; error?: string }>
+  ): Promise<boolean> => {
+    setBusyProfile(profile);
+    setError(null);
+    try {
+      const result = await action();
+      if (result.success && result.profiles) {
+        setProfiles(result.profiles);
+      } else if (!result.success) {
+        setError(result.error || 'Something went wrong');
+      }
+      return result.success;
+    } finally {
+      setBusyProfile(null);
+    }
+  };
+
+  const handleCreate = async () => {
+    const name = newProfileName.trim();
+    if (!name) return;
+    if (await runAction(name, () => window.electronAPI.browser.createProfile(name))) {
+      setNewProfileName('');
+    }
+  };
+
+  if (!profiles) {
+    return (
+      <div className="flex items-center gap-2 text-xs text-copilot-text-muted py-2">
+        <Spinner size="sm" /> Loading...
+      </div>
+    );
+  }
+
+  const buttonClassName =
+    'shrink-0 px-2 py-1.5 text-xs bg-copilot-surface text-copilot-text border border-copilot-border rounded hover:bg-copilot-surface-hover transition-colors disabled:opacity-50 disabled:cursor-not-allowed';
+
+  return (
+    <div data-testid="browser-profiles-panel">
+      <div className="space-y-1 mb-3">
+        {profiles.map((profile) => (
+          <div
+            key={profile.name}
+            className="flex items-center justify-between gap-3 py-2 border-b border-copilot-border last:border-b-0"
+            data-testid={`browser-profile-${profile.name}`}
+          >
+            <div className="min-w-0">
+              <div className="text-sm text-copilot-text">{profile.name}</div>
+              <div className="text-xs text-copilot-text-muted">
+                {profile.ephemeral
+                  ? 'Fresh for every page; nothing is saved'
+                  : `${plural(profile.cookieCount, 'cookie')} from ${plural(profile.domainCount, 'domain')}, ${plural(profile.originCount, 'origin')} with storage`}
+              </div>
+              {profile.sessionIds.length > 0 && (
+                <div className="text-xs text-copilot-text-muted truncate">
+                  Used by{' '}
+                  {profile.sessionIds.map((id) => sessionLabels[id] || id.slice(0, 8)).join(', ')}
+                </div>
+              )}
+            </div>
+            <div className="flex items-center gap-1">
+              <button
+                onClick={() =>
+                  runAction(profile.name, () =>
+                    window.electronAPI.browser.clearProfile(profile.name)
+                  )
+                }
+                disabled={
+                  busyProfile !== null ||
+                  (!profile.ephemeral && profile.cookieCount === 0 && profile.originCount === 0)
+                }
+                className={buttonClassName}
+                title={
+                  profile.ephemeral
+                    ? 'Close the incognito pages of all sessions'
+                    : 'Sign out of everything: delete cookies and site storage'
+                }
+              >
+                Clear
+              </button>
+              {profile.name !== 'default' && !profile.ephemeral && (
+                <button
+                  onClick={() =>
+                    runAction(profile.name, () =>
+                      window.electronAPI.browser.deleteProfile(profile.name)
+                    )
+                  }
+                  disabled={busyProfile !== null}
+                  className={`${buttonClassName} hover:text-copilot-error`}
+                  title="Delete this profile; sessions using it go back to the default profile"
+                >
+                  Delete
+                </button>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex items-center gap-2">
+        <input
+          value={newProfileName}
+          onChange={(e) => setNewProfileName(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleCreate()}
+          placeholder="New profile, e.g. admin"
+          className="flex-1 px-2 py-1.5 text-xs bg-copilot-surface border border-copilot-border rounded text-copilot-text placeholder:text-copilot-text-muted focus:outline-none focus:border-copilot-accent"
+          aria-label="New profile name"
+        />
+        <button
+          onClick={handleCreate}
+          disabled={!newProfileName.trim() || busyProfile !== null}
+          className={buttonClassName}
+        >
+          Add Profile
+        </button>
+      </div>
+      {error && <p className="text-xs text-copilot-error mt-2">{error}</p>}
+    </div>
+  );
+};
+
+export default BrowserProfilesPanel;
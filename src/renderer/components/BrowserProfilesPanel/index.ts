@@ -0,0 +1,2 @@
+export { BrowserProfilesPanel } from './BrowserProfilesPanel';
+export type { BrowserProfilesPanelProps } from './BrowserProfilesPanel';
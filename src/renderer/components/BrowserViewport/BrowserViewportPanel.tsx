@@ -0,0 +1,393 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { GlobeIcon } from '../Icons';
+import {
+  BrowserProfileInfo,
+  BrowserRecordingStatus,
+  BrowserViewportInput,
+  BrowserViewportState,
+} from '../../types';
+import { VisualDiffModal } from './VisualDiffModal';
+
+const MIN_HEIGHT = 150;
+const MAX_HEIGHT = 800;
+const DEFAULT_HEIGHT = 320;
+
+const MODIFIER_KEYS = ['Control', 'Meta', 'Alt', 'Shift', 'Dead', 'Unidentified'];
+
+interface BrowserViewportPanelProps {
+  sessionId: string;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+interface ViewportFrame {
+  data: string; // Base64 JPEG
+  width: number; // Page size in CSS pixels
+  height: number;
+}
+
+// Translate a key press into viewport input: plain characters are inserted as text, anything
+// else (Enter, arrows, shortcuts) is pressed as a Playwright key combination
+export const toViewportKeyInput = (
+  e: Pick<KeyboardEvent, 'key' | 'ctrlKey' | 'metaKey' | 'altKey' | 'shiftKey'>
+): BrowserViewportInput | null => {
+  if (MODIFIER_KEYS.includes(e.key)) return null;
+  if (e.key.length === 1 && !e.ctrlKey && !e.metaKey && !e.altKey) {
+    return { type: 'text', text: e.key };
+  }
+  const modifiers = [
+    e.ctrlKey && 'Control',
+    e.altKey && 'Alt',
+    e.metaKey && 'Meta',
+    // Shift is already reflected in single characters ("A" rather than "a")
+    e.shiftKey && e.key.length > 1 && 'Shift',
+  ].filter(Boolean);
+  return { type: 'key', key: [...modifiers, e.key].join('+') };
+};
+
+export const BrowserViewportPanel: React.FC<BrowserViewportPanelProps> = ({
+  sessionId,
+  isOpen,
+  onClose,
+}) => {
+  const [state, setState] = useState<BrowserViewportState | null>(null);
+  const [frame, setFrame] = useState<ViewportFrame | null>(null);
+  const [inputError, setInputError] = useState<string | null>(null);
+  const [profiles, setProfiles] = useState<BrowserProfileInfo[]>([]);
+  const [profile, setProfile] = useState('default');
+  const [recording, setRecording] = useState<BrowserRecordingStatus | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [showVisualDiffs, setShowVisualDiffs] = useState(false);
+  const [panelHeight, setPanelHeight] = useState(DEFAULT_HEIGHT);
+  const viewportRef = useRef<HTMLDivElement>(null);
+
+  // Stream the session's page while the panel is open
+  useEffect(() => {
+    if (!isOpen) return;
+    let cancelled = false;
+    const api = window.electronAPI.browser;
+    const unsubscribeFrame = api.onViewportFrame((data) => {
+      if (data.sessionId !== sessionId) return;
+      setFrame({ data: data.data, width: data.width, height: data.height });
+    });
+    const unsubscribeState = api.onViewportState((next) => {
+      if (next.sessionId !== sessionId) return;
+      setState(next);
+      if (!next.hasPage) setFrame(null);
+    });
+    api
+      .startViewport(sessionId)
+      .then((initial) => {
+        if (!cancelled) setState(initial);
+      })
+      .catch((err) => console.error('Failed to start browser viewport:', err));
+
+    return () => {
+      cancelled = true;
+      unsubscribeFrame();
+      unsubscribeState();
+      api.stopViewport(sessionId).catch(() => {});
+    };
+  }, [isOpen, sessionId]);
+
+  // Keep the recorded step count current; every agent action updates the viewport state
+  useEffect(() => {
+    if (!isOpen) return;
+    window.electronAPI.browser
+      .getRecording(sessionId)
+      .then(setRecording)
+      .catch(() => {});
+  }, [isOpen, sessionId, state?.lastAction?.at]);
+
+  // Load the profiles this session can switch between
+  useEffect(() => {
+    if (!isOpen) return;
+    let cancelled = false;
+    const api = window.electronAPI.browser;
+    Promise.all([api.listProfiles(), api.getSessionProfile(sessionId)])
+      .then(([list, current]) => {
+        if (cancelled) return;
+        setProfiles(list.profiles);
+        setProfile(current.profile);
+      })
+      .catch((err) => console.error('Failed to load browser profiles:', err));
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, sessionId]);
+
+  const inControl = !!state?.userInControl;
+
+  const handleToggleRecording = async () => {
+    const api = window.electronAPI.browser;
+    setNotice(null);
+    setRecording(
+      recording?.recording
+        ? await api.stopRecording(sessionId)
+        : await api.startRecording(sessionId)
+    );
+  };
+
+  const handleSaveRecording = async () => {
+    const result = await window.electronAPI.browser.saveRecording(sessionId);
+    if (result.success) {
+      setNotice(`Saved ${result.stepCount} steps to ${result.specPath}`);
+      setRecording(await window.electronAPI.browser.getRecording(sessionId));
+    } else if (!result.canceled) {
+      setInputError(`Saving the test failed: ${result.error || 'unknown error'}`);
+    }
+  };
+
+  const handleExportHar = async () => {
+    const result = await window.electronAPI.browser.exportHar(sessionId);
+    if (!result.success && !result.canceled) {
+      setInputError(`HAR export failed: ${result.error || 'unknown error'}`);
+    }
+  };
+
+  const handleProfileChange = async (next: string) => {
+    const result = await window.electronAPI.browser.setSessionProfile(sessionId, next);
+    if (result.success) {
+      setProfile(next);
+      setInputError(null);
+    } else {
+      setInputError(result.error || 'Could not switch profile');
+    }
+  };
+
+  const handleToggleControl = async () => {
+    const next = await window.electronAPI.browser.setUserControl(sessionId, !inControl);
+    setState(next);
+    setInputError(null);
+    if (next.userInControl) viewportRef.current?.focus();
+  };
+
+  const sendInput = async (input: BrowserViewportInput) => {
+    const result = await window.electronAPI.browser.sendInput(sessionId, input);
+    setInputError(result.success ? null : result.message || 'Input failed');
+  };
+
+  // Map a point on the scaled frame back to page coordinates
+  const handleFrameMouseDown = (e: React.MouseEvent<HTMLImageElement>) => {
+    if (!inControl || !frame) return;
+    e.preventDefault();
+    viewportRef.current?.focus();
+    const rect = e.currentTarget.getBoundingClientRect();
+    if (rect.width === 0 || rect.height === 0) return;
+    sendInput({
+      type: 'click',
+      x: Math.round(((e.clientX - rect.left) * frame.width) / rect.width),
+      y: Math.round(((e.clientY - rect.top) * frame.height) / rect.height),
+      button: e.button === 2 ? 'right' : e.button === 1 ? 'middle' : 'left',
+    });
+  };
+
+  const handleWheel = (e: React.WheelEvent) => {
+    if (!inControl) return;
+    sendInput({ type: 'scroll', deltaX: e.deltaX, deltaY: e.deltaY });
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (!inControl) return;
+    const input = toViewportKeyInput(e);
+    if (!input) return;
+    e.preventDefault();
+    e.stopPropagation();
+    sendInput(input);
+  };
+
+  const handleResizeStart = useCallback(
+    (e: React.MouseEvent) => {
+      e.preventDefault();
+      const startY = e.clientY;
+      const startHeight = panelHeight;
+
+      const handleMouseMove = (moveEvent: MouseEvent) => {
+        const deltaY = moveEvent.clientY - startY;
+        setPanelHeight(Math.min(MAX_HEIGHT, Math.max(MIN_HEIGHT, startHeight + deltaY)));
+      };
+
+      const handleMouseUp = () => {
+        document.removeEventListener('mousemove', handleMouseMove);
+        document.removeEventListener('mouseup', handleMouseUp);
+      };
+
+      document.addEventListener('mousemove', handleMouseMove);
+      document.addEventListener('mouseup', handleMouseUp);
+    },
+    [panelHeight]
+  );
+
+  return (
+    <div
+      className={`flex flex-col border-b border-copilot-border ${!isOpen ? 'hidden' : ''}`}
+      data-testid="browser-viewport-panel"
+    >
+      {/* Header */}
+      <div className="flex items-center justify-between gap-2 px-3 py-1.5 bg-copilot-surface border-b border-copilot-border">
+        <div className="flex items-center gap-2 min-w-0">
+          <span
+            className={`w-2 h-2 rounded-full shrink-0 ${state?.hasPage ? 'bg-copilot-success' : 'bg-copilot-text-muted'}`}
+          />
+          <GlobeIcon size={12} className="shrink-0 text-copilot-text-muted" />
+          <span
+            className="text-[10px] text-copilot-text font-mono truncate"
+            title={state?.title || state?.url}
+            data-testid="browser-viewport-url"
+          >
+            {state?.url || 'No page open'}
+          </span>
+          {state?.lastAction && (
+            <span
+              className="text-[10px] text-copilot-text-muted truncate shrink"
+              title={new Date(state.lastAction.at).toLocaleTimeString()}
+            >
+              · {state.lastAction.description}
+            </span>
+          )}
+        </div>
+        <div className="flex items-center gap-1 shrink-0">
+          <select
+            value={profile}
+            onChange={(e) => handleProfileChange(e.target.value)}
+            disabled={inControl}
+            className="px-1 py-0.5 text-[10px] bg-copilot-bg border border-copilot-border rounded text-copilot-text focus:outline-none focus:border-copilot-accent"
+            title="Browser profile: each keeps its own logins. Switching closes the current page."
+            aria-label="Browser profile"
+          >
+            {(profiles.some((p) => p.name === profile)
+              ? profiles
+              : [...profiles, { name: profile } as BrowserProfileInfo]
+            ).map((p) => (
+              <option key={p.name} value={p.name}>
+                {p.name}
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={handleToggleRecording}
+            className={`flex items-center gap-1 px-2 py-0.5 text-[10px] transition-colors ${
+              recording?.recording
+                ? 'text-copilot-error'
+                : 'text-copilot-text-muted hover:text-copilot-text'
+            }`}
+            title={
+              recording?.recording
+                ? 'Stop recording'
+                : "Record the agent's browser actions as a Playwright test"
+            }
+          >
+            <span
+              className={`w-1.5 h-1.5 rounded-full ${recording?.recording ? 'bg-copilot-error animate-pulse' : 'bg-copilot-text-muted'}`}
+            />
+            {recording?.recording ? `Recording (${recording.stepCount})` : 'Record'}
+          </button>
+          {!!recording?.stepCount && (
+            <button
+              onClick={handleSaveRecording}
+              className="px-2 py-0.5 text-[10px] text-copilot-text-muted hover:text-copilot-text transition-colors"
+              title="Save the recording as a .spec.ts and a JSON trace in the project"
+            >
+              Save test
+            </button>
+          )}
+          <button
+            onClick={() => setShowVisualDiffs(true)}
+            className="px-2 py-0.5 text-[10px] text-copilot-text-muted hover:text-copilot-text transition-colors"
+            title="Compare the page with its saved visual baselines"
+          >
+            Visual diffs
+          </button>
+          <button
+            onClick={handleExportHar}
+            className="px-2 py-0.5 text-[10px] text-copilot-text-muted hover:text-copilot-text transition-colors"
+            title="Save the requests this page made as a HAR file"
+          >
+            Export HAR
+          </button>
+          <button
+            onClick={handleToggleControl}
+            disabled={!state?.hasPage && !inControl}
+            className={`px-2 py-0.5 text-[10px] rounded transition-colors disabled:opacity-50 ${
+              inControl
+                ? 'bg-copilot-warning text-white hover:opacity-90'
+                : 'text-copilot-text-muted hover:text-copilot-text'
+            }`}
+            title={
+              inControl
+                ? 'Let the agent use the browser again'
+                : "Pause the agent's browser tools and use the page yourself"
+            }
+          >
+            {inControl ? 'Hand back to agent' : 'Take control'}
+          </button>
+          <button
+            onClick={onClose}
+            className="px-2 py-0.5 text-[10px] text-copilot-text-muted hover:text-copilot-text transition-colors"
+            title="Close browser view"
+          >
+            ✕
+          </button>
+        </div>
+      </div>
+
+      {/* Viewport */}
+      <div
+        ref={viewportRef}
+        tabIndex={0}
+        onKeyDown={handleKeyDown}
+        onWheel={handleWheel}
+        onContextMenu={(e) => inControl && e.preventDefault()}
+        className={`relative flex items-center justify-center overflow-hidden bg-black outline-none ${
+          inControl ? 'ring-2 ring-inset ring-copilot-warning' : ''
+        }`}
+        style={{ height: `${panelHeight}px` }}
+      >
+        {frame ? (
+          <img
+            src={`data:image/jpeg;base64,${frame.data}`}
+            alt={state?.title || 'Browser page'}
+            draggable={false}
+            onMouseDown={handleFrameMouseDown}
+            className={`max-w-full max-h-full select-none ${inControl ? 'cursor-pointer' : 'cursor-default'}`}
+            data-testid="browser-viewport-frame"
+          />
+        ) : (
+          <span className="text-xs text-copilot-text-muted">
+            {state?.hasPage
+              ? 'Waiting for the page...'
+              : "The agent hasn't opened a browser page in this session yet"}
+          </span>
+        )}
+        {inControl && (
+          <span className="absolute top-1 left-1 px-1.5 py-0.5 text-[10px] bg-copilot-warning text-white rounded">
+            You have control · the agent's browser tools are paused
+          </span>
+        )}
+        {notice && !inputError && (
+          <span className="absolute bottom-1 left-1 right-1 px-1.5 py-0.5 text-[10px] bg-copilot-surface text-copilot-text rounded truncate">
+            {notice}
+          </span>
+        )}
+        {inputError && (
+          <span className="absolute bottom-1 left-1 px-1.5 py-0.5 text-[10px] bg-copilot-error text-white rounded">
+            {inputError}
+          </span>
+        )}
+      </div>
+
+      {/* Resize Handle */}
+      <div onMouseDown={handleResizeStart} className="h-0 cursor-ns-resize shrink-0 relative z-10">
+        <div className="absolute inset-x-0 -bottom-1 h-2 hover:bg-copilot-accent/50 transition-colors" />
+      </div>
+
+      <VisualDiffModal
+        sessionId={sessionId}
+        isOpen={showVisualDiffs}
+        onClose={() => setShowVisualDiffs(false)}
+      />
+    </div>
+  );
+};
+
+export default BrowserViewportPanel;
@@ -0,0 +1,258 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Modal } from '../Modal';
+import { Button } from '../Button';
+import { VisualBaselineEntry } from '../../types';
+
+type ViewMode = 'diff' | 'overlay' | 'side-by-side' | 'baseline' | 'actual';
+
+const VIEW_MODES: { id: ViewMode; label: string }[] = [
+  { id: 'diff', label: 'Diff' },
+  { id: 'overlay', label: 'Overlay' },
+  { id: 'side-by-side', label: 'Side by side' },
+  { id: 'baseline', label: 'Baseline' },
+  { id: 'actual', label: 'Actual' },
+];
+
+interface VisualDiffModalProps {
+  sessionId: string;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const pngSrc = (base64?: string) => (base64 ? `data:image/png;base64,${base64}` : undefined);
+
+/**
+ * Baselines saved with browser_save_baseline and the result of their last
+ * browser_compare_screenshot, with the diff overlay and a way to accept intended changes
+ */
+export const VisualDiffModal: React.FC<VisualDiffModalProps> = ({ sessionId, isOpen, onClose }) => {
+  const [baselines, setBaselines] = useState<VisualBaselineEntry[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [images, setImages] = useState<{ baseline?: string; actual?: string; diff?: string }>({});
+  const [mode, setMode] = useState<ViewMode>('diff');
+  const [overlayOpacity, setOverlayOpacity] = useState(0.6);
+  const [error, setError] = useState<string | null>(null);
+
+  const selected = baselines.find((b) => b.id === selectedId);
+
+  const loadBaselines = useCallback(async () => {
+    const { baselines } = await window.electronAPI.browser.listVisualBaselines(sessionId);
+    setBaselines(baselines);
+    // Keep the current selection, otherwise start on a failed comparison
+    setSelectedId(
+      (current) =>
+        (current && baselines.some((b) => b.id === current) ? current : null) ||
+        baselines.find((b) => b.lastComparison && !b.lastComparison.passed)?.id ||
+        baselines[0]?.id ||
+        null
+    );
+  }, [sessionId]);
+
+  useEffect(() => {
+    if (isOpen) loadBaselines().catch(() => {});
+  }, [isOpen, loadBaselines]);
+
+  useEffect(() => {
+    if (!isOpen || !selected) {
+      setImages({});
+      return;
+    }
+    window.electronAPI.browser
+      .getVisualImages(sessionId, selected.id)
+      .then(setImages)
+      .catch(() => setImages({}));
+  }, [isOpen, sessionId, selected?.id, selected?.updatedAt, selected?.lastComparison?.comparedAt]);
+
+  const runAction = async (action: () => Promise<{ success: boolean; error?: string }>) => {
+    setError(null);
+    const result = await action();
+    if (!result.success) setError(result.error || 'Action failed');
+    await loadBaselines();
+  };
+
+  const comparison = selected?.lastComparison;
+  const hasComparison = !!comparison && !!images.actual;
+
+  const renderImage = (src: string | undefined, alt: string, className = '') =>
+    src ? (
+      <img src={src} alt={alt} className={`max-w-full h-auto block ${className}`} />
+    ) : (
+      <div className="p-6 text-xs text-copilot-text-muted text-center">Not available</div>
+    );
+
+  const renderView = () => {
+    if (!selected) return null;
+    if (!hasComparison || mode === 'baseline') {
+      return renderImage(pngSrc(images.baseline), 'Baseline');
+    }
+    switch (mode) {
+      case 'actual':
+        return renderImage(pngSrc(images.actual), 'Actual');
+      case 'overlay':
+        return (
+          <div className="relative inline-block">
+            {renderImage(pngSrc(images.actual), 'Actual')}
+            <img
+              src={pngSrc(images.diff)}
+              alt="Differences"
+              className="absolute inset-0 max-w-full h-auto mix-blend-multiply pointer-events-none"
+              style={{ opacity: overlayOpacity }}
+            />
+          </div>
+        );
+      case 'side-by-side':
+        return (
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <div className="text-[10px] text-copilot-text-muted mb-1">Baseline</div>
+              {renderImage(pngSrc(images.baseline), 'Baseline')}
+            </div>
+            <div>
+              <div className="text-[10px] text-copilot-text-muted mb-1">Actual</div>
+              {renderImage(pngSrc(images.actual), 'Actual')}
+            </div>
+          </div>
+        );
+      default:
+        return renderImage(pngSrc(images.diff), 'Differences');
+    }
+  };
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title="Visual Baselines"
+      width="900px"
+      testId="visual-diff-modal"
+    >
+      <Modal.Body className="flex gap-3 h-[65vh]">
+        <div className="w-56 shrink-0 overflow-y-auto border-r border-copilot-border pr-2 space-y-1">
+          {baselines.length === 0 && (
+            <p className="text-xs text-copilot-text-muted">
+              No baselines yet. Ask the agent to call browser_save_baseline or
+              browser_compare_screenshot on a page.
+            </p>
+          )}
+          {baselines.map((baseline) => {
+            const result = baseline.lastComparison;
+            return (
+              <button
+                key={baseline.id}
+                onClick={() => setSelectedId(baseline.id)}
+                className={`w-full text-left px-2 py-1.5 rounded text-xs transition-colors ${
+                  baseline.id === selectedId
+                    ? 'bg-copilot-surface-hover text-copilot-text'
+                    : 'text-copilot-text-muted hover:bg-copilot-surface'
+                }`}
+              >
+                <div className="flex items-center gap-1.5">
+                  <span
+                    className={`w-1.5 h-1.5 rounded-full shrink-0 ${
+                      !result
+                        ? 'bg-copilot-text-muted'
+                        : result.passed
+                          ? 'bg-copilot-success'
+                          : 'bg-copilot-error'
+                    }`}
+                  />
+                  <span className="truncate font-medium">{baseline.name}</span>
+                </div>
+                <div className="text-[10px] text-copilot-text-muted pl-3">
+                  {baseline.viewport.width}x{baseline.viewport.height}
+                  {result && ` · ${result.mismatchPercent}%`}
+                </div>
+              </button>
+            );
+          })}
+        </div>
+
+        {selected && (
+          <div className="flex-1 min-w-0 flex flex-col gap-2">
+            <div className="flex items-center gap-2 text-xs">
+              <span className="text-copilot-text truncate" title={selected.url}>
+                {selected.url}
+              </span>
+              {comparison && (
+                <span
+                  data-testid="visual-mismatch"
+                  className={`ml-auto shrink-0 font-medium ${
+                    comparison.passed ? 'text-copilot-success' : 'text-copilot-error'
+                  }`}
+                >
+                  {comparison.mismatchPercent}% mismatch (allowed {comparison.maxMismatchPercent}
+                  %)
+                </span>
+              )}
+            </div>
+            {comparison?.sizeMismatch && (
+              <div className="text-[10px] text-copilot-warning">
+                Image size changed from {comparison.sizeMismatch.baseline.width}x
+                {comparison.sizeMismatch.baseline.height} to {comparison.sizeMismatch.actual.width}x
+                {comparison.sizeMismatch.actual.height}
+              </div>
+            )}
+            {hasComparison && (
+              <div className="flex items-center gap-1">
+                {VIEW_MODES.map((view) => (
+                  <button
+                    key={view.id}
+                    onClick={() => setMode(view.id)}
+                    className={`px-2 py-0.5 text-[10px] rounded transition-colors ${
+                      mode === view.id
+                        ? 'bg-copilot-accent text-copilot-text-inverse'
+                        : 'text-copilot-text-muted hover:text-copilot-text'
+                    }`}
+                  >
+                    {view.label}
+                  </button>
+                ))}
+                {mode === 'overlay' && (
+                  <input
+                    type="range"
+                    min={0}
+                    max={1}
+                    step={0.05}
+                    value={overlayOpacity}
+                    onChange={(e) => setOverlayOpacity(Number(e.target.value))}
+                    aria-label="Overlay opacity"
+                    className="ml-2 w-24"
+                  />
+                )}
+              </div>
+            )}
+            <div className="flex-1 overflow-auto bg-copilot-bg rounded border border-copilot-border">
+              {renderView()}
+            </div>
+            {error && <div className="text-[10px] text-copilot-error">{error}</div>}
+            <Modal.Footer>
+              <Button
+                variant="ghost"
+                onClick={() =>
+                  runAction(() =>
+                    window.electronAPI.browser.deleteVisualBaseline(sessionId, selected.id)
+                  )
+                }
+              >
+                Delete baseline
+              </Button>
+              {hasComparison && !comparison?.passed && (
+                <Button
+                  onClick={() =>
+                    runAction(() =>
+                      window.electronAPI.browser.acceptVisualBaseline(sessionId, selected.id)
+                    )
+                  }
+                >
+                  Accept as baseline
+                </Button>
+              )}
+            </Modal.Footer>
+          </div>
+        )}
+      </Modal.Body>
+    </Modal>
+  );
+};
+
+export default VisualDiffModal;
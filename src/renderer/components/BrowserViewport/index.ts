@@ -0,0 +1,3 @@
+export { BrowserViewportPanel, toViewportKeyInput } from './BrowserViewportPanel';
+export { VisualDiffModal } from './VisualDiffModal';
+export { default } from './BrowserViewportPanel';
@@ -78,6 +78,12 @@ export const UploadIcon: React.FC<IconProps> = ({ size = 24, className, strokeWi
   </svg>
 );
 
+export const DownloadIcon: React.FC<IconProps> = ({ size = 24, className, strokeWidth = 2 }) => (
+  <svg width={size} height={size} className={className} {...defaultProps} strokeWidth={strokeWidth}>
+    <path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4M7 10l5 5 5-5M12 15V3" />
+  </svg>
+);
+
 export const ClockIcon: React.FC<IconProps> = ({ size = 24, className, strokeWidth = 2 }) => (
   <svg width={size} height={size} className={className} {...defaultProps} strokeWidth={strokeWidth}>
     <circle cx="12" cy="12" r="10" />
@@ -205,6 +211,13 @@ export const HistoryIcon: React.FC<IconProps> = ({ size = 24, className, strokeW
   </svg>
 );
 
+export const UndoIcon: React.FC<IconProps> = ({ size = 24, className, strokeWidth = 2 }) => (
+  <svg width={size} height={size} className={className} {...defaultProps} strokeWidth={strokeWidth}>
+    <path d="M9 14L4 9l5-5" />
+    <path d="M4 9h10.5a5.5 5.5 0 0 1 0 11H11" />
+  </svg>
+);
+
 export const SearchIcon: React.FC<IconProps> = ({ size = 24, className, strokeWidth = 2 }) => (
   <svg width={size} height={size} className={className} {...defaultProps} strokeWidth={strokeWidth}>
     <circle cx="11" cy="11" r="8" />
@@ -434,6 +447,7 @@ export const Icons = {
   Sun: SunIcon,
   Monitor: MonitorIcon,
   Upload: UploadIcon,
+  Download: DownloadIcon,
   Clock: ClockIcon,
   Folder: FolderIcon,
   FolderOpen: FolderOpenIcon,
@@ -452,6 +466,7 @@ export const Icons = {
   Paperclip: PaperclipIcon,
   Microphone: MicrophoneIcon,
   History: HistoryIcon,
+  Undo: UndoIcon,
   Search: SearchIcon,
   Zap: ZapIcon,
   ExternalLink: ExternalLinkIcon,
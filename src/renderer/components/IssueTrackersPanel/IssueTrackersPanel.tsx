@@ -0,0 +1,179 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Spinner } from '../Spinner';
+import type { IssueTrackerSettingsUpdate, IssueTrackerSettingsView } from '../../types';
+
+interface Drafts {
+  jiraBaseUrl: string;
+  jiraEmail: string;
+  jiraToken: string;
+  gitlabBaseUrl: string;
+  gitlabToken: string;
+}
+
+const draftsFrom = (settings: IssueTrackerSettingsView): Drafts => ({
+  jiraBaseUrl: settings.jira.baseUrl,
+  jiraEmail: settings.jira.email,
+  jiraToken: '',
+  gitlabBaseUrl: settings.gitlab.baseUrl,
+  gitlabToken: '',
+});
+
+export const IssueTrackersPanel: React.FC = () => {
+  const [settings, setSettings] = useState<IssueTrackerSettingsView | null>(null);
+  const [drafts, setDrafts] = useState<Drafts | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [saved, setSaved] = useState(false);
+
+  const loadSettings = useCallback(async () => {
+    try {
+      const next = await window.electronAPI.issueTrackers.getSettings();
+      setSettings(next);
+      setDrafts(draftsFrom(next));
+    } catch (error) {
+      console.error('Failed to load issue tracker settings:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadSettings();
+  }, [loadSettings]);
+
+  const save = async (updates: IssueTrackerSettingsUpdate) => {
+    setIsSaving(true);
+    try {
+      const next = await window.electronAPI.issueTrackers.setSettings(updates);
+      setSettings(next);
+      setDrafts(draftsFrom(next));
+      setSaved(true);
+      setTimeout(() => setSaved(false), 1500);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSave = () => {
+    if (!drafts) return;
+    save({
+      jira: {
+        baseUrl: drafts.jiraBaseUrl.trim(),
+        email: drafts.jiraEmail.trim(),
+        token: drafts.jiraToken.trim() || undefined,
+      },
+      gitlab: {
+        baseUrl: drafts.gitlabBaseUrl.trim(),
+        token: drafts.gitlabToken.trim() || undefined,
+      },
+    });
+  };
+
+  if (!settings || !drafts) {
+    return (
+      <div className="flex items-center gap-2 text-xs text-copilot-text-muted py-2">
+        <Spinner size="sm" /> Loading...
+      </div>
+    );
+  }
+
+  const setDraft = (key: keyof Drafts) => (e: React.ChangeEvent<HTMLInputElement>) =>
+    setDrafts((prev) => (prev ? { ...prev, [key]: e.target.value } : prev));
+
+  const inputClassName =
+    'w-full px-2 py-1.5 text-xs bg-copilot-surface border border-copilot-border rounded text-copilot-text placeholder:text-copilot-text-muted focus:outline-none focus:border-copilot-accent';
+  const buttonClassName =
+    'shrink-0 px-2 py-1.5 text-xs bg-copilot-surface text-copilot-text border border-copilot-border rounded hover:bg-copilot-surface-hover transition-colors disabled:opacity-50 disabled:cursor-not-allowed';
+  const tokenPlaceholder = (hasToken: boolean) =>
+    hasToken ? 'Saved — enter a new token to replace it' : 'API token';
+
+  return (
+    <div data-testid="issue-trackers-panel">
+      <div className="mb-4">
+        <div className="text-sm text-copilot-text mb-1">Jira</div>
+        <p className="text-xs text-copilot-text-muted mb-2">
+          For Jira Cloud, enter your account email and an API token. For Jira Server or Data Center,
+          leave the email empty and use a personal access token.
+        </p>
+        <div className="space-y-2">
+          <input
+            value={drafts.jiraBaseUrl}
+            onChange={setDraft('jiraBaseUrl')}
+            placeholder="https://your-company.atlassian.net"
+            className={inputClassName}
+            aria-label="Jira URL"
+          />
+          <input
+            value={drafts.jiraEmail}
+            onChange={setDraft('jiraEmail')}
+            placeholder="Email (Jira Cloud only)"
+            className={inputClassName}
+            aria-label="Jira email"
+          />
+          <div className="flex items-center gap-2">
+            <input
+              type="password"
+              value={drafts.jiraToken}
+              onChange={setDraft('jiraToken')}
+              placeholder={tokenPlaceholder(settings.jira.hasToken)}
+              className={inputClassName}
+              aria-label="Jira token"
+            />
+            {settings.jira.hasToken && (
+              <button
+                onClick={() => save({ jira: { token: '' } })}
+                disabled={isSaving}
+                className={buttonClassName}
+              >
+                Remove Jira token
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+
+      <div className="mb-3">
+        <div className="text-sm text-copilot-text mb-1">GitLab</div>
+        <p className="text-xs text-copilot-text-muted mb-2">
+          A personal access token with the read_api scope. Leave the URL empty for gitlab.com.
+        </p>
+        <div className="space-y-2">
+          <input
+            value={drafts.gitlabBaseUrl}
+            onChange={setDraft('gitlabBaseUrl')}
+            placeholder="https://gitlab.com"
+            className={inputClassName}
+            aria-label="GitLab URL"
+          />
+          <div className="flex items-center gap-2">
+            <input
+              type="password"
+              value={drafts.gitlabToken}
+              onChange={setDraft('gitlabToken')}
+              placeholder={tokenPlaceholder(settings.gitlab.hasToken)}
+              className={inputClassName}
+              aria-label="GitLab token"
+            />
+            {settings.gitlab.hasToken && (
+              <button
+                onClick={() => save({ gitlab: { token: '' } })}
+                disabled={isSaving}
+                className={buttonClassName}
+              >
+                Remove GitLab token
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+
+      <div className="flex items-center gap-2">
+        <button onClick={handleSave} disabled={isSaving} className={buttonClassName}>
+          {saved ? 'Saved' : 'Save'}
+        </button>
+        <p className="text-xs text-copilot-text-muted">
+          Tokens are only sent to the URL they are saved for.
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default IssueTrackersPanel;
@@ -0,0 +1 @@
+export { IssueTrackersPanel } from './IssueTrackersPanel';
@@ -0,0 +1,135 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Spinner } from '../Spinner';
+import type { IssueWriteBackConfig } from '../../types';
+
+export const IssueWriteBackPanel: React.FC = () => {
+  const [config, setConfig] = useState<IssueWriteBackConfig | null>(null);
+  const [labelInput, setLabelInput] = useState('');
+  const [stateInput, setStateInput] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const loadConfig = useCallback(async () => {
+    try {
+      const next = await window.electronAPI.issueWriteBack.getConfig();
+      setConfig(next);
+      setLabelInput(next.githubLabel);
+      setStateInput(next.workItemState);
+    } catch (error) {
+      console.error('Failed to load issue write-back settings:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadConfig();
+  }, [loadConfig]);
+
+  const updateConfig = async (updates: Partial<IssueWriteBackConfig>) => {
+    setIsSaving(true);
+    try {
+      setConfig(await window.electronAPI.issueWriteBack.setConfig(updates));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (!config) {
+    return (
+      <div className="flex items-center gap-2 text-xs text-copilot-text-muted py-2">
+        <Spinner size="sm" /> Loading...
+      </div>
+    );
+  }
+
+  const inputClassName =
+    'w-full px-2 py-1.5 text-xs bg-copilot-surface border border-copilot-border rounded text-copilot-text placeholder:text-copilot-text-muted focus:outline-none focus:border-copilot-accent disabled:opacity-50';
+  const commitLabel = () => {
+    if (labelInput.trim() !== config.githubLabel) updateConfig({ githubLabel: labelInput.trim() });
+  };
+  const commitState = () => {
+    if (stateInput.trim() !== config.workItemState) {
+      updateConfig({ workItemState: stateInput.trim() });
+    }
+  };
+
+  return (
+    <div data-testid="issue-write-back-panel">
+      <div className="flex items-center justify-between py-2.5">
+        <div>
+          <span className="text-sm text-copilot-text">Post updates to source issues</span>
+          <p className="text-xs text-copilot-text-muted">
+            Comment on the GitHub issue or Azure DevOps work item a worktree session started from,
+            with the agent&apos;s summary, files changed and the PR link.
+          </p>
+        </div>
+        <button
+          onClick={() => updateConfig({ enabled: !config.enabled })}
+          disabled={isSaving}
+          className={`relative inline-flex h-5 w-9 shrink-0 items-center rounded-full transition-colors ${
+            config.enabled ? 'bg-copilot-accent' : 'bg-copilot-border'
+          }`}
+          aria-label="Post updates to source issues"
+        >
+          <span
+            className="inline-block h-3.5 w-3.5 transform rounded-full bg-white transition-transform"
+            style={{ transform: config.enabled ? 'translateX(18px)' : 'translateX(4px)' }}
+          />
+        </button>
+      </div>
+
+      <div className="space-y-1.5 mb-3">
+        <label className="flex items-center gap-2 text-xs text-copilot-text">
+          <input
+            type="checkbox"
+            checked={config.onLoopComplete}
+            onChange={(e) => updateConfig({ onLoopComplete: e.target.checked })}
+            disabled={!config.enabled || isSaving}
+          />
+          When a Ralph or Lisa loop finishes
+        </label>
+        <label className="flex items-center gap-2 text-xs text-copilot-text">
+          <input
+            type="checkbox"
+            checked={config.onPullRequest}
+            onChange={(e) => updateConfig({ onPullRequest: e.target.checked })}
+            disabled={!config.enabled || isSaving}
+          />
+          When a pull request is opened
+        </label>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <div>
+          <div className="text-xs text-copilot-text mb-1">GitHub label on PR</div>
+          <input
+            value={labelInput}
+            onChange={(e) => setLabelInput(e.target.value)}
+            onBlur={commitLabel}
+            onKeyDown={(e) => e.key === 'Enter' && commitLabel()}
+            placeholder="e.g. in review"
+            disabled={!config.enabled || !config.onPullRequest}
+            className={inputClassName}
+            aria-label="GitHub label on PR"
+          />
+        </div>
+        <div>
+          <div className="text-xs text-copilot-text mb-1">Work item state on PR</div>
+          <input
+            value={stateInput}
+            onChange={(e) => setStateInput(e.target.value)}
+            onBlur={commitState}
+            onKeyDown={(e) => e.key === 'Enter' && commitState()}
+            placeholder="e.g. Resolved"
+            disabled={!config.enabled || !config.onPullRequest}
+            className={inputClassName}
+            aria-label="Work item state on PR"
+          />
+        </div>
+      </div>
+      <p className="text-xs text-copilot-text-muted mt-2">
+        Uses the gh and az CLIs, signed in as you. Leave a field empty to skip it.
+      </p>
+    </div>
+  );
+};
+
+export default IssueWriteBackPanel;
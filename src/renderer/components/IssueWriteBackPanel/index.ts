@@ -0,0 +1 @@
+export { IssueWriteBackPanel } from './IssueWriteBackPanel';
@@ -1,7 +1,14 @@
 import React, { memo } from 'react';
 import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
-import { ClockIcon, FileIcon, VolumeMuteIcon, CodeBlockWithCopy } from './';
+import {
+  ClockIcon,
+  FileIcon,
+  GitBranchIcon,
+  UndoIcon,
+  VolumeMuteIcon,
+  CodeBlockWithCopy,
+} from './';
 import { ToolActivitySection } from '../features/chat';
 import { SubagentActivitySection } from '../features/chat/SubagentActivitySection';
 import { extractTextContent } from '../utils/isAsciiDiagram';
@@ -19,6 +26,8 @@ interface MessageItemProps {
   onStopSpeaking: () => void;
   onImageClick: (src: string, alt: string) => void;
   isHighlighted?: boolean;
+  onRevertTurn?: (turnId: string) => void; // Set on the last message of a revertable turn
+  onFork?: () => void; // Start a new session carrying the conversation up to this message
 }
 
 export const MessageItem = memo<MessageItemProps>(
@@ -32,11 +41,13 @@ export const MessageItem = memo<MessageItemProps>(
     onStopSpeaking,
     onImageClick,
     isHighlighted = false,
+    onRevertTurn,
+    onFork,
   }) => {
     return (
       <div
         id={`message-${message.id}`}
-        className={`flex flex-col ${message.role === 'user' ? 'items-end' : 'items-start'}`}
+        className={`group/message flex flex-col ${message.role === 'user' ? 'items-end' : 'items-start'}`}
       >
         <div
           className={`max-w-[85%] rounded-lg px-4 py-2.5 overflow-hidden relative transition-all ${
@@ -145,6 +156,37 @@ export const MessageItem = memo<MessageItemProps>(
             )}
           </div>
         </div>
+        {/* Roll back the files this turn changed */}
+        {message.turnSnapshotId &&
+          onRevertTurn &&
+          !message.isStreaming &&
+          (message.turnReverted ? (
+            <span className="mt-1 ml-1 text-[10px] text-copilot-text-muted">Turn reverted</span>
+          ) : (
+            <button
+              onClick={() => onRevertTurn(message.turnSnapshotId!)}
+              className="mt-1 ml-1 flex items-center gap-1 text-[10px] text-copilot-text-muted hover:text-copilot-text transition-colors"
+              title="Restore the files changed in this turn to their previous contents"
+              data-testid="revert-turn-button"
+            >
+              <UndoIcon size={10} />
+              Revert this turn
+            </button>
+          ))}
+        {/* Zero-height row so the hover-only fork button doesn't push later messages down */}
+        {onFork && (
+          <div className="relative h-0 w-full">
+            <button
+              onClick={onFork}
+              className={`absolute top-0.5 ${message.role === 'user' ? 'right-1' : 'left-1'} flex items-center gap-1 text-[10px] text-copilot-text-muted hover:text-copilot-text opacity-0 pointer-events-none group-hover/message:opacity-100 group-hover/message:pointer-events-auto focus:opacity-100 transition-opacity z-10`}
+              title="Start a new session with the conversation up to this message"
+              data-testid="fork-message-button"
+            >
+              <GitBranchIcon size={10} />
+              Fork from here
+            </button>
+          </div>
+        )}
       </div>
     );
   },
@@ -164,7 +206,11 @@ export const MessageItem = memo<MessageItemProps>(
       prevProps.message.subagents === nextProps.message.subagents &&
       prevProps.message.imageAttachments === nextProps.message.imageAttachments &&
       prevProps.message.fileAttachments === nextProps.message.fileAttachments &&
-      prevProps.isHighlighted === nextProps.isHighlighted
+      prevProps.isHighlighted === nextProps.isHighlighted &&
+      prevProps.message.turnSnapshotId === nextProps.message.turnSnapshotId &&
+      prevProps.message.turnReverted === nextProps.message.turnReverted &&
+      !!prevProps.onRevertTurn === !!nextProps.onRevertTurn &&
+      !!prevProps.onFork === !!nextProps.onFork
     );
   }
 );
@@ -0,0 +1,201 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { Spinner } from '../Spinner';
+import type { PermissionAuditRecord } from '../../types';
+
+type DecisionFilter = 'all' | 'approved' | 'denied';
+
+export interface PermissionAuditPanelProps {
+  // Display names for known sessions (falls back to the session ID)
+  sessionLabels?: Record<string, string>;
+  defaultSessionId?: string;
+}
+
+const formatTime = (timestamp: string): string => {
+  const date = new Date(timestamp);
+  return Number.isNaN(date.getTime()) ? timestamp : date.toLocaleString();
+};
+
+export const PermissionAuditPanel: React.FC<PermissionAuditPanelProps> = ({
+  sessionLabels = {},
+  defaultSessionId,
+}) => {
+  const [records, setRecords] = useState<PermissionAuditRecord[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [sessionFilter, setSessionFilter] = useState<string>(defaultSessionId ?? 'all');
+  const [decisionFilter, setDecisionFilter] = useState<DecisionFilter>('all');
+  const [exportStatus, setExportStatus] = useState<string | null>(null);
+
+  const loadRecords = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setRecords(await window.electronAPI.permissions.getAuditLog());
+    } catch (error) {
+      console.error('Failed to load permission audit log:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadRecords();
+  }, [loadRecords]);
+
+  const sessionIds = useMemo(
+    () => Array.from(new Set(records.map((record) => record.sessionId))),
+    [records]
+  );
+
+  const filter = useMemo(
+    () => ({
+      sessionId: sessionFilter === 'all' ? undefined : sessionFilter,
+      decision: decisionFilter === 'all' ? undefined : decisionFilter,
+    }),
+    [sessionFilter, decisionFilter]
+  );
+
+  // Newest first
+  const visibleRecords = useMemo(
+    () =>
+      records
+        .filter(
+          (record) =>
+            (!filter.sessionId || record.sessionId === filter.sessionId) &&
+            (!filter.decision || record.decision === filter.decision)
+        )
+        .reverse(),
+    [records, filter]
+  );
+
+  const handleExport = async () => {
+    const result = await window.electronAPI.permissions.exportAuditLog(filter);
+    if (result.success) {
+      setExportStatus(`Exported ${result.count ?? 0} records`);
+    } else if (!result.canceled) {
+      setExportStatus(`Export failed: ${result.error ?? 'unknown error'}`);
+    }
+  };
+
+  const handleClear = async () => {
+    await window.electronAPI.permissions.clearAuditLog();
+    setExportStatus(null);
+    await loadRecords();
+  };
+
+  const selectClassName =
+    'px-2 py-1.5 text-xs bg-copilot-surface border border-copilot-border rounded text-copilot-text focus:outline-none focus:border-copilot-accent';
+  const buttonClassName =
+    'shrink-0 px-2 py-1.5 text-xs bg-copilot-surface text-copilot-text border border-copilot-border rounded hover:bg-copilot-surface-hover transition-colors disabled:opacity-50 disabled:cursor-not-allowed';
+
+  return (
+    <div data-testid="permission-audit-panel">
+      <div className="flex items-center gap-2 mb-3">
+        <select
+          value={sessionFilter}
+          onChange={(e) => setSessionFilter(e.target.value)}
+          className={`${selectClassName} flex-1 min-w-0`}
+          aria-label="Filter by session"
+        >
+          <option value="all">All sessions</option>
+          {sessionIds.map((id) => (
+            <option key={id} value={id}>
+              {sessionLabels[id] || id}
+            </option>
+          ))}
+        </select>
+        <select
+          value={decisionFilter}
+          onChange={(e) => setDecisionFilter(e.target.value as DecisionFilter)}
+          className={selectClassName}
+          aria-label="Filter by decision"
+        >
+          <option value="all">All decisions</option>
+          <option value="approved">Approved</option>
+          <option value="denied">Denied</option>
+        </select>
+      </div>
+
+      <div className="flex items-center gap-2 mb-3">
+        <button onClick={loadRecords} className={buttonClassName}>
+          Refresh
+        </button>
+        <button
+          onClick={handleExport}
+          disabled={visibleRecords.length === 0}
+          className={buttonClassName}
+        >
+          Export JSONL
+        </button>
+        <button
+          onClick={handleClear}
+          disabled={records.length === 0}
+          className={`${buttonClassName} text-copilot-error`}
+        >
+          Clear
+        </button>
+        {exportStatus && (
+          <span className="text-xs text-copilot-text-muted truncate">{exportStatus}</span>
+        )}
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center gap-2 text-xs text-copilot-text-muted py-2">
+          <Spinner size="sm" /> Loading...
+        </div>
+      ) : visibleRecords.length === 0 ? (
+        <div className="text-xs text-copilot-text-muted py-2">
+          No permission decisions recorded.
+        </div>
+      ) : (
+        <div className="space-y-1">
+          {visibleRecords.map((record, idx) => (
+            <div
+              key={`${record.timestamp}-${idx}`}
+              className="px-2 py-1.5 rounded hover:bg-copilot-surface-hover transition-colors"
+            >
+              <div className="flex items-center gap-2 text-xs">
+                <span
+                  className={`shrink-0 px-1.5 rounded ${
+                    record.decision === 'approved'
+                      ? 'bg-copilot-success/20 text-copilot-success'
+                      : 'bg-copilot-error/20 text-copilot-error'
+                  }`}
+                >
+                  {record.decision}
+                </span>
+                <span className="shrink-0 text-copilot-text-muted">{record.kind}</span>
+                <span
+                  className="flex-1 truncate font-mono text-copilot-text"
+                  title={record.executable}
+                >
+                  {record.executable}
+                </span>
+                <span className="shrink-0 text-copilot-text-muted">
+                  {formatTime(record.timestamp)}
+                </span>
+              </div>
+              {record.commandText && (
+                <div
+                  className="mt-0.5 truncate font-mono text-[11px] text-copilot-text-muted"
+                  title={record.commandText}
+                >
+                  {record.commandText}
+                </div>
+              )}
+              <div
+                className="mt-0.5 text-[11px] text-copilot-text-muted truncate"
+                title={record.detail}
+              >
+                {record.rule}
+                {record.detail ? ` — ${record.detail}` : ''}
+                {sessionFilter === 'all' &&
+                  ` · ${sessionLabels[record.sessionId] || record.sessionId}`}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PermissionAuditPanel;
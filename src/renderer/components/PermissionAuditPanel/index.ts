@@ -0,0 +1,2 @@
+export { PermissionAuditPanel } from './PermissionAuditPanel';
+export type { PermissionAuditPanelProps } from './PermissionAuditPanel';
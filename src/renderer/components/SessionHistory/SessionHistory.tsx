@@ -2,8 +2,22 @@ import React, { useState, useMemo, useEffect, useRef } from 'react';
 import { Modal } from '../Modal';
 import { Button } from '../Button';
 import { Spinner } from '../Spinner';
-import { ClockIcon, ZapIcon, GitBranchIcon } from '../Icons';
-import { PreviousSession, TabState, WorktreeRemovalStatus } from '../../types';
+import { ClockIcon, ZapIcon, GitBranchIcon, DownloadIcon, UploadIcon } from '../Icons';
+import {
+  SessionSearchResults,
+  getSinceForRange,
+  type SearchDateRange,
+} from './SessionSearchResults';
+import {
+  PreviousSession,
+  SessionSearchFilters,
+  SessionSearchHit,
+  SessionSearchResult,
+  TabState,
+  TranscriptFormat,
+  TRANSCRIPT_FORMATS,
+  WorktreeRemovalStatus,
+} from '../../types';
 
 // Filter options for the session list
 type SessionFilter = 'all' | 'worktree';
@@ -11,6 +25,7 @@ type SessionFilter = 'all' | 'worktree';
 // Extended session type that includes active flag
 interface DisplaySession extends PreviousSession {
   isActive?: boolean;
+  forkDepth?: number; // Nesting level under the session it was forked from
 }
 
 // Full worktree data including lastAccessedAt for time categorization
@@ -38,6 +53,16 @@ interface SessionHistoryProps {
     worktreePath: string
   ) => Promise<{ success: boolean; error?: string }>;
   onOpenWorktreeSession?: (session: { worktreePath: string; branch: string }) => void;
+  // Opens the worktree manager (disk usage and bulk cleanup)
+  onManageWorktrees?: () => void;
+  onExportTranscript?: (
+    sessionId: string,
+    format: TranscriptFormat,
+    name?: string
+  ) => Promise<{ success: boolean; path?: string; canceled?: boolean; error?: string }>;
+  onImportTranscript?: () => Promise<{ success: boolean; error?: string }>;
+  // Called before a transcript search hit's session is opened, to scroll to the message
+  onJumpToMessage?: (sessionId: string, messageIndex: number, query: string) => void;
   initialFilter?: SessionFilter;
 }
 
@@ -85,6 +110,38 @@ const categorizeByTime = (sessions: DisplaySession[]) => {
   return categories.filter((c) => c.sessions.length > 0);
 };
 
+// Split sessions into roots and forks whose parent is also listed. `withForks` expands a list of
+// roots so each session is followed by its forks (newest first), marked with their depth.
+const nestForks = (sessions: DisplaySession[]) => {
+  const ids = new Set(sessions.map((s) => s.sessionId));
+  const forksOf = new Map<string, DisplaySession[]>();
+  const roots: DisplaySession[] = [];
+  for (const session of sessions) {
+    const parentId = session.parentSessionId;
+    if (parentId && parentId !== session.sessionId && ids.has(parentId)) {
+      if (!forksOf.has(parentId)) forksOf.set(parentId, []);
+      forksOf.get(parentId)!.push(session);
+    } else {
+      roots.push(session);
+    }
+  }
+
+  const withForks = (list: DisplaySession[]): DisplaySession[] => {
+    const result: DisplaySession[] = [];
+    const visit = (session: DisplaySession, depth: number) => {
+      result.push({ ...session, forkDepth: depth });
+      const forks = [...(forksOf.get(session.sessionId) || [])].sort(
+        (a, b) => new Date(b.modifiedTime).getTime() - new Date(a.modifiedTime).getTime()
+      );
+      for (const fork of forks) visit(fork, depth + 1);
+    };
+    for (const session of list) visit(session, 0);
+    return result;
+  };
+
+  return { roots, withForks };
+};
+
 // Format relative time
 const formatRelativeTime = (isoDate: string) => {
   const date = new Date(isoDate);
@@ -200,6 +257,10 @@ export const SessionHistory: React.FC<SessionHistoryProps> = ({
   onDeleteSession,
   onRemoveWorktreeSession,
   onOpenWorktreeSession,
+  onManageWorktrees,
+  onExportTranscript,
+  onImportTranscript,
+  onJumpToMessage,
   initialFilter = 'all',
 }) => {
   const [searchQuery, setSearchQuery] = useState('');
@@ -214,6 +275,15 @@ export const SessionHistory: React.FC<SessionHistoryProps> = ({
     hasUncommitted: boolean;
     hasUnpushed: boolean;
   } | null>(null);
+  const [exportMenuFor, setExportMenuFor] = useState<string | null>(null);
+  const [searchResults, setSearchResults] = useState<SessionSearchResult[]>([]);
+  const [searchFacets, setSearchFacets] = useState<{ cwds: string[]; models: string[] }>({
+    cwds: [],
+    models: [],
+  });
+  const [searchFilters, setSearchFilters] = useState<SessionSearchFilters>({});
+  const [searchDateRange, setSearchDateRange] = useState<SearchDateRange>('any');
+  const [isSearching, setIsSearching] = useState(false);
   const searchInputRef = useRef<HTMLInputElement>(null);
 
   // Worktree data fetched directly (for detecting active worktrees and adding standalone worktrees)
@@ -264,6 +334,8 @@ export const SessionHistory: React.FC<SessionHistoryProps> = ({
   useEffect(() => {
     if (isOpen) {
       setSearchQuery('');
+      setSearchFilters({});
+      setSearchDateRange('any');
       setFilter(initialFilter);
       setError(null);
       setSuccessMessage(null);
@@ -275,6 +347,39 @@ export const SessionHistory: React.FC<SessionHistoryProps> = ({
     }
   }, [isOpen, initialFilter]);
 
+  // Full-text search across transcripts, debounced while typing
+  const transcriptQuery = searchQuery.trim();
+  const isTranscriptSearch =
+    transcriptQuery.length >= 2 && !!window.electronAPI?.copilot?.searchSessions;
+  useEffect(() => {
+    if (!isOpen || !isTranscriptSearch) {
+      setSearchResults([]);
+      setIsSearching(false);
+      return;
+    }
+    let cancelled = false;
+    setIsSearching(true);
+    const timer = setTimeout(async () => {
+      try {
+        const response = await window.electronAPI.copilot.searchSessions(transcriptQuery, {
+          ...searchFilters,
+          since: getSinceForRange(searchDateRange),
+        });
+        if (cancelled) return;
+        setSearchResults(response.results);
+        setSearchFacets(response.facets);
+      } catch (err) {
+        console.error('Session search failed:', err);
+      } finally {
+        if (!cancelled) setIsSearching(false);
+      }
+    }, 250);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [isOpen, isTranscriptSearch, transcriptQuery, searchFilters, searchDateRange]);
+
   // Combine active sessions, previous sessions, and standalone worktree sessions
   const allSessions: DisplaySession[] = useMemo(() => {
     // Convert active tabs to DisplaySession format, enriching with worktree data from live worktreeMap
@@ -297,6 +402,7 @@ export const SessionHistory: React.FC<SessionHistoryProps> = ({
         name: tab.name,
         modifiedTime: new Date().toISOString(), // Active sessions are "now"
         cwd: tab.cwd,
+        parentSessionId: tab.parentSessionId,
         isActive: true,
         worktree,
       };
@@ -411,9 +517,13 @@ export const SessionHistory: React.FC<SessionHistoryProps> = ({
     return allSessions.filter((s) => s.worktree).length;
   }, [allSessions]);
 
-  // Categorize filtered sessions by time period
+  // Categorize filtered sessions by time period; forks are listed under their parent session
   const categorizedSessions = useMemo(() => {
-    return categorizeByTime(filteredSessions);
+    const { roots, withForks } = nestForks(filteredSessions);
+    return categorizeByTime(roots).map((category) => ({
+      ...category,
+      sessions: withForks(category.sessions),
+    }));
   }, [filteredSessions]);
 
   const handleSessionClick = (session: DisplaySession) => {
@@ -435,6 +545,29 @@ export const SessionHistory: React.FC<SessionHistoryProps> = ({
     }
   };
 
+  const sessionsById = useMemo(
+    () => new Map(allSessions.map((session) => [session.sessionId, session])),
+    [allSessions]
+  );
+
+  const visibleSearchResults = useMemo(
+    () =>
+      filter === 'worktree'
+        ? searchResults.filter((result) => sessionsById.get(result.sessionId)?.worktree)
+        : searchResults,
+    [searchResults, sessionsById, filter]
+  );
+
+  const handleOpenSearchHit = (result: SessionSearchResult, hit: SessionSearchHit) => {
+    const session: DisplaySession = sessionsById.get(result.sessionId) || {
+      sessionId: result.sessionId,
+      modifiedTime: result.modifiedTime,
+      cwd: result.cwd,
+    };
+    onJumpToMessage?.(result.sessionId, hit.messageIndex, transcriptQuery);
+    handleSessionClick(session);
+  };
+
   const handleDeleteClick = async (e: React.MouseEvent, session: DisplaySession) => {
     e.stopPropagation(); // Prevent triggering session click
     if (session.isActive) return;
@@ -472,6 +605,40 @@ export const SessionHistory: React.FC<SessionHistoryProps> = ({
     }
   };
 
+  const handleExport = async (session: DisplaySession, format: TranscriptFormat) => {
+    if (!onExportTranscript) return;
+    setExportMenuFor(null);
+    setActionInProgress(`export-${session.sessionId}`);
+    setError(null);
+    try {
+      const result = await onExportTranscript(session.sessionId, format, session.name);
+      if (result.success) {
+        setSuccessMessage('Transcript exported');
+        setTimeout(() => setSuccessMessage(null), 3000);
+      } else if (!result.canceled) {
+        setError(result.error || 'Failed to export transcript');
+      }
+    } finally {
+      setActionInProgress(null);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!onImportTranscript) return;
+    setActionInProgress('import');
+    setError(null);
+    try {
+      const result = await onImportTranscript();
+      if (result.success) {
+        onClose();
+      } else if (result.error) {
+        setError(result.error);
+      }
+    } finally {
+      setActionInProgress(null);
+    }
+  };
+
   const doWorktreeRemove = async (sessionId: string, worktreeId: string, worktreePath: string) => {
     if (!onRemoveWorktreeSession) return;
     setActionInProgress(`remove-${sessionId}`);
@@ -608,26 +775,54 @@ export const SessionHistory: React.FC<SessionHistoryProps> = ({
                 )}
               </button>
             </div>
+            {filter === 'worktree' && onManageWorktrees && (
+              <button
+                onClick={onManageWorktrees}
+                className="px-3 py-2 text-xs text-copilot-text-muted hover:text-copilot-text border border-copilot-border rounded-md transition-colors"
+                title="Disk usage and cleanup of worktrees"
+              >
+                Manage
+              </button>
+            )}
           </div>
         </div>
 
         {/* Sessions List */}
         <div className="max-h-[400px] overflow-y-auto">
+          {isTranscriptSearch && (
+            <SessionSearchResults
+              query={transcriptQuery}
+              results={visibleSearchResults}
+              isSearching={isSearching}
+              facets={searchFacets}
+              filters={searchFilters}
+              dateRange={searchDateRange}
+              onFiltersChange={setSearchFilters}
+              onDateRangeChange={setSearchDateRange}
+              getSessionName={(result) =>
+                sessionsById.get(result.sessionId)?.name ||
+                `Session ${result.sessionId.slice(0, 8)}...`
+              }
+              onOpenHit={handleOpenSearchHit}
+            />
+          )}
           {filteredSessions.length === 0 ? (
-            <div className="p-8 text-center text-copilot-text-muted">
-              {searchQuery ? (
-                <>
-                  <p className="text-sm">No sessions found matching "{searchQuery}"</p>
-                  <p className="text-xs mt-1 opacity-70">Try a different search term</p>
-                </>
-              ) : (
-                <>
-                  <ClockIcon size={32} className="mx-auto mb-2 opacity-50" />
-                  <p className="text-sm">No sessions</p>
-                  <p className="text-xs mt-1 opacity-70">Your session history will appear here</p>
-                </>
-              )}
-            </div>
+            isTranscriptSearch ? null : (
+              <div className="p-8 text-center text-copilot-text-muted">
+                {searchQuery ? (
+                  <>
+                    <p className="text-sm">No sessions found matching "{searchQuery}"</p>
+                    <p className="text-xs mt-1 opacity-70">Try a different search term</p>
+                  </>
+                ) : (
+                  <>
+                    <ClockIcon size={32} className="mx-auto mb-2 opacity-50" />
+                    <p className="text-sm">No sessions</p>
+                    <p className="text-xs mt-1 opacity-70">Your session history will appear here</p>
+                  </>
+                )}
+              </div>
+            )
           ) : (
             <div className="py-2">
               {categorizedSessions.map((category) => (
@@ -651,7 +846,21 @@ export const SessionHistory: React.FC<SessionHistoryProps> = ({
                           e.key === 'Enter' && !isRemoving && handleSessionClick(session)
                         }
                         className={`w-full px-3 py-2 flex items-center gap-3 hover:bg-copilot-surface transition-colors text-left group cursor-pointer ${isCurrentSession ? 'bg-copilot-surface/50' : ''} ${isRemoving ? 'opacity-50' : ''}`}
+                        style={
+                          session.forkDepth
+                            ? { paddingLeft: 12 + session.forkDepth * 16 }
+                            : undefined
+                        }
+                        data-fork-depth={session.forkDepth || undefined}
                       >
+                        {!!session.forkDepth && (
+                          <span
+                            className="shrink-0 -mr-2 text-xs text-copilot-text-muted"
+                            title="Forked session"
+                          >
+                            ↳
+                          </span>
+                        )}
                         {/* Status Icon - consistent for all sessions */}
                         {session.isActive ? (
                           <ZapIcon
@@ -688,6 +897,44 @@ export const SessionHistory: React.FC<SessionHistoryProps> = ({
 
                         {/* Right side: badge/time - fixed widths for alignment */}
                         <div className="flex items-center shrink-0">
+                          {onExportTranscript && (
+                            <div className="relative">
+                              <button
+                                onClick={(e) => {
+                                  e.stopPropagation();
+                                  setExportMenuFor((prev) =>
+                                    prev === session.sessionId ? null : session.sessionId
+                                  );
+                                }}
+                                disabled={actionInProgress === `export-${session.sessionId}`}
+                                className={`${exportMenuFor === session.sessionId ? 'flex' : 'hidden group-hover:flex'} items-center justify-center text-copilot-text-muted hover:text-copilot-accent transition-colors`}
+                                title="Export transcript"
+                                data-testid="export-transcript-button"
+                              >
+                                {actionInProgress === `export-${session.sessionId}` ? (
+                                  <Spinner />
+                                ) : (
+                                  <DownloadIcon size={14} strokeWidth={1.5} />
+                                )}
+                              </button>
+                              {exportMenuFor === session.sessionId && (
+                                <div className="absolute right-0 top-full mt-1 z-20 bg-copilot-surface border border-copilot-border rounded-lg shadow-lg py-1 min-w-[140px]">
+                                  {TRANSCRIPT_FORMATS.map(({ format, label }) => (
+                                    <button
+                                      key={format}
+                                      onClick={(e) => {
+                                        e.stopPropagation();
+                                        handleExport(session, format);
+                                      }}
+                                      className="w-full px-3 py-1.5 text-left text-xs text-copilot-text hover:bg-copilot-bg transition-colors"
+                                    >
+                                      {label}
+                                    </button>
+                                  ))}
+                                </div>
+                              )}
+                            </div>
+                          )}
                           {/* Time/badge column - fixed width, flex to align right */}
                           <div className="w-20 flex justify-end items-center">
                             {session.isActive ? (
@@ -739,7 +986,7 @@ export const SessionHistory: React.FC<SessionHistoryProps> = ({
         </div>
 
         {/* Footer with count */}
-        <div className="px-3 py-2 border-t border-copilot-border text-xs text-copilot-text-muted">
+        <div className="px-3 py-2 border-t border-copilot-border text-xs text-copilot-text-muted flex items-center justify-between">
           <span>
             {searchQuery || filter === 'worktree' ? (
               <>
@@ -751,6 +998,17 @@ export const SessionHistory: React.FC<SessionHistoryProps> = ({
               </>
             )}
           </span>
+          {onImportTranscript && (
+            <button
+              onClick={handleImport}
+              disabled={actionInProgress === 'import'}
+              className="flex items-center gap-1 hover:text-copilot-text transition-colors disabled:opacity-50"
+              title="Recreate a session from an exported JSON transcript"
+            >
+              {actionInProgress === 'import' ? <Spinner /> : <UploadIcon size={12} />}
+              Import transcript...
+            </button>
+          )}
         </div>
       </Modal.Body>
 
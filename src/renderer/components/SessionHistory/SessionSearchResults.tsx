@@ -0,0 +1,160 @@
+import React from 'react';
+import { Spinner } from '../Spinner';
+import { SessionSearchFilters, SessionSearchHit, SessionSearchResult } from '../../types';
+
+export type SearchDateRange = 'any' | 'today' | 'week' | 'month';
+
+interface SessionSearchResultsProps {
+  query: string;
+  results: SessionSearchResult[];
+  isSearching: boolean;
+  facets: { cwds: string[]; models: string[] };
+  filters: SessionSearchFilters;
+  dateRange: SearchDateRange;
+  onFiltersChange: (filters: SessionSearchFilters) => void;
+  onDateRangeChange: (range: SearchDateRange) => void;
+  getSessionName: (result: SessionSearchResult) => string;
+  onOpenHit: (result: SessionSearchResult, hit: SessionSearchHit) => void;
+}
+
+// Start of the selected date range as an ISO timestamp
+export const getSinceForRange = (range: SearchDateRange): string | undefined => {
+  if (range === 'any') return undefined;
+  const now = new Date();
+  const since = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  if (range === 'week') since.setDate(since.getDate() - 7);
+  if (range === 'month') since.setDate(since.getDate() - 30);
+  return since.toISOString();
+};
+
+const getQueryTerms = (query: string): string[] =>
+  Array.from(query.toLowerCase().matchAll(/"([^"]+)"|(\S+)/g), (m) => (m[1] || m[2]).trim())
+    .filter(Boolean)
+    .sort((a, b) => b.length - a.length);
+
+// Wrap every occurrence of the query terms in <mark>
+const HighlightedSnippet: React.FC<{ text: string; terms: string[] }> = ({ text, terms }) => {
+  if (terms.length === 0) return <>{text}</>;
+  const escaped = terms.map((term) => term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+  const parts = text.split(new RegExp(`(${escaped.join('|')})`, 'gi'));
+  return (
+    <>
+      {parts.map((part, i) =>
+        i % 2 === 1 ? (
+          <mark key={i} className="bg-copilot-warning/30 text-copilot-text rounded-sm">
+            {part}
+          </mark>
+        ) : (
+          <React.Fragment key={i}>{part}</React.Fragment>
+        )
+      )}
+    </>
+  );
+};
+
+const hitLabel = (hit: SessionSearchHit): string => {
+  if (hit.kind === 'tool') return hit.toolName || 'tool';
+  return hit.kind === 'user' ? 'you' : 'assistant';
+};
+
+export const SessionSearchResults: React.FC<SessionSearchResultsProps> = ({
+  query,
+  results,
+  isSearching,
+  facets,
+  filters,
+  dateRange,
+  onFiltersChange,
+  onDateRangeChange,
+  getSessionName,
+  onOpenHit,
+}) => {
+  const terms = getQueryTerms(query);
+  const selectClassName =
+    'min-w-0 flex-1 px-2 py-1 text-xs bg-copilot-bg border border-copilot-border rounded text-copilot-text focus:outline-none focus:border-copilot-accent';
+
+  return (
+    <div data-testid="session-search-results">
+      <div className="px-3 py-2 flex items-center gap-2 border-b border-copilot-border">
+        <select
+          value={filters.cwd || ''}
+          onChange={(e) => onFiltersChange({ ...filters, cwd: e.target.value || undefined })}
+          className={selectClassName}
+          aria-label="Filter by folder"
+        >
+          <option value="">All folders</option>
+          {facets.cwds.map((cwd) => (
+            <option key={cwd} value={cwd}>
+              {cwd}
+            </option>
+          ))}
+        </select>
+        <select
+          value={filters.model || ''}
+          onChange={(e) => onFiltersChange({ ...filters, model: e.target.value || undefined })}
+          className={selectClassName}
+          aria-label="Filter by model"
+        >
+          <option value="">All models</option>
+          {facets.models.map((model) => (
+            <option key={model} value={model}>
+              {model}
+            </option>
+          ))}
+        </select>
+        <select
+          value={dateRange}
+          onChange={(e) => onDateRangeChange(e.target.value as SearchDateRange)}
+          className={selectClassName}
+          aria-label="Filter by date"
+        >
+          <option value="any">Any time</option>
+          <option value="today">Today</option>
+          <option value="week">Last 7 days</option>
+          <option value="month">Last 30 days</option>
+        </select>
+      </div>
+
+      <div className="px-3 py-1.5 text-xs font-medium text-copilot-text-muted bg-copilot-surface flex items-center gap-2">
+        In transcripts
+        {isSearching && <Spinner />}
+        {!isSearching && <span className="font-normal">({results.length})</span>}
+      </div>
+
+      {!isSearching && results.length === 0 && (
+        <div className="px-3 py-2 text-xs text-copilot-text-muted">No transcript matches</div>
+      )}
+
+      {results.map((result) => (
+        <div key={result.sessionId} className="px-3 py-2 border-b border-copilot-border/50">
+          <div className="flex items-center gap-2 text-sm text-copilot-text">
+            <span className="min-w-0 truncate">{getSessionName(result)}</span>
+            {result.model && (
+              <span className="shrink-0 text-[10px] text-copilot-text-muted">{result.model}</span>
+            )}
+            <span className="ml-auto shrink-0 text-xs text-copilot-text-muted">
+              {result.totalHits} {result.totalHits === 1 ? 'match' : 'matches'}
+            </span>
+          </div>
+          {result.hits.map((hit, i) => (
+            <button
+              key={`${hit.kind}-${hit.messageIndex}-${i}`}
+              onClick={() => onOpenHit(result, hit)}
+              className="w-full mt-1 px-2 py-1 flex items-start gap-2 text-left text-xs rounded hover:bg-copilot-surface transition-colors"
+              data-testid="session-search-hit"
+            >
+              <span className="shrink-0 w-16 truncate text-copilot-text-muted">
+                {hitLabel(hit)}
+              </span>
+              <span className="min-w-0 text-copilot-text-muted break-words">
+                <HighlightedSnippet text={hit.snippet} terms={terms} />
+              </span>
+            </button>
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default SessionSearchResults;
@@ -1,5 +1,10 @@
 import React, { useState, useEffect } from 'react';
 import { Modal } from '../Modal';
+import { PermissionAuditPanel } from '../PermissionAuditPanel';
+import { ApiServerPanel } from '../ApiServerPanel';
+import { IssueTrackersPanel } from '../IssueTrackersPanel';
+import { IssueWriteBackPanel } from '../IssueWriteBackPanel';
+import { BrowserProfilesPanel } from '../BrowserProfilesPanel';
 import {
   PaletteIcon,
   MicIcon,
@@ -14,6 +19,8 @@ import {
   PlusIcon,
   MinusIcon,
   WarningIcon,
+  HistoryIcon,
+  TerminalIcon,
 } from '../Icons';
 import { useTheme } from '../../context/ThemeContext';
 import { trackEvent, TelemetryEvents } from '../../utils/telemetry';
@@ -24,6 +31,10 @@ type SettingsSection =
   | 'voice'
   | 'sounds'
   | 'commands'
+  | 'permissions'
+  | 'api'
+  | 'issues'
+  | 'browser'
   | 'accessibility'
   | 'environment'
   | 'diagnostics';
@@ -69,6 +80,8 @@ export interface SettingsModalProps {
   onOpenCrashDumps?: (path: string) => Promise<void>;
   recursiveAgentSkillsScan?: boolean;
   onToggleRecursiveAgentSkillsScan?: (enabled: boolean) => Promise<void> | void;
+  // Permission audit log
+  sessionLabels?: Record<string, string>;
 }
 
 export const SettingsModal: React.FC<SettingsModalProps> = ({
@@ -111,6 +124,7 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({
   onOpenCrashDumps,
   recursiveAgentSkillsScan = false,
   onToggleRecursiveAgentSkillsScan,
+  sessionLabels,
 }) => {
   const [activeSection, setActiveSection] = useState<SettingsSection>('themes');
   const [newCommandValue, setNewCommandValue] = useState('');
@@ -128,6 +142,10 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({
     { id: 'accessibility', label: 'Accessibility', icon: <MonitorIcon size={16} /> },
     { id: 'environment', label: 'Environment', icon: <GlobeIcon size={16} /> },
     { id: 'commands', label: 'Commands', icon: <GlobeIcon size={16} /> },
+    { id: 'permissions', label: 'Permission Log', icon: <HistoryIcon size={16} /> },
+    { id: 'api', label: 'Local API', icon: <TerminalIcon size={16} /> },
+    { id: 'issues', label: 'Issue Trackers', icon: <GlobeIcon size={16} /> },
+    { id: 'browser', label: 'Browser', icon: <GlobeIcon size={16} /> },
     { id: 'voice', label: 'Voice', icon: <MicIcon size={16} /> },
     { id: 'sounds', label: 'Sounds', icon: <VolumeIcon size={16} /> },
     { id: 'diagnostics', label: 'Diagnostics', icon: <WarningIcon size={16} /> },
@@ -558,6 +576,59 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({
     );
   };
 
+  const renderPermissionsSection = () => (
+    <div>
+      <h4 className="text-[11px] font-semibold uppercase tracking-wider text-copilot-text-muted mb-1">
+        Permission Audit Log
+      </h4>
+      <p className="text-xs text-copilot-text-muted mb-3">
+        Every permission decision, including auto-approvals in YOLO mode, and the rule that made it.
+      </p>
+      <PermissionAuditPanel sessionLabels={sessionLabels} />
+    </div>
+  );
+
+  const renderBrowserSection = () => (
+    <div>
+      <h4 className="text-[11px] font-semibold uppercase tracking-wider text-copilot-text-muted mb-1">
+        Browser Profiles
+      </h4>
+      <p className="text-xs text-copilot-text-muted mb-1">
+        Each profile keeps its own logins, so sessions can test as different users side by side.
+        Pick a session's profile from its browser panel.
+      </p>
+      <BrowserProfilesPanel sessionLabels={sessionLabels} />
+    </div>
+  );
+
+  const renderApiSection = () => (
+    <div>
+      <h4 className="text-[11px] font-semibold uppercase tracking-wider text-copilot-text-muted mb-1">
+        Local API
+      </h4>
+      <p className="text-xs text-copilot-text-muted mb-1">
+        Drive sessions from scripts and editor tasks over a token-protected local server.
+      </p>
+      <ApiServerPanel />
+    </div>
+  );
+
+  const renderIssuesSection = () => (
+    <div>
+      <h4 className="text-[11px] font-semibold uppercase tracking-wider text-copilot-text-muted mb-1">
+        Issue Trackers
+      </h4>
+      <p className="text-xs text-copilot-text-muted mb-3">
+        Start worktree sessions from Jira and GitLab issues. GitHub and Azure DevOps use the gh and
+        az CLIs.
+      </p>
+      <IssueTrackersPanel />
+      <div className="mt-5 pt-4 border-t border-copilot-border">
+        <IssueWriteBackPanel />
+      </div>
+    </div>
+  );
+
   const renderAccessibilitySection = () => {
     const percent = Math.round(zoomFactor * 100);
     return (
@@ -716,6 +787,14 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({
         return renderAccessibilitySection();
       case 'commands':
         return renderCommandsSection();
+      case 'permissions':
+        return renderPermissionsSection();
+      case 'api':
+        return renderApiSection();
+      case 'issues':
+        return renderIssuesSection();
+      case 'browser':
+        return renderBrowserSection();
       case 'environment':
         return renderEnvironmentSection();
       case 'voice':
@@ -0,0 +1,136 @@
+import React, { useCallback, useEffect, useState } from 'react';
+
+export interface TerminalCommandBlock {
+  id: number;
+  command: string;
+  output: string;
+  exitCode?: number;
+  startedAt: number;
+  finishedAt?: number;
+  durationMs?: number;
+}
+
+interface CommandBlockListProps {
+  sessionId: string;
+  terminalId: string;
+  refreshKey?: number; // Reloads the list when it changes, e.g. the terminal's line count
+  onAttach: (output: string, lineCount: number) => void;
+}
+
+// Blocks shown in the list, newest first
+const MAX_LISTED_BLOCKS = 20;
+
+const formatDuration = (durationMs: number): string => {
+  const seconds = durationMs / 1000;
+  if (seconds < 1) return '<1s';
+  if (seconds < 60) return `${seconds.toFixed(1)}s`;
+  return `${Math.floor(seconds / 60)}m ${Math.round(seconds % 60)}s`;
+};
+
+const describeStatus = (block: TerminalCommandBlock): string => {
+  if (block.finishedAt === undefined) return 'running';
+  const parts = [
+    block.exitCode === undefined ? 'finished' : `exit code ${block.exitCode}`,
+    block.durationMs !== undefined && formatDuration(block.durationMs),
+  ];
+  return parts.filter(Boolean).join(' · ');
+};
+
+/**
+ * Text attached to the message for one command: the command line, its output and how it ended
+ */
+export function formatCommandBlock(block: TerminalCommandBlock): string {
+  return [`$ ${block.command}`, block.output, `[${describeStatus(block)}]`]
+    .filter(Boolean)
+    .join('\n');
+}
+
+const isFailed = (block: TerminalCommandBlock) => !!block.exitCode;
+
+export const CommandBlockList: React.FC<CommandBlockListProps> = ({
+  sessionId,
+  terminalId,
+  refreshKey,
+  onAttach,
+}) => {
+  const [blocks, setBlocks] = useState<TerminalCommandBlock[]>([]);
+  const [shellIntegration, setShellIntegration] = useState(true);
+
+  const load = useCallback(async () => {
+    const result = await window.electronAPI.pty.getCommandBlocks(sessionId, terminalId);
+    setBlocks(result.success ? result.blocks || [] : []);
+    setShellIntegration(!!result.shellIntegration);
+  }, [sessionId, terminalId]);
+
+  useEffect(() => {
+    load().catch(() => setBlocks([]));
+  }, [load, refreshKey]);
+
+  const attach = (block: TerminalCommandBlock) => {
+    const text = formatCommandBlock(block);
+    onAttach(text, text.split('\n').length);
+  };
+
+  const lastFailed = [...blocks].reverse().find(isFailed);
+  const listed = blocks.slice(-MAX_LISTED_BLOCKS).reverse();
+
+  return (
+    <div className="px-3 py-1 bg-copilot-surface border-b border-copilot-border text-[10px]">
+      <div className="flex items-center gap-2">
+        <span className="text-copilot-text-muted">Commands</span>
+        <button
+          onClick={() => lastFailed && attach(lastFailed)}
+          disabled={!lastFailed}
+          className="px-2 py-0.5 text-copilot-error hover:opacity-80 disabled:opacity-40 disabled:text-copilot-text-muted"
+          title={lastFailed ? `Attach "${lastFailed.command}"` : 'No command has failed'}
+        >
+          Attach last failed command
+        </button>
+        <button
+          onClick={() => load()}
+          className="ml-auto px-2 py-0.5 text-copilot-text-muted hover:text-copilot-text"
+          title="Refresh commands"
+        >
+          ↻
+        </button>
+      </div>
+      {listed.length === 0 ? (
+        <div className="py-1 text-copilot-text-muted">
+          {shellIntegration
+            ? 'No commands yet.'
+            : 'No commands detected. Commands are tracked in bash, zsh and PowerShell terminals.'}
+        </div>
+      ) : (
+        <ul className="max-h-32 overflow-y-auto py-0.5" aria-label="Command blocks">
+          {listed.map((block) => (
+            <li key={block.id}>
+              <button
+                onClick={() => attach(block)}
+                className="flex items-center gap-2 w-full px-1 py-0.5 rounded text-left hover:bg-copilot-bg"
+                title="Attach this command and its output"
+              >
+                <span
+                  className={`w-1.5 h-1.5 rounded-full shrink-0 ${
+                    block.finishedAt === undefined
+                      ? 'bg-copilot-warning'
+                      : isFailed(block)
+                        ? 'bg-copilot-error'
+                        : 'bg-copilot-success'
+                  }`}
+                />
+                <span className="font-mono text-copilot-text truncate">
+                  {block.command || '(unknown command)'}
+                </span>
+                <span className="ml-auto shrink-0 text-copilot-text-muted">
+                  {describeStatus(block)}
+                </span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default CommandBlockList;
@@ -1,7 +1,6 @@
-import React, { useEffect, useRef, useCallback, useState } from 'react';
-import { Terminal as XTerm } from '@xterm/xterm';
-import { FitAddon } from '@xterm/addon-fit';
-import '@xterm/xterm/css/xterm.css';
+import React, { useRef, useCallback, useEffect, useState } from 'react';
+import { TerminalView, TerminalViewHandle, TerminalViewStatus } from './TerminalView';
+import { CommandBlockList } from './CommandBlockList';
 
 // Regex to split paths on both Unix (/) and Windows (\) separators
 const PATH_SEP_REGEX = /[\\/]/;
@@ -10,6 +9,15 @@ const MIN_HEIGHT = 100;
 const MAX_HEIGHT = 600;
 const DEFAULT_HEIGHT = 192; // h-48 equivalent
 
+// Matches DEFAULT_TERMINAL_ID in the main process
+const DEFAULT_TERMINAL_ID = 'main';
+
+interface TerminalTab {
+  id: string;
+  name: string;
+  startupCommand?: string;
+}
+
 interface TerminalPanelProps {
   sessionId: string;
   cwd: string;
@@ -25,294 +33,176 @@ export const TerminalPanel: React.FC<TerminalPanelProps> = ({
   onClose,
   onSendToAgent,
 }) => {
-  const terminalRef = useRef<HTMLDivElement>(null);
-  const xtermRef = useRef<XTerm | null>(null);
-  const fitAddonRef = useRef<FitAddon | null>(null);
-  const [isInitialized, setIsInitialized] = useState(false);
-  const [isConnected, setIsConnected] = useState(false);
-  const [bufferLineCount, setBufferLineCount] = useState(0);
+  const [terminals, setTerminals] = useState<TerminalTab[]>([
+    { id: DEFAULT_TERMINAL_ID, name: 'Terminal 1' },
+  ]);
+  const [activeId, setActiveId] = useState(DEFAULT_TERMINAL_ID);
+  // Second pane when split; the active terminal is always on the left
+  const [splitId, setSplitId] = useState<string | null>(null);
+  const [focusedId, setFocusedId] = useState(DEFAULT_TERMINAL_ID);
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState('');
+  const [statuses, setStatuses] = useState<Record<string, TerminalViewStatus>>({});
   const [terminalHeight, setTerminalHeight] = useState(DEFAULT_HEIGHT);
-  const [isResizing, setIsResizing] = useState(false);
-  const sessionIdRef = useRef(sessionId);
-
-  // Track the line number where the last command started (when user pressed Enter)
-  const lastCommandLineRef = useRef<number>(0);
-
-  // Keep sessionId ref in sync
+  const [historyLoaded, setHistoryLoaded] = useState(false);
+  const [editingStartup, setEditingStartup] = useState(false);
+  const [startupValue, setStartupValue] = useState('');
+  const [showCommands, setShowCommands] = useState(false);
+  const viewRefs = useRef(new Map<string, TerminalViewHandle>());
+  const restoredScrollback = useRef(new Map<string, string>());
+  // Terminals brought back from history; only these run their saved startup command
+  const restoredIds = useRef(new Set<string>());
+  const nextTerminalNumber = useRef(2);
+
+  // Bring back the terminals this session had before the app was restarted
   useEffect(() => {
-    sessionIdRef.current = sessionId;
-  }, [sessionId]);
-
-  // Initialize terminal
-  useEffect(() => {
-    if (!isOpen || !terminalRef.current || isInitialized) return;
-
-    const xterm = new XTerm({
-      cursorBlink: true,
-      fontSize: 13,
-      fontFamily: 'Menlo, Monaco, Consolas, "Courier New", monospace',
-      theme: {
-        background: 'var(--copilot-terminal-bg, #1e1e1e)',
-        foreground: 'var(--copilot-terminal-text, #d4d4d4)',
-        cursor: 'var(--copilot-terminal-cursor, #aeafad)',
-        cursorAccent: 'var(--copilot-terminal-bg, #1e1e1e)',
-        selectionBackground: 'var(--copilot-selection, rgba(255, 255, 255, 0.3))',
-      },
-      allowProposedApi: true,
-    });
-
-    const fitAddon = new FitAddon();
-    xterm.loadAddon(fitAddon);
-
-    xterm.open(terminalRef.current);
-    fitAddon.fit();
-
-    // Handle special key combinations for the terminal
-    // Return true = xterm handles it, false = browser/Electron handles it
-    xterm.attachCustomKeyEventHandler((event) => {
-      // Only handle keydown events
-      if (event.type !== 'keydown') return true;
-
-      const isMac = navigator.platform.includes('Mac');
-      const isCtrlOrCmd = isMac ? event.metaKey : event.ctrlKey;
-
-      // Handle Ctrl/Cmd+C - copy if text is selected, otherwise send SIGINT
-      if (isCtrlOrCmd && event.key === 'c') {
-        if (xterm.hasSelection()) {
-          // Copy selected text to clipboard, then clear selection
-          navigator.clipboard.writeText(xterm.getSelection()).catch(() => {});
-          xterm.clearSelection();
-        } else {
-          // No selection — send SIGINT (ETX / 0x03) to interrupt running processes
-          window.electronAPI.pty.write(sessionIdRef.current, '\x03');
-        }
-        event.preventDefault();
-        event.stopPropagation();
-        return false;
-      }
-
-      // Handle Ctrl/Cmd+V - paste
-      if (isCtrlOrCmd && event.key === 'v') {
-        event.preventDefault();
-        event.stopPropagation();
-        // Read from clipboard and send to terminal
-        navigator.clipboard
-          .readText()
-          .then((text) => {
-            if (text) {
-              window.electronAPI.pty.write(sessionIdRef.current, text);
-            }
-          })
-          .catch(() => {
-            // Clipboard access denied - ignore
-          });
-        return false;
-      }
-
-      // Handle Ctrl+Arrow keys for word navigation in terminal
-      // On macOS, also handle Option+Arrow as that's more common for word navigation
-      // Send ESC b (word-left) and ESC f (word-right) which work in bash/zsh
-      const isWordNavModifier = isMac
-        ? event.altKey && !event.ctrlKey && !event.metaKey // Option+Arrow on macOS
-        : event.ctrlKey && !event.metaKey && !event.altKey; // Ctrl+Arrow on Linux/Windows
-
-      if (isWordNavModifier && !event.shiftKey) {
-        if (event.key === 'ArrowLeft') {
-          event.preventDefault();
-          event.stopPropagation();
-          // Send ESC b (word backward) - works in bash/zsh
-          window.electronAPI.pty.write(sessionIdRef.current, '\x1bb');
-          return false;
-        }
-        if (event.key === 'ArrowRight') {
-          event.preventDefault();
-          event.stopPropagation();
-          // Send ESC f (word forward) - works in bash/zsh
-          window.electronAPI.pty.write(sessionIdRef.current, '\x1bf');
-          return false;
-        }
-      }
-
-      // Let xterm handle all other key events
-      return true;
-    });
-
-    xtermRef.current = xterm;
-    fitAddonRef.current = fitAddon;
-    setIsInitialized(true);
-
-    // Handle user input - track when commands are executed (Enter pressed)
-    xterm.onData((data) => {
-      // If user pressed Enter (carriage return or newline), record the current line as command start
-      if (data === '\r' || data === '\n' || data === '\r\n') {
-        const buffer = xterm.buffer.active;
-        // The command line is the current line (before Enter moves to next line)
-        // baseY is scrollback, cursorY is position in viewport
-        lastCommandLineRef.current = buffer.baseY + buffer.cursorY;
-      }
-      window.electronAPI.pty.write(sessionIdRef.current, data);
-    });
-
-    // Create PTY
-    window.electronAPI.pty.create(sessionId, cwd).then((result) => {
-      if (result.success) {
-        setIsConnected(true);
-        setBufferLineCount(0);
-        // Resize PTY to match terminal
-        const dims = fitAddon.proposeDimensions();
-        // Validate dimensions before sending to PTY - invalid dimensions crash node-pty
-        if (dims && dims.cols > 0 && dims.rows > 0) {
-          window.electronAPI.pty.resize(sessionId, dims.cols, dims.rows);
-        }
-      } else {
-        xterm.writeln(`\x1b[31mFailed to create terminal: ${result.error}\x1b[0m`);
-      }
-    });
-
+    let cancelled = false;
+    window.electronAPI.pty
+      .getHistory(sessionId)
+      .then(({ terminals: saved }) => {
+        if (cancelled || saved.length === 0) return;
+        restoredScrollback.current = new Map(
+          saved.filter((t) => t.scrollback).map((t) => [t.terminalId, t.scrollback])
+        );
+        restoredIds.current = new Set(saved.map((t) => t.terminalId));
+        setTerminals(
+          saved.map((t) => ({ id: t.terminalId, name: t.name, startupCommand: t.startupCommand }))
+        );
+        setActiveId(saved[0].terminalId);
+        setFocusedId(saved[0].terminalId);
+        const numbers = saved.map((t) => Number(/^terminal-(\d+)$/.exec(t.terminalId)?.[1] || 1));
+        nextTerminalNumber.current = Math.max(1, ...numbers) + 1;
+      })
+      .catch(() => {})
+      .finally(() => {
+        if (!cancelled) setHistoryLoaded(true);
+      });
     return () => {
-      // Cleanup will be done when component unmounts or panel closes
+      cancelled = true;
     };
-  }, [isOpen, sessionId, cwd, isInitialized]);
+  }, [sessionId]);
 
-  // Handle PTY data
+  // Show terminals the main process starts for this session, such as worktree setup commands
+  const knownIds = useRef(new Set<string>());
+  knownIds.current = new Set(terminals.map((t) => t.id));
   useEffect(() => {
-    if (!isInitialized) return;
-
-    const unsubscribeData = window.electronAPI.pty.onData((data) => {
-      if (data.sessionId === sessionIdRef.current && xtermRef.current) {
-        xtermRef.current.write(data.data);
-        // Count newlines for line count estimate
-        const newLines = (data.data.match(/\n/g) || []).length;
-        setBufferLineCount((prev) => prev + newLines);
-      }
-    });
-
-    const unsubscribeExit = window.electronAPI.pty.onExit((data) => {
-      if (data.sessionId === sessionIdRef.current) {
-        setIsConnected(false);
-        if (xtermRef.current) {
-          xtermRef.current.writeln(`\x1b[33m\r\nProcess exited with code ${data.exitCode}\x1b[0m`);
-        }
+    if (!historyLoaded) return;
+    const discovering = new Set<string>();
+    const unsubscribe = window.electronAPI.pty.onData(({ sessionId: id, terminalId }) => {
+      if (id !== sessionId || knownIds.current.has(terminalId) || discovering.has(terminalId)) {
+        return;
       }
+      discovering.add(terminalId);
+      window.electronAPI.pty
+        .list(sessionId)
+        .then(({ terminals: running }) => {
+          const terminal = running.find((t) => t.terminalId === terminalId);
+          if (!terminal) return;
+          setTerminals((prev) =>
+            prev.some((t) => t.id === terminalId)
+              ? prev
+              : [...prev, { id: terminalId, name: terminal.name }]
+          );
+          setActiveId(terminalId);
+          setFocusedId(terminalId);
+        })
+        .catch(() => {})
+        .finally(() => discovering.delete(terminalId));
     });
+    return unsubscribe;
+  }, [sessionId, historyLoaded]);
 
-    return () => {
-      unsubscribeData();
-      unsubscribeExit();
-    };
-  }, [isInitialized]);
+  const focused = terminals.some((t) => t.id === focusedId) ? focusedId : activeId;
+  const focusedStatus = statuses[focused];
+  const focusedTerminal = terminals.find((t) => t.id === focused);
+  const visibleIds = splitId ? [activeId, splitId] : [activeId];
 
-  // Handle resize
-  useEffect(() => {
-    if (!isOpen || !fitAddonRef.current) return;
-
-    const handleResize = () => {
-      if (fitAddonRef.current) {
-        fitAddonRef.current.fit();
-        const dims = fitAddonRef.current.proposeDimensions();
-        // Validate dimensions before sending to PTY - invalid dimensions crash node-pty
-        if (dims && isConnected && dims.cols > 0 && dims.rows > 0) {
-          window.electronAPI.pty.resize(sessionIdRef.current, dims.cols, dims.rows);
-        }
-      }
-    };
-
-    // Fit on open
-    setTimeout(handleResize, 100);
-
-    window.addEventListener('resize', handleResize);
-    return () => window.removeEventListener('resize', handleResize);
-  }, [isOpen, isConnected]);
-
-  // Cleanup on close - only cleanup when component unmounts (tab closed), not when hidden
-  useEffect(() => {
-    // Return cleanup function that runs on unmount
-    return () => {
-      // Use refs which are always current, not stale closure values
-      window.electronAPI.pty.close(sessionIdRef.current);
-      if (xtermRef.current) {
-        xtermRef.current.dispose();
-        xtermRef.current = null;
-      }
-      fitAddonRef.current = null;
-    };
-  }, []); // Empty deps - only run cleanup on unmount
-
-  const handleSendToAgent = useCallback(async () => {
-    if (!xtermRef.current) return;
-
-    // Read directly from xterm's buffer - this gives us the rendered content
-    // without escape sequences or terminal artifacts
-    const buffer = xtermRef.current.buffer.active;
-    const lines: string[] = [];
+  const handleStatusChange = useCallback((terminalId: string, status: TerminalViewStatus) => {
+    setStatuses((prev) => ({ ...prev, [terminalId]: status }));
+  }, []);
 
-    // Read all lines from the buffer
-    for (let i = 0; i < buffer.length; i++) {
-      const line = buffer.getLine(i);
-      if (line) {
-        // translateToString(true) should trim right, but we'll also trim manually to be safe
-        const text = line.translateToString(true).trimEnd();
-        lines.push(text);
-      }
-    }
+  const addTerminal = useCallback((): string => {
+    const number = nextTerminalNumber.current++;
+    const terminal = { id: `terminal-${number}`, name: `Terminal ${number}` };
+    setTerminals((prev) => [...prev, terminal]);
+    return terminal.id;
+  }, []);
 
-    // Remove trailing empty lines
-    while (lines.length > 0 && lines[lines.length - 1] === '') {
-      lines.pop();
+  const handleNewTerminal = () => {
+    const id = addTerminal();
+    if (splitId) {
+      setSplitId(id);
+    } else {
+      setActiveId(id);
     }
+    setFocusedId(id);
+  };
 
-    const output = lines.join('\n');
-    const lineCount = lines.length;
-
-    if (output.trim()) {
-      // Pass the last command start line so the modal can extract just that command's output
-      onSendToAgent(output, lineCount, lastCommandLineRef.current);
+  const handleSelectTab = (id: string) => {
+    if (id === splitId) {
+      // Swap panes so the selected terminal moves to the left
+      setSplitId(activeId);
     }
-  }, [onSendToAgent]);
-
-  const handleClearBuffer = useCallback(async () => {
-    const result = await window.electronAPI.pty.clearBuffer(sessionIdRef.current);
-    if (result.success) {
-      setBufferLineCount(0);
-      // Also clear the terminal display
-      if (xtermRef.current) {
-        xtermRef.current.clear();
-      }
+    setActiveId(id);
+    setFocusedId(id);
+  };
+
+  const handleToggleSplit = () => {
+    if (splitId) {
+      setSplitId(null);
+      setFocusedId(activeId);
+      return;
     }
-  }, []);
-
-  const handleRestart = useCallback(async () => {
-    setIsConnected(false);
-    // Close existing PTY and wait
-    await window.electronAPI.pty.close(sessionIdRef.current);
-    // Small delay to ensure cleanup
-    await new Promise((resolve) => setTimeout(resolve, 100));
-    // Clear terminal display
-    if (xtermRef.current) {
-      xtermRef.current.clear();
+    const other = terminals.find((t) => t.id !== activeId)?.id || addTerminal();
+    setSplitId(other);
+    setFocusedId(other);
+  };
+
+  const handleCloseTerminal = (id: string) => {
+    const remaining = terminals.filter((t) => t.id !== id);
+    if (remaining.length === 0) return;
+    window.electronAPI.pty.forget(sessionId, id);
+    // Closing either pane of a split leaves the other one on its own
+    const nextActive = id === activeId ? splitId || remaining[0].id : activeId;
+    setTerminals(remaining);
+    setActiveId(nextActive);
+    if (id === activeId || id === splitId) setSplitId(null);
+    if (id === focusedId) setFocusedId(nextActive);
+    setStatuses((prev) => {
+      const { [id]: _closed, ...rest } = prev;
+      return rest;
+    });
+  };
+
+  const commitRename = () => {
+    if (!renamingId) return;
+    const name = renameValue.trim();
+    if (name) {
+      setTerminals((prev) => prev.map((t) => (t.id === renamingId ? { ...t, name } : t)));
+      window.electronAPI.pty.rename(sessionId, renamingId, name);
     }
-    // Create new PTY
-    const result = await window.electronAPI.pty.create(sessionIdRef.current, cwd);
+    setRenamingId(null);
+  };
+
+  const saveStartupCommand = async () => {
+    const terminalId = focused;
+    const result = await window.electronAPI.pty.setStartupCommand(
+      sessionId,
+      terminalId,
+      startupValue
+    );
     if (result.success) {
-      setIsConnected(true);
-      setBufferLineCount(0);
-      if (fitAddonRef.current) {
-        const dims = fitAddonRef.current.proposeDimensions();
-        // Validate dimensions before sending to PTY - invalid dimensions crash node-pty
-        if (dims && dims.cols > 0 && dims.rows > 0) {
-          window.electronAPI.pty.resize(sessionIdRef.current, dims.cols, dims.rows);
-        }
-      }
-    } else if (xtermRef.current) {
-      xtermRef.current.writeln(`\x1b[31mFailed to restart: ${result.error}\x1b[0m`);
+      setTerminals((prev) =>
+        prev.map((t) => (t.id === terminalId ? { ...t, startupCommand: result.startupCommand } : t))
+      );
+      setEditingStartup(false);
     }
-  }, [cwd]);
+  };
 
   // Handle resize drag
   const handleResizeStart = useCallback(
     (e: React.MouseEvent) => {
       e.preventDefault();
-      setIsResizing(true);
       const startY = e.clientY;
       const startHeight = terminalHeight;
 
@@ -323,32 +213,18 @@ export const TerminalPanel: React.FC<TerminalPanelProps> = ({
       };
 
       const handleMouseUp = () => {
-        setIsResizing(false);
         document.removeEventListener('mousemove', handleMouseMove);
         document.removeEventListener('mouseup', handleMouseUp);
-        // Refit terminal after resize
-        if (fitAddonRef.current) {
-          fitAddonRef.current.fit();
-          const dims = fitAddonRef.current.proposeDimensions();
-          // Validate dimensions before sending to PTY - invalid dimensions crash node-pty
-          if (dims && isConnected && dims.cols > 0 && dims.rows > 0) {
-            window.electronAPI.pty.resize(sessionIdRef.current, dims.cols, dims.rows);
-          }
-        }
       };
 
       document.addEventListener('mousemove', handleMouseMove);
       document.addEventListener('mouseup', handleMouseUp);
     },
-    [terminalHeight, isConnected]
+    [terminalHeight]
   );
 
-  // Refit terminal when height changes during drag
-  useEffect(() => {
-    if (isResizing && fitAddonRef.current) {
-      fitAddonRef.current.fit();
-    }
-  }, [terminalHeight, isResizing]);
+  const actionButtonClass =
+    'px-2 py-0.5 text-[10px] text-copilot-text-muted hover:text-copilot-text transition-colors';
 
   return (
     <div
@@ -356,59 +232,204 @@ export const TerminalPanel: React.FC<TerminalPanelProps> = ({
       data-tour="terminal-panel"
     >
       {/* Terminal Header */}
-      <div className="flex items-center justify-between px-3 py-1.5 bg-copilot-surface border-b border-copilot-border">
-        <div className="flex items-center gap-2 min-w-0">
-          <span
-            className={`w-2 h-2 rounded-full shrink-0 ${isConnected ? 'bg-copilot-success' : 'bg-copilot-error'}`}
-          />
-          <span className="text-[10px] text-copilot-text-muted font-mono truncate" title={cwd}>
+      <div className="flex items-center justify-between px-3 py-1 bg-copilot-surface border-b border-copilot-border">
+        <div className="flex items-center gap-1 min-w-0 overflow-x-auto" role="tablist">
+          {terminals.map((terminal) => {
+            const isActive = visibleIds.includes(terminal.id);
+            const connected = statuses[terminal.id]?.isConnected;
+            return (
+              <div
+                key={terminal.id}
+                role="tab"
+                aria-selected={terminal.id === activeId}
+                onClick={() => handleSelectTab(terminal.id)}
+                onDoubleClick={() => {
+                  setRenamingId(terminal.id);
+                  setRenameValue(terminal.name);
+                }}
+                className={`group flex items-center gap-1.5 px-2 py-0.5 rounded text-[10px] cursor-pointer shrink-0 ${
+                  isActive
+                    ? 'bg-copilot-bg text-copilot-text'
+                    : 'text-copilot-text-muted hover:text-copilot-text'
+                }`}
+                title={`${terminal.name} · ${cwd}${
+                  terminal.startupCommand ? ` · runs ${terminal.startupCommand} on start` : ''
+                } (double-click to rename)`}
+              >
+                <span
+                  className={`w-1.5 h-1.5 rounded-full shrink-0 ${connected ? 'bg-copilot-success' : 'bg-copilot-error'}`}
+                />
+                {renamingId === terminal.id ? (
+                  <input
+                    autoFocus
+                    value={renameValue}
+                    onChange={(e) => setRenameValue(e.target.value)}
+                    onBlur={commitRename}
+                    onClick={(e) => e.stopPropagation()}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') commitRename();
+                      if (e.key === 'Escape') setRenamingId(null);
+                    }}
+                    aria-label="Terminal name"
+                    className="w-24 bg-transparent border-b border-copilot-accent outline-none text-copilot-text"
+                  />
+                ) : (
+                  <span className="font-mono">{terminal.name}</span>
+                )}
+                {terminals.length > 1 && (
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      handleCloseTerminal(terminal.id);
+                    }}
+                    className="opacity-0 group-hover:opacity-100 text-copilot-text-muted hover:text-copilot-text"
+                    aria-label={`Close ${terminal.name}`}
+                  >
+                    ✕
+                  </button>
+                )}
+              </div>
+            );
+          })}
+          <button
+            onClick={handleNewTerminal}
+            className={actionButtonClass}
+            title="New terminal"
+            aria-label="New terminal"
+          >
+            +
+          </button>
+          <span className="text-[10px] text-copilot-text-muted font-mono truncate ml-1" title={cwd}>
             {cwd.split(PATH_SEP_REGEX).slice(-2).join('/')}
           </span>
-          {bufferLineCount > 0 && (
+          {!!focusedStatus?.bufferLineCount && (
             <span className="text-[10px] text-copilot-accent shrink-0">
-              ({bufferLineCount} lines)
+              ({focusedStatus.bufferLineCount} lines)
             </span>
           )}
         </div>
         <div className="flex items-center gap-1 shrink-0">
           <button
-            onClick={handleClearBuffer}
-            className="px-2 py-0.5 text-[10px] text-copilot-text-muted hover:text-copilot-text transition-colors"
+            onClick={() => viewRefs.current.get(focused)?.clear()}
+            className={actionButtonClass}
             title="Clear output buffer"
           >
             Clear
           </button>
           <button
-            onClick={handleSendToAgent}
-            disabled={bufferLineCount === 0}
+            onClick={() => viewRefs.current.get(focused)?.sendToAgent()}
+            disabled={!focusedStatus?.bufferLineCount}
             className="px-2 py-0.5 text-[10px] bg-copilot-success text-copilot-text-inverse rounded hover:opacity-90 disabled:opacity-50 transition-colors"
             title="Add terminal output to message"
           >
             Add to Message
           </button>
           <button
-            onClick={handleRestart}
-            className="px-2 py-0.5 text-[10px] text-copilot-text-muted hover:text-copilot-text transition-colors"
+            onClick={() => setShowCommands((prev) => !prev)}
+            className={`${actionButtonClass} ${showCommands ? 'text-copilot-accent' : ''}`}
+            title="Commands run in this terminal"
+            aria-pressed={showCommands}
+          >
+            Commands
+          </button>
+          <button
+            onClick={() => {
+              setStartupValue(focusedTerminal?.startupCommand || '');
+              setEditingStartup((prev) => !prev);
+            }}
+            className={`${actionButtonClass} ${focusedTerminal?.startupCommand ? 'text-copilot-accent' : ''}`}
+            title="Startup command"
+            aria-pressed={editingStartup}
+          >
+            ▶
+          </button>
+          <button
+            onClick={() => viewRefs.current.get(focused)?.restart()}
+            className={actionButtonClass}
             title="Restart terminal"
           >
             ↻
           </button>
           <button
-            onClick={onClose}
-            className="px-2 py-0.5 text-[10px] text-copilot-text-muted hover:text-copilot-text transition-colors"
-            title="Close terminal"
+            onClick={handleToggleSplit}
+            className={`${actionButtonClass} ${splitId ? 'text-copilot-accent' : ''}`}
+            title={splitId ? 'Unsplit' : 'Split terminal'}
+            aria-pressed={!!splitId}
           >
+            ◫
+          </button>
+          <button onClick={onClose} className={actionButtonClass} title="Close terminal">
             ✕
           </button>
         </div>
       </div>
 
-      {/* Terminal Container */}
-      <div
-        ref={terminalRef}
-        className="overflow-hidden"
-        style={{ height: `${terminalHeight}px`, backgroundColor: '#000' }}
-      />
+      {editingStartup && (
+        <div className="flex items-center gap-2 px-3 py-1 bg-copilot-surface border-b border-copilot-border text-[10px]">
+          <span className="text-copilot-text-muted shrink-0">
+            Run when {focusedTerminal?.name || 'this terminal'} starts:
+          </span>
+          <input
+            autoFocus
+            value={startupValue}
+            onChange={(e) => setStartupValue(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') saveStartupCommand();
+              if (e.key === 'Escape') setEditingStartup(false);
+            }}
+            placeholder="e.g. npm run dev"
+            aria-label="Startup command"
+            className="flex-1 min-w-0 bg-copilot-bg border border-copilot-border rounded px-1.5 py-0.5 font-mono text-copilot-text outline-none focus:border-copilot-accent"
+          />
+          <button onClick={saveStartupCommand} className={actionButtonClass}>
+            Save
+          </button>
+        </div>
+      )}
+
+      {showCommands && (
+        <CommandBlockList
+          sessionId={sessionId}
+          terminalId={focused}
+          refreshKey={focusedStatus?.bufferLineCount}
+          onAttach={onSendToAgent}
+        />
+      )}
+
+      {/* Terminal Containers - every terminal stays mounted so its buffer survives tab switches */}
+      <div className="flex">
+        {historyLoaded &&
+          terminals.map((terminal) => {
+            const isVisible = isOpen && visibleIds.includes(terminal.id);
+            return (
+              <div
+                key={terminal.id}
+                className={`flex-1 min-w-0 ${!visibleIds.includes(terminal.id) ? 'hidden' : ''} ${
+                  splitId && terminal.id === splitId ? 'border-l border-copilot-border' : ''
+                } ${splitId && terminal.id === focused ? 'ring-1 ring-inset ring-copilot-accent/40' : ''}`}
+                style={{ order: visibleIds.indexOf(terminal.id) }}
+              >
+                <TerminalView
+                  ref={(handle) => {
+                    if (handle) viewRefs.current.set(terminal.id, handle);
+                    else viewRefs.current.delete(terminal.id);
+                  }}
+                  sessionId={sessionId}
+                  terminalId={terminal.id}
+                  name={terminal.name}
+                  cwd={cwd}
+                  restoredScrollback={restoredScrollback.current.get(terminal.id)}
+                  runStartupCommand={restoredIds.current.has(terminal.id)}
+                  isVisible={isVisible}
+                  height={terminalHeight}
+                  onFocus={() => setFocusedId(terminal.id)}
+                  onStatusChange={handleStatusChange}
+                  onSendToAgent={onSendToAgent}
+                />
+              </div>
+            );
+          })}
+      </div>
 
       {/* Resize Handle */}
       <div onMouseDown={handleResizeStart} className="h-0 cursor-ns-resize shrink-0 relative z-10">
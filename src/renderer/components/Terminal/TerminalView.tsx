@@ -0,0 +1,413 @@
+import React, {
+  forwardRef,
+  useCallback,
+  useEffect,
+  useImperativeHandle,
+  useRef,
+  useState,
+} from 'react';
+import { Terminal as XTerm } from '@xterm/xterm';
+import { FitAddon } from '@xterm/addon-fit';
+import '@xterm/xterm/css/xterm.css';
+
+export interface TerminalViewHandle {
+  sendToAgent: () => void;
+  clear: () => Promise<void>;
+  restart: () => Promise<void>;
+}
+
+export interface TerminalViewStatus {
+  isConnected: boolean;
+  bufferLineCount: number;
+}
+
+interface TerminalViewProps {
+  sessionId: string;
+  terminalId: string;
+  name: string;
+  cwd: string;
+  restoredScrollback?: string; // Output saved before the last app restart
+  runStartupCommand?: boolean; // Restored terminal: run its saved startup command when it starts
+  isVisible: boolean;
+  height: number;
+  onFocus: () => void;
+  onStatusChange: (terminalId: string, status: TerminalViewStatus) => void;
+  onSendToAgent: (output: string, lineCount: number, lastCommandStart?: number) => void;
+}
+
+/**
+ * One xterm bound to one of the session's PTYs. Kept mounted while hidden so its scrollback
+ * survives switching terminal tabs and session tabs; the PTY is closed on unmount.
+ */
+export const TerminalView = forwardRef<TerminalViewHandle, TerminalViewProps>(
+  (
+    {
+      sessionId,
+      terminalId,
+      name,
+      cwd,
+      restoredScrollback,
+      runStartupCommand,
+      isVisible,
+      height,
+      onFocus,
+      onStatusChange,
+      onSendToAgent,
+    },
+    ref
+  ) => {
+    const terminalRef = useRef<HTMLDivElement>(null);
+    const xtermRef = useRef<XTerm | null>(null);
+    const fitAddonRef = useRef<FitAddon | null>(null);
+    const [isInitialized, setIsInitialized] = useState(false);
+    const [isConnected, setIsConnected] = useState(false);
+    const [bufferLineCount, setBufferLineCount] = useState(0);
+    const sessionIdRef = useRef(sessionId);
+
+    // Track the line number where the last command started (when user pressed Enter)
+    const lastCommandLineRef = useRef<number>(0);
+
+    // Keep sessionId ref in sync
+    useEffect(() => {
+      sessionIdRef.current = sessionId;
+    }, [sessionId]);
+
+    useEffect(() => {
+      onStatusChange(terminalId, { isConnected, bufferLineCount });
+    }, [terminalId, isConnected, bufferLineCount, onStatusChange]);
+
+    const write = useCallback(
+      (data: string) => window.electronAPI.pty.write(sessionIdRef.current, data, terminalId),
+      [terminalId]
+    );
+
+    const fitAndResize = useCallback(() => {
+      if (!fitAddonRef.current) return;
+      fitAddonRef.current.fit();
+      const dims = fitAddonRef.current.proposeDimensions();
+      // Validate dimensions before sending to PTY - invalid dimensions crash node-pty
+      if (dims && dims.cols > 0 && dims.rows > 0) {
+        window.electronAPI.pty.resize(sessionIdRef.current, dims.cols, dims.rows, terminalId);
+      }
+    }, [terminalId]);
+
+    // Initialize terminal the first time it is shown
+    useEffect(() => {
+      if (!isVisible || !terminalRef.current || isInitialized) return;
+
+      const xterm = new XTerm({
+        cursorBlink: true,
+        fontSize: 13,
+        fontFamily: 'Menlo, Monaco, Consolas, "Courier New", monospace',
+        theme: {
+          background: 'var(--copilot-terminal-bg, #1e1e1e)',
+          foreground: 'var(--copilot-terminal-text, #d4d4d4)',
+          cursor: 'var(--copilot-terminal-cursor, #aeafad)',
+          cursorAccent: 'var(--copilot-terminal-bg, #1e1e1e)',
+          selectionBackground: 'var(--copilot-selection, rgba(255, 255, 255, 0.3))',
+        },
+        allowProposedApi: true,
+      });
+
+      const fitAddon = new FitAddon();
+      xterm.loadAddon(fitAddon);
+
+      xterm.open(terminalRef.current);
+      fitAddon.fit();
+
+      // Handle special key combinations for the terminal
+      // Return true = xterm handles it, false = browser/Electron handles it
+      xterm.attachCustomKeyEventHandler((event) => {
+        // Only handle keydown events
+        if (event.type !== 'keydown') return true;
+
+        const isMac = navigator.platform.includes('Mac');
+        const isCtrlOrCmd = isMac ? event.metaKey : event.ctrlKey;
+
+        // Handle Ctrl/Cmd+C - copy if text is selected, otherwise send SIGINT
+        if (isCtrlOrCmd && event.key === 'c') {
+          if (xterm.hasSelection()) {
+            // Copy selected text to clipboard, then clear selection
+            navigator.clipboard.writeText(xterm.getSelection()).catch(() => {});
+            xterm.clearSelection();
+          } else {
+            // No selection — send SIGINT (ETX / 0x03) to interrupt running processes
+            write('\x03');
+          }
+          event.preventDefault();
+          event.stopPropagation();
+          return false;
+        }
+
+        // Handle Ctrl/Cmd+V - paste
+        if (isCtrlOrCmd && event.key === 'v') {
+          event.preventDefault();
+          event.stopPropagation();
+          // Read from clipboard and send to terminal
+          navigator.clipboard
+            .readText()
+            .then((text) => {
+              if (text) {
+                write(text);
+              }
+            })
+            .catch(() => {
+              // Clipboard access denied - ignore
+            });
+          return false;
+        }
+
+        // Handle Ctrl+Arrow keys for word navigation in terminal
+        // On macOS, also handle Option+Arrow as that's more common for word navigation
+        // Send ESC b (word-left) and ESC f (word-right) which work in bash/zsh
+        const isWordNavModifier = isMac
+          ? event.altKey && !event.ctrlKey && !event.metaKey // Option+Arrow on macOS
+          : event.ctrlKey && !event.metaKey && !event.altKey; // Ctrl+Arrow on Linux/Windows
+
+        if (isWordNavModifier && !event.shiftKey) {
+          if (event.key === 'ArrowLeft') {
+            event.preventDefault();
+            event.stopPropagation();
+            // Send ESC b (word backward) - works in bash/zsh
+            write('\x1bb');
+            return false;
+          }
+          if (event.key === 'ArrowRight') {
+            event.preventDefault();
+            event.stopPropagation();
+            // Send ESC f (word forward) - works in bash/zsh
+            write('\x1bf');
+            return false;
+          }
+        }
+
+        // Let xterm handle all other key events
+        return true;
+      });
+
+      xtermRef.current = xterm;
+      fitAddonRef.current = fitAddon;
+      setIsInitialized(true);
+
+      // Handle user input - track when commands are executed (Enter pressed)
+      xterm.onData((data) => {
+        // If user pressed Enter (carriage return or newline), record the current line as command start
+        if (data === '\r' || data === '\n' || data === '\r\n') {
+          const buffer = xterm.buffer.active;
+          // The command line is the current line (before Enter moves to next line)
+          // baseY is scrollback, cursorY is position in viewport
+          lastCommandLineRef.current = buffer.baseY + buffer.cursorY;
+        }
+        write(data);
+      });
+
+      const connect = (lineCount: number) => {
+        setIsConnected(true);
+        setBufferLineCount(lineCount);
+        // Resize PTY to match terminal
+        const dims = fitAddon.proposeDimensions();
+        // Validate dimensions before sending to PTY - invalid dimensions crash node-pty
+        if (dims && dims.cols > 0 && dims.rows > 0) {
+          window.electronAPI.pty.resize(sessionId, dims.cols, dims.rows, terminalId);
+        }
+      };
+
+      const createPty = () => {
+        // Replay the scrollback saved before the last restart; the PTY keeps it in its history
+        const restoredLines = restoredScrollback
+          ? (restoredScrollback.match(/\n/g) || []).length
+          : 0;
+        if (restoredScrollback) {
+          xterm.write(restoredScrollback);
+          xterm.writeln('\r\n\x1b[2m─── Restored from previous session ───\x1b[0m');
+        }
+
+        window.electronAPI.pty
+          .create(sessionId, cwd, terminalId, name, {
+            restoreScrollback: !!restoredScrollback,
+            runStartupCommand,
+          })
+          .then((result) => {
+            if (result.success) {
+              connect(restoredLines);
+            } else {
+              xterm.writeln(`\x1b[31mFailed to create terminal: ${result.error}\x1b[0m`);
+            }
+          });
+      };
+
+      // Attach to a PTY the main process already started (e.g. worktree setup commands) instead
+      // of replacing it with a new shell
+      window.electronAPI.pty
+        .exists(sessionId, terminalId)
+        .then(async ({ exists }) => {
+          if (!exists) {
+            createPty();
+            return;
+          }
+          const { output = '' } = await window.electronAPI.pty.getOutput(sessionId, terminalId);
+          xterm.write(output);
+          connect((output.match(/\n/g) || []).length);
+        })
+        .catch(createPty);
+    }, [
+      isVisible,
+      sessionId,
+      terminalId,
+      name,
+      cwd,
+      restoredScrollback,
+      runStartupCommand,
+      isInitialized,
+      write,
+    ]);
+
+    // Handle PTY data
+    useEffect(() => {
+      if (!isInitialized) return;
+
+      const unsubscribeData = window.electronAPI.pty.onData((data) => {
+        if (
+          data.sessionId === sessionIdRef.current &&
+          data.terminalId === terminalId &&
+          xtermRef.current
+        ) {
+          xtermRef.current.write(data.data);
+          // Count newlines for line count estimate
+          const newLines = (data.data.match(/\n/g) || []).length;
+          setBufferLineCount((prev) => prev + newLines);
+        }
+      });
+
+      const unsubscribeExit = window.electronAPI.pty.onExit((data) => {
+        if (data.sessionId === sessionIdRef.current && data.terminalId === terminalId) {
+          setIsConnected(false);
+          if (xtermRef.current) {
+            xtermRef.current.writeln(
+              `\x1b[33m\r\nProcess exited with code ${data.exitCode}\x1b[0m`
+            );
+          }
+        }
+      });
+
+      return () => {
+        unsubscribeData();
+        unsubscribeExit();
+      };
+    }, [isInitialized, terminalId]);
+
+    // Fit when shown, when the panel height changes and on window resize
+    useEffect(() => {
+      if (!isVisible || !isInitialized) return;
+
+      const timer = setTimeout(fitAndResize, 100);
+      window.addEventListener('resize', fitAndResize);
+      return () => {
+        clearTimeout(timer);
+        window.removeEventListener('resize', fitAndResize);
+      };
+    }, [isVisible, isInitialized, height, fitAndResize]);
+
+    // Close the PTY only when the terminal is closed or the session tab goes away, not when hidden
+    useEffect(() => {
+      return () => {
+        // Use refs which are always current, not stale closure values
+        window.electronAPI.pty.close(sessionIdRef.current, terminalId);
+        if (xtermRef.current) {
+          xtermRef.current.dispose();
+          xtermRef.current = null;
+        }
+        fitAddonRef.current = null;
+      };
+    }, [terminalId]);
+
+    const sendToAgent = useCallback(() => {
+      if (!xtermRef.current) return;
+
+      // Read directly from xterm's buffer - this gives us the rendered content
+      // without escape sequences or terminal artifacts
+      const buffer = xtermRef.current.buffer.active;
+      const lines: string[] = [];
+
+      // Read all lines from the buffer
+      for (let i = 0; i < buffer.length; i++) {
+        const line = buffer.getLine(i);
+        if (line) {
+          // translateToString(true) should trim right, but we'll also trim manually to be safe
+          const text = line.translateToString(true).trimEnd();
+          lines.push(text);
+        }
+      }
+
+      // Remove trailing empty lines
+      while (lines.length > 0 && lines[lines.length - 1] === '') {
+        lines.pop();
+      }
+
+      const output = lines.join('\n');
+      const lineCount = lines.length;
+
+      if (output.trim()) {
+        // Pass the last command start line so the modal can extract just that command's output
+        onSendToAgent(output, lineCount, lastCommandLineRef.current);
+      }
+    }, [onSendToAgent]);
+
+    const clear = useCallback(async () => {
+      const result = await window.electronAPI.pty.clearBuffer(sessionIdRef.current, terminalId);
+      if (result.success) {
+        setBufferLineCount(0);
+        // Also clear the terminal display
+        if (xtermRef.current) {
+          xtermRef.current.clear();
+        }
+      }
+    }, [terminalId]);
+
+    const restart = useCallback(async () => {
+      setIsConnected(false);
+      // Close existing PTY and wait
+      await window.electronAPI.pty.close(sessionIdRef.current, terminalId);
+      // Small delay to ensure cleanup
+      await new Promise((resolve) => setTimeout(resolve, 100));
+      // Clear terminal display
+      if (xtermRef.current) {
+        xtermRef.current.clear();
+      }
+      // Create new PTY
+      const result = await window.electronAPI.pty.create(
+        sessionIdRef.current,
+        cwd,
+        terminalId,
+        name
+      );
+      if (result.success) {
+        setIsConnected(true);
+        setBufferLineCount(0);
+        fitAndResize();
+      } else if (xtermRef.current) {
+        xtermRef.current.writeln(`\x1b[31mFailed to restart: ${result.error}\x1b[0m`);
+      }
+    }, [cwd, terminalId, name, fitAndResize]);
+
+    useImperativeHandle(ref, () => ({ sendToAgent, clear, restart }), [
+      sendToAgent,
+      clear,
+      restart,
+    ]);
+
+    return (
+      <div
+        ref={terminalRef}
+        onMouseDown={onFocus}
+        data-testid={`terminal-view-${terminalId}`}
+        className="overflow-hidden"
+        style={{ height: `${height}px`, backgroundColor: '#000' }}
+      />
+    );
+  }
+);
+
+TerminalView.displayName = 'TerminalView';
+
+export default TerminalView;
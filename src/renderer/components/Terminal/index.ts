@@ -1,2 +1,6 @@
 export { TerminalPanel } from './TerminalPanel';
+export { TerminalView } from './TerminalView';
+export type { TerminalViewHandle, TerminalViewStatus } from './TerminalView';
 export { TerminalOutputShrinkModal } from './TerminalOutputShrinkModal';
+export { CommandBlockList, formatCommandBlock } from './CommandBlockList';
+export type { TerminalCommandBlock } from './CommandBlockList';
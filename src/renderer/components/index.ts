@@ -1,5 +1,6 @@
 // Shared UI Components
 export * from './AccordionSelect';
+export * from './ApiServerPanel';
 export * from './Button';
 export * from './ChoiceSelector';
 export * from './CliSetupModal';
@@ -10,8 +11,11 @@ export * from './FilePreviewModal';
 export * from './SidebarDrawer';
 export * from './IconButton';
 export * from './Icons';
+export * from './IssueTrackersPanel';
+export * from './IssueWriteBackPanel';
 export * from './MicButton';
 export * from './Modal';
+export * from './PermissionAuditPanel';
 export * from './ReleaseNotesModal';
 export * from './SearchableBranchSelect';
 export * from './SessionHistory';
@@ -19,6 +23,8 @@ export * from './UpdateAvailableModal';
 export * from './WelcomeWizard';
 export * from './WindowControls';
 export * from './Terminal';
+export * from './BrowserViewport';
+export * from './BrowserProfilesPanel';
 export * from './SettingsModal';
 export * from './TitleBar';
 export * from './Spinner';
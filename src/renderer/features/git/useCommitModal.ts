@@ -273,6 +273,19 @@ export function useCommitModal(): UseCommitModalReturn {
           );
           if (prResult.success && prResult.prUrl) {
             window.open(prResult.prUrl, '_blank');
+            // The PR is opened in the browser; the source issue hears about it once it exists
+            if (activeTab.sourceIssue && prResult.branch) {
+              window.electronAPI.issueWriteBack
+                .notify({
+                  event: 'pull-request',
+                  issueUrl: activeTab.sourceIssue.url,
+                  cwd: activeTab.cwd,
+                  summary: commitMessage.trim() || undefined,
+                  branch: prResult.branch,
+                  targetBranch: prResult.targetBranch,
+                })
+                .catch((err) => console.error('Failed to watch for pull request:', err));
+            }
           } else if (!prResult.success) {
             setCommitError(prResult.error || 'Failed to create PR');
             setIsCommitting(false);
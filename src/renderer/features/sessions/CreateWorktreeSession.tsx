@@ -8,6 +8,7 @@ import {
   ChevronDownIcon,
   ChevronRightIcon,
 } from '../../components/Icons/Icons';
+import { detectIssueSource } from './issueBatchQueue';
 
 export interface IssueComment {
   body: string;
@@ -37,6 +38,7 @@ interface CreateWorktreeSessionProps {
       yoloMode?: boolean;
     }
   ) => void;
+  onOpenBatch?: () => void; // Start sessions for several issues at once instead
 }
 
 export const CreateWorktreeSession: React.FC<CreateWorktreeSessionProps> = ({
@@ -44,6 +46,7 @@ export const CreateWorktreeSession: React.FC<CreateWorktreeSessionProps> = ({
   onClose,
   repoPath,
   onSessionCreated,
+  onOpenBatch,
 }) => {
   const [branch, setBranch] = useState('');
   const [issueUrl, setIssueUrl] = useState('');
@@ -101,13 +104,10 @@ export const CreateWorktreeSession: React.FC<CreateWorktreeSessionProps> = ({
     try {
       const url = issueUrl.trim();
 
-      // Detect if this is a GitHub issue or Azure DevOps work item
-      const isGitHub = /github\.com\/[^/]+\/[^/]+\/issues\/\d+/.test(url);
-      const isAzureDevOps =
-        /dev\.azure\.com\/[^/]+\/[^/]+\/_workitems\/edit\/\d+/.test(url) ||
-        /[^.]+\.visualstudio\.com\/[^/]+\/_workitems\/edit\/\d+/.test(url);
+      // Detect which tracker the issue belongs to
+      const source = detectIssueSource(url);
 
-      if (isGitHub) {
+      if (source === 'github') {
         const result = await window.electronAPI.worktree.fetchGitHubIssue(url);
         if (result.success && result.issue && result.suggestedBranch) {
           setBranch(result.suggestedBranch);
@@ -117,7 +117,7 @@ export const CreateWorktreeSession: React.FC<CreateWorktreeSessionProps> = ({
         } else {
           setError(result.error || 'Failed to fetch GitHub issue');
         }
-      } else if (isAzureDevOps) {
+      } else if (source === 'azure-devops') {
         const result = await window.electronAPI.worktree.fetchAzureDevOpsWorkItem(url);
         if (result.success && result.workItem && result.suggestedBranch) {
           setBranch(result.suggestedBranch);
@@ -127,9 +127,21 @@ export const CreateWorktreeSession: React.FC<CreateWorktreeSessionProps> = ({
         } else {
           setError(result.error || 'Failed to fetch Azure DevOps work item');
         }
+      } else if (source === 'jira' || source === 'gitlab') {
+        const result = await window.electronAPI.worktree.fetchIssue(url);
+        if (result.success && result.issue && result.suggestedBranch) {
+          setBranch(result.suggestedBranch);
+          setIssueTitle(result.issue.title);
+          setIssueBody(result.issue.body);
+          setIssueComments(result.issue.comments);
+        } else {
+          setError(
+            result.error || `Failed to fetch ${source === 'jira' ? 'Jira' : 'GitLab'} issue`
+          );
+        }
       } else {
         setError(
-          'Unsupported URL format. Please use a GitHub issue URL or Azure DevOps work item URL'
+          'Unsupported URL format. Please use a GitHub, GitLab or Jira issue URL or an Azure DevOps work item URL'
         );
       }
     } catch (err) {
@@ -223,6 +235,18 @@ export const CreateWorktreeSession: React.FC<CreateWorktreeSessionProps> = ({
                 {showIssueSection ? <ChevronDownIcon size={14} /> : <ChevronRightIcon size={14} />}
                 Issue / Work Item (optional)
               </button>
+              {showIssueSection && onOpenBatch && (
+                <button
+                  type="button"
+                  onClick={() => {
+                    onClose();
+                    onOpenBatch();
+                  }}
+                  className="ml-5 text-xs text-copilot-accent hover:underline"
+                >
+                  Start sessions for several issues…
+                </button>
+              )}
               {showIssueSection && (
                 <>
                   <div className="flex gap-2 mt-1">
@@ -231,7 +255,7 @@ export const CreateWorktreeSession: React.FC<CreateWorktreeSessionProps> = ({
                       value={issueUrl}
                       onChange={(e) => setIssueUrl(e.target.value)}
                       onKeyDown={handleIssueKeyDown}
-                      placeholder="GitHub or Azure DevOps URL"
+                      placeholder="Jira, GitLab, GitHub or Azure DevOps URL"
                       className="flex-1 px-3 py-2 bg-copilot-bg border border-copilot-border rounded text-sm text-copilot-text placeholder:text-copilot-text-muted focus:outline-none focus:border-copilot-accent"
                       disabled={isCreating || isFetchingIssue}
                     />
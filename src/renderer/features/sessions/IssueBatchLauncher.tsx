@@ -0,0 +1,310 @@
+import React, { useEffect, useState } from 'react';
+import { Modal } from '../../components/Modal';
+import { Button } from '../../components/Button';
+import { Spinner } from '../../components/Spinner';
+import { RalphIcon, LisaIcon } from '../../components/Icons/Icons';
+import {
+  countByStatus,
+  parseIssueUrls,
+  type BatchAgentMode,
+  type BatchItemStatus,
+  type BatchLaunchOptions,
+  type BatchQueueItem,
+} from './issueBatchQueue';
+
+interface IssueBatchLauncherProps {
+  isOpen: boolean;
+  onClose: () => void;
+  repoPath: string;
+  items: BatchQueueItem[];
+  maxConcurrent: number;
+  onMaxConcurrentChange: (value: number) => void;
+  onQueue: (issueUrls: string[], options: BatchLaunchOptions) => void;
+  onOpenSession: (sessionId: string) => void;
+  onRetry: (itemId: string) => void;
+  onCancel: (itemId: string) => void;
+  onClearFinished: () => void;
+}
+
+const STATUS_STYLES: Record<BatchItemStatus, string> = {
+  queued: 'text-copilot-text-muted border-copilot-border',
+  starting: 'text-copilot-warning border-copilot-warning/50',
+  running: 'text-copilot-accent border-copilot-accent/50',
+  done: 'text-copilot-success border-copilot-success/50',
+  failed: 'text-copilot-error border-copilot-error/50',
+};
+
+const MODES: { mode: BatchAgentMode; label: string; hint: string }[] = [
+  { mode: 'plain', label: 'Plain', hint: 'One turn' },
+  { mode: 'ralph', label: 'Ralph', hint: 'Autonomous' },
+  { mode: 'lisa', label: 'Lisa', hint: 'Plan → Code → Review' },
+];
+
+const inputClass =
+  'px-2 py-1.5 bg-copilot-bg border border-copilot-border rounded text-sm text-copilot-text placeholder:text-copilot-text-muted focus:outline-none focus:border-copilot-accent';
+
+export const IssueBatchLauncher: React.FC<IssueBatchLauncherProps> = ({
+  isOpen,
+  onClose,
+  repoPath,
+  items,
+  maxConcurrent,
+  onMaxConcurrentChange,
+  onQueue,
+  onOpenSession,
+  onRetry,
+  onCancel,
+  onClearFinished,
+}) => {
+  const [urlText, setUrlText] = useState('');
+  const [label, setLabel] = useState('');
+  const [milestone, setMilestone] = useState('');
+  const [isSearching, setIsSearching] = useState(false);
+  const [searchError, setSearchError] = useState<string | null>(null);
+  const [mode, setMode] = useState<BatchAgentMode>('ralph');
+  const [ralphMaxIterations, setRalphMaxIterations] = useState(5);
+  const [yoloMode, setYoloMode] = useState(false);
+
+  useEffect(() => {
+    if (isOpen) {
+      setUrlText('');
+      setSearchError(null);
+    }
+  }, [isOpen]);
+
+  const { urls, invalid } = parseIssueUrls(urlText);
+  const counts = countByStatus(items);
+
+  const handleSearch = async () => {
+    setIsSearching(true);
+    setSearchError(null);
+    try {
+      const result = await window.electronAPI.worktree.listGitHubIssues(repoPath, {
+        label,
+        milestone,
+      });
+      if (!result.success || !result.issues) {
+        setSearchError(result.error || 'Failed to list issues');
+      } else if (result.issues.length === 0) {
+        setSearchError('No open issues match.');
+      } else {
+        const found = result.issues.map((issue) => issue.url);
+        setUrlText((prev) => parseIssueUrls(`${prev}\n${found.join('\n')}`).urls.join('\n'));
+      }
+    } catch (err) {
+      setSearchError(String(err));
+    } finally {
+      setIsSearching(false);
+    }
+  };
+
+  const handleQueue = () => {
+    if (urls.length === 0) return;
+    onQueue(urls, { mode, ralphMaxIterations, yoloMode });
+    setUrlText('');
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="Issue Batch" width="560px">
+      <Modal.Body>
+        <div className="mb-3">
+          <label className="block text-xs text-copilot-text-muted mb-1">Repository</label>
+          <div className="text-sm text-copilot-text font-mono truncate bg-copilot-bg px-2 py-1.5 rounded border border-copilot-border">
+            {repoPath}
+          </div>
+        </div>
+
+        <div className="mb-3">
+          <label htmlFor="issue-batch-urls" className="block text-xs text-copilot-text-muted mb-1">
+            Issue URLs (one per line)
+          </label>
+          <textarea
+            id="issue-batch-urls"
+            value={urlText}
+            onChange={(e) => setUrlText(e.target.value)}
+            rows={4}
+            placeholder="https://github.com/owner/repo/issues/123"
+            className={`w-full font-mono text-xs ${inputClass}`}
+          />
+          {invalid.length > 0 && (
+            <p className="text-xs text-copilot-error mt-1">
+              Not an issue URL: {invalid.slice(0, 3).join(', ')}
+              {invalid.length > 3 && ` and ${invalid.length - 3} more`}
+            </p>
+          )}
+          <div className="flex items-center gap-2 mt-2">
+            <input
+              value={label}
+              onChange={(e) => setLabel(e.target.value)}
+              placeholder="Label, e.g. bug"
+              aria-label="Label"
+              className={`flex-1 min-w-0 ${inputClass}`}
+            />
+            <input
+              value={milestone}
+              onChange={(e) => setMilestone(e.target.value)}
+              placeholder="Milestone"
+              aria-label="Milestone"
+              className={`flex-1 min-w-0 ${inputClass}`}
+            />
+            <Button
+              variant="secondary"
+              onClick={handleSearch}
+              disabled={isSearching || (!label.trim() && !milestone.trim())}
+            >
+              {isSearching ? <Spinner /> : 'Find issues'}
+            </Button>
+          </div>
+          {searchError && <p className="text-xs text-copilot-error mt-1">{searchError}</p>}
+        </div>
+
+        <div className="mb-3">
+          <div className="text-xs text-copilot-text-muted mb-1">Agent Mode</div>
+          <div className="grid grid-cols-3 gap-2">
+            {MODES.map((option) => (
+              <button
+                key={option.mode}
+                type="button"
+                onClick={() => setMode(option.mode)}
+                aria-pressed={mode === option.mode}
+                className={`flex items-center gap-2 px-3 py-2 rounded-lg border transition-all ${
+                  mode === option.mode
+                    ? 'bg-blue-500/20 border-blue-500/50 text-blue-400'
+                    : 'bg-copilot-bg border-copilot-border text-copilot-text-muted hover:border-copilot-border-hover'
+                }`}
+              >
+                {option.mode === 'ralph' && <RalphIcon size={18} />}
+                {option.mode === 'lisa' && <LisaIcon size={18} />}
+                <div className="text-left">
+                  <div className="text-sm font-medium">{option.label}</div>
+                  <div className="text-xs opacity-70">{option.hint}</div>
+                </div>
+              </button>
+            ))}
+          </div>
+          <div className="flex flex-wrap items-center gap-x-4 gap-y-2 mt-2 text-xs text-copilot-text-muted">
+            {mode === 'ralph' && (
+              <label className="flex items-center gap-2">
+                Max iterations:
+                <input
+                  type="number"
+                  value={ralphMaxIterations}
+                  onChange={(e) =>
+                    setRalphMaxIterations(Math.max(1, Math.min(100, parseInt(e.target.value) || 1)))
+                  }
+                  className="w-14 bg-copilot-bg border border-copilot-border rounded px-2 py-1 text-xs text-copilot-text"
+                  min={1}
+                  max={100}
+                />
+              </label>
+            )}
+            <label className="flex items-center gap-2">
+              Run at most
+              <input
+                type="number"
+                value={maxConcurrent}
+                onChange={(e) =>
+                  onMaxConcurrentChange(Math.max(1, Math.min(10, parseInt(e.target.value) || 1)))
+                }
+                aria-label="Sessions at once"
+                className="w-12 bg-copilot-bg border border-copilot-border rounded px-2 py-1 text-xs text-copilot-text"
+                min={1}
+                max={10}
+              />
+              at once
+            </label>
+            <label className="flex items-center gap-2 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={yoloMode}
+                onChange={(e) => setYoloMode(e.target.checked)}
+                className="w-4 h-4 accent-copilot-accent"
+              />
+              <span className="text-copilot-text">Yolo mode</span>— auto-approve all actions
+            </label>
+          </div>
+        </div>
+
+        {items.length > 0 && (
+          <div className="border-t border-copilot-border pt-3">
+            <div className="flex items-center gap-3 text-xs text-copilot-text-muted mb-2">
+              <span>
+                {counts.queued} queued · {counts.starting + counts.running} running · {counts.done}{' '}
+                done · {counts.failed} failed
+              </span>
+              {counts.done + counts.failed > 0 && (
+                <button onClick={onClearFinished} className="ml-auto hover:text-copilot-text">
+                  Clear finished
+                </button>
+              )}
+            </div>
+            <ul className="max-h-56 overflow-y-auto space-y-1" aria-label="Queued issues">
+              {items.map((item) => (
+                <li
+                  key={item.id}
+                  className="flex items-center gap-2 px-2 py-1.5 rounded bg-copilot-bg text-xs"
+                >
+                  <span
+                    className={`shrink-0 px-1.5 py-0.5 rounded border text-[10px] uppercase ${STATUS_STYLES[item.status]}`}
+                  >
+                    {item.status}
+                  </span>
+                  <div className="min-w-0 flex-1">
+                    <div className="truncate text-copilot-text" title={item.issueUrl}>
+                      {item.title || item.issueUrl}
+                    </div>
+                    {(item.error || item.branch) && (
+                      <div
+                        className={`truncate ${item.error ? 'text-copilot-error' : 'text-copilot-text-muted font-mono'}`}
+                        title={item.error || item.branch}
+                      >
+                        {item.error || item.branch}
+                      </div>
+                    )}
+                  </div>
+                  {item.sessionId && (
+                    <button
+                      onClick={() => onOpenSession(item.sessionId!)}
+                      className="shrink-0 text-copilot-accent hover:underline"
+                    >
+                      Open
+                    </button>
+                  )}
+                  {item.status === 'failed' && (
+                    <button
+                      onClick={() => onRetry(item.id)}
+                      className="shrink-0 text-copilot-text-muted hover:text-copilot-text"
+                    >
+                      Retry
+                    </button>
+                  )}
+                  {item.status === 'queued' && (
+                    <button
+                      onClick={() => onCancel(item.id)}
+                      className="shrink-0 text-copilot-text-muted hover:text-copilot-text"
+                      aria-label={`Remove ${item.issueUrl} from queue`}
+                    >
+                      ✕
+                    </button>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </Modal.Body>
+      <Modal.Body className="pt-0">
+        <Modal.Footer>
+          <Button variant="secondary" onClick={onClose}>
+            Close
+          </Button>
+          <Button variant="primary" onClick={handleQueue} disabled={urls.length === 0}>
+            {urls.length === 1 ? 'Queue 1 issue' : `Queue ${urls.length} issues`}
+          </Button>
+        </Modal.Footer>
+      </Modal.Body>
+    </Modal>
+  );
+};
+
+export default IssueBatchLauncher;
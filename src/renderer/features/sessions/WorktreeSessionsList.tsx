@@ -2,6 +2,21 @@ import React, { useState, useEffect } from 'react';
 import { Modal } from '../../components/Modal';
 import { Button } from '../../components/Button';
 import { Spinner } from '../../components/Spinner';
+import { formatBytes } from '../../utils/formatBytes';
+
+interface WorktreeUsage {
+  sizeBytes: number;
+  hasUncommittedChanges: boolean;
+  hasUnpushedCommits: boolean;
+  scannedAt: string;
+}
+
+interface WorktreeUsageReport {
+  freeBytes?: number;
+  thresholdMB: number;
+  lowDiskSpace: boolean;
+  scannedAt: string;
+}
 
 interface WorktreeSession {
   id: string;
@@ -11,6 +26,24 @@ interface WorktreeSession {
   createdAt: string;
   lastAccessedAt: string;
   status: 'active' | 'idle' | 'orphaned';
+  usage?: WorktreeUsage; // From the last disk usage scan
+}
+
+type SortBy = 'size' | 'age';
+
+/**
+ * Largest worktrees first, or the ones unused for longest first. Worktrees not measured yet go
+ * last when sorting by size.
+ */
+export function sortWorktreeSessions<T extends WorktreeSession>(
+  sessions: T[],
+  sortBy: SortBy
+): T[] {
+  return [...sessions].sort((a, b) =>
+    sortBy === 'size'
+      ? (b.usage?.sizeBytes ?? -1) - (a.usage?.sizeBytes ?? -1)
+      : new Date(a.lastAccessedAt).getTime() - new Date(b.lastAccessedAt).getTime()
+  );
 }
 
 interface WorktreeSessionsListProps {
@@ -32,19 +65,36 @@ export const WorktreeSessionsList: React.FC<WorktreeSessionsListProps> = ({
   const [error, setError] = useState<string | null>(null);
   const [actionInProgress, setActionInProgress] = useState<string | null>(null);
   const [successMessage, setSuccessMessage] = useState<string | null>(null);
+  const [teardownProgress, setTeardownProgress] = useState<string | null>(null);
   const [confirmRemove, setConfirmRemove] = useState<{
     sessionId: string;
     worktreePath: string;
     hasUncommitted: boolean;
     hasUnpushed: boolean;
   } | null>(null);
+  const [usageReport, setUsageReport] = useState<WorktreeUsageReport | null>(null);
+  const [isScanning, setIsScanning] = useState(false);
+  const [sortBy, setSortBy] = useState<SortBy>('size');
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [confirmBulkRemove, setConfirmBulkRemove] = useState<Array<{
+    session: WorktreeSession;
+    hasUncommitted: boolean;
+    hasUnpushed: boolean;
+  }> | null>(null);
 
   const loadSessions = async () => {
     setIsLoading(true);
     setError(null);
     try {
-      const result = await window.electronAPI.worktree.listSessions();
+      const [result, report] = await Promise.all([
+        window.electronAPI.worktree.listSessions(),
+        window.electronAPI.worktree.getUsage(),
+      ]);
       setSessions(result.sessions);
+      setUsageReport(report);
+      setSelected(
+        (prev) => new Set(result.sessions.filter((s) => prev.has(s.id)).map((s) => s.id))
+      );
     } catch (err) {
       setError(String(err));
     } finally {
@@ -57,20 +107,125 @@ export const WorktreeSessionsList: React.FC<WorktreeSessionsListProps> = ({
       loadSessions();
       setSuccessMessage(null);
       setConfirmRemove(null);
+      setConfirmBulkRemove(null);
+      setSelected(new Set());
     }
   }, [isOpen]);
 
+  // Removals wait for the repository's teardown commands, so show which one is running
+  useEffect(() => {
+    if (!isOpen) return;
+    return window.electronAPI.worktree.onTeardownProgress(({ sessionId, command }) => {
+      const branch = sessions.find((s) => s.id === sessionId)?.branch;
+      setTeardownProgress(`Running teardown${branch ? ` for ${branch}` : ''}: ${command}`);
+    });
+  }, [isOpen, sessions]);
+
+  const handleScan = async () => {
+    setIsScanning(true);
+    setError(null);
+    try {
+      await window.electronAPI.worktree.getUsage({ rescan: true });
+      await loadSessions();
+    } catch (err) {
+      setError(String(err));
+    } finally {
+      setIsScanning(false);
+    }
+  };
+
+  const toggleSelected = (sessionId: string) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(sessionId)) {
+        next.delete(sessionId);
+      } else {
+        next.add(sessionId);
+      }
+      return next;
+    });
+  };
+
+  const handleBulkRemove = async (toRemove: WorktreeSession[]) => {
+    setActionInProgress('bulk-remove');
+    setError(null);
+    try {
+      // The scan may be old, so check for uncommitted/unpushed changes again
+      const checked = [];
+      for (const session of toRemove) {
+        const status = await window.electronAPI.git.getWorkingStatus(session.worktreePath);
+        checked.push({
+          session,
+          hasUncommitted: status.hasUncommittedChanges,
+          hasUnpushed: status.hasUnpushedCommits,
+        });
+      }
+      setConfirmBulkRemove(checked);
+    } catch (err) {
+      setError(String(err));
+    } finally {
+      setActionInProgress(null);
+    }
+  };
+
+  const doBulkRemove = async (toRemove: WorktreeSession[]) => {
+    setConfirmBulkRemove(null);
+    setActionInProgress('bulk-remove');
+    setError(null);
+    const failed: string[] = [];
+    const warnings: string[] = [];
+    let freedBytes = 0;
+    let removed = 0;
+    try {
+      for (const session of toRemove) {
+        const result = await window.electronAPI.worktree.removeSession({
+          sessionId: session.id,
+          force: true,
+        });
+        warnings.push(...(result.warnings || []).map((warning) => `${session.branch}: ${warning}`));
+        if (result.success) {
+          removed++;
+          freedBytes += session.usage?.sizeBytes ?? 0;
+          onRemoveSession?.(session.worktreePath);
+        } else {
+          failed.push(`${session.branch}: ${result.error || 'Failed to remove session'}`);
+        }
+      }
+      setSelected(new Set());
+      await loadSessions();
+      if (removed > 0) {
+        setSuccessMessage(
+          `Removed ${removed} worktree${removed === 1 ? '' : 's'}${freedBytes > 0 ? `, freeing ${formatBytes(freedBytes)}` : ''}`
+        );
+      }
+      if (failed.length > 0 || warnings.length > 0) {
+        setError([...failed, ...warnings].join('\n'));
+      }
+    } catch (err) {
+      setError(String(err));
+    } finally {
+      setActionInProgress(null);
+      setTeardownProgress(null);
+    }
+  };
+
   const handlePrune = async () => {
     setIsPruning(true);
+    setError(null);
     try {
       const result = await window.electronAPI.worktree.pruneSessions();
       if (result.pruned.length > 0) {
         await loadSessions();
       }
+      const problems = [...result.errors.map((entry) => entry.error), ...result.warnings];
+      if (problems.length > 0) {
+        setError(problems.join('\n'));
+      }
     } catch (err) {
       setError(String(err));
     } finally {
       setIsPruning(false);
+      setTeardownProgress(null);
     }
   };
 
@@ -107,6 +262,9 @@ export const WorktreeSessionsList: React.FC<WorktreeSessionsListProps> = ({
         onRemoveSession?.(worktreePath);
         await loadSessions();
         setSuccessMessage('Worktree removed successfully');
+        if (result.warnings?.length) {
+          setError(result.warnings.join('\n'));
+        }
       } else {
         setError(result.error || 'Failed to remove session');
       }
@@ -115,6 +273,7 @@ export const WorktreeSessionsList: React.FC<WorktreeSessionsListProps> = ({
     } finally {
       setActionInProgress(null);
       setConfirmRemove(null);
+      setTeardownProgress(null);
     }
   };
 
@@ -145,16 +304,36 @@ export const WorktreeSessionsList: React.FC<WorktreeSessionsListProps> = ({
     }
   };
 
+  const sortedSessions = sortWorktreeSessions(sessions, sortBy);
+  const selectedSessions = sessions.filter((s) => selected.has(s.id));
+  const totalBytes = sessions.reduce((sum, s) => sum + (s.usage?.sizeBytes ?? 0), 0);
+
   return (
     <Modal isOpen={isOpen} onClose={onClose} title="Worktree Sessions" width="750px">
       <Modal.Body className="max-h-[400px] overflow-y-auto">
+        {usageReport?.lowDiskSpace && (
+          <div
+            role="alert"
+            className="text-copilot-warning text-sm mb-3 p-2 bg-copilot-warning/10 rounded"
+          >
+            Low disk space: {formatBytes(usageReport.freeBytes ?? 0)} free, below the{' '}
+            {formatBytes(usageReport.thresholdMB * 1024 * 1024)} warning threshold. Remove worktrees
+            you no longer need.
+          </div>
+        )}
         {successMessage && (
           <div className="text-copilot-success text-sm mb-3 p-2 bg-copilot-success/10 rounded">
             {successMessage}
           </div>
         )}
+        {teardownProgress && (
+          <div className="flex items-center gap-2 text-copilot-text-muted text-sm mb-3 p-2 bg-copilot-surface rounded">
+            <Spinner size="sm" />
+            {teardownProgress}
+          </div>
+        )}
         {error && (
-          <div className="text-copilot-error text-sm mb-3 p-2 bg-copilot-error/10 rounded">
+          <div className="text-copilot-error text-sm mb-3 p-2 bg-copilot-error/10 rounded whitespace-pre-line">
             {error}
             <button
               onClick={() => setError(null)}
@@ -176,12 +355,50 @@ export const WorktreeSessionsList: React.FC<WorktreeSessionsListProps> = ({
           </div>
         ) : (
           <div className="space-y-2">
-            {sessions.map((session) => (
+            <div className="flex items-center gap-2 text-xs text-copilot-text-muted">
+              <label className="flex items-center gap-2 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={selected.size > 0 && selected.size === sessions.length}
+                  onChange={(e) =>
+                    setSelected(e.target.checked ? new Set(sessions.map((s) => s.id)) : new Set())
+                  }
+                  className="w-3.5 h-3.5 accent-copilot-accent"
+                />
+                Select all
+              </label>
+              <div className="flex-1" />
+              Sort by
+              <div className="flex rounded border border-copilot-border overflow-hidden">
+                {(['size', 'age'] as const).map((option) => (
+                  <button
+                    key={option}
+                    onClick={() => setSortBy(option)}
+                    aria-pressed={sortBy === option}
+                    className={`px-2 py-0.5 ${
+                      sortBy === option
+                        ? 'bg-copilot-surface text-copilot-text'
+                        : 'hover:text-copilot-text'
+                    }`}
+                  >
+                    {option === 'size' ? 'Size' : 'Last used'}
+                  </button>
+                ))}
+              </div>
+            </div>
+            {sortedSessions.map((session) => (
               <div
                 key={session.id}
                 className="p-3 bg-copilot-bg rounded border border-copilot-border hover:border-copilot-border-hover transition-colors"
               >
-                <div className="flex items-center justify-between">
+                <div className="flex items-center justify-between gap-3">
+                  <input
+                    type="checkbox"
+                    checked={selected.has(session.id)}
+                    onChange={() => toggleSelected(session.id)}
+                    aria-label={`Select ${session.branch}`}
+                    className="w-3.5 h-3.5 accent-copilot-accent shrink-0"
+                  />
                   <div className="flex-1 min-w-0">
                     <div className="flex items-center gap-2">
                       <span className="font-mono text-sm text-copilot-accent truncate">
@@ -196,8 +413,18 @@ export const WorktreeSessionsList: React.FC<WorktreeSessionsListProps> = ({
                     </div>
                     <div className="flex gap-4 text-xs text-copilot-text-muted mt-1">
                       <span>Created: {formatDate(session.createdAt)}</span>
+                      <span>Last used: {formatDate(session.lastAccessedAt)}</span>
+                      {session.usage?.hasUncommittedChanges && (
+                        <span className="text-copilot-warning">Uncommitted changes</span>
+                      )}
+                      {session.usage?.hasUnpushedCommits && (
+                        <span className="text-copilot-warning">Unpushed commits</span>
+                      )}
                     </div>
                   </div>
+                  <span className="text-xs font-mono text-copilot-text-muted shrink-0">
+                    {session.usage ? formatBytes(session.usage.sizeBytes) : '—'}
+                  </span>
                 </div>
                 <div className="flex items-center gap-2 mt-2 pt-2 border-t border-copilot-border">
                   <Button
@@ -225,8 +452,39 @@ export const WorktreeSessionsList: React.FC<WorktreeSessionsListProps> = ({
         )}
       </Modal.Body>
       <Modal.Body className="pt-0">
-        <div className="flex items-center justify-between text-xs text-copilot-text-muted border-t border-copilot-border pt-3">
-          <span>Total: {sessions.length} sessions</span>
+        <div className="flex items-center gap-2 text-xs text-copilot-text-muted border-t border-copilot-border pt-3">
+          <span className="flex-1">
+            Total: {sessions.length} sessions
+            {usageReport && ` · ${formatBytes(totalBytes)}`}
+            {usageReport?.freeBytes !== undefined &&
+              ` · ${formatBytes(usageReport.freeBytes)} free`}
+          </span>
+          <Button
+            variant="secondary"
+            size="sm"
+            onClick={handleScan}
+            disabled={isScanning || !!actionInProgress}
+            title={
+              usageReport
+                ? `Last scanned ${formatDate(usageReport.scannedAt)}`
+                : 'Measure disk usage'
+            }
+          >
+            {isScanning ? 'Scanning...' : 'Scan Disk Usage'}
+          </Button>
+          {selectedSessions.length > 0 && (
+            <Button
+              variant="secondary"
+              size="sm"
+              onClick={() => handleBulkRemove(selectedSessions)}
+              disabled={!!actionInProgress}
+              className="text-copilot-error hover:text-copilot-error"
+            >
+              {actionInProgress === 'bulk-remove'
+                ? 'Removing...'
+                : `Remove Selected (${selectedSessions.length})`}
+            </Button>
+          )}
           <Button
             variant="secondary"
             size="sm"
@@ -272,6 +530,56 @@ export const WorktreeSessionsList: React.FC<WorktreeSessionsListProps> = ({
           </Modal.Footer>
         </Modal>
       )}
+
+      {/* Confirmation dialog for removing several worktrees */}
+      {confirmBulkRemove && (
+        <Modal
+          isOpen={true}
+          onClose={() => setConfirmBulkRemove(null)}
+          title="Confirm Removal"
+          width="400px"
+        >
+          <Modal.Body>
+            <p className="text-sm text-copilot-text mb-2">
+              Remove {confirmBulkRemove.length} worktree
+              {confirmBulkRemove.length === 1 ? '' : 's'}
+              {confirmBulkRemove.some(({ session }) => session.usage) &&
+                ` (${formatBytes(confirmBulkRemove.reduce((sum, { session }) => sum + (session.usage?.sizeBytes ?? 0), 0))})`}
+              ?
+            </p>
+            {confirmBulkRemove.some((c) => c.hasUncommitted || c.hasUnpushed) && (
+              <ul className="list-disc list-inside text-sm text-copilot-warning mb-2">
+                {confirmBulkRemove
+                  .filter((c) => c.hasUncommitted || c.hasUnpushed)
+                  .map((c) => (
+                    <li key={c.session.id}>
+                      {c.session.branch} has{' '}
+                      {[
+                        c.hasUncommitted && 'uncommitted changes',
+                        c.hasUnpushed && 'unpushed commits',
+                      ]
+                        .filter(Boolean)
+                        .join(' and ')}
+                    </li>
+                  ))}
+              </ul>
+            )}
+            <p className="text-sm text-copilot-text-muted">All changes in them will be lost.</p>
+          </Modal.Body>
+          <Modal.Footer>
+            <Button variant="ghost" onClick={() => setConfirmBulkRemove(null)}>
+              Cancel
+            </Button>
+            <Button
+              variant="primary"
+              onClick={() => doBulkRemove(confirmBulkRemove.map((c) => c.session))}
+              className="bg-copilot-error hover:bg-copilot-error/80"
+            >
+              Remove Worktrees
+            </Button>
+          </Modal.Footer>
+        </Modal>
+      )}
     </Modal>
   );
 };
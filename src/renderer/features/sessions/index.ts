@@ -1,3 +1,13 @@
 export { enrichSessionsWithWorktreeData } from './enrichSessionsWithWorktreeData';
 export { WorktreeSessionsList } from './WorktreeSessionsList';
 export { CreateWorktreeSession, type IssueInfo } from './CreateWorktreeSession';
+export { IssueBatchLauncher } from './IssueBatchLauncher';
+export {
+  DEFAULT_BATCH_CONCURRENCY,
+  countByStatus,
+  detectIssueSource,
+  isSessionIdle,
+  itemsToStart,
+  type BatchLaunchOptions,
+  type BatchQueueItem,
+} from './issueBatchQueue';
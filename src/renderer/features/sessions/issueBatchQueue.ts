@@ -0,0 +1,106 @@
+/**
+ * Issue batch queue
+ *
+ * State helpers for launching one worktree session per issue. Items start in the order they were
+ * queued, with at most `maxConcurrent` sessions starting or working at once.
+ */
+
+export type IssueSource = 'github' | 'azure-devops' | 'jira' | 'gitlab';
+
+export type BatchAgentMode = 'plain' | 'ralph' | 'lisa';
+
+export type BatchItemStatus = 'queued' | 'starting' | 'running' | 'done' | 'failed';
+
+export interface BatchLaunchOptions {
+  mode: BatchAgentMode;
+  ralphMaxIterations: number;
+  yoloMode: boolean;
+}
+
+export interface BatchQueueItem {
+  id: string;
+  issueUrl: string;
+  repoPath: string;
+  options: BatchLaunchOptions;
+  status: BatchItemStatus;
+  title?: string;
+  branch?: string;
+  sessionId?: string; // Copilot session of the worktree tab once started
+  error?: string;
+  finishedAt?: number;
+}
+
+export const DEFAULT_BATCH_CONCURRENCY = 3;
+
+const GITHUB_ISSUE_URL = /github\.com\/[^/]+\/[^/]+\/issues\/\d+/;
+const AZURE_DEVOPS_WORK_ITEM_URLS = [
+  /dev\.azure\.com\/[^/]+\/[^/]+\/_workitems\/edit\/\d+/,
+  /[^.]+\.visualstudio\.com\/[^/]+\/_workitems\/edit\/\d+/,
+];
+const GITLAB_ISSUE_URL = /^(?:https?:\/\/)?[^/\s]+\/.+\/-\/issues\/\d+\/?$/;
+const JIRA_ISSUE_URLS = [
+  /^(?:https?:\/\/)?[^/\s]+(?:\/[^\s?#]*)?\/browse\/[A-Z][A-Z0-9_]+-\d+\/?$/,
+  /^(?:https?:\/\/)?[^/\s]+\.atlassian\.net\/\S*[?&]selectedIssue=[A-Z][A-Z0-9_]+-\d+/,
+];
+
+export function detectIssueSource(url: string): IssueSource | null {
+  if (GITHUB_ISSUE_URL.test(url)) return 'github';
+  if (AZURE_DEVOPS_WORK_ITEM_URLS.some((pattern) => pattern.test(url))) return 'azure-devops';
+  if (GITLAB_ISSUE_URL.test(url)) return 'gitlab';
+  if (JIRA_ISSUE_URLS.some((pattern) => pattern.test(url))) return 'jira';
+  return null;
+}
+
+/**
+ * Split pasted text into issue URLs (one per line, or separated by spaces or commas), dropping
+ * duplicates. Anything that isn't a GitHub, GitLab or Jira issue or Azure DevOps work item URL
+ * is returned in `invalid`.
+ */
+export function parseIssueUrls(text: string): { urls: string[]; invalid: string[] } {
+  const urls: string[] = [];
+  const invalid: string[] = [];
+  for (const entry of text.split(/[\s,]+/)) {
+    const url = entry.trim();
+    if (!url) continue;
+    if (!detectIssueSource(url)) {
+      invalid.push(url);
+    } else if (!urls.includes(url)) {
+      urls.push(url);
+    }
+  }
+  return { urls, invalid };
+}
+
+export const isActiveItem = (item: BatchQueueItem): boolean =>
+  item.status === 'starting' || item.status === 'running';
+
+/**
+ * Queued items that can start now without going over the concurrency limit
+ */
+export function itemsToStart(items: BatchQueueItem[], maxConcurrent: number): BatchQueueItem[] {
+  const free = Math.max(0, maxConcurrent - items.filter(isActiveItem).length);
+  return items.filter((item) => item.status === 'queued').slice(0, free);
+}
+
+export function countByStatus(items: BatchQueueItem[]): Record<BatchItemStatus, number> {
+  const counts: Record<BatchItemStatus, number> = {
+    queued: 0,
+    starting: 0,
+    running: 0,
+    done: 0,
+    failed: 0,
+  };
+  for (const item of items) counts[item.status]++;
+  return counts;
+}
+
+/**
+ * Whether a session's agent has finished: no turn in progress and no Ralph or Lisa loop left
+ */
+export function isSessionIdle(tab: {
+  isProcessing: boolean;
+  ralphConfig?: { active: boolean };
+  lisaConfig?: { active: boolean };
+}): boolean {
+  return !tab.isProcessing && !tab.ralphConfig?.active && !tab.lisaConfig?.active;
+}
@@ -0,0 +1,19 @@
+// Local API server types
+
+export interface ApiServerConfig {
+  enabled: boolean;
+  transport: 'socket' | 'tcp'; // Unix socket / named pipe, or 127.0.0.1:<port>
+  port: number;
+}
+
+export interface ApiServerState {
+  config: ApiServerConfig;
+  token: string;
+  status: {
+    running: boolean;
+    transport?: 'socket' | 'tcp';
+    address?: string;
+    discoveryFile?: string; // JSON file with the address and token, for scripts
+    error?: string;
+  };
+}
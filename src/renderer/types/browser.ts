@@ -0,0 +1,58 @@
+// Browser viewport and profile types
+
+export interface BrowserViewportState {
+  sessionId: string;
+  hasPage: boolean; // Whether the agent has a page open for this session
+  url: string;
+  title: string;
+  lastAction?: { description: string; at: string }; // Last browser tool the agent ran
+  userInControl: boolean; // While true, the agent's browser tools refuse to act
+}
+
+export type BrowserViewportInput =
+  | { type: 'click'; x: number; y: number; button?: 'left' | 'right' | 'middle' }
+  | { type: 'scroll'; deltaX: number; deltaY: number }
+  | { type: 'key'; key: string } // Playwright key name, e.g. "Enter" or "Control+a"
+  | { type: 'text'; text: string };
+
+export interface BrowserRecordingStatus {
+  recording: boolean;
+  stepCount: number; // Recorded steps, kept after recording stops until saved or restarted
+  startedAt?: string;
+}
+
+export interface VisualComparison {
+  baselineId: string;
+  name: string;
+  url: string; // Page the compared screenshot was taken of
+  comparedAt: string; // ISO timestamp
+  diffPixels: number;
+  totalPixels: number;
+  mismatchPercent: number;
+  maxMismatchPercent: number;
+  passed: boolean;
+  sizeMismatch?: {
+    baseline: { width: number; height: number };
+    actual: { width: number; height: number };
+  };
+}
+
+export interface VisualBaselineEntry {
+  id: string; // File name stem under .copilot/visual-baselines/
+  name: string;
+  url: string;
+  viewport: { width: number; height: number };
+  fullPage: boolean;
+  createdAt: string;
+  updatedAt: string;
+  lastComparison?: VisualComparison;
+}
+
+export interface BrowserProfileInfo {
+  name: string;
+  ephemeral: boolean; // Incognito: nothing is saved between pages
+  cookieCount: number;
+  originCount: number;
+  domainCount: number;
+  sessionIds: string[]; // Sessions that selected this profile
+}
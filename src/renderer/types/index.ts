@@ -7,6 +7,7 @@ export type {
   ImageAttachment,
   FileAttachment,
   PendingConfirmation,
+  DeletePreview,
   TabState,
   DraftInput,
   PreviousSession,
@@ -42,3 +43,27 @@ export type { Skill, SkillsResult } from './skills';
 export type { Instruction, InstructionsResult } from './instructions';
 
 export type { Agent, AgentsResult } from './agents';
+
+export type { PermissionAuditRecord } from './permissions';
+
+export type { ApiServerConfig, ApiServerState } from './apiServer';
+
+export type {
+  IssueTrackerSettingsView,
+  IssueTrackerSettingsUpdate,
+  IssueWriteBackConfig,
+} from './issueTrackers';
+
+export type { TranscriptFormat } from './transcript';
+export { TRANSCRIPT_FORMATS } from './transcript';
+
+export type { SessionSearchFilters, SessionSearchHit, SessionSearchResult } from './sessionSearch';
+
+export type {
+  BrowserViewportState,
+  BrowserViewportInput,
+  BrowserProfileInfo,
+  BrowserRecordingStatus,
+  VisualBaselineEntry,
+  VisualComparison,
+} from './browser';
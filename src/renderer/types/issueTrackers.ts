@@ -0,0 +1,21 @@
+// Issue tracker settings types (tokens are write-only from the renderer)
+
+export interface IssueTrackerSettingsView {
+  jira: { baseUrl: string; email: string; hasToken: boolean };
+  gitlab: { baseUrl: string; hasToken: boolean };
+}
+
+// Omit a token to keep the saved one; an empty string removes it
+export interface IssueTrackerSettingsUpdate {
+  jira?: { baseUrl?: string; email?: string; token?: string };
+  gitlab?: { baseUrl?: string; token?: string };
+}
+
+// Comments posted back to a session's GitHub issue or Azure DevOps work item
+export interface IssueWriteBackConfig {
+  enabled: boolean;
+  onLoopComplete: boolean; // When a Ralph/Lisa loop finishes
+  onPullRequest: boolean; // When a PR is opened for the session's branch
+  githubLabel: string; // Added to GitHub issues when a PR is opened
+  workItemState: string; // Azure DevOps state to move work items to when a PR is opened
+}
@@ -0,0 +1,12 @@
+// Permission audit types
+
+export interface PermissionAuditRecord {
+  timestamp: string; // ISO timestamp
+  sessionId: string;
+  kind: string;
+  executable: string;
+  commandText?: string; // Full command text, path, URL or MCP server/tool
+  decision: 'approved' | 'denied';
+  rule: string; // What decided: yolo-mode, policy:<source>, global-safe-commands, user:<choice>, ...
+  detail?: string;
+}
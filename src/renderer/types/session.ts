@@ -13,6 +13,8 @@ export interface Message {
   fileAttachments?: FileAttachment[]; // Files attached to this message
   tools?: ActiveTool[]; // Tools executed during this message turn (for assistant messages)
   subagents?: ActiveSubagent[]; // Subagents invoked during this message turn (for assistant messages)
+  turnSnapshotId?: string; // Pre-turn file snapshot for "revert this turn" (for assistant messages)
+  turnReverted?: boolean; // True once the turn's file changes were rolled back
 }
 
 export interface ActiveTool {
@@ -70,6 +72,16 @@ export interface FileAttachment {
   mimeType: string;
 }
 
+// Filesystem-resolved preview of what a destructive command would delete
+export interface DeletePreview {
+  files: string[]; // Resolved paths, capped for display
+  totalFiles: number;
+  totalBytes: number;
+  truncated: boolean;
+  unmatched: string[]; // Targets that matched nothing on disk
+  dirtyTrackedFiles: string[]; // Git-tracked files with uncommitted changes
+}
+
 export interface PendingConfirmation {
   requestId: string;
   sessionId: string;
@@ -88,6 +100,15 @@ export interface PendingConfirmation {
   content?: string; // File content for write/create operations
   isDestructive?: boolean; // True if command is destructive (rm, shred, etc.)
   filesToDelete?: string[]; // Files that will be deleted by destructive commands
+  deletePreview?: DeletePreview; // Resolved file list for destructive commands
+  policyReason?: string; // Reason from a matching permission policy "ask" rule
+  writePath?: string; // Resolved target path of write requests
+  writeScope?: string; // Folder offered for "allow writes under this folder"
+  isSensitiveWrite?: boolean; // True if writing to .git/, .env* or ~/.ssh (always prompts)
+  isOutsideWorkspace?: boolean; // True if writing outside the session's cwd
+  terminalName?: string; // Terminal tab a terminal tool wants to use
+  access?: 'read' | 'input'; // What a terminal tool does with the terminal
+  input?: string; // Text terminal_send_input will type
   [key: string]: unknown;
 }
 
@@ -99,6 +120,7 @@ export interface PreviousSession {
   cwd?: string; // Original working directory for this session
   markedForReview?: boolean; // Whether session was marked for follow-up
   reviewNote?: string; // Optional user note
+  parentSessionId?: string; // Session this one was forked from
   // Worktree-specific properties (optional, present if session is a worktree)
   worktree?: {
     id: string; // Worktree session ID (e.g., "repo--branch")
@@ -194,10 +216,11 @@ export interface DraftInput {
 
 // Source issue information (when session was created from a GitHub issue)
 export interface SourceIssue {
-  url: string; // Full GitHub issue URL
-  number: number; // Issue number (extracted from URL)
-  owner: string; // Repository owner
-  repo: string; // Repository name
+  url: string; // Full GitHub issue or Azure DevOps work item URL
+  number: number; // Issue number or work item ID (extracted from URL)
+  owner: string; // Repository owner (Azure DevOps: organization)
+  repo: string; // Repository name (Azure DevOps: project)
+  provider?: 'github' | 'azure-devops'; // Missing on sessions saved before work items were tracked
 }
 
 // Tab/Session state
@@ -232,5 +255,6 @@ export interface TabState {
   markedForReview?: boolean; // Whether session is marked for follow-up review
   reviewNote?: string; // Optional user note displayed at bottom of conversation
   yoloMode?: boolean; // Auto-approve all permission requests without prompting
-  sourceIssue?: SourceIssue; // GitHub issue this session was created from (for PR linking)
+  sourceIssue?: SourceIssue; // Issue this session was created from (for PR linking and write-back)
+  parentSessionId?: string; // Session this one was forked from
 }
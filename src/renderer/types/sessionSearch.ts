@@ -0,0 +1,23 @@
+// Full-text session search types
+
+export interface SessionSearchFilters {
+  cwd?: string; // Sessions in this directory or below it
+  model?: string;
+  since?: string; // ISO timestamp
+}
+
+export interface SessionSearchHit {
+  kind: 'user' | 'assistant' | 'tool';
+  messageIndex: number; // Index in the session's loaded message list
+  toolName?: string;
+  snippet: string;
+}
+
+export interface SessionSearchResult {
+  sessionId: string;
+  modifiedTime: string;
+  cwd?: string;
+  model?: string;
+  hits: SessionSearchHit[];
+  totalHits: number;
+}
@@ -0,0 +1,9 @@
+// Transcript export types
+
+export type TranscriptFormat = 'markdown' | 'html' | 'json';
+
+export const TRANSCRIPT_FORMATS: { format: TranscriptFormat; label: string }[] = [
+  { format: 'markdown', label: 'Markdown (.md)' },
+  { format: 'html', label: 'HTML (.html)' },
+  { format: 'json', label: 'JSON (.json)' },
+];
@@ -0,0 +1,27 @@
+import { describe, it, expect } from 'vitest';
+import { parseAzureDevOpsWorkItemUrl } from './parseAzureDevOpsWorkItemUrl';
+
+describe('parseAzureDevOpsWorkItemUrl', () => {
+  it('should parse dev.azure.com work item URLs', () => {
+    expect(
+      parseAzureDevOpsWorkItemUrl('https://dev.azure.com/contoso/Web/_workitems/edit/42')
+    ).toEqual({
+      url: 'https://dev.azure.com/contoso/Web/_workitems/edit/42',
+      owner: 'contoso',
+      repo: 'Web',
+      number: 42,
+      provider: 'azure-devops',
+    });
+  });
+
+  it('should parse visualstudio.com work item URLs', () => {
+    expect(
+      parseAzureDevOpsWorkItemUrl('https://contoso.visualstudio.com/Web/_workitems/edit/7')
+    ).toMatchObject({ owner: 'contoso', repo: 'Web', number: 7 });
+  });
+
+  it('should return null for other URLs', () => {
+    expect(parseAzureDevOpsWorkItemUrl('https://github.com/owner/repo/issues/1')).toBeNull();
+    expect(parseAzureDevOpsWorkItemUrl('https://dev.azure.com/contoso/Web/_boards')).toBeNull();
+  });
+});
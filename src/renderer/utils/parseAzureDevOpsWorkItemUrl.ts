@@ -0,0 +1,20 @@
+import { SourceIssue } from '../types';
+
+/**
+ * Parse an Azure DevOps work item URL (dev.azure.com or visualstudio.com) into a source issue,
+ * with the organization as owner and the project as repo.
+ * Returns null if the URL is not a valid work item URL.
+ */
+export function parseAzureDevOpsWorkItemUrl(url: string): SourceIssue | null {
+  const match =
+    url.match(/(?:https?:\/\/)?dev\.azure\.com\/([^/]+)\/([^/]+)\/_workitems\/edit\/(\d+)/) ||
+    url.match(/(?:https?:\/\/)?([^./]+)\.visualstudio\.com\/([^/]+)\/_workitems\/edit\/(\d+)/);
+  if (!match) return null;
+  return {
+    url,
+    owner: match[1],
+    repo: match[2],
+    number: parseInt(match[3], 10),
+    provider: 'azure-devops',
+  };
+}
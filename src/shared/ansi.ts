@@ -0,0 +1,66 @@
+/**
+ * Terminal output helpers shared by the main process and the renderer
+ */
+
+/**
+ * Strip ANSI escape sequences and terminal control codes from output.
+ * Removes:
+ * - CSI sequences: ESC [ ... (cursor movement, colors, etc.)
+ * - OSC sequences: ESC ] ... ST (window title, working directory, etc.)
+ * - DEC private modes: ESC [ ? ... h/l
+ * - Other escape sequences
+ * Also cleans up formatting artifacts from terminal rendering.
+ */
+export function stripAnsiCodes(output: string): string {
+  let result = output;
+
+  // Remove OSC sequences: ESC ] ... (terminated by BEL \x07 or ST \x1b\\)
+  // These set window title, icon, working directory, etc.
+  result = result.replace(/\x1b\][^\x07\x1b]*(?:\x07|\x1b\\)?/g, '');
+  // Also handle bare ] sequences without ESC (sometimes terminals emit these)
+  result = result.replace(/\](?:\d+;[^\x07\n]*\x07?|\d+;[^\n]*)/g, '');
+
+  // Remove CSI sequences: ESC [ ... ending with a letter
+  // Includes colors, cursor movement, DEC private modes, etc.
+  result = result.replace(/\x1b\[[0-9;?]*[A-Za-z]/g, '');
+  // Also handle bare [ sequences (xterm-style without ESC prefix in some contexts)
+  result = result.replace(/\[\?[0-9]+[hl](?:=)?/g, '');
+
+  // Remove any remaining ESC sequences
+  result = result.replace(/\x1b[^[\]]/g, '');
+
+  // Remove carriage returns (often used with progress bars)
+  result = result.replace(/\r(?!\n)/g, '');
+
+  // Process lines for better formatting
+  result = result
+    .split('\n')
+    .map((line) => {
+      // Trim trailing whitespace from each line
+      line = line.trimEnd();
+
+      // If line is only whitespace now, make it empty
+      if (/^\s*$/.test(line)) return '';
+
+      // Only collapse very long runs of spaces (20+) which are cursor positioning artifacts
+      // Preserve normal spacing for column alignment (like ls -la output)
+      line = line.replace(/ {20,}/g, '  ');
+
+      // Trim leading whitespace if the line starts with excessive spaces (>20)
+      // This handles prompts that were positioned with cursor movement
+      if (/^ {20,}/.test(line)) {
+        line = line.trimStart();
+      }
+
+      return line;
+    })
+    .join('\n');
+
+  // Collapse multiple consecutive empty lines into one
+  result = result.replace(/\n{3,}/g, '\n\n');
+
+  // Trim leading/trailing whitespace
+  result = result.trim();
+
+  return result;
+}
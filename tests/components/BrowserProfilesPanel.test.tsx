@@ -0,0 +1,81 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent, waitFor, within } from '@testing-library/react';
+import React from 'react';
+import { BrowserProfilesPanel } from '../../src/renderer/components/BrowserProfilesPanel/BrowserProfilesPanel';
+import { BrowserProfileInfo } from '../../src/renderer/types';
+
+const profile = (
+  name: string,
+  overrides: Partial<BrowserProfileInfo> = {}
+): BrowserProfileInfo => ({
+  name,
+  ephemeral: false,
+  cookieCount: 0,
+  originCount: 0,
+  domainCount: 0,
+  sessionIds: [],
+  ...overrides,
+});
+
+describe('BrowserProfilesPanel', () => {
+  let browser: Record<string, ReturnType<typeof vi.fn>>;
+
+  beforeEach(() => {
+    const profiles = [
+      profile('default', { cookieCount: 12, domainCount: 3, originCount: 2 }),
+      profile('admin', { cookieCount: 1, domainCount: 1, sessionIds: ['session-1'] }),
+      profile('incognito', { ephemeral: true }),
+    ];
+    browser = {
+      listProfiles: vi.fn().mockResolvedValue({ profiles }),
+      createProfile: vi.fn().mockResolvedValue({
+        success: true,
+        profiles: [...profiles, profile('qa-user')],
+      }),
+      clearProfile: vi.fn().mockResolvedValue({
+        success: true,
+        profiles: [profile('default'), ...profiles.slice(1)],
+      }),
+      deleteProfile: vi.fn().mockResolvedValue({ success: false, error: 'Profile in use' }),
+    };
+    (window.electronAPI as unknown as Record<string, unknown>).browser = browser;
+  });
+
+  it('lists profiles with what they store and who uses them', async () => {
+    render(<BrowserProfilesPanel sessionLabels={{ 'session-1': 'Admin checks' }} />);
+
+    const defaultRow = await screen.findByTestId('browser-profile-default');
+    expect(defaultRow).toHaveTextContent('12 cookies from 3 domains, 2 origins with storage');
+    expect(within(defaultRow).queryByText('Delete')).not.toBeInTheDocument();
+
+    const adminRow = screen.getByTestId('browser-profile-admin');
+    expect(adminRow).toHaveTextContent('1 cookie from 1 domain, 0 origins with storage');
+    expect(adminRow).toHaveTextContent('Used by Admin checks');
+
+    expect(screen.getByTestId('browser-profile-incognito')).toHaveTextContent('nothing is saved');
+  });
+
+  it('clears and creates profiles', async () => {
+    render(<BrowserProfilesPanel />);
+    const defaultRow = await screen.findByTestId('browser-profile-default');
+
+    fireEvent.click(within(defaultRow).getByText('Clear'));
+    await waitFor(() => expect(browser.clearProfile).toHaveBeenCalledWith('default'));
+    await waitFor(() =>
+      expect(screen.getByTestId('browser-profile-default')).toHaveTextContent('0 cookies')
+    );
+
+    fireEvent.change(screen.getByLabelText('New profile name'), { target: { value: 'qa-user' } });
+    fireEvent.click(screen.getByText('Add Profile'));
+    expect(await screen.findByTestId('browser-profile-qa-user')).toBeInTheDocument();
+    expect(browser.createProfile).toHaveBeenCalledWith('qa-user');
+  });
+
+  it('shows why an action failed', async () => {
+    render(<BrowserProfilesPanel />);
+    const adminRow = await screen.findByTestId('browser-profile-admin');
+
+    fireEvent.click(within(adminRow).getByText('Delete'));
+    expect(await screen.findByText('Profile in use')).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,193 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent, waitFor, act } from '@testing-library/react';
+import React from 'react';
+import {
+  BrowserViewportPanel,
+  toViewportKeyInput,
+} from '../../src/renderer/components/BrowserViewport/BrowserViewportPanel';
+import { BrowserViewportState } from '../../src/renderer/types';
+
+const pageState = (overrides: Partial<BrowserViewportState> = {}): BrowserViewportState => ({
+  sessionId: 'session-1',
+  hasPage: true,
+  url: 'https://example.com/login',
+  title: 'Login',
+  userInControl: false,
+  ...overrides,
+});
+
+describe('BrowserViewportPanel', () => {
+  let emitFrame: (frame: {
+    sessionId: string;
+    data: string;
+    width: number;
+    height: number;
+  }) => void;
+  let emitState: (state: BrowserViewportState) => void;
+  let browser: Record<string, ReturnType<typeof vi.fn>>;
+
+  beforeEach(() => {
+    browser = {
+      startViewport: vi.fn().mockResolvedValue(pageState()),
+      stopViewport: vi.fn().mockResolvedValue({ success: true }),
+      setUserControl: vi
+        .fn()
+        .mockImplementation((_id: string, inControl: boolean) =>
+          Promise.resolve(pageState({ userInControl: inControl }))
+        ),
+      sendInput: vi.fn().mockResolvedValue({ success: true }),
+      listProfiles: vi.fn().mockResolvedValue({
+        profiles: [
+          {
+            name: 'default',
+            ephemeral: false,
+            cookieCount: 3,
+            originCount: 1,
+            domainCount: 1,
+            sessionIds: [],
+          },
+          {
+            name: 'admin',
+            ephemeral: false,
+            cookieCount: 2,
+            originCount: 0,
+            domainCount: 1,
+            sessionIds: [],
+          },
+        ],
+      }),
+      getSessionProfile: vi.fn().mockResolvedValue({ profile: 'default' }),
+      setSessionProfile: vi.fn().mockResolvedValue({ success: true }),
+      getRecording: vi.fn().mockResolvedValue({ recording: false, stepCount: 0 }),
+      startRecording: vi.fn().mockResolvedValue({ recording: true, stepCount: 1 }),
+      stopRecording: vi.fn().mockResolvedValue({ recording: false, stepCount: 3 }),
+      saveRecording: vi.fn().mockResolvedValue({
+        success: true,
+        specPath: '/repo/tests/e2e/login.spec.ts',
+        tracePath: '/repo/tests/e2e/login.trace.json',
+        stepCount: 3,
+      }),
+      onViewportFrame: vi.fn().mockImplementation((cb) => {
+        emitFrame = cb;
+        return () => {};
+      }),
+      onViewportState: vi.fn().mockImplementation((cb) => {
+        emitState = cb;
+        return () => {};
+      }),
+    };
+    (window.electronAPI as unknown as Record<string, unknown>).browser = browser;
+  });
+
+  it('streams the page and shows the URL and last agent action', async () => {
+    render(<BrowserViewportPanel sessionId="session-1" isOpen onClose={vi.fn()} />);
+
+    expect(browser.startViewport).toHaveBeenCalledWith('session-1');
+    expect(await screen.findByTestId('browser-viewport-url')).toHaveTextContent(
+      'https://example.com/login'
+    );
+
+    act(() =>
+      emitState(
+        pageState({ lastAction: { description: 'Click "#submit"', at: new Date().toISOString() } })
+      )
+    );
+    act(() =>
+      emitFrame({ sessionId: 'other-session', data: 'b3RoZXI=', width: 1280, height: 800 })
+    );
+    expect(screen.queryByTestId('browser-viewport-frame')).not.toBeInTheDocument();
+
+    act(() => emitFrame({ sessionId: 'session-1', data: 'aW1hZ2U=', width: 1280, height: 800 }));
+    expect(await screen.findByTestId('browser-viewport-frame')).toHaveAttribute(
+      'src',
+      'data:image/jpeg;base64,aW1hZ2U='
+    );
+    expect(screen.getByText('· Click "#submit"')).toBeInTheDocument();
+  });
+
+  it('forwards clicks in page coordinates only after taking control', async () => {
+    render(<BrowserViewportPanel sessionId="session-1" isOpen onClose={vi.fn()} />);
+    await screen.findByText('https://example.com/login');
+    act(() => emitFrame({ sessionId: 'session-1', data: 'aW1hZ2U=', width: 1280, height: 800 }));
+
+    const frame = await screen.findByTestId('browser-viewport-frame');
+    frame.getBoundingClientRect = () => ({ left: 0, top: 0, width: 640, height: 400 }) as DOMRect;
+
+    fireEvent.mouseDown(frame, { clientX: 100, clientY: 50 });
+    expect(browser.sendInput).not.toHaveBeenCalled();
+
+    fireEvent.click(screen.getByText('Take control'));
+    await screen.findByText('Hand back to agent');
+    expect(browser.setUserControl).toHaveBeenCalledWith('session-1', true);
+
+    fireEvent.mouseDown(frame, { clientX: 100, clientY: 50 });
+    expect(browser.sendInput).toHaveBeenCalledWith('session-1', {
+      type: 'click',
+      x: 200,
+      y: 100,
+      button: 'left',
+    });
+
+    fireEvent.click(screen.getByText('Hand back to agent'));
+    await waitFor(() =>
+      expect(browser.setUserControl).toHaveBeenLastCalledWith('session-1', false)
+    );
+  });
+
+  it("switches the session's browser profile", async () => {
+    render(<BrowserViewportPanel sessionId="session-1" isOpen onClose={vi.fn()} />);
+    const select = await screen.findByLabelText('Browser profile');
+    await screen.findByRole('option', { name: 'admin' });
+
+    fireEvent.change(select, { target: { value: 'admin' } });
+    await waitFor(() => expect(select).toHaveValue('admin'));
+    expect(browser.setSessionProfile).toHaveBeenCalledWith('session-1', 'admin');
+  });
+
+  it('records agent actions and saves them as a test', async () => {
+    render(<BrowserViewportPanel sessionId="session-1" isOpen onClose={vi.fn()} />);
+    expect(screen.queryByText('Save test')).not.toBeInTheDocument();
+
+    fireEvent.click(await screen.findByText('Record'));
+    expect(await screen.findByText('Recording (1)')).toBeInTheDocument();
+    expect(browser.startRecording).toHaveBeenCalledWith('session-1');
+
+    fireEvent.click(screen.getByText('Recording (1)'));
+    await screen.findByText('Record');
+    expect(browser.stopRecording).toHaveBeenCalledWith('session-1');
+
+    fireEvent.click(screen.getByText('Save test'));
+    expect(
+      await screen.findByText('Saved 3 steps to /repo/tests/e2e/login.spec.ts')
+    ).toBeInTheDocument();
+    expect(browser.saveRecording).toHaveBeenCalledWith('session-1');
+  });
+
+  it('stops streaming when closed', async () => {
+    const { rerender } = render(
+      <BrowserViewportPanel sessionId="session-1" isOpen onClose={vi.fn()} />
+    );
+    await screen.findByText('Record');
+    rerender(<BrowserViewportPanel sessionId="session-1" isOpen={false} onClose={vi.fn()} />);
+    expect(browser.stopViewport).toHaveBeenCalledWith('session-1');
+  });
+
+  it('types characters as text and presses everything else as keys', () => {
+    const key = (k: string, mods: Partial<KeyboardEvent> = {}) =>
+      toViewportKeyInput({
+        key: k,
+        ctrlKey: false,
+        metaKey: false,
+        altKey: false,
+        shiftKey: false,
+        ...mods,
+      });
+
+    expect(key('a')).toEqual({ type: 'text', text: 'a' });
+    expect(key('A', { shiftKey: true })).toEqual({ type: 'text', text: 'A' });
+    expect(key('Enter')).toEqual({ type: 'key', key: 'Enter' });
+    expect(key('a', { ctrlKey: true })).toEqual({ type: 'key', key: 'Control+a' });
+    expect(key('Tab', { shiftKey: true })).toEqual({ type: 'key', key: 'Shift+Tab' });
+    expect(key('Shift', { shiftKey: true })).toBeNull();
+  });
+});
@@ -5,6 +5,7 @@ import { CreateWorktreeSession } from '../../src/renderer/features/sessions/Crea
 // Mock the electronAPI
 const mockFetchGitHubIssue = vi.fn();
 const mockFetchAzureDevOpsWorkItem = vi.fn();
+const mockFetchIssue = vi.fn();
 const mockCheckGitVersion = vi.fn();
 const mockListBranches = vi.fn();
 
@@ -20,6 +21,7 @@ beforeEach(() => {
     worktree: {
       fetchGitHubIssue: mockFetchGitHubIssue,
       fetchAzureDevOpsWorkItem: mockFetchAzureDevOpsWorkItem,
+      fetchIssue: mockFetchIssue,
       checkGitVersion: mockCheckGitVersion,
       listBranches: mockListBranches,
       createSession: vi.fn(),
@@ -129,6 +131,45 @@ describe('CreateWorktreeSession', () => {
     });
   });
 
+  it('calls fetchIssue for Jira URLs and uses the suggested branch', async () => {
+    mockFetchIssue.mockResolvedValue({
+      success: true,
+      provider: 'jira',
+      issue: {
+        key: 'PROJ-12',
+        title: 'Crash on startup',
+        body: null,
+        state: 'To Do',
+        html_url: '',
+      },
+      suggestedBranch: 'feature/PROJ-12-crash-on-startup',
+    });
+
+    render(
+      <CreateWorktreeSession
+        isOpen={true}
+        onClose={() => {}}
+        repoPath="/test/repo"
+        onSessionCreated={() => {}}
+      />
+    );
+
+    await waitFor(() => {
+      expect(mockCheckGitVersion).toHaveBeenCalled();
+    });
+
+    fireEvent.click(screen.getByText(/Issue \/ Work Item/i));
+    fireEvent.change(screen.getByPlaceholderText(/GitHub or Azure DevOps URL/i), {
+      target: { value: 'https://acme.atlassian.net/browse/PROJ-12' },
+    });
+    fireEvent.click(screen.getByText('Fetch'));
+
+    await waitFor(() => {
+      expect(screen.getByDisplayValue('feature/PROJ-12-crash-on-startup')).toBeInTheDocument();
+    });
+    expect(mockFetchIssue).toHaveBeenCalledWith('https://acme.atlassian.net/browse/PROJ-12');
+  });
+
   it('calls fetchAzureDevOpsWorkItem for visualstudio.com URLs', async () => {
     mockFetchAzureDevOpsWorkItem.mockResolvedValue({
       title: 'Test Work Item',
@@ -0,0 +1,109 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import React from 'react';
+import { IssueBatchLauncher } from '../../src/renderer/features/sessions/IssueBatchLauncher';
+import type { BatchQueueItem } from '../../src/renderer/features/sessions/issueBatchQueue';
+
+const mockListGitHubIssues = vi.fn();
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  window.electronAPI = {
+    ...window.electronAPI,
+    worktree: { listGitHubIssues: mockListGitHubIssues },
+  } as any;
+});
+
+const renderLauncher = (props: Partial<React.ComponentProps<typeof IssueBatchLauncher>> = {}) => {
+  const handlers = {
+    onQueue: vi.fn(),
+    onOpenSession: vi.fn(),
+    onRetry: vi.fn(),
+    onCancel: vi.fn(),
+    onClearFinished: vi.fn(),
+    onMaxConcurrentChange: vi.fn(),
+  };
+  render(
+    <IssueBatchLauncher
+      isOpen
+      onClose={vi.fn()}
+      repoPath="/repo"
+      items={[]}
+      maxConcurrent={3}
+      {...handlers}
+      {...props}
+    />
+  );
+  return handlers;
+};
+
+describe('IssueBatchLauncher', () => {
+  it('queues pasted issue URLs with the chosen agent mode', () => {
+    const { onQueue } = renderLauncher();
+
+    fireEvent.change(screen.getByLabelText('Issue URLs (one per line)'), {
+      target: {
+        value: 'https://github.com/o/r/issues/1\nhttps://dev.azure.com/org/p/_workitems/edit/2',
+      },
+    });
+    fireEvent.click(screen.getByText('Lisa'));
+    fireEvent.click(screen.getByText('Queue 2 issues'));
+
+    expect(onQueue).toHaveBeenCalledWith(
+      ['https://github.com/o/r/issues/1', 'https://dev.azure.com/org/p/_workitems/edit/2'],
+      { mode: 'lisa', ralphMaxIterations: 5, yoloMode: false }
+    );
+  });
+
+  it('adds issues found by label', async () => {
+    mockListGitHubIssues.mockResolvedValue({
+      success: true,
+      issues: [
+        { number: 7, title: 'Crash on save', url: 'https://github.com/o/r/issues/7' },
+        { number: 8, title: 'Typo', url: 'https://github.com/o/r/issues/8' },
+      ],
+    });
+    renderLauncher();
+
+    fireEvent.change(screen.getByLabelText('Label'), { target: { value: 'bug' } });
+    fireEvent.click(screen.getByText('Find issues'));
+
+    await waitFor(() => expect(screen.getByText('Queue 2 issues')).toBeInTheDocument());
+    expect(mockListGitHubIssues).toHaveBeenCalledWith('/repo', { label: 'bug', milestone: '' });
+  });
+
+  it('shows the queue with per-issue status and actions', () => {
+    const base = {
+      repoPath: '/repo',
+      options: { mode: 'ralph' as const, ralphMaxIterations: 5, yoloMode: false },
+    };
+    const items: BatchQueueItem[] = [
+      {
+        ...base,
+        id: 'a',
+        issueUrl: 'https://github.com/o/r/issues/1',
+        status: 'running',
+        title: 'Crash on save',
+        sessionId: 'session-1',
+      },
+      {
+        ...base,
+        id: 'b',
+        issueUrl: 'https://github.com/o/r/issues/2',
+        status: 'failed',
+        error: 'Issue not found',
+      },
+      { ...base, id: 'c', issueUrl: 'https://github.com/o/r/issues/3', status: 'queued' },
+    ];
+    const { onOpenSession, onRetry, onCancel } = renderLauncher({ items });
+
+    expect(screen.getByText('1 queued · 1 running · 0 done · 1 failed')).toBeInTheDocument();
+    fireEvent.click(screen.getByText('Open'));
+    expect(onOpenSession).toHaveBeenCalledWith('session-1');
+    expect(screen.getByText('Issue not found')).toBeInTheDocument();
+    fireEvent.click(screen.getByText('Retry'));
+    expect(onRetry).toHaveBeenCalledWith('b');
+    fireEvent.click(screen.getByLabelText('Remove https://github.com/o/r/issues/3 from queue'));
+    expect(onCancel).toHaveBeenCalledWith('c');
+  });
+});
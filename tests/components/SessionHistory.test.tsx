@@ -1,4 +1,4 @@
-import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { render, screen, within, waitFor } from '@testing-library/react';
 import userEvent from '@testing-library/user-event';
 import React from 'react';
@@ -318,6 +318,36 @@ describe('SessionHistory Component', () => {
         newerEl.compareDocumentPosition(olderEl) & Node.DOCUMENT_POSITION_FOLLOWING
       ).toBeTruthy();
     });
+
+    it('lists forks under the session they were forked from', async () => {
+      const parent = createMockSession('parent', 'Parent session', 3, '/Users/dev/project-a');
+      const fork = {
+        ...createMockSession('fork', 'Forked session', 0, '/Users/dev/project-a'),
+        parentSessionId: 'parent',
+      };
+      const other = createMockSession('other', 'Unrelated session', 1, '/Users/dev/project-a');
+
+      await renderAndSettle(
+        <SessionHistory
+          isOpen={true}
+          onClose={mockOnClose}
+          sessions={[parent, fork, other]}
+          onResumeSession={mockOnResumeSession}
+          onDeleteSession={mockOnDeleteSession}
+          activeSessions={[]}
+          activeSessionId={null}
+          onSwitchToSession={mockOnSwitchToSession}
+        />
+      );
+
+      // The fork follows its parent in "Last 7 Days" instead of appearing under "Today"
+      expect(screen.queryByText('Today')).not.toBeInTheDocument();
+      const parentRow = screen.getByText('Parent session').closest('[role="button"]')!;
+      const forkRow = screen.getByText('Forked session').closest('[role="button"]')!;
+      expect(parentRow.nextElementSibling).toBe(forkRow);
+      expect(forkRow).toHaveAttribute('data-fork-depth', '1');
+      expect(parentRow).not.toHaveAttribute('data-fork-depth');
+    });
   });
 
   describe('Session Display', () => {
@@ -998,4 +1028,95 @@ describe('SessionHistory Component', () => {
       expect(screen.getByText('other/branch')).toBeInTheDocument();
     });
   });
+
+  describe('Transcript Search', () => {
+    const searchSessions = vi.fn();
+
+    beforeEach(() => {
+      searchSessions.mockResolvedValue({
+        success: true,
+        results: [
+          {
+            sessionId: 'session-old-1',
+            modifiedTime: new Date().toISOString(),
+            cwd: '/Users/dev/legacy',
+            model: 'gpt-5',
+            hits: [
+              {
+                kind: 'tool',
+                messageIndex: 4,
+                toolName: 'bash',
+                snippet: 'npm run migration:up failed',
+              },
+            ],
+            totalHits: 1,
+          },
+        ],
+        facets: { cwds: ['/Users/dev/legacy'], models: ['gpt-5'] },
+      });
+      (window.electronAPI as unknown as Record<string, unknown>).copilot = { searchSessions };
+    });
+
+    afterEach(() => {
+      delete (window.electronAPI as unknown as Record<string, unknown>).copilot;
+    });
+
+    it('shows transcript hits and jumps to the message when one is opened', async () => {
+      const user = userEvent.setup();
+      const onJumpToMessage = vi.fn();
+      await renderAndSettle(
+        <SessionHistory
+          isOpen={true}
+          onClose={mockOnClose}
+          sessions={createMockSessions()}
+          onResumeSession={mockOnResumeSession}
+          onDeleteSession={mockOnDeleteSession}
+          activeSessions={[]}
+          activeSessionId={null}
+          onSwitchToSession={mockOnSwitchToSession}
+          onJumpToMessage={onJumpToMessage}
+        />
+      );
+
+      await user.type(screen.getByPlaceholderText('Search sessions...'), 'migration');
+
+      const hit = await screen.findByTestId('session-search-hit');
+      expect(within(hit).getByText('migration')).toBeInTheDocument();
+      expect(searchSessions).toHaveBeenLastCalledWith('migration', { since: undefined });
+
+      await user.click(hit);
+
+      expect(onJumpToMessage).toHaveBeenCalledWith('session-old-1', 4, 'migration');
+      expect(mockOnResumeSession).toHaveBeenCalledWith(
+        expect.objectContaining({ sessionId: 'session-old-1', name: 'Legacy migration' })
+      );
+    });
+
+    it('passes folder and model filters to the search', async () => {
+      const user = userEvent.setup();
+      await renderAndSettle(
+        <SessionHistory
+          isOpen={true}
+          onClose={mockOnClose}
+          sessions={createMockSessions()}
+          onResumeSession={mockOnResumeSession}
+          onDeleteSession={mockOnDeleteSession}
+          activeSessions={[]}
+          activeSessionId={null}
+          onSwitchToSession={mockOnSwitchToSession}
+        />
+      );
+
+      await user.type(screen.getByPlaceholderText('Search sessions...'), 'migration');
+      await screen.findByTestId('session-search-hit');
+      await user.selectOptions(screen.getByLabelText('Filter by model'), 'gpt-5');
+
+      await waitFor(() =>
+        expect(searchSessions).toHaveBeenLastCalledWith('migration', {
+          model: 'gpt-5',
+          since: undefined,
+        })
+      );
+    });
+  });
 });
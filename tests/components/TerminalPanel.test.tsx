@@ -0,0 +1,273 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent, waitFor, act } from '@testing-library/react';
+import React from 'react';
+
+const xtermWrites = vi.hoisted(() => [] as string[]);
+
+vi.mock('@xterm/xterm', () => ({
+  Terminal: class {
+    loadAddon = vi.fn();
+    open = vi.fn();
+    attachCustomKeyEventHandler = vi.fn();
+    onData = vi.fn();
+    write = vi.fn((data: string) => xtermWrites.push(data));
+    writeln = vi.fn();
+    clear = vi.fn();
+    dispose = vi.fn();
+    buffer = { active: { length: 0, baseY: 0, cursorY: 0, getLine: vi.fn() } };
+  },
+}));
+vi.mock('@xterm/addon-fit', () => ({
+  FitAddon: class {
+    fit = vi.fn();
+    proposeDimensions = vi.fn(() => ({ cols: 80, rows: 24 }));
+  },
+}));
+vi.mock('@xterm/xterm/css/xterm.css', () => ({}));
+
+import { TerminalPanel } from '../../src/renderer/components/Terminal/TerminalPanel';
+
+describe('TerminalPanel', () => {
+  let pty: Record<string, ReturnType<typeof vi.fn>>;
+  type DataEvent = { sessionId: string; terminalId: string; data: string };
+  const dataListeners = new Set<(data: DataEvent) => void>();
+  const emitData = (data: DataEvent) => dataListeners.forEach((listener) => listener(data));
+
+  beforeEach(() => {
+    xtermWrites.length = 0;
+    dataListeners.clear();
+    pty = {
+      create: vi.fn().mockResolvedValue({ success: true }),
+      write: vi.fn().mockResolvedValue({ success: true }),
+      resize: vi.fn().mockResolvedValue({ success: true }),
+      rename: vi.fn().mockResolvedValue({ success: true }),
+      clearBuffer: vi.fn().mockResolvedValue({ success: true }),
+      close: vi.fn().mockResolvedValue({ success: true }),
+      forget: vi.fn().mockResolvedValue({ success: true }),
+      getHistory: vi.fn().mockResolvedValue({ terminals: [] }),
+      getCommandBlocks: vi.fn().mockResolvedValue({
+        success: true,
+        blocks: [],
+        shellIntegration: true,
+      }),
+      setStartupCommand: vi.fn().mockImplementation(async (_s, _t, command: string) => ({
+        success: true,
+        startupCommand: command || undefined,
+      })),
+      exists: vi.fn().mockResolvedValue({ exists: false }),
+      getOutput: vi.fn().mockResolvedValue({ success: true, output: '' }),
+      list: vi.fn().mockResolvedValue({ terminals: [] }),
+      onData: vi.fn().mockImplementation((cb) => {
+        dataListeners.add(cb);
+        return () => dataListeners.delete(cb);
+      }),
+      onExit: vi.fn().mockReturnValue(() => {}),
+    };
+    (window.electronAPI as unknown as Record<string, unknown>).pty = pty;
+  });
+
+  const renderPanel = () =>
+    render(
+      <TerminalPanel
+        sessionId="session-1"
+        cwd="/repo/app"
+        isOpen
+        onClose={vi.fn()}
+        onSendToAgent={vi.fn()}
+      />
+    );
+
+  it('starts one terminal and opens more in their own tabs', async () => {
+    renderPanel();
+    await waitFor(() =>
+      expect(pty.create).toHaveBeenCalledWith('session-1', '/repo/app', 'main', 'Terminal 1', {
+        restoreScrollback: false,
+        runStartupCommand: false,
+      })
+    );
+
+    fireEvent.click(screen.getByLabelText('New terminal'));
+    await waitFor(() =>
+      expect(pty.create).toHaveBeenCalledWith(
+        'session-1',
+        '/repo/app',
+        'terminal-2',
+        'Terminal 2',
+        { restoreScrollback: false, runStartupCommand: false }
+      )
+    );
+    expect(screen.getAllByRole('tab')).toHaveLength(2);
+    expect(screen.getByTestId('terminal-view-main').parentElement).toHaveClass('hidden');
+
+    // Switching back keeps the first terminal's PTY
+    fireEvent.click(screen.getByText('Terminal 1'));
+    expect(screen.getByTestId('terminal-view-main').parentElement).not.toHaveClass('hidden');
+    expect(pty.close).not.toHaveBeenCalled();
+  });
+
+  it('only counts output from its own terminal', async () => {
+    renderPanel();
+    await waitFor(() => expect(pty.create).toHaveBeenCalled());
+    await waitFor(() => expect(screen.getByText('Add to Message')).toBeDisabled());
+
+    act(() => emitData({ sessionId: 'session-1', terminalId: 'other', data: 'a\nb\n' }));
+    expect(screen.queryByText('(2 lines)')).not.toBeInTheDocument();
+    act(() => emitData({ sessionId: 'session-1', terminalId: 'main', data: 'a\nb\n' }));
+    expect(screen.getByText('(2 lines)')).toBeInTheDocument();
+  });
+
+  it('splits into two panes and closes a terminal', async () => {
+    renderPanel();
+    fireEvent.click(screen.getByTitle('Split terminal'));
+    await waitFor(() => expect(pty.create).toHaveBeenCalledTimes(2));
+    expect(screen.getByTestId('terminal-view-main').parentElement).not.toHaveClass('hidden');
+    expect(screen.getByTestId('terminal-view-terminal-2').parentElement).not.toHaveClass('hidden');
+
+    fireEvent.click(screen.getByLabelText('Close Terminal 2'));
+    expect(pty.close).toHaveBeenCalledWith('session-1', 'terminal-2');
+    expect(pty.forget).toHaveBeenCalledWith('session-1', 'terminal-2');
+    expect(screen.getAllByRole('tab')).toHaveLength(1);
+    expect(screen.getByTitle('Split terminal')).toHaveAttribute('aria-pressed', 'false');
+  });
+
+  it('renames a terminal', async () => {
+    renderPanel();
+    await waitFor(() => expect(pty.create).toHaveBeenCalled());
+    fireEvent.doubleClick(screen.getByText('Terminal 1'));
+    const input = screen.getByLabelText('Terminal name');
+    fireEvent.change(input, { target: { value: 'dev server' } });
+    fireEvent.keyDown(input, { key: 'Enter' });
+
+    expect(screen.getByText('dev server')).toBeInTheDocument();
+    expect(pty.rename).toHaveBeenCalledWith('session-1', 'main', 'dev server');
+  });
+
+  it('restores saved terminals with their scrollback', async () => {
+    pty.getHistory.mockResolvedValue({
+      terminals: [
+        { terminalId: 'main', name: 'shell', scrollback: '$ ls\r\nsrc\r\n' },
+        {
+          terminalId: 'terminal-3',
+          name: 'dev server',
+          startupCommand: 'npm run dev',
+          scrollback: '',
+        },
+      ],
+    });
+    renderPanel();
+
+    await waitFor(() =>
+      expect(pty.create).toHaveBeenCalledWith('session-1', '/repo/app', 'main', 'shell', {
+        restoreScrollback: true,
+        runStartupCommand: true,
+      })
+    );
+    expect(xtermWrites).toContain('$ ls\r\nsrc\r\n');
+    expect(screen.getAllByRole('tab').map((tab) => tab.textContent)).toEqual([
+      expect.stringContaining('shell'),
+      expect.stringContaining('dev server'),
+    ]);
+
+    // New terminals are numbered after the restored ones and don't run startup commands
+    fireEvent.click(screen.getByLabelText('New terminal'));
+    await waitFor(() =>
+      expect(pty.create).toHaveBeenCalledWith(
+        'session-1',
+        '/repo/app',
+        'terminal-4',
+        'Terminal 4',
+        { restoreScrollback: false, runStartupCommand: false }
+      )
+    );
+  });
+
+  it('saves a startup command for the focused terminal', async () => {
+    renderPanel();
+    await waitFor(() => expect(pty.create).toHaveBeenCalled());
+
+    fireEvent.click(screen.getByTitle('Startup command'));
+    const input = screen.getByLabelText('Startup command');
+    fireEvent.change(input, { target: { value: 'npm run dev' } });
+    fireEvent.keyDown(input, { key: 'Enter' });
+
+    await waitFor(() => expect(screen.queryByLabelText('Startup command')).not.toBeInTheDocument());
+    expect(pty.setStartupCommand).toHaveBeenCalledWith('session-1', 'main', 'npm run dev');
+    expect(screen.getByRole('tab')).toHaveAttribute(
+      'title',
+      expect.stringContaining('runs npm run dev on start')
+    );
+  });
+
+  it('attaches a command block or the last failed command', async () => {
+    pty.getCommandBlocks.mockResolvedValue({
+      success: true,
+      shellIntegration: true,
+      blocks: [
+        {
+          id: 1,
+          command: 'npm test',
+          output: 'FAIL src/app.test.ts',
+          exitCode: 1,
+          startedAt: 0,
+          finishedAt: 3200,
+          durationMs: 3200,
+        },
+        {
+          id: 2,
+          command: 'ls',
+          output: 'src',
+          exitCode: 0,
+          startedAt: 4000,
+          finishedAt: 4010,
+          durationMs: 10,
+        },
+      ],
+    });
+    const onSendToAgent = vi.fn();
+    render(
+      <TerminalPanel
+        sessionId="session-1"
+        cwd="/repo/app"
+        isOpen
+        onClose={vi.fn()}
+        onSendToAgent={onSendToAgent}
+      />
+    );
+    await waitFor(() => expect(pty.create).toHaveBeenCalled());
+
+    fireEvent.click(screen.getByTitle('Commands run in this terminal'));
+    await waitFor(() => expect(screen.getByText('ls')).toBeInTheDocument());
+    expect(pty.getCommandBlocks).toHaveBeenCalledWith('session-1', 'main');
+
+    fireEvent.click(screen.getByText('Attach last failed command'));
+    expect(onSendToAgent).toHaveBeenCalledWith(
+      '$ npm test\nFAIL src/app.test.ts\n[exit code 1 · 3.2s]',
+      3
+    );
+
+    fireEvent.click(screen.getByText('ls'));
+    expect(onSendToAgent).toHaveBeenLastCalledWith('$ ls\nsrc\n[exit code 0 · <1s]', 3);
+  });
+
+  it('shows a terminal the main process started and attaches to its output', async () => {
+    renderPanel();
+    await waitFor(() => expect(pty.create).toHaveBeenCalledTimes(1));
+    pty.list.mockResolvedValue({
+      terminals: [
+        { terminalId: 'main', name: 'Terminal 1' },
+        { terminalId: 'setup', name: 'Setup' },
+      ],
+    });
+    pty.exists.mockImplementation(async (_s, terminalId: string) => ({
+      exists: terminalId === 'setup',
+    }));
+    pty.getOutput.mockResolvedValue({ success: true, output: '$ npm ci\r\n' });
+
+    act(() => emitData({ sessionId: 'session-1', terminalId: 'setup', data: 'added 1 package' }));
+
+    await waitFor(() => expect(screen.getByRole('tab', { name: /Setup/ })).toBeInTheDocument());
+    await waitFor(() => expect(pty.getOutput).toHaveBeenCalledWith('session-1', 'setup'));
+    expect(xtermWrites).toContain('$ npm ci\r\n');
+    expect(pty.create).toHaveBeenCalledTimes(1);
+  });
+});
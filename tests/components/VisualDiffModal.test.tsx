@@ -0,0 +1,91 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import React from 'react';
+import { VisualDiffModal } from '../../src/renderer/components/BrowserViewport/VisualDiffModal';
+import { VisualBaselineEntry } from '../../src/renderer/types';
+
+const entry = (overrides: Partial<VisualBaselineEntry> = {}): VisualBaselineEntry => ({
+  id: 'home-1280x800',
+  name: 'home',
+  url: 'http://localhost:3000/',
+  viewport: { width: 1280, height: 800 },
+  fullPage: false,
+  createdAt: '2026-01-01T10:00:00.000Z',
+  updatedAt: '2026-01-01T10:00:00.000Z',
+  ...overrides,
+});
+
+describe('VisualDiffModal', () => {
+  let browser: Record<string, ReturnType<typeof vi.fn>>;
+
+  beforeEach(() => {
+    browser = {
+      listVisualBaselines: vi.fn().mockResolvedValue({
+        baselines: [
+          entry(),
+          entry({
+            id: 'settings-1280x800',
+            name: 'settings',
+            url: 'http://localhost:3000/settings',
+            lastComparison: {
+              baselineId: 'settings-1280x800',
+              name: 'settings',
+              url: 'http://localhost:3000/settings',
+              comparedAt: '2026-01-02T10:00:00.000Z',
+              diffPixels: 4096,
+              totalPixels: 1024000,
+              mismatchPercent: 0.4,
+              maxMismatchPercent: 0.1,
+              passed: false,
+            },
+          }),
+        ],
+      }),
+      getVisualImages: vi
+        .fn()
+        .mockResolvedValue({ baseline: 'YmFzZQ==', actual: 'YWN0dWFs', diff: 'ZGlmZg==' }),
+      acceptVisualBaseline: vi.fn().mockResolvedValue({ success: true }),
+      deleteVisualBaseline: vi.fn().mockResolvedValue({ success: true }),
+    };
+    (window.electronAPI as unknown as Record<string, unknown>).browser = browser;
+  });
+
+  it('opens on the failed comparison and shows its mismatch and diff', async () => {
+    render(<VisualDiffModal sessionId="session-1" isOpen onClose={vi.fn()} />);
+
+    expect(await screen.findByTestId('visual-mismatch')).toHaveTextContent(
+      '0.4% mismatch (allowed 0.1%)'
+    );
+    await waitFor(() =>
+      expect(browser.getVisualImages).toHaveBeenCalledWith('session-1', 'settings-1280x800')
+    );
+    expect(await screen.findByAltText('Differences')).toHaveAttribute(
+      'src',
+      'data:image/png;base64,ZGlmZg=='
+    );
+
+    fireEvent.click(screen.getByText('Side by side'));
+    expect(screen.getByAltText('Baseline')).toBeInTheDocument();
+    expect(screen.getByAltText('Actual')).toBeInTheDocument();
+  });
+
+  it('accepts the new screenshot as the baseline', async () => {
+    render(<VisualDiffModal sessionId="session-1" isOpen onClose={vi.fn()} />);
+    fireEvent.click(await screen.findByText('Accept as baseline'));
+    await waitFor(() =>
+      expect(browser.acceptVisualBaseline).toHaveBeenCalledWith('session-1', 'settings-1280x800')
+    );
+    expect(browser.listVisualBaselines).toHaveBeenCalledTimes(2);
+  });
+
+  it('shows only the baseline when it has not been compared', async () => {
+    render(<VisualDiffModal sessionId="session-1" isOpen onClose={vi.fn()} />);
+    fireEvent.click(await screen.findByText('home'));
+    await waitFor(() =>
+      expect(browser.getVisualImages).toHaveBeenCalledWith('session-1', 'home-1280x800')
+    );
+    expect(screen.queryByTestId('visual-mismatch')).not.toBeInTheDocument();
+    expect(screen.queryByText('Accept as baseline')).not.toBeInTheDocument();
+    expect(await screen.findByAltText('Baseline')).toBeInTheDocument();
+  });
+});
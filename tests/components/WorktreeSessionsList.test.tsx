@@ -0,0 +1,148 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { act, render, screen, fireEvent, waitFor, within } from '@testing-library/react';
+import {
+  WorktreeSessionsList,
+  sortWorktreeSessions,
+} from '../../src/renderer/features/sessions/WorktreeSessionsList';
+
+const MB = 1024 * 1024;
+
+const session = (id: string, sizeMB: number | null, lastAccessedAt: string, dirty = false) => ({
+  id,
+  repoPath: '/repo',
+  branch: id,
+  worktreePath: `/worktrees/${id}`,
+  createdAt: '2026-01-01T00:00:00Z',
+  lastAccessedAt,
+  status: 'idle' as const,
+  usage:
+    sizeMB === null
+      ? undefined
+      : {
+          sizeBytes: sizeMB * MB,
+          hasUncommittedChanges: dirty,
+          hasUnpushedCommits: false,
+          scannedAt: '2026-10-01T00:00:00Z',
+        },
+});
+
+const sessions = [
+  session('small', 10, '2026-09-01T00:00:00Z'),
+  session('large', 900, '2026-10-01T00:00:00Z', true),
+  session('unscanned', null, '2026-08-01T00:00:00Z'),
+];
+
+const mockListSessions = vi.fn();
+const mockGetUsage = vi.fn();
+const mockRemoveSession = vi.fn();
+const mockGetWorkingStatus = vi.fn();
+const mockOnTeardownProgress = vi.fn();
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  mockListSessions.mockResolvedValue({ sessions });
+  mockGetUsage.mockResolvedValue({
+    sessions: {},
+    freeBytes: 200 * MB,
+    thresholdMB: 1024,
+    lowDiskSpace: true,
+    scannedAt: '2026-10-01T00:00:00Z',
+  });
+  mockRemoveSession.mockResolvedValue({ success: true });
+  mockGetWorkingStatus.mockImplementation(async (path: string) => ({
+    success: true,
+    hasUncommittedChanges: path === '/worktrees/large',
+    hasUnpushedCommits: false,
+  }));
+
+  window.electronAPI = {
+    ...window.electronAPI,
+    worktree: {
+      listSessions: mockListSessions,
+      getUsage: mockGetUsage,
+      removeSession: mockRemoveSession,
+      pruneSessions: vi.fn().mockResolvedValue({ pruned: [], errors: [], warnings: [] }),
+      onTeardownProgress: mockOnTeardownProgress.mockReturnValue(() => {}),
+    },
+    git: { ...window.electronAPI.git, getWorkingStatus: mockGetWorkingStatus },
+  } as any;
+});
+
+describe('WorktreeSessionsList', () => {
+  it('sorts by size with unscanned worktrees last, or by least recently used', () => {
+    expect(sortWorktreeSessions(sessions, 'size').map((s) => s.id)).toEqual([
+      'large',
+      'small',
+      'unscanned',
+    ]);
+    expect(sortWorktreeSessions(sessions, 'age').map((s) => s.id)).toEqual([
+      'unscanned',
+      'small',
+      'large',
+    ]);
+  });
+
+  it('warns about low disk space and shows sizes and changes', async () => {
+    render(<WorktreeSessionsList isOpen onClose={vi.fn()} onOpenSession={vi.fn()} />);
+
+    expect(await screen.findByRole('alert')).toHaveTextContent(
+      'Low disk space: 200.0 MB free, below the 1.0 GB warning threshold'
+    );
+    expect(screen.getByText('900.0 MB')).toBeInTheDocument();
+    expect(screen.getByText('Uncommitted changes')).toBeInTheDocument();
+    expect(screen.getByText(/Total: 3 sessions · 910\.0 MB · 200\.0 MB free/)).toBeInTheDocument();
+  });
+
+  it('removes selected worktrees after confirming and shows teardown warnings', async () => {
+    const onRemoveSession = vi.fn();
+    mockRemoveSession.mockImplementation(async ({ sessionId }: { sessionId: string }) =>
+      sessionId === 'large'
+        ? { success: true, warnings: ['Teardown command failed: docker compose down: exit 1'] }
+        : { success: true }
+    );
+    render(
+      <WorktreeSessionsList
+        isOpen
+        onClose={vi.fn()}
+        onOpenSession={vi.fn()}
+        onRemoveSession={onRemoveSession}
+      />
+    );
+    fireEvent.click(await screen.findByLabelText('Select large'));
+    fireEvent.click(screen.getByLabelText('Select small'));
+    fireEvent.click(screen.getByText('Remove Selected (2)'));
+
+    const dialog = await screen.findByText('Remove 2 worktrees (910.0 MB)?');
+    expect(within(dialog.parentElement!).getByText('large has uncommitted changes')).toBeTruthy();
+
+    mockListSessions.mockResolvedValue({ sessions: [sessions[2]] });
+    fireEvent.click(screen.getByText('Remove Worktrees'));
+
+    await waitFor(() =>
+      expect(screen.getByText('Removed 2 worktrees, freeing 910.0 MB')).toBeInTheDocument()
+    );
+    expect(mockRemoveSession).toHaveBeenCalledWith({ sessionId: 'large', force: true });
+    expect(mockRemoveSession).toHaveBeenCalledWith({ sessionId: 'small', force: true });
+    expect(onRemoveSession).toHaveBeenCalledWith('/worktrees/large');
+    expect(
+      screen.getByText(/large: Teardown command failed: docker compose down: exit 1/)
+    ).toBeInTheDocument();
+  });
+
+  it('shows the teardown command a removal is waiting on', async () => {
+    let finishRemoval: (value: { success: boolean }) => void = () => {};
+    mockRemoveSession.mockReturnValue(new Promise((resolve) => (finishRemoval = resolve)));
+    render(<WorktreeSessionsList isOpen onClose={vi.fn()} onOpenSession={vi.fn()} />);
+    fireEvent.click(await screen.findByLabelText('Select small'));
+    fireEvent.click(screen.getByText('Remove Selected (1)'));
+    fireEvent.click(await screen.findByText('Remove Worktrees'));
+
+    await waitFor(() => expect(mockRemoveSession).toHaveBeenCalled());
+    const onProgress = mockOnTeardownProgress.mock.calls.at(-1)![0];
+    act(() => onProgress({ sessionId: 'small', command: 'docker compose down' }));
+    expect(screen.getByText('Running teardown for small: docker compose down')).toBeInTheDocument();
+
+    await act(async () => finishRemoval({ success: true }));
+    expect(screen.queryByText(/Running teardown/)).not.toBeInTheDocument();
+  });
+});
@@ -5,10 +5,10 @@ import {
   compressOutput,
   countLines,
   extractLastRun,
-  stripAnsiCodes,
   LONG_OUTPUT_LINE_THRESHOLD,
   DEFAULT_LAST_LINES_COUNT,
 } from '../../src/renderer/utils/cliOutputCompression';
+import { stripAnsiCodes } from '../../src/shared/ansi';
 
 describe('CLI Output Compression Utilities', () => {
   describe('stripAnsiCodes', () => {
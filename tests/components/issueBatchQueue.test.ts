@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import {
+  countByStatus,
+  detectIssueSource,
+  isSessionIdle,
+  itemsToStart,
+  parseIssueUrls,
+  type BatchItemStatus,
+  type BatchQueueItem,
+} from '../../src/renderer/features/sessions/issueBatchQueue';
+
+const item = (id: string, status: BatchItemStatus): BatchQueueItem => ({
+  id,
+  issueUrl: `https://github.com/owner/repo/issues/${id}`,
+  repoPath: '/repo',
+  options: { mode: 'ralph', ralphMaxIterations: 5, yoloMode: false },
+  status,
+});
+
+describe('issue batch queue', () => {
+  it('detects GitHub issues and Azure DevOps work items', () => {
+    expect(detectIssueSource('https://github.com/owner/repo/issues/12')).toBe('github');
+    expect(detectIssueSource('https://dev.azure.com/org/project/_workitems/edit/34')).toBe(
+      'azure-devops'
+    );
+    expect(detectIssueSource('https://org.visualstudio.com/project/_workitems/edit/5')).toBe(
+      'azure-devops'
+    );
+    expect(detectIssueSource('https://github.com/owner/repo/pull/12')).toBeNull();
+  });
+
+  it('detects Jira and GitLab issues', () => {
+    expect(detectIssueSource('https://acme.atlassian.net/browse/PROJ-123')).toBe('jira');
+    expect(detectIssueSource('https://jira.acme.com/jira/browse/OPS-7')).toBe('jira');
+    expect(
+      detectIssueSource(
+        'https://acme.atlassian.net/jira/software/projects/P/boards/1?selectedIssue=PR-9'
+      )
+    ).toBe('jira');
+    expect(detectIssueSource('https://gitlab.com/group/sub/project/-/issues/42')).toBe('gitlab');
+    expect(detectIssueSource('https://git.acme.com/team/app/-/issues/3')).toBe('gitlab');
+    expect(detectIssueSource('https://gitlab.com/group/project/-/merge_requests/42')).toBeNull();
+  });
+
+  it('parses pasted URLs, dropping duplicates and reporting invalid entries', () => {
+    const text = `https://github.com/owner/repo/issues/1
+      https://github.com/owner/repo/issues/2, https://github.com/owner/repo/issues/1
+      not-a-url`;
+
+    expect(parseIssueUrls(text)).toEqual({
+      urls: ['https://github.com/owner/repo/issues/1', 'https://github.com/owner/repo/issues/2'],
+      invalid: ['not-a-url'],
+    });
+  });
+
+  it('starts queued items in order without going over the concurrency limit', () => {
+    const items = [
+      item('1', 'done'),
+      item('2', 'running'),
+      item('3', 'queued'),
+      item('4', 'queued'),
+      item('5', 'queued'),
+    ];
+
+    expect(itemsToStart(items, 3).map((i) => i.id)).toEqual(['3', '4']);
+    expect(itemsToStart(items, 1)).toEqual([]);
+    expect(countByStatus(items)).toMatchObject({ queued: 3, running: 1, done: 1, failed: 0 });
+  });
+
+  it('treats a session as finished only when no agent loop is left', () => {
+    expect(isSessionIdle({ isProcessing: false })).toBe(true);
+    expect(isSessionIdle({ isProcessing: true })).toBe(false);
+    expect(isSessionIdle({ isProcessing: false, ralphConfig: { active: true } })).toBe(false);
+    expect(isSessionIdle({ isProcessing: false, lisaConfig: { active: false } })).toBe(true);
+  });
+});